@@ -2,6 +2,8 @@ module.exports = {
   moduleFileExtensions: ['js', 'json', 'ts'],
   rootDir: 'src',
   testRegex: '.*\\.spec\\.ts$',
+  // Workflow specs download the Temporal test server; run them with test:workflows
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/workflow/workflows/'],
   transform: {
     '^.+\\.(t|j)s$': 'ts-jest',
   },
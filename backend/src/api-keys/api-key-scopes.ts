@@ -0,0 +1,21 @@
+export enum ApiKeyScope {
+  APPLICATIONS_READ = 'applications:read',
+  APPLICATIONS_WRITE = 'applications:write',
+  NOTIFICATIONS_READ = 'notifications:read',
+  NOTIFICATIONS_WRITE = 'notifications:write',
+  NOTIFICATIONS_ADMIN = 'notifications:admin',
+  WEBHOOKS_MANAGE = 'webhooks:manage',
+  API_KEYS_ADMIN = 'api-keys:admin',
+}
+
+export const ALL_SCOPES: ApiKeyScope[] = Object.values(ApiKeyScope);
+
+// Granted to requests authenticated with a user's bearer token. Admin scopes
+// are only available to API keys.
+export const USER_SCOPES: ApiKeyScope[] = [
+  ApiKeyScope.APPLICATIONS_READ,
+  ApiKeyScope.APPLICATIONS_WRITE,
+  ApiKeyScope.NOTIFICATIONS_READ,
+  ApiKeyScope.NOTIFICATIONS_WRITE,
+  ApiKeyScope.WEBHOOKS_MANAGE,
+];
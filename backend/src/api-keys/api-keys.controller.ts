@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiSecurity,
+} from '@nestjs/swagger';
+
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { CreatedApiKeyDto } from './dto/created-api-key.dto';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeyScope } from './api-key-scopes';
+import { RequireScopes } from './decorators/require-scopes.decorator';
+
+@ApiTags('api-keys')
+@ApiSecurity('apikey')
+@RequireScopes(ApiKeyScope.API_KEYS_ADMIN)
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created; the full key is only returned here',
+    type: CreatedApiKeyDto,
+  })
+  @ApiResponse({ status: 403, description: 'Missing api-keys:admin scope' })
+  create(@Body() createApiKeyDto: CreateApiKeyDto): Promise<CreatedApiKeyDto> {
+    return this.apiKeysService.create(createApiKeyDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys, including revoked ones' })
+  @ApiResponse({ status: 200, description: 'API keys', type: [ApiKey] })
+  findAll(): Promise<ApiKey[]> {
+    return this.apiKeysService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an API key' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 200, description: 'API key', type: ApiKey })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  findOne(@Param('id') id: string): Promise<ApiKey> {
+    return this.apiKeysService.findOne(id);
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Issue a new secret for an API key, invalidating the old one',
+  })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key rotated; the new key is only returned here',
+    type: CreatedApiKeyDto,
+  })
+  @ApiResponse({ status: 404, description: 'API key not found or revoked' })
+  rotate(@Param('id') id: string): Promise<CreatedApiKeyDto> {
+    return this.apiKeysService.rotate(id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  revoke(@Param('id') id: string): Promise<void> {
+    return this.apiKeysService.revoke(id);
+  }
+}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+
+import { ApiKeysService, hashApiKey } from './api-keys.service';
+import { ApiKey } from './entities/api-key.entity';
+import { ALL_SCOPES, ApiKeyScope } from './api-key-scopes';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+
+  const mockApiKey = (overrides: Partial<ApiKey> = {}): ApiKey =>
+    Object.assign(new ApiKey(), {
+      id: '4c8e2a1f-7b3d-4f6a-9e5c-1d2b3a4f5e6d',
+      name: 'CI pipeline',
+      keyPrefix: 'jak_abcdef',
+      scopes: [ApiKeyScope.APPLICATIONS_READ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+  const mockRepository = {
+    create: jest.fn((apiKey) => apiKey),
+    save: jest.fn(async (apiKey) => ({ id: mockApiKey().id, ...apiKey })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'API_KEYS' ? 'pk-bootstrap' : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        {
+          provide: getRepositoryToken(ApiKey),
+          useValue: mockRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only the hash and return the key once', async () => {
+      // When
+      const result = await service.create({
+        name: 'CI pipeline',
+        scopes: [ApiKeyScope.APPLICATIONS_READ],
+      });
+
+      // Then
+      const saved = mockRepository.save.mock.calls[0][0];
+      expect(result.key).toMatch(/^jak_/);
+      expect(saved.keyHash).toBe(hashApiKey(result.key));
+      expect(saved.keyPrefix).toBe(result.key.slice(0, 10));
+      expect(result.apiKey.keyHash).toBeUndefined();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a key by its hash and record usage', async () => {
+      // Given
+      const apiKey = mockApiKey();
+      mockRepository.findOne.mockResolvedValue(apiKey);
+
+      // When
+      const result = await service.authenticate('jak_secret');
+
+      // Then
+      expect(result).toBe(apiKey);
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: { keyHash: hashApiKey('jak_secret') },
+        relations: ['owner'],
+      });
+      expect(mockRepository.update).toHaveBeenCalledWith(apiKey.id, {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('should not record usage again within a minute', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(
+        mockApiKey({ lastUsedAt: new Date(Date.now() - 5000) }),
+      );
+
+      // When
+      await service.authenticate('jak_secret');
+
+      // Then
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a revoked key', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(
+        mockApiKey({ revokedAt: new Date() }),
+      );
+
+      // When & Then
+      await expect(service.authenticate('jak_secret')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an expired key', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(
+        mockApiKey({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      // When & Then
+      await expect(service.authenticate('jak_secret')).rejects.toThrow(
+        'API key has expired',
+      );
+    });
+
+    it('should reject an unknown key', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(service.authenticate('jak_unknown')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should grant every scope to a bootstrap key from API_KEYS', async () => {
+      // When
+      const result = await service.authenticate('pk-bootstrap');
+
+      // Then
+      expect(result.scopes).toEqual(ALL_SCOPES);
+      expect(mockRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the hash and keep the key settings', async () => {
+      // Given
+      const apiKey = mockApiKey({ lastUsedAt: new Date() });
+      mockRepository.findOne.mockResolvedValue(apiKey);
+
+      // When
+      const result = await service.rotate(apiKey.id);
+
+      // Then
+      const saved = mockRepository.save.mock.calls[0][0];
+      expect(saved.keyHash).toBe(hashApiKey(result.key));
+      expect(saved.scopes).toEqual([ApiKeyScope.APPLICATIONS_READ]);
+      expect(saved.lastUsedAt).toBeNull();
+    });
+
+    it('should refuse to rotate a revoked key', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(
+        mockApiKey({ revokedAt: new Date() }),
+      );
+
+      // When & Then
+      await expect(service.rotate('some-id')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should mark the key as revoked', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockApiKey());
+
+      // When
+      await service.revoke('some-id');
+
+      // Then
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ revokedAt: expect.any(Date) }),
+      );
+    });
+  });
+});
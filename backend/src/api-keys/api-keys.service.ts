@@ -0,0 +1,161 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { CreatedApiKeyDto } from './dto/created-api-key.dto';
+import { ALL_SCOPES } from './api-key-scopes';
+
+const KEY_PREFIX = 'jak_';
+const DISPLAY_PREFIX_LENGTH = 10;
+
+// Avoid a database write on every request from a busy key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(createApiKeyDto: CreateApiKeyDto): Promise<CreatedApiKeyDto> {
+    const key = this.generateKey();
+
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        name: createApiKeyDto.name,
+        scopes: createApiKeyDto.scopes,
+        ownerId: createApiKeyDto.ownerId,
+        expiresAt: createApiKeyDto.expiresAt
+          ? new Date(createApiKeyDto.expiresAt)
+          : undefined,
+        keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+      }),
+    );
+
+    delete apiKey.keyHash;
+    console.log(`🔑 Created API key ${apiKey.id} (${apiKey.name})`);
+
+    return { key, apiKey };
+  }
+
+  findAll(): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async findOne(id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id } });
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+    return apiKey;
+  }
+
+  async revoke(id: string): Promise<void> {
+    const apiKey = await this.findOne(id);
+    if (apiKey.revokedAt) {
+      return;
+    }
+
+    apiKey.revokedAt = new Date();
+    await this.apiKeyRepository.save(apiKey);
+    console.log(`🔒 Revoked API key ${apiKey.id} (${apiKey.name})`);
+  }
+
+  /**
+   * Replace the secret of an active key, keeping its name, scopes, owner and
+   * expiry. The old secret stops working immediately.
+   */
+  async rotate(id: string): Promise<CreatedApiKeyDto> {
+    const apiKey = await this.findOne(id);
+    if (apiKey.revokedAt) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    const key = this.generateKey();
+    apiKey.keyPrefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+    apiKey.keyHash = hashApiKey(key);
+    apiKey.lastUsedAt = null;
+
+    const saved = await this.apiKeyRepository.save(apiKey);
+    delete saved.keyHash;
+    console.log(`🔄 Rotated API key ${saved.id} (${saved.name})`);
+
+    return { key, apiKey: saved };
+  }
+
+  /**
+   * Resolve a raw `x-api-key` value to its key record. Keys listed in the
+   * `API_KEYS` environment variable are accepted as bootstrap keys with every
+   * scope, so the first database keys can be created.
+   */
+  async authenticate(key: string): Promise<ApiKey> {
+    if (this.getBootstrapKeys().includes(key)) {
+      return Object.assign(new ApiKey(), {
+        name: 'bootstrap',
+        keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes: ALL_SCOPES,
+      });
+    }
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { keyHash: hashApiKey(key) },
+      relations: ['owner'],
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    this.recordUsage(apiKey);
+
+    return apiKey;
+  }
+
+  private recordUsage(apiKey: ApiKey): void {
+    const now = new Date();
+    if (
+      apiKey.lastUsedAt &&
+      now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS
+    ) {
+      return;
+    }
+
+    apiKey.lastUsedAt = now;
+    this.apiKeyRepository
+      .update(apiKey.id, { lastUsedAt: now })
+      .catch((error) =>
+        console.error(`Failed to record usage of API key ${apiKey.id}:`, error),
+      );
+  }
+
+  private getBootstrapKeys(): string[] {
+    return this.configService
+      .get<string>('API_KEYS', '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean);
+  }
+
+  private generateKey(): string {
+    return `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../api-key-scopes';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/**
+ * Scopes the caller must hold, checked by ApiKeyGuard. A handler-level
+ * decorator replaces the controller-level one rather than adding to it.
+ */
+export const RequireScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
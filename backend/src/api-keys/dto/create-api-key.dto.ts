@@ -0,0 +1,45 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../api-key-scopes';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'Human-readable label', example: 'CI pipeline' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Scopes to grant',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.APPLICATIONS_READ],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'Expiry date (ISO string); keys without one never expire',
+    example: '2025-12-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'User the key acts as on user-scoped endpoints',
+  })
+  @IsOptional()
+  @IsUUID()
+  ownerId?: string;
+}
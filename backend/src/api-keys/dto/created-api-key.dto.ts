@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKey } from '../entities/api-key.entity';
+
+export class CreatedApiKeyDto {
+  @ApiProperty({
+    description:
+      'The full key, to send as `x-api-key`. It is not stored and cannot be retrieved again.',
+    example: 'jak_3fA9x2Lq8vT0cR5mW1nZ7yB4kH6dS9e',
+  })
+  key: string;
+
+  @ApiProperty({ type: ApiKey })
+  apiKey: ApiKey;
+}
@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../api-key-scopes';
+import { User } from '../../auth/entities/user.entity';
+
+@Entity('api_keys')
+export class ApiKey {
+  @ApiProperty({ description: 'Unique identifier for the API key' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Human-readable label', example: 'CI pipeline' })
+  @Column()
+  name: string;
+
+  @ApiProperty({
+    description: 'First characters of the key, for telling keys apart',
+    example: 'jak_3fA9x2',
+  })
+  @Column()
+  keyPrefix: string;
+
+  // SHA-256 of the full key; the key itself is only shown once
+  @Index('IDX_api_keys_key_hash', { unique: true })
+  @Column({ select: false })
+  keyHash: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key',
+    enum: ApiKeyScope,
+    isArray: true,
+  })
+  @Column('text', { array: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'User the key acts as on user-scoped endpoints',
+  })
+  @Column('uuid', { nullable: true })
+  ownerId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'ownerId' })
+  owner?: User;
+
+  @ApiPropertyOptional({ description: 'Key stops working after this time' })
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Last time the key was used' })
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt?: Date;
+
+  @ApiPropertyOptional({ description: 'When the key was revoked' })
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  @ApiProperty({ description: 'Key creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Key last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
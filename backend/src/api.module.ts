@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+
+import { AppModule } from './app.module';
+
+// The HTTP API. Cron jobs are registered here rather than in AppModule so the
+// Temporal worker, which boots AppModule too, does not run them a second time.
+@Module({
+  imports: [
+    AppModule,
+
+    // Schedule module for cron jobs
+    ScheduleModule.forRoot(),
+  ],
+})
+export class ApiModule {}
@@ -1,7 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { ScheduleModule } from '@nestjs/schedule';
 
 import { ApplicationsModule } from './applications/applications.module';
 import { WorkflowModule } from './workflow/workflow.module';
@@ -9,6 +8,12 @@ import { LlmModule } from './llm/llm.module';
 import { CommonModule } from './common/common.module';
 import { HealthModule } from './health/health.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { AuthModule } from './auth/auth.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { EmailModule } from './email/email.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { InterviewsModule } from './interviews/interviews.module';
+import { OffersModule } from './offers/offers.module';
 
 @Module({
   imports: [
@@ -18,9 +23,6 @@ import { NotificationsModule } from './notifications/notifications.module';
       envFilePath: '.env',
     }),
 
-    // Schedule module for cron jobs
-    ScheduleModule.forRoot(),
-
     // Database module
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
@@ -45,11 +47,17 @@ import { NotificationsModule } from './notifications/notifications.module';
 
     // Feature modules
     CommonModule,
+    AuthModule,
+    ApiKeysModule,
     ApplicationsModule,
     WorkflowModule,
     LlmModule,
     HealthModule,
     NotificationsModule,
+    EmailModule,
+    WebhooksModule,
+    InterviewsModule,
+    OffersModule,
   ],
 })
 export class AppModule {}
@@ -4,11 +4,13 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   HttpCode,
   HttpStatus,
   Query,
+  Res,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,25 +18,62 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiBearerAuth,
+  ApiProduces,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 
 import { ApplicationsService } from './applications.service';
 import { DeadlineSchedulerService } from './deadline-scheduler.service';
 import { CreateApplicationDto } from './dto/create-application.dto';
 import { UpdateApplicationDto } from './dto/update-application.dto';
 import { BulkUpdateApplicationDto } from './dto/bulk-update-application.dto';
+import { ReopenApplicationDto } from './dto/reopen-application.dto';
+import { DeadlineDigestResultDto } from './dto/deadline-digest.dto';
+import {
+  ImproveCoverLetterDto,
+  CoverLetterDraftDto,
+} from './dto/improve-cover-letter.dto';
+import {
+  CoverLetterDiffDto,
+  CoverLetterDiffQueryDto,
+} from './dto/cover-letter-version.dto';
+import {
+  GenerateCoverLetterDto,
+  UpdateCoverLetterPreferencesDto,
+} from './dto/cover-letter-options.dto';
+import {
+  QueryApplicationsDto,
+  PaginatedApplicationsDto,
+} from './dto/query-applications.dto';
+import {
+  SearchApplicationsDto,
+  ApplicationSearchResponseDto,
+} from './dto/search-applications.dto';
 import { Application } from './entities/application.entity';
+import { ApplicationStatusChange } from './entities/application-status-change.entity';
+import { CoverLetterVersion } from './entities/cover-letter-version.entity';
+import { CoverLetterPreferences } from './entities/cover-letter-preferences.entity';
+import { CoverLetterPreferencesService } from './cover-letter-preferences.service';
 import { ApplicationStatus } from '../workflow/types/application.types';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
 
 @ApiTags('applications')
+@ApiBearerAuth('bearer')
+@RequireScopes(ApiKeyScope.APPLICATIONS_READ)
 @Controller('applications')
 export class ApplicationsController {
   constructor(
     private readonly applicationsService: ApplicationsService,
     private readonly deadlineSchedulerService: DeadlineSchedulerService,
+    private readonly coverLetterPreferencesService: CoverLetterPreferencesService,
   ) {}
 
   @Post()
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
   @ApiOperation({ summary: 'Create a new job application' })
   @ApiResponse({
     status: 201,
@@ -44,28 +83,54 @@ export class ApplicationsController {
   @ApiResponse({ status: 400, description: 'Bad request' })
   create(
     @Body() createApplicationDto: CreateApplicationDto,
+    @CurrentUser() user: User,
   ): Promise<Application> {
-    return this.applicationsService.create(createApplicationDto);
+    return this.applicationsService.create(createApplicationDto, user.id);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all job applications' })
-  @ApiQuery({
-    name: 'status',
-    required: false,
-    enum: ApplicationStatus,
-    description: 'Filter by application status',
+  @ApiOperation({
+    summary: 'Search, filter, sort and paginate job applications',
   })
   @ApiResponse({
     status: 200,
-    description: 'List of applications',
-    type: [Application],
+    description: 'Page of applications with total count',
+    type: PaginatedApplicationsDto,
   })
-  findAll(@Query('status') status?: ApplicationStatus): Promise<Application[]> {
-    if (status) {
-      return this.applicationsService.findByStatus(status);
-    }
-    return this.applicationsService.findAll();
+  findAll(
+    @Query() query: QueryApplicationsDto,
+    @CurrentUser() user: User,
+  ): Promise<PaginatedApplicationsDto> {
+    return this.applicationsService.findAll(query, user.id);
+  }
+
+  @Get('search')
+  @ApiOperation({
+    summary:
+      'Full-text search across job descriptions, notes and cover letters',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ranked matches with highlighted snippets',
+    type: ApplicationSearchResponseDto,
+  })
+  search(
+    @Query() searchDto: SearchApplicationsDto,
+    @CurrentUser() user: User,
+  ): Promise<ApplicationSearchResponseDto> {
+    return this.applicationsService.search(searchDto, user.id);
+  }
+
+  @Get('stats/status')
+  @ApiOperation({ summary: 'Get application counts grouped by status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of applications per status, plus the overall total',
+  })
+  getStatusCounts(
+    @CurrentUser() user: User,
+  ): Promise<Record<ApplicationStatus | 'all', number>> {
+    return this.applicationsService.getStatusCounts(user.id);
   }
 
   @Get('overdue')
@@ -75,8 +140,8 @@ export class ApplicationsController {
     description: 'List of overdue applications',
     type: [Application],
   })
-  getOverdueApplications(): Promise<Application[]> {
-    return this.applicationsService.getOverdueApplications();
+  getOverdueApplications(@CurrentUser() user: User): Promise<Application[]> {
+    return this.applicationsService.getOverdueApplications(user.id);
   }
 
   @Get('monitor/deadlines')
@@ -85,12 +150,14 @@ export class ApplicationsController {
     status: 200,
     description: 'Applications requiring attention grouped by urgency',
   })
-  monitorDeadlines(): Promise<{
+  monitorDeadlines(@CurrentUser() user: User): Promise<{
     urgent: Application[];
     approaching: Application[];
     total: number;
   }> {
-    return this.applicationsService.monitorDeadlineApproachingApplications();
+    return this.applicationsService.monitorDeadlineApproachingApplications(
+      user.id,
+    );
   }
 
   @Get('requiring-attention')
@@ -107,12 +174,17 @@ export class ApplicationsController {
     type: [Application],
   })
   getApplicationsRequiringAttention(
+    @CurrentUser() user: User,
     @Query('hours') hours?: number,
   ): Promise<Application[]> {
-    return this.applicationsService.getApplicationsRequiringAttention(hours);
+    return this.applicationsService.getApplicationsRequiringAttention(
+      hours,
+      user.id,
+    );
   }
 
   @Post('bulk-update')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
   @ApiOperation({ summary: 'Update multiple applications status' })
   @ApiResponse({
     status: 200,
@@ -120,13 +192,19 @@ export class ApplicationsController {
     type: [Application],
   })
   @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 422,
+    description: 'One or more status transitions are not allowed',
+  })
   async bulkUpdate(
     @Body() bulkUpdateDto: BulkUpdateApplicationDto,
+    @CurrentUser() user: User,
   ): Promise<Application[]> {
-    return this.applicationsService.bulkUpdate(bulkUpdateDto);
+    return this.applicationsService.bulkUpdate(bulkUpdateDto, user.id);
   }
 
   @Post('archive-expired')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Archive expired applications' })
   @ApiResponse({
@@ -134,12 +212,15 @@ export class ApplicationsController {
     description: 'Number of applications archived',
     schema: { type: 'object', properties: { archived: { type: 'number' } } },
   })
-  async archiveExpired(): Promise<{ archived: number }> {
-    const archived = await this.applicationsService.archiveExpired();
+  async archiveExpired(
+    @CurrentUser() user: User,
+  ): Promise<{ archived: number }> {
+    const archived = await this.applicationsService.archiveExpired(user.id);
     return { archived };
   }
 
   @Post('monitor/trigger')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_ADMIN)
   @ApiOperation({ summary: 'Manually trigger deadline monitoring' })
   @ApiResponse({
     status: 200,
@@ -154,6 +235,56 @@ export class ApplicationsController {
     return this.deadlineSchedulerService.triggerManualMonitoring();
   }
 
+  @Post('monitor/digest')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_ADMIN)
+  @ApiOperation({
+    summary: 'Send the daily digest to the configured chat webhooks now',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Digest counts and how many webhooks it was posted to',
+    type: DeadlineDigestResultDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  sendDailyDigest(): Promise<DeadlineDigestResultDto> {
+    return this.deadlineSchedulerService.sendDailyDigest();
+  }
+
+  @Get('cover-letter/preferences')
+  @ApiOperation({
+    summary: "Get the signed-in user's default cover letter options",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cover letter preferences (defaults if never saved)',
+    type: CoverLetterPreferences,
+  })
+  getCoverLetterPreferences(
+    @CurrentUser() user: User,
+  ): Promise<CoverLetterPreferences> {
+    return this.coverLetterPreferencesService.get(user.id);
+  }
+
+  @Put('cover-letter/preferences')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary: "Update the signed-in user's default cover letter options",
+    description:
+      'Used by manual generation and by the cover letter the workflow writes for new and reopened applications.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cover letter preferences updated',
+    type: CoverLetterPreferences,
+  })
+  @ApiResponse({ status: 422, description: 'Validation failed' })
+  updateCoverLetterPreferences(
+    @Body() updateDto: UpdateCoverLetterPreferencesDto,
+    @CurrentUser() user: User,
+  ): Promise<CoverLetterPreferences> {
+    return this.coverLetterPreferencesService.update(user.id, updateDto);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a specific job application' })
   @ApiParam({ name: 'id', description: 'Application ID' })
@@ -163,11 +294,33 @@ export class ApplicationsController {
     type: Application,
   })
   @ApiResponse({ status: 404, description: 'Application not found' })
-  findOne(@Param('id') id: string): Promise<Application> {
-    return this.applicationsService.findOne(id);
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<Application> {
+    return this.applicationsService.findOne(id, user.id);
+  }
+
+  @Get(':id/timeline')
+  @ApiOperation({
+    summary: 'Get the status transition history of an application',
+  })
+  @ApiParam({ name: 'id', description: 'Application ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status changes, oldest first',
+    type: [ApplicationStatusChange],
+  })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  getTimeline(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<ApplicationStatusChange[]> {
+    return this.applicationsService.getTimeline(id, user.id);
   }
 
   @Patch(':id')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
   @ApiOperation({ summary: 'Update job application status or details' })
   @ApiParam({ name: 'id', description: 'Application ID' })
   @ApiResponse({
@@ -177,15 +330,51 @@ export class ApplicationsController {
   })
   @ApiResponse({ status: 404, description: 'Application not found' })
   @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 422,
+    description: 'Status transition not allowed from the current status',
+  })
   update(
     @Param('id') id: string,
     @Body() updateApplicationDto: UpdateApplicationDto,
+    @CurrentUser() user: User,
+  ): Promise<Application> {
+    return this.applicationsService.update(id, updateApplicationDto, user.id);
+  }
+
+  @Post(':id/reopen')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Reopen a rejected, withdrawn or archived application and restart its workflow',
+  })
+  @ApiParam({ name: 'id', description: 'Application ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Application reopened as pending',
+    type: Application,
+  })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  @ApiResponse({
+    status: 422,
+    description: 'Application is not in a status that can be reopened',
+  })
+  reopen(
+    @Param('id') id: string,
+    @Body() reopenDto: ReopenApplicationDto,
+    @CurrentUser() user: User,
   ): Promise<Application> {
-    return this.applicationsService.update(id, updateApplicationDto);
+    return this.applicationsService.reopen(id, reopenDto, user.id);
   }
 
   @Post(':id/generate-cover-letter')
-  @ApiOperation({ summary: 'Generate cover letter for an application' })
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary: 'Generate cover letter for an application',
+    description:
+      "Options left out of the body fall back to the user's cover letter preferences.",
+  })
   @ApiParam({ name: 'id', description: 'Application ID' })
   @ApiResponse({
     status: 200,
@@ -194,57 +383,194 @@ export class ApplicationsController {
   })
   @ApiResponse({ status: 404, description: 'Application not found' })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async generateCoverLetter(@Param('id') id: string): Promise<Application> {
-    return this.applicationsService.generateCoverLetter(id);
+  async generateCoverLetter(
+    @Param('id') id: string,
+    @Body() generateDto: GenerateCoverLetterDto,
+    @CurrentUser() user: User,
+  ): Promise<Application> {
+    return this.applicationsService.generateCoverLetter(
+      id,
+      user.id,
+      generateDto,
+    );
   }
 
-  @Post(':id/remind')
-  @ApiOperation({ summary: 'Manually trigger reminder for an application' })
+  @Post(':id/generate-cover-letter/stream')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary: 'Generate a cover letter, streaming it as server-sent events',
+    description:
+      'Takes the same options as generate-cover-letter. Sends `chunk` events with `{ text }` as the model writes, then `done` with the saved application or `error` with `{ message }`. Closing the connection cancels generation and nothing is saved.',
+  })
+  @ApiParam({ name: 'id', description: 'Application ID' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Event stream' })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  async streamCoverLetter(
+    @Param('id') id: string,
+    @Body() generateDto: GenerateCoverLetterDto,
+    @CurrentUser() user: User,
+    @Res() res: Response,
+  ): Promise<void> {
+    // Before any event is written, so unknown IDs still get a JSON 404
+    await this.applicationsService.findOne(id, user.id);
+
+    const cancel = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        cancel.abort();
+      }
+    });
+
+    // no-transform keeps the compression middleware from buffering events
+    res.status(HttpStatus.OK).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) =>
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    try {
+      const application = await this.applicationsService.streamCoverLetter(
+        id,
+        user.id,
+        generateDto,
+        (text) => send('chunk', { text }),
+        cancel.signal,
+      );
+      send('done', application);
+    } catch (error) {
+      if (!cancel.signal.aborted) {
+        send('error', { message: error.message });
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  @Post(':id/cover-letter/improve')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary: 'Draft an improved cover letter from feedback',
+    description:
+      'Records the draft as a cover letter version without applying it. Accept it by restoring that version.',
+  })
   @ApiParam({ name: 'id', description: 'Application ID' })
   @ApiResponse({
     status: 200,
-    description: 'Reminder triggered successfully',
+    description: 'Improved cover letter draft',
+    type: CoverLetterDraftDto,
   })
   @ApiResponse({ status: 404, description: 'Application not found' })
   @ApiResponse({
-    status: 400,
-    description: 'Cannot send reminder for this application',
+    status: 422,
+    description: 'The application has no cover letter to improve',
   })
+  @ApiResponse({ status: 400, description: 'The LLM provider failed' })
   @HttpCode(HttpStatus.OK)
-  triggerReminder(@Param('id') id: string): Promise<void> {
-    return this.applicationsService.triggerManualReminder(id);
+  improveCoverLetter(
+    @Param('id') id: string,
+    @Body() improveDto: ImproveCoverLetterDto,
+    @CurrentUser() user: User,
+  ): Promise<CoverLetterDraftDto> {
+    return this.applicationsService.improveCoverLetter(id, improveDto, user.id);
   }
 
-  @Post(':id/test-cover-letter-notification')
-  @ApiOperation({
-    summary: 'Test cover letter generation notification (for testing)',
+  @Get(':id/cover-letter/versions')
+  @ApiOperation({ summary: 'List the cover letter versions of an application' })
+  @ApiParam({ name: 'id', description: 'Application ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cover letter versions, newest first',
+    type: [CoverLetterVersion],
   })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  getCoverLetterVersions(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<CoverLetterVersion[]> {
+    return this.applicationsService.getCoverLetterVersions(id, user.id);
+  }
+
+  @Get(':id/cover-letter/versions/diff')
+  @ApiOperation({ summary: 'Compare two cover letter versions line by line' })
   @ApiParam({ name: 'id', description: 'Application ID' })
   @ApiResponse({
     status: 200,
-    description: 'Test notification sent successfully',
+    description: 'Both versions and their line diff',
+    type: CoverLetterDiffDto,
   })
-  @HttpCode(HttpStatus.OK)
-  async testCoverLetterNotification(
+  @ApiResponse({ status: 404, description: 'Application or version not found' })
+  diffCoverLetterVersions(
     @Param('id') id: string,
-  ): Promise<{ message: string }> {
-    const application = await this.applicationsService.findOne(id);
+    @Query() query: CoverLetterDiffQueryDto,
+    @CurrentUser() user: User,
+  ): Promise<CoverLetterDiffDto> {
+    return this.applicationsService.diffCoverLetterVersions(
+      id,
+      query.from,
+      query.to,
+      user.id,
+    );
+  }
 
-    // Send a test cover letter generation notification
-    await this.applicationsService.sendTestCoverLetterNotification(application);
+  @Post(':id/cover-letter/versions/:versionId/restore')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({ summary: 'Make a cover letter version current again' })
+  @ApiParam({ name: 'id', description: 'Application ID' })
+  @ApiParam({ name: 'versionId', description: 'Cover letter version ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cover letter restored',
+    type: Application,
+  })
+  @ApiResponse({ status: 404, description: 'Application or version not found' })
+  @HttpCode(HttpStatus.OK)
+  restoreCoverLetterVersion(
+    @Param('id') id: string,
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: User,
+  ): Promise<Application> {
+    return this.applicationsService.restoreCoverLetterVersion(
+      id,
+      versionId,
+      user.id,
+    );
+  }
 
-    return {
-      message: `Test cover letter notification sent for ${application.company} - ${application.role}`,
-    };
+  @Post(':id/remind')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({ summary: 'Manually trigger reminder for an application' })
+  @ApiParam({ name: 'id', description: 'Application ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reminder triggered successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  @ApiResponse({
+    status: 400,
+    description: 'Cannot send reminder for this application',
+  })
+  @HttpCode(HttpStatus.OK)
+  triggerReminder(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<void> {
+    return this.applicationsService.triggerManualReminder(id, user.id);
   }
 
   @Delete(':id')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a job application' })
   @ApiParam({ name: 'id', description: 'Application ID' })
   @ApiResponse({ status: 204, description: 'Application deleted successfully' })
   @ApiResponse({ status: 404, description: 'Application not found' })
-  remove(@Param('id') id: string): Promise<void> {
-    return this.applicationsService.remove(id);
+  remove(@Param('id') id: string, @CurrentUser() user: User): Promise<void> {
+    return this.applicationsService.remove(id, user.id);
   }
 }
@@ -5,19 +5,44 @@ import { ApplicationsService } from './applications.service';
 import { ApplicationsController } from './applications.controller';
 import { DeadlineSchedulerService } from './deadline-scheduler.service';
 import { Application } from './entities/application.entity';
+import { ApplicationStatusChange } from './entities/application-status-change.entity';
+import { CoverLetterVersion } from './entities/cover-letter-version.entity';
+import { CoverLetterPreferences } from './entities/cover-letter-preferences.entity';
+import { CoverLetterPreferencesService } from './cover-letter-preferences.service';
+import { LegacyOwnerService } from './legacy-owner.service';
+import { User } from '../auth/entities/user.entity';
+import { Notification } from '../notifications/entities/notification.entity';
 import { WorkflowModule } from '../workflow/workflow.module';
 import { LlmModule } from '../llm/llm.module';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { ChatWebhooksModule } from '../chat-webhooks/chat-webhooks.module';
+import { EmailModule } from '../email/email.module';
+import { RemindersModule } from '../reminders/reminders.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Application]),
+    TypeOrmModule.forFeature([
+      Application,
+      ApplicationStatusChange,
+      CoverLetterVersion,
+      CoverLetterPreferences,
+      User,
+      Notification,
+    ]),
     WorkflowModule,
     LlmModule,
     NotificationsModule,
+    ChatWebhooksModule,
+    EmailModule,
+    RemindersModule,
   ],
   controllers: [ApplicationsController],
-  providers: [ApplicationsService, DeadlineSchedulerService],
+  providers: [
+    ApplicationsService,
+    DeadlineSchedulerService,
+    CoverLetterPreferencesService,
+    LegacyOwnerService,
+  ],
   exports: [ApplicationsService, DeadlineSchedulerService],
 })
 export class ApplicationsModule {}
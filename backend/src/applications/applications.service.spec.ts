@@ -2,15 +2,31 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  NotFoundException,
+  BadRequestException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
 
 import { ApplicationsService } from './applications.service';
 import { Application } from './entities/application.entity';
-import { ApplicationStatus } from '../workflow/types/application.types';
+import { ApplicationStatusChange } from './entities/application-status-change.entity';
+import { CoverLetterVersion } from './entities/cover-letter-version.entity';
+import {
+  ApplicationStatus,
+  CoverLetterFormat,
+  CoverLetterSource,
+  CoverLetterTone,
+  StatusChangeSource,
+} from '../workflow/types/application.types';
 import { CreateApplicationDto } from './dto/create-application.dto';
 import { UpdateApplicationDto } from './dto/update-application.dto';
 import { WorkflowService } from '../workflow/workflow.service';
 import { LlmService } from '../llm/llm.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ReminderDispatcherService } from '../reminders/reminder-dispatcher.service';
+import { ReminderSource } from '../reminders/entities/reminder-dispatch.entity';
+import { CoverLetterPreferencesService } from './cover-letter-preferences.service';
 
 describe('ApplicationsService', () => {
   let service: ApplicationsService;
@@ -18,7 +34,9 @@ describe('ApplicationsService', () => {
   let workflowService: WorkflowService;
   let llmService: LlmService;
 
-  const mockApplication: Application = {
+  const ownerId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+
+  const mockApplication: Application = Object.assign(new Application(), {
     id: '123e4567-e89b-12d3-a456-426614174000',
     company: 'Google',
     role: 'Software Engineer',
@@ -27,9 +45,10 @@ describe('ApplicationsService', () => {
     deadline: new Date('2024-03-15'),
     status: ApplicationStatus.PENDING,
     workflowId: 'job-app-123',
+    ownerId,
     createdAt: new Date(),
     updatedAt: new Date(),
-  };
+  });
 
   const mockRepository = {
     create: jest.fn(),
@@ -41,21 +60,66 @@ describe('ApplicationsService', () => {
     createQueryBuilder: jest.fn(),
   };
 
+  const mockStatusChangeRepository = {
+    create: jest.fn((change) => change),
+    save: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockCoverLetterVersionRepository = {
+    create: jest.fn((version) => version),
+    save: jest.fn(async (version) => ({
+      id: '5f0c2d8e-3a6b-4c1d-9e7f-8a2b4c6d0e13',
+      ...version,
+    })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const generated = (content: string) => ({
+    content,
+    model: 'gemini-2.0-flash',
+    promptHash: 'a3f1c9',
+  });
+
   const mockWorkflowService = {
     startJobApplicationWorkflow: jest.fn(),
     signalStatusUpdate: jest.fn(),
     signalNotesUpdate: jest.fn(),
+    signalDeadlineUpdate: jest.fn(),
+    signalReminderScheduleUpdate: jest.fn(),
+    startFollowUpWorkflow: jest.fn(),
     cancelWorkflow: jest.fn(),
   };
 
   const mockLlmService = {
     generateCoverLetter: jest.fn(),
+    improveCoverLetter: jest.fn(),
+    streamCoverLetter: jest.fn(),
   };
 
   const mockConfigService = {
     get: jest.fn(),
   };
 
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const mockReminderDispatcher = {
+    dispatch: jest.fn(),
+  };
+
+  const coverLetterOptions = {
+    tone: CoverLetterTone.PROFESSIONAL,
+    emphasis: ['TypeScript'],
+    format: CoverLetterFormat.PLAIN,
+  };
+
+  const mockCoverLetterPreferencesService = {
+    resolveOptions: jest.fn().mockResolvedValue(coverLetterOptions),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -64,6 +128,14 @@ describe('ApplicationsService', () => {
           provide: getRepositoryToken(Application),
           useValue: mockRepository,
         },
+        {
+          provide: getRepositoryToken(ApplicationStatusChange),
+          useValue: mockStatusChangeRepository,
+        },
+        {
+          provide: getRepositoryToken(CoverLetterVersion),
+          useValue: mockCoverLetterVersionRepository,
+        },
         {
           provide: WorkflowService,
           useValue: mockWorkflowService,
@@ -76,6 +148,18 @@ describe('ApplicationsService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: NotificationsService,
+          useValue: mockNotificationsService,
+        },
+        {
+          provide: ReminderDispatcherService,
+          useValue: mockReminderDispatcher,
+        },
+        {
+          provide: CoverLetterPreferencesService,
+          useValue: mockCoverLetterPreferencesService,
+        },
       ],
     }).compile();
 
@@ -109,7 +193,7 @@ describe('ApplicationsService', () => {
       );
 
       // When
-      const result = await service.create(createDto);
+      const result = await service.create(createDto, ownerId);
 
       // Then
       expect(repository.create).toHaveBeenCalledWith(
@@ -124,7 +208,11 @@ describe('ApplicationsService', () => {
       expect(repository.save).toHaveBeenCalledWith(mockApplication);
       expect(workflowService.startJobApplicationWorkflow).toHaveBeenCalledWith(
         mockApplication,
+        coverLetterOptions,
       );
+      expect(
+        mockCoverLetterPreferencesService.resolveOptions,
+      ).toHaveBeenCalledWith(ownerId);
       expect(result).toEqual(mockApplication);
     });
 
@@ -135,7 +223,7 @@ describe('ApplicationsService', () => {
       mockRepository.save.mockRejectedValue(new Error('Database error'));
 
       // When & Then
-      await expect(service.create(createDto)).rejects.toThrow(
+      await expect(service.create(createDto, ownerId)).rejects.toThrow(
         BadRequestException,
       );
     });
@@ -147,11 +235,11 @@ describe('ApplicationsService', () => {
       mockRepository.findOne.mockResolvedValue(mockApplication);
 
       // When
-      const result = await service.findOne(mockApplication.id);
+      const result = await service.findOne(mockApplication.id, ownerId);
 
       // Then
       expect(repository.findOne).toHaveBeenCalledWith({
-        where: { id: mockApplication.id },
+        where: { id: mockApplication.id, ownerId },
       });
       expect(result).toEqual(mockApplication);
     });
@@ -161,7 +249,7 @@ describe('ApplicationsService', () => {
       mockRepository.findOne.mockResolvedValue(null);
 
       // When & Then
-      await expect(service.findOne('non-existent-id')).rejects.toThrow(
+      await expect(service.findOne('non-existent-id', ownerId)).rejects.toThrow(
         NotFoundException,
       );
     });
@@ -181,7 +269,11 @@ describe('ApplicationsService', () => {
       mockWorkflowService.signalStatusUpdate.mockResolvedValue(undefined);
 
       // When
-      const result = await service.update(mockApplication.id, updateDto);
+      const result = await service.update(
+        mockApplication.id,
+        updateDto,
+        ownerId,
+      );
 
       // Then
       expect(repository.save).toHaveBeenCalledWith(
@@ -193,6 +285,365 @@ describe('ApplicationsService', () => {
       );
       expect(result).toEqual(updatedApplication);
     });
+
+    it('should record the status change with its comment', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.PENDING,
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        {
+          status: ApplicationStatus.INTERVIEW,
+          statusComment: 'Phone screen booked',
+        },
+        ownerId,
+      );
+
+      // Then
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.not.objectContaining({ statusComment: expect.anything() }),
+      );
+      expect(mockStatusChangeRepository.save).toHaveBeenCalledWith({
+        applicationId: mockApplication.id,
+        fromStatus: ApplicationStatus.PENDING,
+        toStatus: ApplicationStatus.INTERVIEW,
+        source: StatusChangeSource.REST,
+        comment: 'Phone screen booked',
+      });
+    });
+
+    it('should start follow-ups when the application is marked applied', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.PENDING,
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { status: ApplicationStatus.APPLIED },
+        ownerId,
+      );
+
+      // Then
+      expect(workflowService.startFollowUpWorkflow).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: mockApplication.id,
+          status: ApplicationStatus.APPLIED,
+        }),
+      );
+    });
+
+    it('should stop follow-ups when an applied application moves on', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.APPLIED,
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { status: ApplicationStatus.INTERVIEW },
+        ownerId,
+      );
+
+      // Then
+      expect(workflowService.signalStatusUpdate).toHaveBeenCalledWith(
+        `${mockApplication.workflowId}-follow-up`,
+        ApplicationStatus.INTERVIEW,
+      );
+      expect(workflowService.startFollowUpWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should not record history when the status is unchanged', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { notes: 'Just a note' },
+        ownerId,
+      );
+
+      // Then
+      expect(mockStatusChangeRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should update the deadline and signal the workflow to reschedule', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockRepository.save.mockImplementation(async (app) => app);
+      const deadline = '2030-06-01T00:00:00.000Z';
+
+      // When
+      const result = await service.update(
+        mockApplication.id,
+        { deadline },
+        ownerId,
+      );
+
+      // Then
+      expect(result.deadline).toEqual(new Date(deadline));
+      expect(workflowService.signalDeadlineUpdate).toHaveBeenCalledWith(
+        mockApplication.workflowId,
+        new Date(deadline),
+      );
+    });
+
+    it('should not signal the workflow when the deadline is unchanged', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { deadline: mockApplication.deadline.toISOString() },
+        ownerId,
+      );
+
+      // Then
+      expect(workflowService.signalDeadlineUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject transitions that are not allowed', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.REJECTED,
+      });
+
+      // When / Then
+      await expect(
+        service.update(
+          mockApplication.id,
+          { status: ApplicationStatus.PENDING },
+          ownerId,
+        ),
+      ).rejects.toMatchObject({
+        constructor: UnprocessableEntityException,
+        response: expect.objectContaining({
+          currentStatus: ApplicationStatus.REJECTED,
+          requestedStatus: ApplicationStatus.PENDING,
+          allowedTransitions: [ApplicationStatus.ARCHIVED],
+        }),
+      });
+      expect(repository.save).not.toHaveBeenCalled();
+      expect(workflowService.signalStatusUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update reminder schedule', () => {
+    it('should store the sorted schedule and signal the workflow', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { reminderOffsets: ['2h', '7d', '1d', '2h'], gracePeriodDays: 3 },
+        ownerId,
+      );
+
+      // Then
+      expect(
+        mockWorkflowService.signalReminderScheduleUpdate,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reminderOffsets: ['7d', '1d', '2h'],
+          gracePeriodDays: 3,
+        }),
+      );
+    });
+
+    it('should reject reminders more than 90 days before the deadline', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+
+      // When & Then
+      await expect(
+        service.update(
+          mockApplication.id,
+          { reminderOffsets: ['120d'] },
+          ownerId,
+        ),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkUpdate', () => {
+    it('should reject the whole batch when any transition is not allowed', async () => {
+      // Given
+      mockRepository.find.mockResolvedValue([
+        { ...mockApplication, id: 'a', status: ApplicationStatus.PENDING },
+        { ...mockApplication, id: 'b', status: ApplicationStatus.ARCHIVED },
+      ]);
+
+      // When / Then
+      await expect(
+        service.bulkUpdate(
+          {
+            updates: [
+              { id: 'a', status: ApplicationStatus.INTERVIEW },
+              { id: 'b', status: ApplicationStatus.INTERVIEW },
+            ],
+          },
+          ownerId,
+        ),
+      ).rejects.toMatchObject({
+        response: expect.objectContaining({
+          violations: [
+            {
+              applicationId: 'b',
+              currentStatus: ApplicationStatus.ARCHIVED,
+              requestedStatus: ApplicationStatus.INTERVIEW,
+              allowedTransitions: [],
+            },
+          ],
+        }),
+      });
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reopen', () => {
+    it('should reset to pending and start a fresh workflow', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.ARCHIVED,
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      const result = await service.reopen(
+        mockApplication.id,
+        {
+          deadline: '2030-01-01T00:00:00.000Z',
+          comment: 'New opening',
+        },
+        ownerId,
+      );
+
+      // Then
+      expect(workflowService.cancelWorkflow).toHaveBeenCalledWith(
+        mockApplication.workflowId,
+      );
+      expect(result.status).toBe(ApplicationStatus.PENDING);
+      expect(result.deadline).toEqual(new Date('2030-01-01T00:00:00.000Z'));
+      expect(result.workflowId).toMatch(/^job-app-/);
+      expect(result.workflowId).not.toBe(mockApplication.workflowId);
+      expect(workflowService.startJobApplicationWorkflow).toHaveBeenCalledWith(
+        result,
+        coverLetterOptions,
+      );
+      expect(mockStatusChangeRepository.save).toHaveBeenCalledWith({
+        applicationId: mockApplication.id,
+        fromStatus: ApplicationStatus.ARCHIVED,
+        toStatus: ApplicationStatus.PENDING,
+        source: StatusChangeSource.REOPEN,
+        comment: 'New opening',
+      });
+    });
+
+    it('should restore the application when the new workflow fails to start', async () => {
+      // Given
+      const deadline = new Date('2024-01-01T00:00:00.000Z');
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.ARCHIVED,
+        deadline,
+      });
+      mockRepository.save.mockImplementation(async (app) => ({ ...app }));
+      mockWorkflowService.startJobApplicationWorkflow.mockRejectedValueOnce(
+        new Error('Temporal unavailable'),
+      );
+
+      // When / Then
+      await expect(
+        service.reopen(
+          mockApplication.id,
+          { deadline: '2030-01-01T00:00:00.000Z' },
+          ownerId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: ApplicationStatus.ARCHIVED,
+          deadline,
+          workflowId: mockApplication.workflowId,
+        }),
+      );
+      expect(mockStatusChangeRepository.save).not.toHaveBeenCalled();
+      expect(mockNotificationsService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to reopen an application that is still active', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.INTERVIEW,
+      });
+
+      // When / Then
+      await expect(
+        service.reopen(mockApplication.id, {}, ownerId),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(
+        workflowService.startJobApplicationWorkflow,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTimeline', () => {
+    it('should return status changes oldest first', async () => {
+      // Given
+      const changes = [
+        {
+          id: 'change-1',
+          applicationId: mockApplication.id,
+          fromStatus: ApplicationStatus.PENDING,
+          toStatus: ApplicationStatus.INTERVIEW,
+          source: StatusChangeSource.REST,
+          changedAt: new Date(),
+        },
+      ];
+      mockRepository.findOne.mockResolvedValue(mockApplication);
+      mockStatusChangeRepository.find.mockResolvedValue(changes);
+
+      // When
+      const result = await service.getTimeline(mockApplication.id, ownerId);
+
+      // Then
+      expect(mockStatusChangeRepository.find).toHaveBeenCalledWith({
+        where: { applicationId: mockApplication.id },
+        order: { changedAt: 'ASC' },
+      });
+      expect(result).toEqual(changes);
+    });
+
+    it('should throw NotFoundException for unknown applications', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.getTimeline('non-existent-id', ownerId),
+      ).rejects.toThrow(NotFoundException);
+    });
   });
 
   describe('remove', () => {
@@ -203,7 +654,7 @@ describe('ApplicationsService', () => {
       mockWorkflowService.cancelWorkflow.mockResolvedValue(undefined);
 
       // When
-      await service.remove(mockApplication.id);
+      await service.remove(mockApplication.id, ownerId);
 
       // Then
       expect(workflowService.cancelWorkflow).toHaveBeenCalledWith(
@@ -220,11 +671,14 @@ describe('ApplicationsService', () => {
       mockRepository.find.mockResolvedValue(applications);
 
       // When
-      const result = await service.findByStatus(ApplicationStatus.PENDING);
+      const result = await service.findByStatus(
+        ApplicationStatus.PENDING,
+        ownerId,
+      );
 
       // Then
       expect(repository.find).toHaveBeenCalledWith({
-        where: { status: ApplicationStatus.PENDING },
+        where: { status: ApplicationStatus.PENDING, ownerId },
         order: { createdAt: 'DESC' },
       });
       expect(result).toEqual(applications);
@@ -241,26 +695,67 @@ describe('ApplicationsService', () => {
       };
 
       mockRepository.findOne.mockResolvedValue(mockApplication);
-      mockLlmService.generateCoverLetter.mockResolvedValue(mockCoverLetter);
+      mockLlmService.generateCoverLetter.mockResolvedValue(
+        generated(mockCoverLetter),
+      );
       mockRepository.save.mockResolvedValue(updatedApplication);
 
       // When
-      const result = await service.generateCoverLetter(mockApplication.id);
+      const result = await service.generateCoverLetter(
+        mockApplication.id,
+        ownerId,
+      );
 
       // Then
       expect(repository.findOne).toHaveBeenCalledWith({
-        where: { id: mockApplication.id },
+        where: { id: mockApplication.id, ownerId },
       });
       expect(llmService.generateCoverLetter).toHaveBeenCalledWith({
         jobDescription: mockApplication.jobDescription,
         resume: mockApplication.resume,
         company: mockApplication.company,
         role: mockApplication.role,
+        options: coverLetterOptions,
       });
       expect(repository.save).toHaveBeenCalledWith(
         expect.objectContaining({ coverLetter: mockCoverLetter }),
       );
       expect(result).toEqual(updatedApplication);
+      expect(mockCoverLetterVersionRepository.save).toHaveBeenCalledWith({
+        applicationId: mockApplication.id,
+        source: CoverLetterSource.MANUAL_GENERATE,
+        content: mockCoverLetter,
+        model: 'gemini-2.0-flash',
+        promptHash: 'a3f1c9',
+      });
+    });
+
+    it('should layer the requested options over the saved preferences', async () => {
+      // Given
+      const requested = {
+        tone: CoverLetterTone.ENTHUSIASTIC,
+        hiringManagerName: 'Jane Smith',
+      };
+      const resolved = { ...coverLetterOptions, ...requested };
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockRepository.save.mockImplementation(async (app) => app);
+      mockCoverLetterPreferencesService.resolveOptions.mockResolvedValueOnce(
+        resolved,
+      );
+      mockLlmService.generateCoverLetter.mockResolvedValue(
+        generated('Dear Jane Smith'),
+      );
+
+      // When
+      await service.generateCoverLetter(mockApplication.id, ownerId, requested);
+
+      // Then
+      expect(
+        mockCoverLetterPreferencesService.resolveOptions,
+      ).toHaveBeenCalledWith(ownerId, requested);
+      expect(llmService.generateCoverLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ options: resolved }),
+      );
     });
 
     it('should throw NotFoundException when application not found for cover letter generation', async () => {
@@ -269,25 +764,435 @@ describe('ApplicationsService', () => {
 
       // When & Then
       await expect(
-        service.generateCoverLetter('non-existent-id'),
+        service.generateCoverLetter('non-existent-id', ownerId),
       ).rejects.toThrow(NotFoundException);
     });
   });
 
+  describe('streamCoverLetter', () => {
+    it('should pass chunks through and save the finished letter', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockRepository.save.mockImplementation(async (app) => app);
+      mockLlmService.streamCoverLetter.mockImplementation(
+        async (_request, onChunk: (text: string) => void) => {
+          onChunk('Dear ');
+          onChunk('Hiring Manager');
+          return generated('Dear Hiring Manager');
+        },
+      );
+      const chunks: string[] = [];
+
+      // When
+      const result = await service.streamCoverLetter(
+        mockApplication.id,
+        ownerId,
+        {},
+        (text) => chunks.push(text),
+      );
+
+      // Then
+      expect(chunks).toEqual(['Dear ', 'Hiring Manager']);
+      expect(result.coverLetter).toBe('Dear Hiring Manager');
+      expect(mockCoverLetterVersionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ source: CoverLetterSource.MANUAL_GENERATE }),
+      );
+    });
+
+    it('should not save anything when generation is cancelled', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({ ...mockApplication });
+      mockLlmService.streamCoverLetter.mockRejectedValue(
+        new Error('Cover letter generation was cancelled'),
+      );
+
+      // When & Then
+      await expect(
+        service.streamCoverLetter(
+          mockApplication.id,
+          ownerId,
+          {},
+          jest.fn(),
+          AbortSignal.abort(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.save).not.toHaveBeenCalled();
+      expect(mockCoverLetterVersionRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('improveCoverLetter', () => {
+    it('should record the improved draft as a version without applying it', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: 'Saved cover letter',
+      });
+      mockLlmService.improveCoverLetter.mockResolvedValue(
+        generated('Improved letter'),
+      );
+
+      // When
+      const result = await service.improveCoverLetter(
+        mockApplication.id,
+        { feedback: 'Make it shorter' },
+        ownerId,
+      );
+
+      // Then
+      expect(result).toEqual({
+        coverLetter: 'Improved letter',
+        versionId: '5f0c2d8e-3a6b-4c1d-9e7f-8a2b4c6d0e13',
+      });
+      expect(mockCoverLetterVersionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ source: CoverLetterSource.IMPROVE }),
+      );
+      expect(llmService.improveCoverLetter).toHaveBeenCalledWith(
+        'Saved cover letter',
+        'Make it shorter',
+      );
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should improve an unsaved draft when one is given', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: 'Saved cover letter',
+      });
+      mockLlmService.improveCoverLetter.mockResolvedValue(
+        generated('Second draft'),
+      );
+
+      // When
+      await service.improveCoverLetter(
+        mockApplication.id,
+        { feedback: 'More enthusiastic', coverLetter: 'First draft' },
+        ownerId,
+      );
+
+      // Then
+      expect(llmService.improveCoverLetter).toHaveBeenCalledWith(
+        'First draft',
+        'More enthusiastic',
+      );
+    });
+
+    it('should reject applications without a cover letter', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: null,
+      });
+
+      // When & Then
+      await expect(
+        service.improveCoverLetter(
+          mockApplication.id,
+          { feedback: 'Make it shorter' },
+          ownerId,
+        ),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(llmService.improveCoverLetter).not.toHaveBeenCalled();
+    });
+
+    it('should report provider failures as bad requests', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: 'Saved cover letter',
+      });
+      mockLlmService.improveCoverLetter.mockRejectedValue(
+        new Error('rate limited'),
+      );
+
+      // When & Then
+      await expect(
+        service.improveCoverLetter(
+          mockApplication.id,
+          { feedback: 'Make it shorter' },
+          ownerId,
+        ),
+      ).rejects.toThrow('Failed to improve cover letter: rate limited');
+    });
+  });
+
+  describe('cover letter versions', () => {
+    const version = (id: string, content: string): CoverLetterVersion =>
+      Object.assign(new CoverLetterVersion(), {
+        id,
+        applicationId: mockApplication.id,
+        content,
+        source: CoverLetterSource.USER_EDIT,
+        createdAt: new Date(),
+      });
+
+    it('should record hand edits as user_edit versions', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: 'Generated letter',
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { coverLetter: 'Edited letter' },
+        ownerId,
+      );
+
+      // Then
+      expect(mockCoverLetterVersionRepository.save).toHaveBeenCalledWith({
+        applicationId: mockApplication.id,
+        source: CoverLetterSource.USER_EDIT,
+        content: 'Edited letter',
+        model: null,
+        promptHash: null,
+      });
+    });
+
+    it('should not record a version when the cover letter is unchanged', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: 'Generated letter',
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+
+      // When
+      await service.update(
+        mockApplication.id,
+        { coverLetter: 'Generated letter', notes: 'Sent it' },
+        ownerId,
+      );
+
+      // Then
+      expect(mockCoverLetterVersionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should list versions newest first', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockApplication);
+      mockCoverLetterVersionRepository.find.mockResolvedValue([]);
+
+      // When
+      await service.getCoverLetterVersions(mockApplication.id, ownerId);
+
+      // Then
+      expect(mockCoverLetterVersionRepository.find).toHaveBeenCalledWith({
+        where: { applicationId: mockApplication.id },
+        order: { createdAt: 'DESC' },
+      });
+    });
+
+    it('should diff two versions line by line', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockApplication);
+      mockCoverLetterVersionRepository.findOne
+        .mockResolvedValueOnce(
+          version('v1', 'Dear Hiring Manager,\nI like Google.\nThanks'),
+        )
+        .mockResolvedValueOnce(
+          version(
+            'v2',
+            'Dear Hiring Manager,\nI love Google.\nI ship fast.\nThanks',
+          ),
+        );
+
+      // When
+      const diff = await service.diffCoverLetterVersions(
+        mockApplication.id,
+        'v1',
+        'v2',
+        ownerId,
+      );
+
+      // Then
+      expect(diff.lines).toEqual([
+        { change: 'unchanged', text: 'Dear Hiring Manager,' },
+        { change: 'removed', text: 'I like Google.' },
+        { change: 'added', text: 'I love Google.' },
+        { change: 'added', text: 'I ship fast.' },
+        { change: 'unchanged', text: 'Thanks' },
+      ]);
+    });
+
+    it("should only find versions of the user's application", async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockApplication);
+      mockCoverLetterVersionRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.restoreCoverLetterVersion(mockApplication.id, 'v9', ownerId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCoverLetterVersionRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'v9', applicationId: mockApplication.id },
+      });
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should restore a version without recording a new one', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        coverLetter: 'Regenerated letter',
+      });
+      mockRepository.save.mockImplementation(async (app) => app);
+      mockCoverLetterVersionRepository.findOne.mockResolvedValue(
+        version('v1', 'Hand-edited letter'),
+      );
+
+      // When
+      const result = await service.restoreCoverLetterVersion(
+        mockApplication.id,
+        'v1',
+        ownerId,
+      );
+
+      // Then
+      expect(result.coverLetter).toBe('Hand-edited letter');
+      expect(mockCoverLetterVersionRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
   describe('findAll', () => {
-    it('should return all applications ordered by creation date', async () => {
+    const createMockQueryBuilder = (items: Application[], total: number) => {
+      const qb: Record<string, jest.Mock> = {};
+      ['where', 'andWhere', 'orderBy', 'addOrderBy', 'skip', 'take'].forEach(
+        (method) => {
+          qb[method] = jest.fn().mockReturnValue(qb);
+        },
+      );
+      qb.getManyAndCount = jest.fn().mockResolvedValue([items, total]);
+      return qb;
+    };
+
+    it('should return a page of applications ordered by creation date by default', async () => {
       // Given
       const applications = [mockApplication];
-      mockRepository.find.mockResolvedValue(applications);
+      const qb = createMockQueryBuilder(applications, 1);
+      mockRepository.createQueryBuilder.mockReturnValue(qb);
 
       // When
-      const result = await service.findAll();
+      const result = await service.findAll({}, ownerId);
 
       // Then
-      expect(repository.find).toHaveBeenCalledWith({
-        order: { createdAt: 'DESC' },
+      expect(qb.where).toHaveBeenCalledWith('application.ownerId = :ownerId', {
+        ownerId,
+      });
+      expect(qb.andWhere).not.toHaveBeenCalled();
+      expect(qb.orderBy).toHaveBeenCalledWith('application.createdAt', 'DESC');
+      expect(qb.skip).toHaveBeenCalledWith(0);
+      expect(qb.take).toHaveBeenCalledWith(20);
+      expect(result).toEqual({
+        items: applications,
+        total: 1,
+        limit: 20,
+        offset: 0,
+        hasMore: false,
+      });
+    });
+
+    it('should apply status, search, range, sort and pagination options', async () => {
+      // Given
+      const qb = createMockQueryBuilder([mockApplication], 5);
+      mockRepository.createQueryBuilder.mockReturnValue(qb);
+
+      // When
+      const result = await service.findAll(
+        {
+          status: [ApplicationStatus.PENDING, ApplicationStatus.INTERVIEW],
+          search: '100%_eng',
+          deadlineFrom: '2024-03-01T00:00:00.000Z',
+          sortBy: 'deadline',
+          sortOrder: 'ASC',
+          limit: 1,
+          offset: 2,
+        },
+        ownerId,
+      );
+
+      // Then
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'application.status IN (:...status)',
+        {
+          status: [ApplicationStatus.PENDING, ApplicationStatus.INTERVIEW],
+        },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('ILIKE :search'),
+        { search: '%100\\%\\_eng%' },
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'application.deadline >= :range0',
+        { range0: new Date('2024-03-01T00:00:00.000Z') },
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith('application.deadline', 'ASC');
+      expect(qb.skip).toHaveBeenCalledWith(2);
+      expect(qb.take).toHaveBeenCalledWith(1);
+      expect(result.total).toBe(5);
+      expect(result.hasMore).toBe(true);
+    });
+  });
+
+  describe('search', () => {
+    it('should return ranked results with only matching highlights', async () => {
+      // Given
+      const qb: Record<string, jest.Mock> = {};
+      [
+        'where',
+        'andWhere',
+        'setParameters',
+        'addSelect',
+        'orderBy',
+        'addOrderBy',
+        'offset',
+        'limit',
+      ].forEach((method) => {
+        qb[method] = jest.fn().mockReturnValue(qb);
+      });
+      qb.getCount = jest.fn().mockResolvedValue(1);
+      qb.getRawAndEntities = jest.fn().mockResolvedValue({
+        entities: [mockApplication],
+        raw: [
+          {
+            rank: '0.42',
+            jobDescription_highlight: 'Work with <mark>Kubernetes</mark>',
+            notes_highlight: '',
+            coverLetter_highlight: 'Dear Hiring Manager',
+          },
+        ],
+      });
+      mockRepository.createQueryBuilder.mockReturnValue(qb);
+
+      // When
+      const result = await service.search({ q: ' kubernetes ' }, ownerId);
+
+      // Then
+      expect(qb.where).toHaveBeenCalledWith('application.ownerId = :ownerId', {
+        ownerId,
+      });
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('@@ websearch_to_tsquery'),
+      );
+      expect(qb.setParameters).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'kubernetes' }),
+      );
+      expect(result).toEqual({
+        items: [
+          {
+            application: mockApplication,
+            rank: 0.42,
+            highlights: {
+              jobDescription: 'Work with <mark>Kubernetes</mark>',
+            },
+          },
+        ],
+        total: 1,
+        query: 'kubernetes',
       });
-      expect(result).toEqual(applications);
     });
   });
 
@@ -311,4 +1216,94 @@ describe('ApplicationsService', () => {
       expect(result).toEqual(overdueApplications);
     });
   });
+
+  describe('getDeadlineDigest', () => {
+    it('should split pending applications by how soon they are due', async () => {
+      // Given
+      const hoursFromNow = (hours: number) =>
+        new Date(Date.now() + hours * 60 * 60 * 1000);
+      const overdue = { ...mockApplication, deadline: hoursFromNow(-5) };
+      const urgent = { ...mockApplication, deadline: hoursFromNow(5) };
+      const approaching = { ...mockApplication, deadline: hoursFromNow(50) };
+      const offer = { ...mockApplication, status: ApplicationStatus.OFFER };
+      mockRepository.find
+        .mockResolvedValueOnce([overdue, urgent, approaching])
+        .mockResolvedValueOnce([offer])
+        .mockResolvedValueOnce([urgent]);
+
+      // When
+      const digest = await service.getDeadlineDigest();
+
+      // Then
+      expect(digest.overdue).toEqual([overdue]);
+      expect(digest.urgent).toEqual([urgent]);
+      expect(digest.approaching).toEqual([approaching]);
+      expect(digest.offers).toEqual([offer]);
+      expect(digest.missingCoverLetter).toEqual([urgent]);
+      expect(mockNotificationsService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monitorDeadlineApproachingApplications', () => {
+    it('should send reminders through the dispatcher', async () => {
+      // Given
+      const approaching = {
+        ...mockApplication,
+        deadline: new Date(Date.now() + 30 * 60 * 60 * 1000),
+      };
+      mockRepository.find
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([approaching])
+        .mockResolvedValueOnce([approaching]);
+
+      // When
+      const result = await service.monitorDeadlineApproachingApplications();
+
+      // Then
+      expect(mockReminderDispatcher.dispatch).toHaveBeenCalledWith(
+        approaching,
+        ReminderSource.MONITOR,
+        expect.any(Date),
+      );
+      expect(mockNotificationsService.sendNotification).not.toHaveBeenCalled();
+      expect(result.total).toBe(1);
+    });
+  });
+
+  describe('triggerManualReminder', () => {
+    it('should dispatch a user reminder for a pending application', async () => {
+      // Given
+      const pending = {
+        ...mockApplication,
+        status: ApplicationStatus.PENDING,
+        deadline: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
+      };
+      mockRepository.findOne.mockResolvedValue(pending);
+
+      // When
+      await service.triggerManualReminder(pending.id);
+
+      // Then
+      expect(mockReminderDispatcher.dispatch).toHaveBeenCalledWith(
+        pending,
+        ReminderSource.USER,
+        expect.any(Date),
+      );
+    });
+
+    it('should reject a reminder for a past deadline', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue({
+        ...mockApplication,
+        status: ApplicationStatus.PENDING,
+        deadline: new Date(Date.now() - 1000),
+      });
+
+      // When & Then
+      await expect(
+        service.triggerManualReminder(mockApplication.id),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockReminderDispatcher.dispatch).not.toHaveBeenCalled();
+    });
+  });
 });
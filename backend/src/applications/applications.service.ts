@@ -2,55 +2,103 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  UnprocessableEntityException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan } from 'typeorm';
+import { Repository, LessThan, In, IsNull, Between } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { v4 as uuidv4 } from 'uuid';
 import { addWeeks } from 'date-fns';
 
 import { Application } from './entities/application.entity';
+import { ApplicationStatusChange } from './entities/application-status-change.entity';
+import { CoverLetterVersion } from './entities/cover-letter-version.entity';
 import { CreateApplicationDto } from './dto/create-application.dto';
 import { UpdateApplicationDto } from './dto/update-application.dto';
 import { BulkUpdateApplicationDto } from './dto/bulk-update-application.dto';
-import { WorkflowService } from '../workflow/workflow.service';
-import { LlmService } from '../llm/llm.service';
+import { ReopenApplicationDto } from './dto/reopen-application.dto';
+import { DeadlineDigestDto } from './dto/deadline-digest.dto';
+import {
+  ImproveCoverLetterDto,
+  CoverLetterDraftDto,
+} from './dto/improve-cover-letter.dto';
+import { CoverLetterDiffDto } from './dto/cover-letter-version.dto';
+import { diffCoverLetters } from './cover-letter-diff';
+import { GenerateCoverLetterDto } from './dto/cover-letter-options.dto';
+import { CoverLetterPreferencesService } from './cover-letter-preferences.service';
+import {
+  QueryApplicationsDto,
+  PaginatedApplicationsDto,
+} from './dto/query-applications.dto';
+import {
+  SearchApplicationsDto,
+  ApplicationSearchResponseDto,
+  SearchHighlightField,
+} from './dto/search-applications.dto';
+import {
+  WorkflowService,
+  getFollowUpWorkflowId,
+} from '../workflow/workflow.service';
+import { GeneratedText, LlmService } from '../llm/llm.service';
 import { NotificationsService } from '../notifications/notifications.service';
-import { ApplicationStatus } from '../workflow/types/application.types';
+import { ReminderDispatcherService } from '../reminders/reminder-dispatcher.service';
+import { ReminderSource } from '../reminders/entities/reminder-dispatch.entity';
+import {
+  MAX_REMINDER_OFFSET_MS,
+  parseReminderOffset,
+  resolveReminderOffsets,
+} from '../reminders/reminder-windows';
+import {
+  assertTransition,
+  canReopen,
+  canTransition,
+  getAllowedTransitions,
+} from './status-transitions';
+import {
+  ApplicationStatus,
+  CoverLetterSource,
+  StatusChangeSource,
+} from '../workflow/types/application.types';
 
 @Injectable()
 export class ApplicationsService {
-  private notificationsSent = new Map<string, Date>(); // Track last notification sent for each application
-
   constructor(
     @InjectRepository(Application)
     private readonly applicationRepository: Repository<Application>,
+    @InjectRepository(ApplicationStatusChange)
+    private readonly statusChangeRepository: Repository<ApplicationStatusChange>,
+    @InjectRepository(CoverLetterVersion)
+    private readonly coverLetterVersionRepository: Repository<CoverLetterVersion>,
     private readonly workflowService: WorkflowService,
     private readonly llmService: LlmService,
     private readonly configService: ConfigService,
     private readonly notificationsService: NotificationsService,
+    private readonly reminderDispatcher: ReminderDispatcherService,
+    private readonly coverLetterPreferencesService: CoverLetterPreferencesService,
   ) {}
 
   async create(
     createApplicationDto: CreateApplicationDto,
+    ownerId: string,
   ): Promise<Application> {
+    const reminderOffsets = this.normalizeReminderOffsets(
+      createApplicationDto.reminderOffsets,
+    );
+
     try {
       // Generate unique workflow ID
       const workflowId = `job-app-${uuidv4()}`;
 
       // Calculate deadline if not provided
-      const deadline = createApplicationDto.deadline
-        ? new Date(createApplicationDto.deadline)
-        : addWeeks(
-            new Date(),
-            parseInt(this.configService.get('DEFAULT_DEADLINE_WEEKS', '4')),
-          );
+      const deadline = this.resolveDeadline(createApplicationDto.deadline);
 
       // Create application entity
       const application = this.applicationRepository.create({
         ...createApplicationDto,
+        reminderOffsets,
         deadline,
         workflowId,
+        ownerId,
         status: ApplicationStatus.PENDING,
       });
 
@@ -58,8 +106,11 @@ export class ApplicationsService {
       const savedApplication =
         await this.applicationRepository.save(application);
 
-      // Start Temporal workflow
-      await this.workflowService.startJobApplicationWorkflow(savedApplication);
+      // Start Temporal workflow; its cover letter follows the owner's defaults
+      await this.workflowService.startJobApplicationWorkflow(
+        savedApplication,
+        await this.coverLetterPreferencesService.resolveOptions(ownerId),
+      );
 
       return savedApplication;
     } catch (error) {
@@ -69,15 +120,206 @@ export class ApplicationsService {
     }
   }
 
-  async findAll(): Promise<Application[]> {
-    return this.applicationRepository.find({
-      order: { createdAt: 'DESC' },
+  async findAll(
+    query: QueryApplicationsDto,
+    ownerId: string,
+  ): Promise<PaginatedApplicationsDto> {
+    const {
+      status,
+      search,
+      deadlineFrom,
+      deadlineTo,
+      createdFrom,
+      createdTo,
+      updatedFrom,
+      updatedTo,
+      sortBy = 'createdAt',
+      sortOrder = 'DESC',
+      limit = 20,
+      offset = 0,
+    } = query;
+
+    const qb = this.applicationRepository
+      .createQueryBuilder('application')
+      .where('application.ownerId = :ownerId', { ownerId });
+
+    if (status?.length) {
+      qb.andWhere('application.status IN (:...status)', { status });
+    }
+
+    if (search?.trim()) {
+      qb.andWhere(
+        '(application.company ILIKE :search OR application.role ILIKE :search)',
+        { search: `%${this.escapeLikePattern(search.trim())}%` },
+      );
+    }
+
+    const ranges: Array<[string, string, string | undefined]> = [
+      ['deadline', '>=', deadlineFrom],
+      ['deadline', '<=', deadlineTo],
+      ['createdAt', '>=', createdFrom],
+      ['createdAt', '<=', createdTo],
+      ['updatedAt', '>=', updatedFrom],
+      ['updatedAt', '<=', updatedTo],
+    ];
+    ranges.forEach(([column, operator, value], index) => {
+      if (value) {
+        qb.andWhere(`application.${column} ${operator} :range${index}`, {
+          [`range${index}`]: new Date(value),
+        });
+      }
+    });
+
+    // Secondary sort on id keeps pagination stable when values tie
+    qb.orderBy(`application.${sortBy}`, sortOrder)
+      .addOrderBy('application.id', sortOrder)
+      .skip(offset)
+      .take(limit);
+
+    const [items, total] = await qb.getManyAndCount();
+
+    return {
+      items,
+      total,
+      limit,
+      offset,
+      hasMore: offset + items.length < total,
+    };
+  }
+
+  async getStatusCounts(
+    ownerId: string,
+  ): Promise<Record<ApplicationStatus | 'all', number>> {
+    const rows: Array<{ status: ApplicationStatus; count: string }> =
+      await this.applicationRepository
+        .createQueryBuilder('application')
+        .select('application.status', 'status')
+        .where('application.ownerId = :ownerId', { ownerId })
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('application.status')
+        .getRawMany();
+
+    const counts = Object.values(ApplicationStatus).reduce(
+      (acc, status) => ({ ...acc, [status]: 0 }),
+      { all: 0 } as Record<ApplicationStatus | 'all', number>,
+    );
+
+    for (const row of rows) {
+      const count = parseInt(row.count, 10);
+      counts[row.status] = count;
+      counts.all += count;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Ranked full-text search over company, role, job description, notes and
+   * cover letter, returning highlighted snippets for the long text fields
+   */
+  async search(
+    searchDto: SearchApplicationsDto,
+    ownerId: string,
+  ): Promise<ApplicationSearchResponseDto> {
+    const { q, limit = 20, offset = 0 } = searchDto;
+    const query = q.trim();
+    const tsQuery = "websearch_to_tsquery('english', :query)";
+    const headlineOptions =
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8';
+    const highlightFields: SearchHighlightField[] = [
+      'jobDescription',
+      'notes',
+      'coverLetter',
+    ];
+
+    const qb = this.applicationRepository
+      .createQueryBuilder('application')
+      .where('application.ownerId = :ownerId', { ownerId })
+      .andWhere(`application.searchVector @@ ${tsQuery}`)
+      .setParameters({ query, headlineOptions });
+
+    const total = await qb.getCount();
+
+    qb.addSelect(`ts_rank(application.searchVector, ${tsQuery})`, 'rank');
+    highlightFields.forEach((field) => {
+      qb.addSelect(
+        `ts_headline('english', coalesce(application.${field}, ''), ${tsQuery}, :headlineOptions)`,
+        `${field}_highlight`,
+      );
     });
+
+    const { entities, raw } = await qb
+      .orderBy('rank', 'DESC')
+      .addOrderBy('application.createdAt', 'DESC')
+      .offset(offset)
+      .limit(limit)
+      .getRawAndEntities();
+
+    const items = entities.map((application, index) => {
+      const row = raw[index];
+      const highlights: Partial<Record<SearchHighlightField, string>> = {};
+
+      // Only surface snippets that actually contain a match
+      highlightFields.forEach((field) => {
+        const snippet: string = row[`${field}_highlight`];
+        if (snippet && snippet.includes('<mark>')) {
+          highlights[field] = snippet;
+        }
+      });
+
+      return {
+        application,
+        rank: parseFloat(row.rank),
+        highlights,
+      };
+    });
+
+    return { items, total, query };
+  }
+
+  private resolveDeadline(deadline?: string): Date {
+    return deadline
+      ? new Date(deadline)
+      : addWeeks(
+          new Date(),
+          parseInt(this.configService.get('DEFAULT_DEADLINE_WEEKS', '4')),
+        );
+  }
+
+  // Stored sorted and without duplicates; the DTO pattern alone allows
+  // offsets of up to 999 days
+  private normalizeReminderOffsets(
+    offsets?: string[] | null,
+  ): string[] | null | undefined {
+    if (!offsets) {
+      return offsets;
+    }
+
+    const tooEarly = offsets.filter(
+      (offset) => parseReminderOffset(offset) > MAX_REMINDER_OFFSET_MS,
+    );
+    if (tooEarly.length > 0) {
+      throw new UnprocessableEntityException(
+        `Reminder offsets must be at most 90 days before the deadline: ${tooEarly.join(', ')}`,
+      );
+    }
+
+    return resolveReminderOffsets(offsets);
   }
 
-  async findOne(id: string): Promise<Application> {
+  private escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+
+  async findOne(id: string, ownerId: string): Promise<Application> {
+    return this.findScoped(id, ownerId);
+  }
+
+  // Other users' applications are reported as missing rather than forbidden
+  // so IDs can't be probed. Only system callers may omit ownerId.
+  private async findScoped(id: string, ownerId?: string): Promise<Application> {
     const application = await this.applicationRepository.findOne({
-      where: { id },
+      where: ownerId ? { id, ownerId } : { id },
     });
     if (!application) {
       throw new NotFoundException(`Application with ID ${id} not found`);
@@ -87,17 +329,64 @@ export class ApplicationsService {
 
   async bulkUpdate(
     bulkUpdateDto: BulkUpdateApplicationDto,
+    ownerId: string,
   ): Promise<Application[]> {
     const updatedApplications: Application[] = [];
 
+    // Validate every transition up front so a bad item doesn't leave the
+    // batch half applied
+    const ids = bulkUpdateDto.updates.map((update) => update.id);
+    const existing = ids.length
+      ? await this.applicationRepository.find({
+          where: { id: In(ids), ownerId },
+        })
+      : [];
+    const currentStatuses = new Map(
+      existing.map((app) => [app.id, app.status]),
+    );
+    const violations = bulkUpdateDto.updates
+      .filter((update) => {
+        const currentStatus = currentStatuses.get(update.id);
+        return currentStatus && !canTransition(currentStatus, update.status);
+      })
+      .map((update) => {
+        const currentStatus = currentStatuses.get(update.id);
+        return {
+          applicationId: update.id,
+          currentStatus,
+          requestedStatus: update.status,
+          allowedTransitions: getAllowedTransitions(currentStatus),
+        };
+      });
+
+    if (violations.length > 0) {
+      throw new UnprocessableEntityException({
+        statusCode: 422,
+        error: 'Unprocessable Entity',
+        message: `${violations.length} update(s) request a status transition that is not allowed`,
+        violations,
+      });
+    }
+
     for (const update of bulkUpdateDto.updates) {
       try {
-        const application = await this.findOne(update.id);
+        const application = await this.findOne(update.id, ownerId);
+        const oldStatus = application.status;
         application.status = update.status;
 
         const updatedApplication =
           await this.applicationRepository.save(application);
 
+        if (oldStatus !== update.status) {
+          await this.recordStatusChange(
+            application.id,
+            oldStatus,
+            update.status,
+            StatusChangeSource.BULK_UPDATE,
+            update.comment,
+          );
+        }
+
         // Signal workflow about status change
         try {
           await this.workflowService.signalStatusUpdate(
@@ -111,15 +400,17 @@ export class ApplicationsService {
             error,
           );
         }
+        await this.syncFollowUpWorkflow(application, oldStatus, update.status);
 
         updatedApplications.push(updatedApplication);
 
         // Send real-time notification via Socket.IO
-        this.notificationsService.sendNotification({
+        await this.notificationsService.sendNotification({
           type: 'status_update',
           applicationId: application.id,
           company: application.company,
           role: application.role,
+          userId: application.ownerId,
           status: update.status,
           message: `Application status updated to ${update.status}`,
         });
@@ -131,61 +422,112 @@ export class ApplicationsService {
     return updatedApplications;
   }
 
-  async findByStatus(status: ApplicationStatus): Promise<Application[]> {
+  async findByStatus(
+    status: ApplicationStatus,
+    ownerId: string,
+  ): Promise<Application[]> {
     return this.applicationRepository.find({
-      where: { status },
+      where: { status, ownerId },
       order: { createdAt: 'DESC' },
     });
   }
 
-  async archiveExpired(): Promise<number> {
-    const expiredApplications = await this.applicationRepository
+  /**
+   * Archive pending applications past their deadline, for one user or, when
+   * called by the system without an owner, for everyone
+   */
+  async archiveExpired(ownerId?: string): Promise<number> {
+    const qb = this.applicationRepository
       .createQueryBuilder('application')
       .where('application.deadline < :now', { now: new Date() })
       .andWhere('application.status = :status', {
         status: ApplicationStatus.PENDING,
-      })
-      .getMany();
+      });
+    if (ownerId) {
+      qb.andWhere('application.ownerId = :ownerId', { ownerId });
+    }
+    const expiredApplications = await qb.getMany();
 
     if (expiredApplications.length === 0) {
       return 0;
     }
 
     await this.applicationRepository.update(
-      { id: { $in: expiredApplications.map((app) => app.id) } as any },
+      { id: In(expiredApplications.map((app) => app.id)) },
       { status: ApplicationStatus.ARCHIVED },
     );
 
+    await this.statusChangeRepository.save(
+      expiredApplications.map((app) =>
+        this.statusChangeRepository.create({
+          applicationId: app.id,
+          fromStatus: app.status,
+          toStatus: ApplicationStatus.ARCHIVED,
+          source: StatusChangeSource.ARCHIVE_EXPIRED,
+        }),
+      ),
+    );
+
     return expiredApplications.length;
   }
 
-  async generateCoverLetter(id: string): Promise<Application> {
-    const application = await this.findOne(id);
+  async generateCoverLetter(
+    id: string,
+    ownerId: string,
+    generateDto: GenerateCoverLetterDto = {},
+  ): Promise<Application> {
+    const application = await this.findOne(id, ownerId);
+    const options = await this.coverLetterPreferencesService.resolveOptions(
+      ownerId,
+      generateDto,
+    );
 
     try {
       // Generate cover letter using LLM service
-      const coverLetter = await this.llmService.generateCoverLetter({
+      const generated = await this.llmService.generateCoverLetter({
         company: application.company,
         role: application.role,
         jobDescription: application.jobDescription,
         resume: application.resume,
+        options,
       });
 
-      // Update the application with the generated cover letter
-      application.coverLetter = coverLetter;
-      const updatedApplication =
-        await this.applicationRepository.save(application);
+      return await this.saveGeneratedCoverLetter(application, generated);
+    } catch (error) {
+      throw new BadRequestException(
+        'Failed to generate cover letter: ' + error.message,
+      );
+    }
+  }
 
-      // Send real-time notification
-      this.notificationsService.sendNotification({
-        type: 'cover_letter_generated',
-        applicationId: application.id,
-        company: application.company,
-        role: application.role,
-        message: `Cover letter generated for ${application.company} - ${application.role}`,
-      });
+  // Nothing is saved when the signal aborts before the letter is complete
+  async streamCoverLetter(
+    id: string,
+    ownerId: string,
+    generateDto: GenerateCoverLetterDto,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal,
+  ): Promise<Application> {
+    const application = await this.findOne(id, ownerId);
+    const options = await this.coverLetterPreferencesService.resolveOptions(
+      ownerId,
+      generateDto,
+    );
 
-      return updatedApplication;
+    try {
+      const generated = await this.llmService.streamCoverLetter(
+        {
+          company: application.company,
+          role: application.role,
+          jobDescription: application.jobDescription,
+          resume: application.resume,
+          options,
+        },
+        onChunk,
+        signal,
+      );
+
+      return await this.saveGeneratedCoverLetter(application, generated);
     } catch (error) {
       throw new BadRequestException(
         'Failed to generate cover letter: ' + error.message,
@@ -193,19 +535,118 @@ export class ApplicationsService {
     }
   }
 
+  private async saveGeneratedCoverLetter(
+    application: Application,
+    generated: GeneratedText,
+  ): Promise<Application> {
+    // Update the application with the generated cover letter
+    application.coverLetter = generated.content;
+    const updatedApplication =
+      await this.applicationRepository.save(application);
+    await this.recordCoverLetterVersion(
+      application.id,
+      CoverLetterSource.MANUAL_GENERATE,
+      generated.content,
+      generated,
+    );
+
+    // Send real-time notification
+    await this.notificationsService.sendNotification({
+      type: 'cover_letter_generated',
+      applicationId: application.id,
+      company: application.company,
+      role: application.role,
+      userId: application.ownerId,
+      message: `Cover letter generated for ${application.company} - ${application.role}`,
+    });
+
+    return updatedApplication;
+  }
+
+  // The draft is kept as a version but not applied; accepting it restores it
+  async improveCoverLetter(
+    id: string,
+    improveDto: ImproveCoverLetterDto,
+    ownerId: string,
+  ): Promise<CoverLetterDraftDto> {
+    const application = await this.findOne(id, ownerId);
+    const originalLetter = improveDto.coverLetter ?? application.coverLetter;
+
+    if (!originalLetter) {
+      throw new UnprocessableEntityException(
+        'Generate a cover letter before improving it',
+      );
+    }
+
+    try {
+      const generated = await this.llmService.improveCoverLetter(
+        originalLetter,
+        improveDto.feedback,
+      );
+      const version = await this.recordCoverLetterVersion(
+        application.id,
+        CoverLetterSource.IMPROVE,
+        generated.content,
+        generated,
+      );
+      return { coverLetter: version.content, versionId: version.id };
+    } catch (error) {
+      throw new BadRequestException(
+        'Failed to improve cover letter: ' + error.message,
+      );
+    }
+  }
+
   // Enhanced update method with notifications
   async update(
     id: string,
     updateApplicationDto: UpdateApplicationDto,
+    ownerId: string,
   ): Promise<Application> {
-    const application = await this.findOne(id);
+    const application = await this.findOne(id, ownerId);
     const oldStatus = application.status;
+    const oldDeadline = application.deadline;
+    const oldCoverLetter = application.coverLetter;
+    const { statusComment, deadline, reminderOffsets, ...changes } =
+      updateApplicationDto;
+
+    if (changes.status) {
+      assertTransition(application.id, oldStatus, changes.status);
+    }
 
     // Update the application
-    Object.assign(application, updateApplicationDto);
+    Object.assign(application, changes);
+    if (deadline) {
+      application.deadline = new Date(deadline);
+    }
+    if (reminderOffsets !== undefined) {
+      application.reminderOffsets =
+        this.normalizeReminderOffsets(reminderOffsets);
+    }
     const updatedApplication =
       await this.applicationRepository.save(application);
 
+    if (changes.coverLetter && changes.coverLetter !== oldCoverLetter) {
+      await this.recordCoverLetterVersion(
+        application.id,
+        CoverLetterSource.USER_EDIT,
+        changes.coverLetter,
+      );
+    }
+
+    if (
+      updateApplicationDto.status &&
+      oldStatus !== updateApplicationDto.status
+    ) {
+      await this.recordStatusChange(
+        application.id,
+        oldStatus,
+        updateApplicationDto.status,
+        StatusChangeSource.REST,
+        statusComment,
+      );
+    }
+
     // Signal workflow about status change
     if (updateApplicationDto.status) {
       try {
@@ -220,20 +661,60 @@ export class ApplicationsService {
           error,
         );
       }
+      await this.syncFollowUpWorkflow(
+        application,
+        oldStatus,
+        updateApplicationDto.status,
+      );
 
       // Send real-time notification for status changes via Socket.IO
       if (oldStatus !== updateApplicationDto.status) {
-        this.notificationsService.sendNotification({
+        await this.notificationsService.sendNotification({
           type: 'status_update',
           applicationId: application.id,
           company: application.company,
           role: application.role,
+          userId: application.ownerId,
           status: updateApplicationDto.status,
           message: `Application status changed from ${oldStatus} to ${updateApplicationDto.status}`,
         });
+      }
+    }
 
-        // Clear deadline notifications when status is updated (user took action)
-        this.notificationsSent.delete(application.id);
+    // Signal workflow so it reschedules reminders and the grace period
+    if (
+      deadline &&
+      new Date(deadline).getTime() !== new Date(oldDeadline).getTime()
+    ) {
+      try {
+        await this.workflowService.signalDeadlineUpdate(
+          application.workflowId,
+          application.deadline,
+        );
+      } catch (error) {
+        // Log but don't fail the update if workflow signaling fails
+        console.error(
+          `Failed to signal deadline update to workflow ${application.workflowId}:`,
+          error,
+        );
+      }
+    }
+
+    // Signal workflow so it follows the new reminder schedule
+    if (
+      reminderOffsets !== undefined ||
+      updateApplicationDto.gracePeriodDays !== undefined
+    ) {
+      try {
+        await this.workflowService.signalReminderScheduleUpdate(
+          updatedApplication,
+        );
+      } catch (error) {
+        // Log but don't fail the update if workflow signaling fails
+        console.error(
+          `Failed to signal reminder schedule update to workflow ${application.workflowId}:`,
+          error,
+        );
       }
     }
 
@@ -256,8 +737,230 @@ export class ApplicationsService {
     return updatedApplication;
   }
 
-  async remove(id: string): Promise<void> {
-    const application = await this.findOne(id);
+  /**
+   * Move a finished application (rejected, withdrawn or archived) back to
+   * pending and start a fresh workflow for it
+   */
+  async reopen(
+    id: string,
+    reopenDto: ReopenApplicationDto,
+    ownerId: string,
+  ): Promise<Application> {
+    const application = await this.findOne(id, ownerId);
+    const oldStatus = application.status;
+
+    if (!canReopen(oldStatus)) {
+      throw new UnprocessableEntityException({
+        statusCode: 422,
+        error: 'Unprocessable Entity',
+        message: `Cannot reopen application ${id} with status ${oldStatus}`,
+        applicationId: id,
+        currentStatus: oldStatus,
+        allowedTransitions: getAllowedTransitions(oldStatus),
+      });
+    }
+
+    // The previous run has usually finished already, but make sure it can't
+    // archive the application underneath the new one
+    try {
+      await this.workflowService.cancelWorkflow(application.workflowId);
+    } catch (error) {
+      console.error(
+        `Failed to cancel workflow ${application.workflowId} during reopen:`,
+        error,
+      );
+    }
+
+    const { deadline: oldDeadline, workflowId: oldWorkflowId } = application;
+    application.status = ApplicationStatus.PENDING;
+    application.deadline = this.resolveDeadline(reopenDto.deadline);
+    application.workflowId = `job-app-${uuidv4()}`;
+    const reopenedApplication =
+      await this.applicationRepository.save(application);
+
+    try {
+      await this.workflowService.startJobApplicationWorkflow(
+        reopenedApplication,
+        await this.coverLetterPreferencesService.resolveOptions(
+          application.ownerId,
+        ),
+      );
+    } catch (error) {
+      // Leave the application as it was so it can be reopened again
+      reopenedApplication.status = oldStatus;
+      reopenedApplication.deadline = oldDeadline;
+      reopenedApplication.workflowId = oldWorkflowId;
+      await this.applicationRepository.save(reopenedApplication);
+
+      throw new BadRequestException(
+        'Failed to start workflow for reopened application: ' + error.message,
+      );
+    }
+
+    await this.recordStatusChange(
+      application.id,
+      oldStatus,
+      ApplicationStatus.PENDING,
+      StatusChangeSource.REOPEN,
+      reopenDto.comment,
+    );
+
+    await this.notificationsService.sendNotification({
+      type: 'status_update',
+      applicationId: application.id,
+      company: application.company,
+      role: application.role,
+      userId: application.ownerId,
+      status: ApplicationStatus.PENDING,
+      message: `Application reopened: ${application.company} - ${application.role}`,
+    });
+
+    return reopenedApplication;
+  }
+
+  async getTimeline(
+    id: string,
+    ownerId: string,
+  ): Promise<ApplicationStatusChange[]> {
+    // Ensure the application exists so unknown IDs return 404, not []
+    await this.findOne(id, ownerId);
+
+    return this.statusChangeRepository.find({
+      where: { applicationId: id },
+      order: { changedAt: 'ASC' },
+    });
+  }
+
+  async getCoverLetterVersions(
+    id: string,
+    ownerId: string,
+  ): Promise<CoverLetterVersion[]> {
+    await this.findOne(id, ownerId);
+
+    return this.coverLetterVersionRepository.find({
+      where: { applicationId: id },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async diffCoverLetterVersions(
+    id: string,
+    fromVersionId: string,
+    toVersionId: string,
+    ownerId: string,
+  ): Promise<CoverLetterDiffDto> {
+    await this.findOne(id, ownerId);
+    const from = await this.findCoverLetterVersion(id, fromVersionId);
+    const to = await this.findCoverLetterVersion(id, toVersionId);
+
+    return { from, to, lines: diffCoverLetters(from.content, to.content) };
+  }
+
+  // Makes an earlier version current again without adding a new one
+  async restoreCoverLetterVersion(
+    id: string,
+    versionId: string,
+    ownerId: string,
+  ): Promise<Application> {
+    const application = await this.findOne(id, ownerId);
+    const version = await this.findCoverLetterVersion(id, versionId);
+
+    application.coverLetter = version.content;
+    return this.applicationRepository.save(application);
+  }
+
+  private async findCoverLetterVersion(
+    applicationId: string,
+    versionId: string,
+  ): Promise<CoverLetterVersion> {
+    const version = await this.coverLetterVersionRepository.findOne({
+      where: { id: versionId, applicationId },
+    });
+
+    if (!version) {
+      throw new NotFoundException(
+        `Cover letter version with ID ${versionId} not found`,
+      );
+    }
+
+    return version;
+  }
+
+  // User edits have no generation metadata
+  private recordCoverLetterVersion(
+    applicationId: string,
+    source: CoverLetterSource,
+    content: string,
+    generated?: GeneratedText,
+  ): Promise<CoverLetterVersion> {
+    return this.coverLetterVersionRepository.save(
+      this.coverLetterVersionRepository.create({
+        applicationId,
+        source,
+        content,
+        model: generated?.model ?? null,
+        promptHash: generated?.promptHash ?? null,
+      }),
+    );
+  }
+
+  // Applications moved to applied get follow-up nudges until their status
+  // changes again. Like the status signal, this never fails the update.
+  private async syncFollowUpWorkflow(
+    application: Application,
+    oldStatus: ApplicationStatus,
+    newStatus: ApplicationStatus,
+  ): Promise<void> {
+    if (oldStatus === newStatus) {
+      return;
+    }
+
+    const followUpWorkflowId = getFollowUpWorkflowId(application.workflowId);
+    try {
+      if (newStatus === ApplicationStatus.APPLIED) {
+        await this.workflowService.startFollowUpWorkflow(application);
+      } else if (oldStatus === ApplicationStatus.APPLIED) {
+        await this.workflowService.signalStatusUpdate(
+          followUpWorkflowId,
+          newStatus,
+        );
+      }
+    } catch (error) {
+      console.error(
+        `Failed to update follow-up workflow ${followUpWorkflowId}:`,
+        error,
+      );
+    }
+  }
+
+  private async recordStatusChange(
+    applicationId: string,
+    fromStatus: ApplicationStatus,
+    toStatus: ApplicationStatus,
+    source: StatusChangeSource,
+    comment?: string,
+  ): Promise<void> {
+    try {
+      await this.statusChangeRepository.save(
+        this.statusChangeRepository.create({
+          applicationId,
+          fromStatus,
+          toStatus,
+          source,
+          comment,
+        }),
+      );
+    } catch (error) {
+      // History is best-effort; never fail the status update because of it
+      console.error(
+        `Failed to record status change for application ${applicationId}:`,
+        error,
+      );
+    }
+  }
+
+  async remove(id: string, ownerId: string): Promise<void> {
+    const application = await this.findOne(id, ownerId);
 
     try {
       // Cancel workflow - this will handle WorkflowNotFoundError internally
@@ -271,35 +974,99 @@ export class ApplicationsService {
       // Continue with database deletion
     }
 
+    if (application.status === ApplicationStatus.APPLIED) {
+      try {
+        await this.workflowService.cancelWorkflow(
+          getFollowUpWorkflowId(application.workflowId),
+        );
+      } catch (error) {
+        console.error(
+          `Failed to cancel follow-up workflow for application ${application.id} during deletion:`,
+          error,
+        );
+      }
+    }
+
     // Remove from database
     await this.applicationRepository.remove(application);
 
     // Send real-time notification for deletion via Socket.IO
-    this.notificationsService.sendNotification({
+    await this.notificationsService.sendNotification({
       type: 'application_deleted',
       applicationId: application.id,
       company: application.company,
       role: application.role,
+      userId: application.ownerId,
       message: `Application deleted: ${application.company} - ${application.role}`,
     });
   }
 
-  async getOverdueApplications(): Promise<Application[]> {
+  async getOverdueApplications(ownerId?: string): Promise<Application[]> {
     const now = new Date();
     return this.applicationRepository.find({
       where: {
         deadline: LessThan(now),
         status: ApplicationStatus.PENDING,
+        ...(ownerId && { ownerId }),
       },
       order: { deadline: 'ASC' },
     });
   }
 
+  /**
+   * Collect what needs attention for the daily digest, for one user or across
+   * every user's applications. Unlike the monitoring methods this sends no
+   * notifications.
+   */
+  async getDeadlineDigest(ownerId?: string): Promise<DeadlineDigestDto> {
+    const now = new Date();
+    const oneDayFromNow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const threeDaysFromNow = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
+
+    const [dueSoon, offers, missingCoverLetter] = await Promise.all([
+      this.applicationRepository.find({
+        where: {
+          deadline: LessThan(threeDaysFromNow),
+          status: ApplicationStatus.PENDING,
+          ...(ownerId && { ownerId }),
+        },
+        order: { deadline: 'ASC' },
+      }),
+      this.applicationRepository.find({
+        where: {
+          status: ApplicationStatus.OFFER,
+          ...(ownerId && { ownerId }),
+        },
+        order: { updatedAt: 'ASC' },
+      }),
+      this.applicationRepository.find({
+        where: {
+          status: In([ApplicationStatus.PENDING, ApplicationStatus.INTERVIEW]),
+          coverLetter: IsNull(),
+          ...(ownerId && { ownerId }),
+        },
+        order: { deadline: 'ASC' },
+      }),
+    ]);
+
+    return {
+      generatedAt: now,
+      overdue: dueSoon.filter((app) => app.deadline < now),
+      urgent: dueSoon.filter(
+        (app) => app.deadline >= now && app.deadline < oneDayFromNow,
+      ),
+      approaching: dueSoon.filter((app) => app.deadline >= oneDayFromNow),
+      offers,
+      missingCoverLetter,
+    };
+  }
+
   /**
    * Monitor all applications for approaching deadlines and trigger urgent reminders
-   * This method can be called by a scheduler or monitoring service
+   * This method can be called by a scheduler or monitoring service; without
+   * an ownerId it covers every user's applications
    */
-  async monitorDeadlineApproachingApplications(): Promise<{
+  async monitorDeadlineApproachingApplications(ownerId?: string): Promise<{
     urgent: Application[];
     approaching: Application[];
     total: number;
@@ -316,6 +1083,7 @@ export class ApplicationsService {
         where: {
           deadline: LessThan(oneDayFromNow),
           status: ApplicationStatus.PENDING,
+          ...(ownerId && { ownerId }),
         },
         order: { deadline: 'ASC' },
       });
@@ -325,70 +1093,31 @@ export class ApplicationsService {
         where: {
           deadline: LessThan(threeDaysFromNow),
           status: ApplicationStatus.PENDING,
+          ...(ownerId && { ownerId }),
         },
         order: { deadline: 'ASC' },
       });
 
-      // Send urgent notifications for applications within 1 day
-      for (const application of urgentApplications) {
-        const timeRemaining = application.deadline.getTime() - now.getTime();
-        const hoursRemaining = Math.ceil(timeRemaining / (60 * 60 * 1000));
-
-        // Check if we've sent a notification recently to avoid spam
-        const lastNotification = this.notificationsSent.get(application.id);
-        const hoursSinceLastNotification = lastNotification
-          ? (now.getTime() - lastNotification.getTime()) / (60 * 60 * 1000)
-          : 24; // If never sent, treat as 24 hours ago
-
-        // Send notification every 2 hours for urgent applications (< 24 hours)
-        if (hoursSinceLastNotification >= 2) {
-          this.notificationsService.sendNotification({
-            type: 'deadline_monitor',
-            applicationId: application.id,
-            company: application.company,
-            role: application.role,
-            status: application.status,
-            message: `🚨 URGENT: ${application.company} - ${application.role} deadline in ${hoursRemaining} hours! Take action immediately.`,
-          });
-
-          // Update last notification time
-          this.notificationsSent.set(application.id, now);
-
-          console.log(
-            `Urgent deadline alert: Application ${application.id} for ${application.company} - ${application.role} has ${hoursRemaining} hours remaining`,
-          );
-        }
-      }
-
-      // Send regular notifications for approaching deadlines (2-3 days)
-      for (const application of approachingApplications) {
-        if (
-          !urgentApplications.find((urgent) => urgent.id === application.id)
-        ) {
-          const timeRemaining = application.deadline.getTime() - now.getTime();
-          const daysRemaining = Math.ceil(
-            timeRemaining / (24 * 60 * 60 * 1000),
-          );
+      // Schedules can start up to 90 days out. The dispatcher picks the
+      // window from each application's schedule and skips windows the
+      // workflow or the scheduler already covered.
+      const scheduledApplications = await this.applicationRepository.find({
+        where: {
+          deadline: Between(
+            now,
+            new Date(now.getTime() + MAX_REMINDER_OFFSET_MS),
+          ),
+          status: ApplicationStatus.PENDING,
+          ...(ownerId && { ownerId }),
+        },
+      });
 
-          const lastNotification = this.notificationsSent.get(application.id);
-          const hoursSinceLastNotification = lastNotification
-            ? (now.getTime() - lastNotification.getTime()) / (60 * 60 * 1000)
-            : 24;
-
-          // Send notification once per day for approaching deadlines
-          if (hoursSinceLastNotification >= 24) {
-            this.notificationsService.sendNotification({
-              type: 'deadline_reminder',
-              applicationId: application.id,
-              company: application.company,
-              role: application.role,
-              status: application.status,
-              message: `⏰ Reminder: ${application.company} - ${application.role} deadline in ${daysRemaining} day(s)`,
-            });
-
-            this.notificationsSent.set(application.id, now);
-          }
-        }
+      for (const application of scheduledApplications) {
+        await this.reminderDispatcher.dispatch(
+          application,
+          ReminderSource.MONITOR,
+          now,
+        );
       }
 
       return {
@@ -410,6 +1139,7 @@ export class ApplicationsService {
    */
   async getApplicationsRequiringAttention(
     hoursThreshold: number = 24,
+    ownerId?: string,
   ): Promise<Application[]> {
     try {
       const thresholdDate = new Date(
@@ -420,6 +1150,7 @@ export class ApplicationsService {
         where: {
           deadline: LessThan(thresholdDate),
           status: ApplicationStatus.PENDING,
+          ...(ownerId && { ownerId }),
         },
         order: { deadline: 'ASC' },
       });
@@ -430,11 +1161,15 @@ export class ApplicationsService {
   }
 
   /**
-   * Manually trigger reminder for a specific application
+   * Manually trigger reminder for a specific application. Repeated requests
+   * within five minutes send a single reminder.
    */
-  async triggerManualReminder(applicationId: string): Promise<void> {
+  async triggerManualReminder(
+    applicationId: string,
+    ownerId?: string,
+  ): Promise<void> {
     try {
-      const application = await this.findOne(applicationId);
+      const application = await this.findScoped(applicationId, ownerId);
 
       if (application.status !== ApplicationStatus.PENDING) {
         throw new BadRequestException(
@@ -449,19 +1184,16 @@ export class ApplicationsService {
         throw new BadRequestException('Cannot send reminder for past deadline');
       }
 
-      const hoursRemaining = Math.ceil(timeRemaining / (60 * 60 * 1000));
-      const daysRemaining = Math.ceil(timeRemaining / (24 * 60 * 60 * 1000));
-
-      this.notificationsService.sendNotification({
-        type: 'manual_reminder',
-        applicationId: application.id,
-        company: application.company,
-        role: application.role,
-        status: application.status,
-        message: `📢 Manual reminder: ${application.company} - ${application.role} deadline in ${daysRemaining > 1 ? `${daysRemaining} days` : `${hoursRemaining} hours`}`,
-      });
-
-      console.log(`Manual reminder triggered for application ${applicationId}`);
+      const dispatch = await this.reminderDispatcher.dispatch(
+        application,
+        ReminderSource.USER,
+        now,
+      );
+      if (dispatch) {
+        console.log(
+          `Manual reminder triggered for application ${applicationId}`,
+        );
+      }
     } catch (error) {
       console.error(
         `Error triggering manual reminder for application ${applicationId}:`,
@@ -470,23 +1202,4 @@ export class ApplicationsService {
       throw error;
     }
   }
-
-  /**
-   * Test method to send cover letter generation notification
-   */
-  async sendTestCoverLetterNotification(
-    application: Application,
-  ): Promise<void> {
-    this.notificationsService.sendNotification({
-      type: 'cover_letter_generated',
-      applicationId: application.id,
-      company: application.company,
-      role: application.role,
-      message: `Cover letter generated for ${application.company} - ${application.role}`,
-    });
-
-    console.log(
-      `📄 Test cover letter notification sent for application ${application.id}`,
-    );
-  }
 }
@@ -0,0 +1,54 @@
+export type CoverLetterDiffChange = 'unchanged' | 'added' | 'removed';
+
+export interface CoverLetterDiffLine {
+  change: CoverLetterDiffChange;
+  text: string;
+}
+
+/**
+ * Line diff based on the longest common subsequence. Cover letters are a
+ * few dozen lines, so the quadratic table is fine. Removals come before the
+ * additions that replace them, which lets clients pair them side by side.
+ */
+export function diffCoverLetters(
+  from: string,
+  to: string,
+): CoverLetterDiffLine[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+
+  // common[i][j]: length of the LCS of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: CoverLetterDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ change: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j >= b.length || common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push({ change: 'removed', text: a[i] });
+      i++;
+    } else {
+      lines.push({ change: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { CoverLetterPreferencesService } from './cover-letter-preferences.service';
+import { CoverLetterPreferences } from './entities/cover-letter-preferences.entity';
+import {
+  CoverLetterFormat,
+  CoverLetterTone,
+} from '../workflow/types/application.types';
+
+describe('CoverLetterPreferencesService', () => {
+  let service: CoverLetterPreferencesService;
+
+  const userId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+
+  const mockPreferences = (overrides: Partial<CoverLetterPreferences> = {}) =>
+    Object.assign(new CoverLetterPreferences(), {
+      userId,
+      tone: CoverLetterTone.PROFESSIONAL,
+      wordCount: null,
+      language: null,
+      emphasis: [],
+      format: CoverLetterFormat.PLAIN,
+      ...overrides,
+    });
+
+  const mockPreferencesRepository = {
+    create: jest.fn((preferences) => mockPreferences(preferences)),
+    save: jest.fn(async (preferences) => preferences),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CoverLetterPreferencesService,
+        {
+          provide: getRepositoryToken(CoverLetterPreferences),
+          useValue: mockPreferencesRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CoverLetterPreferencesService>(
+      CoverLetterPreferencesService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveOptions', () => {
+    it('should use the default style for users without preferences', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(null);
+
+      // When
+      const options = await service.resolveOptions(userId);
+
+      // Then
+      expect(options).toEqual({
+        tone: CoverLetterTone.PROFESSIONAL,
+        emphasis: [],
+        format: CoverLetterFormat.PLAIN,
+      });
+    });
+
+    it('should let the request override the saved preferences', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({
+          tone: CoverLetterTone.FORMAL,
+          wordCount: 300,
+          language: 'German',
+          emphasis: ['TypeScript'],
+        }),
+      );
+
+      // When
+      const options = await service.resolveOptions(userId, {
+        tone: CoverLetterTone.ENTHUSIASTIC,
+        emphasis: ['Mentoring'],
+        hiringManagerName: 'Jane Smith',
+        wordCount: undefined,
+      });
+
+      // Then
+      expect(options).toEqual({
+        tone: CoverLetterTone.ENTHUSIASTIC,
+        wordCount: 300,
+        language: 'German',
+        emphasis: ['Mentoring'],
+        hiringManagerName: 'Jane Smith',
+        format: CoverLetterFormat.PLAIN,
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should create preferences on first save', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(null);
+
+      // When
+      const result = await service.update(userId, {
+        tone: CoverLetterTone.CONFIDENT,
+        language: 'French',
+      });
+
+      // Then
+      expect(result).toMatchObject({
+        userId,
+        tone: CoverLetterTone.CONFIDENT,
+        language: 'French',
+        format: CoverLetterFormat.PLAIN,
+      });
+      expect(mockPreferencesRepository.save).toHaveBeenCalled();
+    });
+
+    it('should clear the word count when set to null', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({ wordCount: 300 }),
+      );
+
+      // When
+      const result = await service.update(userId, { wordCount: null });
+
+      // Then
+      expect(result.wordCount).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { CoverLetterPreferences } from './entities/cover-letter-preferences.entity';
+import {
+  GenerateCoverLetterDto,
+  UpdateCoverLetterPreferencesDto,
+} from './dto/cover-letter-options.dto';
+import {
+  CoverLetterFormat,
+  CoverLetterOptions,
+  CoverLetterTone,
+} from '../workflow/types/application.types';
+
+// Drop missing values so they do not replace the ones spread before them
+function withoutUnset<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(
+      ([, value]) => value !== undefined && value !== null,
+    ),
+  ) as Partial<T>;
+}
+
+@Injectable()
+export class CoverLetterPreferencesService {
+  constructor(
+    @InjectRepository(CoverLetterPreferences)
+    private readonly preferencesRepository: Repository<CoverLetterPreferences>,
+  ) {}
+
+  // Stored preferences, or the defaults for users who never saved any
+  async get(userId: string): Promise<CoverLetterPreferences> {
+    const preferences = await this.preferencesRepository.findOne({
+      where: { userId },
+    });
+
+    return (
+      preferences ??
+      this.preferencesRepository.create({
+        userId,
+        tone: CoverLetterTone.PROFESSIONAL,
+        wordCount: null,
+        language: null,
+        emphasis: [],
+        format: CoverLetterFormat.PLAIN,
+      })
+    );
+  }
+
+  async update(
+    userId: string,
+    updateDto: UpdateCoverLetterPreferencesDto,
+  ): Promise<CoverLetterPreferences> {
+    const preferences = await this.get(userId);
+    Object.assign(preferences, updateDto);
+    return this.preferencesRepository.save(preferences);
+  }
+
+  /**
+   * Options for one generation: the user's defaults with whatever the
+   * request sets on top. Unset defaults are left out of the result.
+   */
+  async resolveOptions(
+    userId: string,
+    overrides: GenerateCoverLetterDto = {},
+  ): Promise<CoverLetterOptions> {
+    const { tone, wordCount, language, emphasis, format } =
+      await this.get(userId);
+
+    return {
+      ...withoutUnset({ tone, wordCount, language, emphasis, format }),
+      ...withoutUnset(overrides),
+    };
+  }
+}
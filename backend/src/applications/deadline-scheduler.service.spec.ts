@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+
+import { DeadlineSchedulerService } from './deadline-scheduler.service';
+import { ApplicationsService } from './applications.service';
+import { ChatWebhooksService } from '../chat-webhooks/chat-webhooks.service';
+import { NotificationPreferencesService } from '../notifications/notification-preferences.service';
+import { EmailService } from '../email/email.service';
+import { ReminderDispatcherService } from '../reminders/reminder-dispatcher.service';
+import { User } from '../auth/entities/user.entity';
+
+describe('DeadlineSchedulerService', () => {
+  let service: DeadlineSchedulerService;
+
+  const owner = { id: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45' };
+  const config: Record<string, string> = {};
+
+  const emptyDigest = () => ({
+    generatedAt: new Date(),
+    urgent: [],
+    approaching: [],
+    overdue: [],
+    offers: [],
+    missingCoverLetter: [],
+  });
+
+  const mockApplicationsService = {
+    getDeadlineDigest: jest.fn(),
+  };
+  const mockChatWebhooksService = {
+    isConfigured: jest.fn(),
+    postDigest: jest.fn(),
+  };
+  const mockPreferencesService = {
+    findDigestOnlyUsers: jest.fn(),
+  };
+  const mockEmailService = {
+    isEnabled: jest.fn(),
+    send: jest.fn(),
+  };
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadlineSchedulerService,
+        { provide: ApplicationsService, useValue: mockApplicationsService },
+        { provide: ChatWebhooksService, useValue: mockChatWebhooksService },
+        {
+          provide: NotificationPreferencesService,
+          useValue: mockPreferencesService,
+        },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: ReminderDispatcherService, useValue: {} },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+      ],
+    }).compile();
+
+    service = module.get<DeadlineSchedulerService>(DeadlineSchedulerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+  });
+
+  describe('sendDailyDigest', () => {
+    it("should post only the digest owner's applications", async () => {
+      // Given
+      config.DIGEST_OWNER_EMAIL = 'Jane@Example.com';
+      mockUserRepository.findOne.mockResolvedValue(owner);
+      mockChatWebhooksService.isConfigured.mockReturnValue(true);
+      mockChatWebhooksService.postDigest.mockResolvedValue({
+        posted: 1,
+        failed: 0,
+      });
+      const digest = emptyDigest();
+      mockApplicationsService.getDeadlineDigest.mockResolvedValue(digest);
+
+      // When
+      const result = await service.sendDailyDigest();
+
+      // Then
+      expect(mockUserRepository.findOne).toHaveBeenCalledWith({
+        where: { email: 'jane@example.com' },
+      });
+      expect(mockApplicationsService.getDeadlineDigest).toHaveBeenCalledWith(
+        owner.id,
+      );
+      expect(mockChatWebhooksService.postDigest).toHaveBeenCalledWith(digest);
+      expect(result.posted).toBe(1);
+    });
+
+    it('should not post anything without a digest owner', async () => {
+      // Given
+      mockChatWebhooksService.isConfigured.mockReturnValue(true);
+
+      // When
+      const result = await service.sendDailyDigest();
+
+      // Then
+      expect(mockApplicationsService.getDeadlineDigest).not.toHaveBeenCalled();
+      expect(mockChatWebhooksService.postDigest).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ posted: 0, failed: 0 }));
+    });
+  });
+});
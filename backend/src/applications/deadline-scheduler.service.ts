@@ -1,12 +1,32 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import { ApplicationsService } from './applications.service';
+import { DeadlineDigestResultDto } from './dto/deadline-digest.dto';
+import { ChatWebhooksService } from '../chat-webhooks/chat-webhooks.service';
+import { NotificationPreferencesService } from '../notifications/notification-preferences.service';
+import { EmailService } from '../email/email.service';
+import { renderDigestEmail } from '../email/email-templates';
+import { ReminderDispatcherService } from '../reminders/reminder-dispatcher.service';
+import { ReminderSource } from '../reminders/entities/reminder-dispatch.entity';
+import { User } from '../auth/entities/user.entity';
 
 @Injectable()
 export class DeadlineSchedulerService {
   private readonly logger = new Logger(DeadlineSchedulerService.name);
 
-  constructor(private readonly applicationsService: ApplicationsService) {}
+  constructor(
+    private readonly applicationsService: ApplicationsService,
+    private readonly chatWebhooksService: ChatWebhooksService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly reminderDispatcher: ReminderDispatcherService,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
 
   /**
    * Monitor deadlines every hour during business hours (9 AM - 6 PM)
@@ -59,16 +79,22 @@ export class DeadlineSchedulerService {
           `⚠️ CRITICAL: ${urgentApps.length} application(s) with deadlines within 6 hours`,
         );
 
-        // For very urgent applications (within 2 hours), trigger manual reminders
+        // For very urgent applications (within 2 hours), send the final
+        // reminder unless the workflow or the hourly monitor already did
         const criticalApps =
           await this.applicationsService.getApplicationsRequiringAttention(2);
 
         for (const app of criticalApps) {
           try {
-            await this.applicationsService.triggerManualReminder(app.id);
-            this.logger.warn(
-              `🚨 Triggered critical reminder for ${app.company} - ${app.role} (deadline in < 2 hours)`,
+            const dispatch = await this.reminderDispatcher.dispatch(
+              app,
+              ReminderSource.SCHEDULER,
             );
+            if (dispatch) {
+              this.logger.warn(
+                `🚨 Triggered critical reminder for ${app.company} - ${app.role} (deadline in < 2 hours)`,
+              );
+            }
           } catch (error) {
             this.logger.error(
               `Failed to trigger reminder for application ${app.id}:`,
@@ -83,9 +109,11 @@ export class DeadlineSchedulerService {
   }
 
   /**
-   * Daily summary of deadline status at 8 AM
+   * Daily summary of deadline status at 8 AM, posted to the chat webhooks in
+   * DIGEST_WEBHOOK_URLS and emailed to users in digest-only mode. Runs on
+   * weekends too, since digest-only users get no other reminders.
    */
-  @Cron('0 8 * * 1-5', {
+  @Cron('0 8 * * *', {
     name: 'daily-deadline-summary',
     timeZone: 'America/New_York',
   })
@@ -93,21 +121,57 @@ export class DeadlineSchedulerService {
     this.logger.log('Generating daily deadline summary...');
 
     try {
-      const results =
-        await this.applicationsService.monitorDeadlineApproachingApplications();
-      const overdueApps =
-        await this.applicationsService.getOverdueApplications();
-
-      this.logger.log(
-        `📊 Daily Summary: ${results.urgent.length} urgent (24h), ${results.approaching.length} approaching (3 days), ${overdueApps.length} overdue`,
-      );
-
-      // Additional logic could be added here to send summary emails, Slack messages, etc.
+      await this.sendDailyDigest();
+      await this.emailUserDigests();
     } catch (error) {
       this.logger.error('Failed to generate daily deadline summary:', error);
     }
   }
 
+  /**
+   * Build the digest and post it to the configured chat webhooks. Also used
+   * to send the digest on demand. The channel is shared, so the digest only
+   * covers the applications of the user named in DIGEST_OWNER_EMAIL.
+   */
+  async sendDailyDigest(): Promise<DeadlineDigestResultDto> {
+    const owner = await this.findDigestOwner();
+    if (!owner) {
+      if (this.chatWebhooksService.isConfigured()) {
+        this.logger.warn(
+          'DIGEST_OWNER_EMAIL does not match a registered user; the chat digest is not posted',
+        );
+      }
+      return {
+        urgent: 0,
+        approaching: 0,
+        overdue: 0,
+        offers: 0,
+        missingCoverLetter: 0,
+        posted: 0,
+        failed: 0,
+      };
+    }
+
+    const digest = await this.applicationsService.getDeadlineDigest(owner.id);
+
+    this.logger.log(
+      `📊 Daily Summary: ${digest.urgent.length} urgent (24h), ${digest.approaching.length} approaching (3 days), ${digest.overdue.length} overdue, ${digest.offers.length} offers awaiting response, ${digest.missingCoverLetter.length} without a cover letter`,
+    );
+
+    const delivery = this.chatWebhooksService.isConfigured()
+      ? await this.chatWebhooksService.postDigest(digest)
+      : { posted: 0, failed: 0 };
+
+    return {
+      urgent: digest.urgent.length,
+      approaching: digest.approaching.length,
+      overdue: digest.overdue.length,
+      offers: digest.offers.length,
+      missingCoverLetter: digest.missingCoverLetter.length,
+      ...delivery,
+    };
+  }
+
   /**
    * Manual trigger for deadline monitoring (useful for testing or immediate checks)
    */
@@ -139,4 +203,50 @@ export class DeadlineSchedulerService {
       throw error;
     }
   }
+
+  private async findDigestOwner(): Promise<User | null> {
+    const email = this.configService.get<string>('DIGEST_OWNER_EMAIL');
+    if (!email) {
+      return null;
+    }
+
+    return this.userRepository.findOne({
+      where: { email: email.trim().toLowerCase() },
+    });
+  }
+
+  // Users in digest-only mode get their own applications by email instead
+  // of individual reminders
+  private async emailUserDigests(): Promise<void> {
+    if (!this.emailService.isEnabled()) {
+      return;
+    }
+
+    const users = await this.preferencesService.findDigestOnlyUsers();
+    const appUrl = this.configService.get('APP_URL', 'http://localhost:3000');
+
+    for (const user of users) {
+      if (!user?.notificationEmail) {
+        continue;
+      }
+
+      try {
+        const digest = await this.applicationsService.getDeadlineDigest(
+          user.id,
+        );
+        const rendered = renderDigestEmail(digest, appUrl);
+        if (rendered) {
+          await this.emailService.send({
+            to: user.notificationEmail,
+            ...rendered,
+          });
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to email daily digest to user ${user.id}:`,
+          error,
+        );
+      }
+    }
+  }
 }
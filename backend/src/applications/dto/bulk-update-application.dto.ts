@@ -1,6 +1,13 @@
-import { IsArray, IsEnum, IsUUID, ValidateNested } from 'class-validator';
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ApplicationStatus } from '../../workflow/types/application.types';
 
 export class BulkUpdateItem {
@@ -14,6 +21,13 @@ export class BulkUpdateItem {
   })
   @IsEnum(ApplicationStatus)
   status: ApplicationStatus;
+
+  @ApiPropertyOptional({
+    description: 'Comment recorded in the status history for this change',
+  })
+  @IsOptional()
+  @IsString()
+  comment?: string;
 }
 
 export class BulkUpdateApplicationDto {
@@ -0,0 +1,131 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  CoverLetterFormat,
+  CoverLetterTone,
+} from '../../workflow/types/application.types';
+
+export class GenerateCoverLetterDto {
+  @ApiPropertyOptional({
+    description: 'Tone of the letter',
+    enum: CoverLetterTone,
+    example: CoverLetterTone.ENTHUSIASTIC,
+  })
+  @IsOptional()
+  @IsEnum(CoverLetterTone)
+  tone?: CoverLetterTone;
+
+  @ApiPropertyOptional({
+    description: 'Target length in words',
+    example: 300,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(1000)
+  wordCount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Language to write the letter in',
+    example: 'German',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  language?: string;
+
+  @ApiPropertyOptional({
+    description: 'Skills to emphasize; replaces the saved list',
+    example: ['TypeScript', 'Team leadership'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  emphasis?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Name to address the letter to',
+    example: 'Jane Smith',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  hiringManagerName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Plain text or Markdown',
+    enum: CoverLetterFormat,
+  })
+  @IsOptional()
+  @IsEnum(CoverLetterFormat)
+  format?: CoverLetterFormat;
+}
+
+export class UpdateCoverLetterPreferencesDto {
+  @ApiPropertyOptional({
+    description: 'Tone of generated cover letters',
+    enum: CoverLetterTone,
+  })
+  @IsOptional()
+  @IsEnum(CoverLetterTone)
+  tone?: CoverLetterTone;
+
+  @ApiPropertyOptional({
+    description: 'Target length in words; null for 3-4 paragraphs',
+    example: 300,
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsInt()
+  @Min(100)
+  @Max(1000)
+  wordCount?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Language to write in; null to let the model decide',
+    example: 'German',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  language?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Skills to emphasize in every cover letter',
+    example: ['TypeScript', 'Team leadership'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  emphasis?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Whether letters are plain text or Markdown',
+    enum: CoverLetterFormat,
+  })
+  @IsOptional()
+  @IsEnum(CoverLetterFormat)
+  format?: CoverLetterFormat;
+}
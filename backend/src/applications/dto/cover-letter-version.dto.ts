@@ -0,0 +1,36 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CoverLetterVersion } from '../entities/cover-letter-version.entity';
+import { CoverLetterDiffChange } from '../cover-letter-diff';
+
+export class CoverLetterDiffQueryDto {
+  @ApiProperty({ description: 'Older version ID' })
+  @IsUUID()
+  from: string;
+
+  @ApiProperty({ description: 'Newer version ID' })
+  @IsUUID()
+  to: string;
+}
+
+export class CoverLetterDiffLineDto {
+  @ApiProperty({ enum: ['unchanged', 'added', 'removed'] })
+  change: CoverLetterDiffChange;
+
+  @ApiProperty({ description: 'Line of the cover letter' })
+  text: string;
+}
+
+export class CoverLetterDiffDto {
+  @ApiProperty({ type: CoverLetterVersion })
+  from: CoverLetterVersion;
+
+  @ApiProperty({ type: CoverLetterVersion })
+  to: CoverLetterVersion;
+
+  @ApiProperty({
+    type: [CoverLetterDiffLineDto],
+    description: 'Lines of both versions in order, removals before additions',
+  })
+  lines: CoverLetterDiffLineDto[];
+}
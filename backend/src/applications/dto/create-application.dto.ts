@@ -5,8 +5,9 @@ import {
   IsDateString,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReminderScheduleDto } from './reminder-schedule.dto';
 
-export class CreateApplicationDto {
+export class CreateApplicationDto extends ReminderScheduleDto {
   @ApiProperty({ description: 'Company name', example: 'Google' })
   @IsString()
   @IsNotEmpty()
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Application } from '../entities/application.entity';
+
+export class DeadlineDigestDto {
+  @ApiProperty({ description: 'When the digest was generated' })
+  generatedAt: Date;
+
+  @ApiProperty({
+    type: [Application],
+    description: 'Pending applications due within 24 hours',
+  })
+  urgent: Application[];
+
+  @ApiProperty({
+    type: [Application],
+    description: 'Pending applications due within 3 days, excluding urgent',
+  })
+  approaching: Application[];
+
+  @ApiProperty({
+    type: [Application],
+    description: 'Pending applications past their deadline',
+  })
+  overdue: Application[];
+
+  @ApiProperty({
+    type: [Application],
+    description: 'Offers waiting for a decision, oldest first',
+  })
+  offers: Application[];
+
+  @ApiProperty({
+    type: [Application],
+    description: 'Pending or interviewing applications without a cover letter',
+  })
+  missingCoverLetter: Application[];
+}
+
+export class DeadlineDigestResultDto {
+  @ApiProperty({ description: 'Urgent applications in the digest' })
+  urgent: number;
+
+  @ApiProperty({ description: 'Approaching applications in the digest' })
+  approaching: number;
+
+  @ApiProperty({ description: 'Overdue applications in the digest' })
+  overdue: number;
+
+  @ApiProperty({ description: 'Offers awaiting a response' })
+  offers: number;
+
+  @ApiProperty({ description: 'Applications without a cover letter' })
+  missingCoverLetter: number;
+
+  @ApiProperty({ description: 'Webhooks the digest was posted to' })
+  posted: number;
+
+  @ApiProperty({ description: 'Webhooks that could not be reached' })
+  failed: number;
+}
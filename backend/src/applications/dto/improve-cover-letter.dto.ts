@@ -0,0 +1,36 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImproveCoverLetterDto {
+  @ApiProperty({
+    description: 'What to change in the cover letter',
+    example: 'Shorter, and mention my open source work',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  feedback: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Draft to improve instead of the saved cover letter, to refine a draft that was not accepted yet',
+    example: 'Dear Hiring Manager...',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  coverLetter?: string;
+}
+
+export class CoverLetterDraftDto {
+  @ApiProperty({
+    description: 'Improved cover letter; not applied until accepted',
+    example: 'Dear Hiring Manager...',
+  })
+  coverLetter: string;
+
+  @ApiProperty({
+    description: 'Version holding the draft; restore it to accept the draft',
+  })
+  versionId: string;
+}
@@ -0,0 +1,150 @@
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApplicationStatus } from '../../workflow/types/application.types';
+import { Application } from '../entities/application.entity';
+
+export const APPLICATION_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'deadline',
+  'company',
+  'role',
+  'status',
+] as const;
+
+export type ApplicationSortField = (typeof APPLICATION_SORT_FIELDS)[number];
+
+export const MAX_PAGE_SIZE = 100;
+
+// Accepts both `status=a&status=b` and `status=a,b`. Reads the raw value so
+// implicit conversion cannot mangle it first.
+const toStringArray = ({ obj, key }: { obj: any; key: string }) => {
+  const value = obj[key];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+export class QueryApplicationsDto {
+  @ApiPropertyOptional({
+    description:
+      'Filter by one or more statuses (repeat the parameter or comma-separate)',
+    enum: ApplicationStatus,
+    isArray: true,
+  })
+  @IsOptional()
+  @Transform(toStringArray)
+  @IsArray()
+  @IsEnum(ApplicationStatus, { each: true })
+  status?: ApplicationStatus[];
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive substring match on company or role',
+    example: 'engineer',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Deadline on or after (ISO string)' })
+  @IsOptional()
+  @IsDateString()
+  deadlineFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Deadline on or before (ISO string)' })
+  @IsOptional()
+  @IsDateString()
+  deadlineTo?: string;
+
+  @ApiPropertyOptional({ description: 'Created on or after (ISO string)' })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Created on or before (ISO string)' })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiPropertyOptional({ description: 'Updated on or after (ISO string)' })
+  @IsOptional()
+  @IsDateString()
+  updatedFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Updated on or before (ISO string)' })
+  @IsOptional()
+  @IsDateString()
+  updatedTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'Field to sort by',
+    enum: APPLICATION_SORT_FIELDS,
+    default: 'createdAt',
+  })
+  @IsOptional()
+  @IsIn(APPLICATION_SORT_FIELDS)
+  sortBy?: ApplicationSortField = 'createdAt';
+
+  @ApiPropertyOptional({
+    description: 'Sort direction',
+    enum: ['ASC', 'DESC'],
+    default: 'DESC',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsIn(['ASC', 'DESC'])
+  sortOrder?: 'ASC' | 'DESC' = 'DESC';
+
+  @ApiPropertyOptional({
+    description: `Page size (max ${MAX_PAGE_SIZE})`,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Number of items to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class PaginatedApplicationsDto {
+  @ApiProperty({ type: [Application] })
+  items: Application[];
+
+  @ApiProperty({ description: 'Total number of matching applications' })
+  total: number;
+
+  @ApiProperty({ description: 'Page size used for this response' })
+  limit: number;
+
+  @ApiProperty({ description: 'Offset used for this response' })
+  offset: number;
+
+  @ApiProperty({ description: 'Whether more items exist after this page' })
+  hasMore: boolean;
+}
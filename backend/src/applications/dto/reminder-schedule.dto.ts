@@ -0,0 +1,41 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { REMINDER_OFFSET_PATTERN } from '../../reminders/reminder-windows';
+
+// Reminder schedule fields shared by the create and update DTOs
+export class ReminderScheduleDto {
+  @ApiPropertyOptional({
+    description:
+      'When to send reminders before the deadline (m, h or d units, at most 90 days); null uses the default schedule, an empty list turns scheduled reminders off',
+    example: ['7d', '3d', '1d', '2h'],
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsArray()
+  @ArrayMaxSize(10)
+  @Matches(REMINDER_OFFSET_PATTERN, {
+    each: true,
+    message: 'each reminder offset must look like 30m, 12h or 7d',
+  })
+  reminderOffsets?: string[] | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Days after the deadline before a pending application is archived; null uses GRACE_PERIOD_DAYS',
+    example: 7,
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  gracePeriodDays?: number | null;
+}
@@ -0,0 +1,21 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReopenApplicationDto {
+  @ApiPropertyOptional({
+    description:
+      'New deadline (ISO string). Defaults to DEFAULT_DEADLINE_WEEKS from now',
+    example: '2024-03-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  deadline?: string;
+
+  @ApiPropertyOptional({
+    description: 'Comment recorded in the status history',
+    example: 'Recruiter reached out again about a new opening',
+  })
+  @IsOptional()
+  @IsString()
+  comment?: string;
+}
@@ -0,0 +1,73 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Application } from '../entities/application.entity';
+import { MAX_PAGE_SIZE } from './query-applications.dto';
+
+export class SearchApplicationsDto {
+  @ApiProperty({
+    description:
+      'Search query (supports quoted phrases, OR and -exclusions, as in web search)',
+    example: 'rust kubernetes',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({
+    description: `Page size (max ${MAX_PAGE_SIZE})`,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Number of items to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export type SearchHighlightField = 'jobDescription' | 'notes' | 'coverLetter';
+
+export class ApplicationSearchResultDto {
+  @ApiProperty({ type: Application })
+  application: Application;
+
+  @ApiProperty({ description: 'Relevance score (higher is better)' })
+  rank: number;
+
+  @ApiProperty({
+    description:
+      'Matching snippets per field, with matches wrapped in <mark></mark>',
+    example: {
+      jobDescription: '... experience with <mark>Kubernetes</mark> ...',
+    },
+  })
+  highlights: Partial<Record<SearchHighlightField, string>>;
+}
+
+export class ApplicationSearchResponseDto {
+  @ApiProperty({ type: [ApplicationSearchResultDto] })
+  items: ApplicationSearchResultDto[];
+
+  @ApiProperty({ description: 'Total number of matching applications' })
+  total: number;
+
+  @ApiProperty({ description: 'The query that was searched' })
+  query: string;
+}
@@ -1,8 +1,9 @@
-import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { ApplicationStatus } from '../../workflow/types/application.types';
+import { ReminderScheduleDto } from './reminder-schedule.dto';
 
-export class UpdateApplicationDto {
+export class UpdateApplicationDto extends ReminderScheduleDto {
   @ApiPropertyOptional({
     description: 'Application status',
     enum: ApplicationStatus,
@@ -12,6 +13,23 @@ export class UpdateApplicationDto {
   @IsEnum(ApplicationStatus)
   status?: ApplicationStatus;
 
+  @ApiPropertyOptional({
+    description: 'Comment recorded in the status history with a status change',
+    example: 'Recruiter called to schedule a phone screen',
+  })
+  @IsOptional()
+  @IsString()
+  statusComment?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'New application deadline (ISO string); reschedules reminders and the grace period',
+    example: '2024-03-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  deadline?: string;
+
   @ApiPropertyOptional({
     description: 'Additional notes',
     example: 'Had first interview, waiting for next round',
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Column,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ApplicationStatus,
+  StatusChangeSource,
+} from '../../workflow/types/application.types';
+import { Application } from './application.entity';
+
+@Entity('application_status_changes')
+@Index('IDX_status_changes_application_changed_at', [
+  'applicationId',
+  'changedAt',
+])
+export class ApplicationStatusChange {
+  @ApiProperty({ description: 'Unique identifier for the status change' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Application this change belongs to' })
+  @Column('uuid')
+  applicationId: string;
+
+  @ManyToOne(() => Application, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'applicationId' })
+  application?: Application;
+
+  @ApiPropertyOptional({
+    description: 'Status before the change',
+    enum: ApplicationStatus,
+  })
+  @Column({ type: 'enum', enum: ApplicationStatus, nullable: true })
+  fromStatus?: ApplicationStatus;
+
+  @ApiProperty({
+    description: 'Status after the change',
+    enum: ApplicationStatus,
+  })
+  @Column({ type: 'enum', enum: ApplicationStatus })
+  toStatus: ApplicationStatus;
+
+  @ApiProperty({
+    description: 'What triggered the change',
+    enum: StatusChangeSource,
+  })
+  @Column({ type: 'enum', enum: StatusChangeSource })
+  source: StatusChangeSource;
+
+  @ApiPropertyOptional({ description: 'Optional comment about the change' })
+  @Column('text', { nullable: true })
+  comment?: string;
+
+  @ApiProperty({ description: 'When the change happened' })
+  @CreateDateColumn()
+  changedAt: Date;
+}
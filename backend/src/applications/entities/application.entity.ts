@@ -1,12 +1,30 @@
 import {
   Entity,
   Column,
+  Index,
   PrimaryGeneratedColumn,
   CreateDateColumn,
   UpdateDateColumn,
+  AfterLoad,
+  AfterInsert,
+  AfterUpdate,
+  JoinColumn,
+  ManyToOne,
 } from 'typeorm';
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ApplicationStatus } from '../../workflow/types/application.types';
+import { canReopen, getAllowedTransitions } from '../status-transitions';
+import { User } from '../../auth/entities/user.entity';
+
+// Weighted full-text document: company/role rank highest, then the job
+// description, notes and finally the cover letter.
+export const APPLICATION_SEARCH_VECTOR_EXPRESSION = `
+  setweight(to_tsvector('english', coalesce("company", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("role", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("jobDescription", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("notes", '')), 'C') ||
+  setweight(to_tsvector('english', coalesce("coverLetter", '')), 'D')
+`;
 
 @Entity('applications')
 export class Application {
@@ -50,14 +68,60 @@ export class Application {
   })
   status: ApplicationStatus;
 
+  @ApiPropertyOptional({
+    description:
+      'Reminder offsets before the deadline; null uses the default schedule, an empty list sends none',
+    example: ['7d', '3d', '1d', '2h'],
+  })
+  @Column('text', { array: true, nullable: true })
+  reminderOffsets?: string[] | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Days after the deadline before a pending application is archived; null uses GRACE_PERIOD_DAYS',
+    example: 7,
+  })
+  @Column('int', { nullable: true })
+  gracePeriodDays?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Latest follow-up email drafted while the application is in the applied status',
+  })
+  @Column('text', { nullable: true })
+  followUpDraft?: string | null;
+
   @ApiProperty({ description: 'Notes about the application' })
   @Column('text', { nullable: true })
   notes?: string;
 
+  @ApiProperty({ description: 'ID of the user who owns the application' })
+  @Index('IDX_applications_owner')
+  @Column('uuid', { nullable: true })
+  ownerId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'ownerId' })
+  owner?: User;
+
   @ApiProperty({ description: 'Temporal workflow ID' })
   @Column({ unique: true })
   workflowId: string;
 
+  // Maintained by Postgres; only used for full-text search queries. The GIN
+  // index is created by migration, so schema sync must leave it alone.
+  @Index('IDX_applications_search_vector', { synchronize: false })
+  @Column({
+    type: 'tsvector',
+    select: false,
+    insert: false,
+    update: false,
+    nullable: true,
+    generatedType: 'STORED',
+    asExpression: APPLICATION_SEARCH_VECTOR_EXPRESSION,
+  })
+  searchVector?: string;
+
   @ApiProperty({ description: 'Application creation date' })
   @CreateDateColumn()
   createdAt: Date;
@@ -65,4 +129,22 @@ export class Application {
   @ApiProperty({ description: 'Application last update date' })
   @UpdateDateColumn()
   updatedAt: Date;
+
+  @ApiProperty({
+    description: 'Statuses this application can be moved to next',
+    enum: ApplicationStatus,
+    isArray: true,
+  })
+  allowedTransitions?: ApplicationStatus[];
+
+  @ApiProperty({ description: 'Whether the application can be reopened' })
+  canReopen?: boolean;
+
+  @AfterLoad()
+  @AfterInsert()
+  @AfterUpdate()
+  computeStatusActions(): void {
+    this.allowedTransitions = getAllowedTransitions(this.status);
+    this.canReopen = canReopen(this.status);
+  }
 }
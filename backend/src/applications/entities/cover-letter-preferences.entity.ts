@@ -0,0 +1,72 @@
+import {
+  Entity,
+  Column,
+  OneToOne,
+  JoinColumn,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { User } from '../../auth/entities/user.entity';
+import {
+  CoverLetterFormat,
+  CoverLetterTone,
+} from '../../workflow/types/application.types';
+
+@Entity('cover_letter_preferences')
+export class CoverLetterPreferences {
+  @ApiProperty({ description: 'User the preferences belong to' })
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ApiProperty({
+    description: 'Tone of generated cover letters',
+    enum: CoverLetterTone,
+  })
+  @Column({
+    type: 'enum',
+    enum: CoverLetterTone,
+    default: CoverLetterTone.PROFESSIONAL,
+  })
+  tone: CoverLetterTone;
+
+  @ApiPropertyOptional({
+    description: 'Target length in words; empty for 3-4 paragraphs',
+    example: 300,
+  })
+  @Column({ type: 'int', nullable: true })
+  wordCount?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Language to write in; empty to let the model decide',
+    example: 'German',
+  })
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  language?: string | null;
+
+  @ApiProperty({
+    description: 'Skills to emphasize in every cover letter',
+    example: ['TypeScript', 'Team leadership'],
+  })
+  @Column('jsonb', { default: () => "'[]'" })
+  emphasis: string[];
+
+  @ApiProperty({
+    description: 'Whether letters are plain text or Markdown',
+    enum: CoverLetterFormat,
+  })
+  @Column({
+    type: 'enum',
+    enum: CoverLetterFormat,
+    default: CoverLetterFormat.PLAIN,
+  })
+  format: CoverLetterFormat;
+
+  @ApiProperty({ description: 'Preferences last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
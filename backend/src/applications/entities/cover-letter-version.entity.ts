@@ -0,0 +1,61 @@
+import {
+  Entity,
+  Column,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CoverLetterSource } from '../../workflow/types/application.types';
+import { Application } from './application.entity';
+
+@Entity('cover_letter_versions')
+@Index('IDX_cover_letter_versions_application_created_at', [
+  'applicationId',
+  'createdAt',
+])
+export class CoverLetterVersion {
+  @ApiProperty({ description: 'Unique identifier for the version' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Application this version belongs to' })
+  @Column('uuid')
+  applicationId: string;
+
+  @ManyToOne(() => Application, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'applicationId' })
+  application?: Application;
+
+  @ApiProperty({ description: 'Cover letter text' })
+  @Column('text')
+  content: string;
+
+  @ApiProperty({
+    description: 'What produced this version',
+    enum: CoverLetterSource,
+  })
+  @Column({ type: 'enum', enum: CoverLetterSource })
+  source: CoverLetterSource;
+
+  @ApiPropertyOptional({
+    description:
+      'Model that generated the text; empty for user edits and template letters',
+    example: 'gemini-2.0-flash',
+  })
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  model?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'SHA-256 of the prompt, to tell apart generations from the same input',
+  })
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  promptHash?: string | null;
+
+  @ApiProperty({ description: 'When the version was recorded' })
+  @CreateDateColumn()
+  createdAt: Date;
+}
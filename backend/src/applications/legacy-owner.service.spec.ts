@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, IsNull } from 'typeorm';
+
+import { LegacyOwnerService } from './legacy-owner.service';
+import { Application } from './entities/application.entity';
+import { User } from '../auth/entities/user.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+
+describe('LegacyOwnerService', () => {
+  let service: LegacyOwnerService;
+
+  const owner = { id: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45' };
+  const config: Record<string, string> = {};
+
+  const mockApplicationRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+  const mockNotificationRepository = {
+    update: jest.fn(),
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string) => config[key]),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LegacyOwnerService,
+        {
+          provide: getRepositoryToken(Application),
+          useValue: mockApplicationRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(Notification),
+          useValue: mockNotificationRepository,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<LegacyOwnerService>(LegacyOwnerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete config.LEGACY_OWNER_EMAIL;
+  });
+
+  it('should leave unowned applications alone without LEGACY_OWNER_EMAIL', async () => {
+    // When
+    await service.onApplicationBootstrap();
+
+    // Then
+    expect(mockUserRepository.findOne).not.toHaveBeenCalled();
+    expect(mockApplicationRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should assign unowned applications and their notifications to the configured user', async () => {
+    // Given
+    config.LEGACY_OWNER_EMAIL = ' Jane@Example.com ';
+    mockUserRepository.findOne.mockResolvedValue(owner);
+    mockApplicationRepository.find.mockResolvedValue([
+      { id: 'app-1' },
+      { id: 'app-2' },
+    ]);
+
+    // When
+    await service.onApplicationBootstrap();
+
+    // Then
+    expect(mockUserRepository.findOne).toHaveBeenCalledWith({
+      where: { email: 'jane@example.com' },
+    });
+    expect(mockNotificationRepository.update).toHaveBeenCalledWith(
+      { userId: IsNull(), applicationId: In(['app-1', 'app-2']) },
+      { userId: owner.id },
+    );
+    expect(mockApplicationRepository.update).toHaveBeenCalledWith(
+      { id: In(['app-1', 'app-2']) },
+      { ownerId: owner.id },
+    );
+  });
+
+  it('should change nothing when the email does not match a user', async () => {
+    // Given
+    mockUserRepository.findOne.mockResolvedValue(null);
+
+    // When
+    const assigned = await service.assignTo('nobody@example.com');
+
+    // Then
+    expect(assigned).toBe(0);
+    expect(mockApplicationRepository.find).not.toHaveBeenCalled();
+    expect(mockApplicationRepository.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+
+import { Application } from './entities/application.entity';
+import { User } from '../auth/entities/user.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+
+// Applications created before accounts existed have no owner and are only
+// visible to admins. Setting LEGACY_OWNER_EMAIL hands them, and their
+// notifications, to that account once it has been registered.
+@Injectable()
+export class LegacyOwnerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LegacyOwnerService.name);
+
+  constructor(
+    @InjectRepository(Application)
+    private readonly applicationRepository: Repository<Application>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const email = this.configService.get<string>('LEGACY_OWNER_EMAIL');
+    if (email) {
+      await this.assignTo(email);
+    }
+  }
+
+  // Returns how many applications were assigned
+  async assignTo(email: string): Promise<number> {
+    const owner = await this.userRepository.findOne({
+      where: { email: email.trim().toLowerCase() },
+    });
+    if (!owner) {
+      this.logger.warn(
+        'LEGACY_OWNER_EMAIL does not match a registered user; unowned applications stay admin-only',
+      );
+      return 0;
+    }
+
+    const unowned = await this.applicationRepository.find({
+      select: { id: true },
+      where: { ownerId: IsNull() },
+    });
+    if (unowned.length === 0) {
+      return 0;
+    }
+
+    const ids = unowned.map(({ id }) => id);
+    await this.notificationRepository.update(
+      { userId: IsNull(), applicationId: In(ids) },
+      { userId: owner.id },
+    );
+    await this.applicationRepository.update(
+      { id: In(ids) },
+      { ownerId: owner.id },
+    );
+
+    this.logger.log(
+      `Assigned ${ids.length} unowned applications to ${owner.id}`,
+    );
+    return ids.length;
+  }
+}
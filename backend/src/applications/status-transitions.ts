@@ -0,0 +1,85 @@
+import { UnprocessableEntityException } from '@nestjs/common';
+import { ApplicationStatus } from '../workflow/types/application.types';
+
+/**
+ * Status changes allowed through update and bulk update. Terminal states can
+ * only move forward to ARCHIVED; going back to PENDING requires an explicit
+ * reopen so a fresh workflow is started.
+ */
+export const ALLOWED_STATUS_TRANSITIONS: Record<
+  ApplicationStatus,
+  ApplicationStatus[]
+> = {
+  [ApplicationStatus.PENDING]: [
+    ApplicationStatus.APPLIED,
+    ApplicationStatus.INTERVIEW,
+    ApplicationStatus.OFFER,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+    ApplicationStatus.ARCHIVED,
+  ],
+  [ApplicationStatus.APPLIED]: [
+    ApplicationStatus.INTERVIEW,
+    ApplicationStatus.OFFER,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+    ApplicationStatus.ARCHIVED,
+  ],
+  [ApplicationStatus.INTERVIEW]: [
+    ApplicationStatus.OFFER,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+    ApplicationStatus.ARCHIVED,
+  ],
+  [ApplicationStatus.OFFER]: [
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+    ApplicationStatus.ARCHIVED,
+  ],
+  [ApplicationStatus.REJECTED]: [ApplicationStatus.ARCHIVED],
+  [ApplicationStatus.WITHDRAWN]: [ApplicationStatus.ARCHIVED],
+  [ApplicationStatus.ARCHIVED]: [],
+};
+
+// Statuses whose workflow has finished and which can be reopened as PENDING
+export const REOPENABLE_STATUSES: ApplicationStatus[] = [
+  ApplicationStatus.REJECTED,
+  ApplicationStatus.WITHDRAWN,
+  ApplicationStatus.ARCHIVED,
+];
+
+export function getAllowedTransitions(
+  status: ApplicationStatus,
+): ApplicationStatus[] {
+  return ALLOWED_STATUS_TRANSITIONS[status] ?? [];
+}
+
+export function canTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+): boolean {
+  // Re-submitting the current status is a no-op, not a transition
+  return from === to || getAllowedTransitions(from).includes(to);
+}
+
+export function canReopen(status: ApplicationStatus): boolean {
+  return REOPENABLE_STATUSES.includes(status);
+}
+
+export function assertTransition(
+  applicationId: string,
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+): void {
+  if (!canTransition(from, to)) {
+    throw new UnprocessableEntityException({
+      statusCode: 422,
+      error: 'Unprocessable Entity',
+      message: `Cannot change status of application ${applicationId} from ${from} to ${to}`,
+      applicationId,
+      currentStatus: from,
+      requestedStatus: to,
+      allowedTransitions: getAllowedTransitions(from),
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { AuthService } from './auth.service';
+import { RegisterDto } from './dto/register.dto';
+import { LoginDto } from './dto/login.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { User } from './entities/user.entity';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Public } from '../common/guards/api-key.guard';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Public()
+  @Post('register')
+  @ApiOperation({ summary: 'Create an account and return an access token' })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'Email already registered' })
+  register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
+    return this.authService.register(registerDto);
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange email and password for an access token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Logged in',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid email or password' })
+  login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
+    return this.authService.login(loginDto);
+  }
+
+  @Get('me')
+  @ApiBearerAuth('bearer')
+  @ApiOperation({ summary: 'Get the signed-in user' })
+  @ApiResponse({ status: 200, description: 'Current user', type: User })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  me(@CurrentUser() user: User): User {
+    return user;
+  }
+
+  @Patch('me')
+  @ApiBearerAuth('bearer')
+  @ApiOperation({ summary: 'Update the signed-in user profile' })
+  @ApiResponse({ status: 200, description: 'Profile updated', type: User })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  @ApiResponse({ status: 422, description: 'Validation failed' })
+  updateProfile(
+    @CurrentUser() user: User,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ): Promise<User> {
+    return this.authService.updateProfile(user, updateProfileDto);
+  }
+}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+
+import { AuthService } from './auth.service';
+import { User } from './entities/user.entity';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+
+  const mockUser: User = {
+    id: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45',
+    email: 'jane@example.com',
+    name: 'Jane',
+    passwordHash: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const mockQueryBuilder = {
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  const mockRepository = {
+    create: jest.fn((user) => user),
+    save: jest.fn(async (user) => ({ ...mockUser, ...user })),
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        AuthService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('register', () => {
+    it('should store a password hash and return a token for the new user', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(null);
+
+      // When
+      const result = await service.register({
+        email: ' Jane@Example.com ',
+        password: 'correct-horse-battery',
+        name: 'Jane',
+      });
+
+      // Then
+      const saved = mockRepository.save.mock.calls[0][0];
+      expect(saved.email).toBe('jane@example.com');
+      expect(saved.passwordHash).toMatch(/^scrypt\$/);
+      expect(saved.passwordHash).not.toContain('correct-horse-battery');
+      expect(result.user.passwordHash).toBeUndefined();
+      expect(jwtService.verify(result.accessToken)).toMatchObject({
+        sub: mockUser.id,
+        email: 'jane@example.com',
+      });
+    });
+
+    it('should reject an email that is already registered', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockUser);
+
+      // When & Then
+      await expect(
+        service.register({
+          email: mockUser.email,
+          password: 'correct-horse-battery',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    it('should return a token when the password matches', async () => {
+      // Given
+      const passwordHash = await service.hashPassword('correct-horse-battery');
+      mockQueryBuilder.getOne.mockResolvedValue({ ...mockUser, passwordHash });
+
+      // When
+      const result = await service.login({
+        email: mockUser.email,
+        password: 'correct-horse-battery',
+      });
+
+      // Then
+      expect(result.user.id).toBe(mockUser.id);
+      expect(result.user.passwordHash).toBeUndefined();
+    });
+
+    it('should reject a wrong password', async () => {
+      // Given
+      const passwordHash = await service.hashPassword('correct-horse-battery');
+      mockQueryBuilder.getOne.mockResolvedValue({ ...mockUser, passwordHash });
+
+      // When & Then
+      await expect(
+        service.login({ email: mockUser.email, password: 'wrong-password' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an unknown email', async () => {
+      // Given
+      mockQueryBuilder.getOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.login({ email: 'nobody@example.com', password: 'whatever1' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should resolve a valid token to its user', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockUser);
+      const token = jwtService.sign({
+        sub: mockUser.id,
+        email: mockUser.email,
+      });
+
+      // When
+      const user = await service.verifyToken(token);
+
+      // Then
+      expect(user).toEqual(mockUser);
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      // Given
+      const token = new JwtService({ secret: 'other-secret' }).sign({
+        sub: mockUser.id,
+        email: mockUser.email,
+      });
+
+      // When & Then
+      await expect(service.verifyToken(token)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should normalize the notification email and allow clearing it', async () => {
+      // When
+      const updated = await service.updateProfile(
+        { ...mockUser },
+        { notificationEmail: ' Jane.Alerts@Example.com ' },
+      );
+      const cleared = await service.updateProfile(
+        { ...mockUser, notificationEmail: 'jane@example.com' },
+        { notificationEmail: null },
+      );
+
+      // Then
+      expect(updated.notificationEmail).toBe('jane.alerts@example.com');
+      expect(updated.name).toBe(mockUser.name);
+      expect(cleared.notificationEmail).toBeNull();
+    });
+  });
+});
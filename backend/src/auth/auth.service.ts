@@ -0,0 +1,155 @@
+import {
+  Injectable,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+import { User } from './entities/user.entity';
+import { RegisterDto } from './dto/register.dto';
+import { LoginDto } from './dto/login.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export interface JwtPayload {
+  sub: string;
+  email: string;
+}
+
+@Injectable()
+export class AuthService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+    const email = this.normalizeEmail(registerDto.email);
+
+    const existing = await this.userRepository.findOne({ where: { email } });
+    if (existing) {
+      throw new ConflictException('An account with this email already exists');
+    }
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        name: registerDto.name,
+        passwordHash: await this.hashPassword(registerDto.password),
+      }),
+    );
+
+    // Don't echo the hash back to the client
+    delete user.passwordHash;
+
+    return this.issueToken(user);
+  }
+
+  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.email = :email', {
+        email: this.normalizeEmail(loginDto.email),
+      })
+      .getOne();
+
+    if (
+      !user ||
+      !(await this.verifyPassword(loginDto.password, user.passwordHash))
+    ) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    delete user.passwordHash;
+
+    return this.issueToken(user);
+  }
+
+  /**
+   * Resolve a bearer token to its user, rejecting expired or tampered tokens
+   * and tokens for accounts that no longer exist
+   */
+  async verifyToken(token: string): Promise<User> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    return user;
+  }
+
+  async updateProfile(
+    user: User,
+    updateProfileDto: UpdateProfileDto,
+  ): Promise<User> {
+    const { name, notificationEmail } = updateProfileDto;
+
+    if (name !== undefined) {
+      user.name = name;
+    }
+    if (notificationEmail !== undefined) {
+      user.notificationEmail = notificationEmail
+        ? this.normalizeEmail(notificationEmail)
+        : null;
+    }
+
+    return this.userRepository.save(user);
+  }
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [algorithm, saltHex, hashHex] = (stored || '').split('$');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(
+      password,
+      Buffer.from(saltHex, 'hex'),
+      expected.length,
+    );
+
+    return timingSafeEqual(actual, expected);
+  }
+
+  private async issueToken(user: User): Promise<AuthResponseDto> {
+    const payload: JwtPayload = { sub: user.id, email: user.email };
+    return {
+      accessToken: await this.jwtService.signAsync(payload),
+      user,
+    };
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
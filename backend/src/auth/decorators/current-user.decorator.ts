@@ -0,0 +1,20 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { User } from '../entities/user.entity';
+
+/**
+ * Injects the authenticated user. Routes using it require a signed-in user;
+ * requests authenticated by an API key without an owner are rejected.
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): User => {
+    const request = context.switchToHttp().getRequest();
+    if (!request.user) {
+      throw new UnauthorizedException('User authentication required');
+    }
+    return request.user;
+  },
+);
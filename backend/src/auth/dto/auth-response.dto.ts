@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../entities/user.entity';
+
+export class AuthResponseDto {
+  @ApiProperty({
+    description: 'JWT to send as `Authorization: Bearer <token>`',
+  })
+  accessToken: string;
+
+  @ApiProperty({ type: User })
+  user: User;
+}
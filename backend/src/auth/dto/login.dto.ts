@@ -0,0 +1,16 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LoginDto {
+  @ApiProperty({
+    description: 'Login email address',
+    example: 'jane@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ description: 'Password', example: 'correct-horse-battery' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
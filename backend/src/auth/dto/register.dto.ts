@@ -0,0 +1,32 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RegisterDto {
+  @ApiProperty({
+    description: 'Login email address',
+    example: 'jane@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Password (at least 8 characters)',
+    example: 'correct-horse-battery',
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password: string;
+
+  @ApiPropertyOptional({ description: 'Display name', example: 'Jane Doe' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+@Entity('users')
+export class User {
+  @ApiProperty({ description: 'Unique identifier for the user' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Login email address (stored lower-cased)' })
+  @Index('IDX_users_email', { unique: true })
+  @Column()
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Display name' })
+  @Column({ nullable: true })
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Address that email notifications are sent to',
+  })
+  @Column({ nullable: true })
+  notificationEmail?: string;
+
+  // Never returned by default; login selects it explicitly
+  @Column({ select: false })
+  passwordHash: string;
+
+  @ApiProperty({ description: 'Account creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Account last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
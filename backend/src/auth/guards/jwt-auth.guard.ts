@@ -0,0 +1,44 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from '../auth.service';
+
+/**
+ * Resolves `Authorization: Bearer <token>` to `request.user`. Requests
+ * without a bearer token pass through so ApiKeyGuard can decide whether
+ * they're allowed.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    // A stale token must not block public routes such as login
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const authorization: string | undefined = request.headers['authorization'];
+
+    if (!authorization) {
+      return true;
+    }
+
+    const [scheme, token] = authorization.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      return true;
+    }
+
+    // An invalid token is an error even if an API key was also sent
+    request.user = await this.authService.verifyToken(token);
+    return true;
+  }
+}
@@ -0,0 +1,52 @@
+import { ConfigService } from '@nestjs/config';
+
+import { getJwtSecret } from './jwt-secret';
+
+describe('getJwtSecret', () => {
+  const configWith = (values: Record<string, string>) =>
+    ({
+      get: jest.fn(
+        (key: string, defaultValue?: string) => values[key] ?? defaultValue,
+      ),
+    }) as unknown as ConfigService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should use JWT_SECRET when it is set', () => {
+    // Given
+    const configService = configWith({
+      JWT_SECRET: 'a-long-random-secret',
+      NODE_ENV: 'production',
+    });
+
+    // When & Then
+    expect(getJwtSecret(configService)).toBe('a-long-random-secret');
+  });
+
+  it('should refuse to start without JWT_SECRET in production', () => {
+    // Given
+    const configService = configWith({ NODE_ENV: 'production' });
+
+    // When & Then
+    expect(() => getJwtSecret(configService)).toThrow('JWT_SECRET must be set');
+  });
+
+  it('should fall back to a random secret in development', () => {
+    // Given
+    const configService = configWith({});
+
+    // When
+    const first = getJwtSecret(configService);
+    const second = getJwtSecret(configService);
+
+    // Then
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(first).not.toBe(second);
+  });
+});
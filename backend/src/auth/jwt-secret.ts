@@ -0,0 +1,29 @@
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+
+// Environments where a missing JWT_SECRET is tolerated
+const LOCAL_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * The secret that signs access tokens. Refuses to start without JWT_SECRET
+ * outside development and test; there a random per-process secret is used,
+ * so sign-ins last until the server restarts.
+ */
+export function getJwtSecret(configService: ConfigService): string {
+  const secret = configService.get<string>('JWT_SECRET');
+  if (secret) {
+    return secret;
+  }
+
+  const environment = configService.get('NODE_ENV', 'development');
+  if (!LOCAL_ENVIRONMENTS.includes(environment)) {
+    throw new Error(
+      'JWT_SECRET must be set; generate one with `openssl rand -hex 32`',
+    );
+  }
+
+  console.warn(
+    '⚠️  JWT_SECRET is not set. Using a random secret; sign-ins end when the server restarts.',
+  );
+  return randomBytes(32).toString('hex');
+}
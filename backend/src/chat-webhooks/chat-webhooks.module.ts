@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+
+import { ChatWebhooksService } from './chat-webhooks.service';
+
+@Module({
+  providers: [ChatWebhooksService],
+  exports: [ChatWebhooksService],
+})
+export class ChatWebhooksModule {}
@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import { ChatWebhooksService } from './chat-webhooks.service';
+import { Application } from '../applications/entities/application.entity';
+import { DeadlineDigestDto } from '../applications/dto/deadline-digest.dto';
+import { ApplicationStatus } from '../workflow/types/application.types';
+
+describe('ChatWebhooksService', () => {
+  let stub: Server;
+  let stubUrl: string;
+  let received: { path: string; body: any }[];
+
+  const now = new Date('2024-01-15T13:00:00.000Z');
+
+  const mockApplication = (overrides: Partial<Application> = {}) =>
+    Object.assign(new Application(), {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      company: 'Tech Corp',
+      role: 'Software Engineer',
+      status: ApplicationStatus.PENDING,
+      deadline: new Date('2024-01-15T18:00:00.000Z'),
+      updatedAt: new Date('2024-01-10T09:00:00.000Z'),
+      ...overrides,
+    });
+
+  const emptyDigest = (): DeadlineDigestDto => ({
+    generatedAt: now,
+    urgent: [],
+    approaching: [],
+    overdue: [],
+    offers: [],
+    missingCoverLetter: [],
+  });
+
+  const createService = async (webhookUrls: string) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatWebhooksService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) =>
+              key === 'DIGEST_WEBHOOK_URLS' ? webhookUrls : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<ChatWebhooksService>(ChatWebhooksService);
+  };
+
+  // Local incoming-webhook stub; /fail answers like a revoked Slack webhook
+  beforeAll(async () => {
+    stub = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ path: req.url, body: JSON.parse(body) });
+        res.statusCode = req.url === '/fail' ? 404 : 200;
+        res.end(req.url === '/fail' ? 'no_service' : 'ok');
+      });
+    });
+    await new Promise<void>((resolve) => stub.listen(0, resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should post the digest as Slack blocks with a markdown fallback', async () => {
+    // Given
+    const service = await createService(`${stubUrl}/hooks/team`);
+    const digest = {
+      ...emptyDigest(),
+      urgent: [mockApplication()],
+      offers: [
+        mockApplication({
+          company: 'A&B <Labs>',
+          status: ApplicationStatus.OFFER,
+        }),
+      ],
+    };
+
+    // When
+    const result = await service.postDigest(digest);
+
+    // Then
+    expect(result).toEqual({ posted: 1, failed: 0 });
+    const [{ path, body }] = received;
+    expect(path).toBe('/hooks/team');
+    expect(body.blocks[0]).toEqual({
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '📊 Daily application digest for Mon, Jan 15',
+      },
+    });
+    const sections = body.blocks
+      .filter((block) => block.type === 'section')
+      .map((block) => block.text.text);
+    expect(sections).toEqual([
+      '*🚨 Urgent (due within 24 hours)*\n• *Tech Corp* – Software Engineer (due in 5 hours)',
+      '*🎉 Offers awaiting response*\n• *A&amp;B &lt;Labs&gt;* – Software Engineer (offer since Wed, Jan 10)',
+    ]);
+    expect(body.text).toContain('1 urgent · 0 approaching · 0 overdue');
+    expect(body.text).toContain('*Tech Corp* – Software Engineer');
+  });
+
+  it('should say when nothing needs attention', async () => {
+    // Given
+    const service = await createService(`${stubUrl}/hooks/team`);
+
+    // When
+    await service.postDigest(emptyDigest());
+
+    // Then
+    expect(received[0].body.text).toContain('Nothing needs attention today');
+  });
+
+  it('should cap long sections', async () => {
+    // Given
+    const service = await createService(`${stubUrl}/hooks/team`);
+    const digest = {
+      ...emptyDigest(),
+      missingCoverLetter: Array.from({ length: 13 }, () => mockApplication()),
+    };
+
+    // When
+    await service.postDigest(digest);
+
+    // Then
+    const section = received[0].body.blocks.find(
+      (block) => block.type === 'section',
+    );
+    expect(section.text.text.split('\n')).toHaveLength(12);
+    expect(section.text.text).toContain('…and 3 more');
+  });
+
+  it('should keep posting when one webhook fails', async () => {
+    // Given
+    const service = await createService(
+      `${stubUrl}/fail, ${stubUrl}/hooks/team`,
+    );
+
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+
+    // When
+    const result = await service.postDigest(emptyDigest());
+
+    // Then
+    expect(result).toEqual({ posted: 1, failed: 1 });
+    expect(consoleError).toHaveBeenCalledWith(
+      '❌ Failed to post digest:',
+      expect.stringMatching(/^Digest webhook 1 \(.+\) responded with 404$/),
+    );
+    expect(consoleError.mock.calls.join(' ')).not.toContain('/fail');
+    expect(received.map((request) => request.path).sort()).toEqual([
+      '/fail',
+      '/hooks/team',
+    ]);
+  });
+
+  it('should not be configured without webhook URLs', async () => {
+    // When
+    const service = await createService('');
+
+    // Then
+    expect(service.isConfigured()).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { formatSlackDigest } from './slack-digest';
+import { DeadlineDigestDto } from '../applications/dto/deadline-digest.dto';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+@Injectable()
+export class ChatWebhooksService {
+  private readonly webhookUrls: string[];
+  private readonly appUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.webhookUrls = this.configService
+      .get<string>('DIGEST_WEBHOOK_URLS', '')
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean);
+    this.appUrl = this.configService.get('APP_URL', 'http://localhost:3000');
+  }
+
+  isConfigured(): boolean {
+    return this.webhookUrls.length > 0;
+  }
+
+  /**
+   * Post the digest to every configured incoming webhook. One unreachable
+   * webhook does not stop the others; failures are logged and counted.
+   */
+  async postDigest(
+    digest: DeadlineDigestDto,
+  ): Promise<{ posted: number; failed: number }> {
+    const body = JSON.stringify(formatSlackDigest(digest, this.appUrl));
+
+    const results = await Promise.allSettled(
+      this.webhookUrls.map(async (url, index) => {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          // Anyone holding an incoming-webhook URL can post, so keep it out of logs
+          throw new Error(
+            `Digest webhook ${index + 1} (${new URL(url).host}) responded with ${response.status}`,
+          );
+        }
+      }),
+    );
+
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
+    for (const failure of failures) {
+      console.error('❌ Failed to post digest:', failure.reason?.message);
+    }
+
+    const posted = results.length - failures.length;
+    if (posted > 0) {
+      console.log(`💬 Daily digest posted to ${posted} chat webhook(s)`);
+    }
+
+    return { posted, failed: failures.length };
+  }
+}
@@ -0,0 +1,146 @@
+import { Application } from '../applications/entities/application.entity';
+import { DeadlineDigestDto } from '../applications/dto/deadline-digest.dto';
+
+// Slack rejects section text over 3000 characters, so long lists are cut
+const MAX_ITEMS_PER_SECTION = 10;
+
+export interface SlackMessage {
+  // Shown by Mattermost and in Slack notifications
+  text: string;
+  blocks: Record<string, unknown>[];
+}
+
+interface DigestSection {
+  title: string;
+  applications: Application[];
+  describe: (application: Application) => string;
+}
+
+/**
+ * Render the daily digest as an incoming-webhook message. Slack shows the
+ * blocks; Mattermost ignores them and renders the markdown in `text`.
+ */
+export function formatSlackDigest(
+  digest: DeadlineDigestDto,
+  appUrl: string,
+): SlackMessage {
+  const now = digest.generatedAt;
+  const sections: DigestSection[] = [
+    {
+      title: '🚨 Urgent (due within 24 hours)',
+      applications: digest.urgent,
+      describe: (app) => `due in ${formatDuration(app.deadline, now)}`,
+    },
+    {
+      title: '⏰ Approaching (due within 3 days)',
+      applications: digest.approaching,
+      describe: (app) => `due ${formatDate(app.deadline)}`,
+    },
+    {
+      title: '❌ Overdue',
+      applications: digest.overdue,
+      describe: (app) => `${formatDuration(now, app.deadline)} past deadline`,
+    },
+    {
+      title: '🎉 Offers awaiting response',
+      applications: digest.offers,
+      describe: (app) => `offer since ${formatDate(app.updatedAt)}`,
+    },
+    {
+      title: '📝 No cover letter yet',
+      applications: digest.missingCoverLetter,
+      describe: (app) => `${app.status}, due ${formatDate(app.deadline)}`,
+    },
+  ].filter((section) => section.applications.length > 0);
+
+  const heading = `📊 Daily application digest for ${formatDate(now)}`;
+  const summary = [
+    `${digest.urgent.length} urgent`,
+    `${digest.approaching.length} approaching`,
+    `${digest.overdue.length} overdue`,
+    `${digest.offers.length} offers awaiting response`,
+    `${digest.missingCoverLetter.length} without a cover letter`,
+  ].join(' · ');
+
+  const blocks: Record<string, unknown>[] = [
+    { type: 'header', text: { type: 'plain_text', text: heading } },
+    { type: 'context', elements: [{ type: 'mrkdwn', text: summary }] },
+  ];
+  const textLines = [`*${heading}*`, summary];
+
+  if (sections.length === 0) {
+    blocks.push(markdownSection('✅ Nothing needs attention today.'));
+    textLines.push('', '✅ Nothing needs attention today.');
+  }
+
+  for (const section of sections) {
+    const body = `*${section.title}*\n${formatItems(section)}`;
+    blocks.push({ type: 'divider' }, markdownSection(body));
+    textLines.push('', body);
+  }
+
+  blocks.push({
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: 'Open dashboard' },
+        url: appUrl,
+      },
+    ],
+  });
+  textLines.push('', `<${appUrl}|Open dashboard>`);
+
+  return { text: textLines.join('\n'), blocks };
+}
+
+function markdownSection(text: string): Record<string, unknown> {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+function formatItems(section: DigestSection): string {
+  const lines = section.applications
+    .slice(0, MAX_ITEMS_PER_SECTION)
+    .map(
+      (app) =>
+        `• *${escapeMarkdown(app.company)}* – ${escapeMarkdown(app.role)} (${section.describe(app)})`,
+    );
+
+  const hidden = section.applications.length - MAX_ITEMS_PER_SECTION;
+  if (hidden > 0) {
+    lines.push(`…and ${hidden} more`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// Whole hours below two days, whole days above
+function formatDuration(later: Date, earlier: Date): string {
+  const hours = Math.max(
+    1,
+    Math.round(
+      (new Date(later).getTime() - new Date(earlier).getTime()) / 3600000,
+    ),
+  );
+  if (hours < 48) {
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${Math.round(hours / 24)} days`;
+}
+
+// Slack treats &, < and > as control characters in mrkdwn
+function escapeMarkdown(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -2,6 +2,9 @@ import { Module, Global } from '@nestjs/common';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { ApiKeyGuard } from './guards/api-key.guard';
+import { AuthModule } from '../auth/auth.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RequestLoggerMiddleware } from './middleware/request-logger.middleware';
 import { ResponseTimeInterceptor } from './interceptors/response-time.interceptor';
 
@@ -26,6 +29,8 @@ import { ResponseTimeInterceptor } from './interceptors/response-time.intercepto
         limit: 1000, // 1000 requests per hour
       },
     ]),
+    AuthModule,
+    ApiKeysModule,
   ],
   providers: [
     // Global guards
@@ -33,6 +38,11 @@ import { ResponseTimeInterceptor } from './interceptors/response-time.intercepto
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    // Runs before ApiKeyGuard so a valid bearer token satisfies it
+    {
+      provide: APP_GUARD,
+      useClass: JwtAuthGuard,
+    },
     {
       provide: APP_GUARD,
       useClass: ApiKeyGuard,
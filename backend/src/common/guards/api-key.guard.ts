@@ -2,22 +2,25 @@ import {
   Injectable,
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   UnauthorizedException,
 } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
 import { SetMetadata } from '@nestjs/common';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { ApiKeyScope, USER_SCOPES } from '../../api-keys/api-key-scopes';
+import { REQUIRED_SCOPES_KEY } from '../../api-keys/decorators/require-scopes.decorator';
 
 export const Public = () => SetMetadata('isPublic', true);
 
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   constructor(
-    private readonly configService: ConfigService,
+    private readonly apiKeysService: ApiKeysService,
     private readonly reflector: Reflector,
   ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
       context.getHandler(),
       context.getClass(),
@@ -27,21 +30,45 @@ export class ApiKeyGuard implements CanActivate {
       return true;
     }
 
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(REQUIRED_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
     const request = context.switchToHttp().getRequest();
+
+    // Already authenticated by JwtAuthGuard
+    if (request.user) {
+      this.assertScopes(USER_SCOPES, requiredScopes);
+      return true;
+    }
+
     const apiKey = request.headers['x-api-key'];
-    const validApiKeys = this.configService
-      .get('API_KEYS', '')
-      .split(',')
-      .filter(Boolean);
 
     if (!apiKey) {
-      throw new UnauthorizedException('API key is required');
+      throw new UnauthorizedException('Bearer token or API key is required');
     }
 
-    if (!validApiKeys.includes(apiKey)) {
-      throw new UnauthorizedException('Invalid API key');
+    const key = await this.apiKeysService.authenticate(apiKey);
+    request.apiKey = key;
+
+    // Keys issued for a user act as that user on user-scoped endpoints
+    if (key.owner) {
+      request.user = key.owner;
     }
 
+    this.assertScopes(key.scopes, requiredScopes);
+
     return true;
   }
+
+  private assertScopes(granted: ApiKeyScope[], required: ApiKeyScope[]): void {
+    const missing = required.filter((scope) => !granted.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Missing required scope(s): ${missing.join(', ')}`,
+      );
+    }
+  }
 }
@@ -15,6 +15,10 @@ export class ResponseTimeInterceptor implements NestInterceptor {
 
     return next.handle().pipe(
       tap(() => {
+        // Streamed responses have sent their headers already
+        if (response.headersSent) {
+          return;
+        }
         const duration = Date.now() - start;
         response.setHeader('X-Response-Time', `${duration}ms`);
       }),
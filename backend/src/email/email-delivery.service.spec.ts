@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+
+import { EmailDeliveryService } from './email-delivery.service';
+import { EmailService } from './email.service';
+import {
+  EmailDelivery,
+  EmailDeliveryStatus,
+} from './entities/email-delivery.entity';
+import { User } from '../auth/entities/user.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+import { WorkflowService } from '../workflow/workflow.service';
+
+describe('EmailDeliveryService', () => {
+  let service: EmailDeliveryService;
+
+  const userId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+
+  const mockNotification = (overrides: Partial<Notification> = {}) =>
+    Object.assign(new Notification(), {
+      id: '2f7c9d1e-3a4b-4c5d-8e6f-7a8b9c0d1e2f',
+      userId,
+      type: 'urgent_reminder',
+      applicationId: '123e4567-e89b-12d3-a456-426614174000',
+      company: 'Tech Corp',
+      role: 'Software Engineer',
+      message: 'URGENT: Application deadline is in 2 hours!',
+      createdAt: new Date(),
+      ...overrides,
+    });
+
+  const mockDelivery = (overrides: Partial<EmailDelivery> = {}) =>
+    Object.assign(new EmailDelivery(), {
+      id: '5d3e1f2a-6b7c-4d8e-9f0a-1b2c3d4e5f6a',
+      notificationId: mockNotification().id,
+      notification: mockNotification(),
+      recipient: 'jane@example.com',
+      status: EmailDeliveryStatus.PENDING,
+      attempts: 0,
+      ...overrides,
+    });
+
+  const mockDeliveryRepository = {
+    create: jest.fn((delivery) => delivery),
+    save: jest.fn(async (delivery) => ({ id: mockDelivery().id, ...delivery })),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockEmailService = {
+    isEnabled: jest.fn(() => true),
+    send: jest.fn(),
+  };
+
+  const mockWorkflowService = {
+    startEmailDeliveryWorkflow: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailDeliveryService,
+        {
+          provide: getRepositoryToken(EmailDelivery),
+          useValue: mockDeliveryRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: WorkflowService, useValue: mockWorkflowService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmailDeliveryService>(EmailDeliveryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('should record a pending delivery and start the delivery workflow', async () => {
+      // Given
+      mockUserRepository.findOne.mockResolvedValue({
+        id: userId,
+        notificationEmail: 'jane@example.com',
+      });
+
+      // When
+      const delivery = await service.enqueue(mockNotification());
+
+      // Then
+      expect(mockDeliveryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          notificationId: mockNotification().id,
+          recipient: 'jane@example.com',
+          status: EmailDeliveryStatus.PENDING,
+        }),
+      );
+      expect(
+        mockWorkflowService.startEmailDeliveryWorkflow,
+      ).toHaveBeenCalledWith(delivery.id);
+    });
+
+    it('should skip users without a notification email', async () => {
+      // Given
+      mockUserRepository.findOne.mockResolvedValue({ id: userId });
+
+      // When
+      const delivery = await service.enqueue(mockNotification());
+
+      // Then
+      expect(delivery).toBeNull();
+      expect(mockDeliveryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should skip notification types without an email template', async () => {
+      // When
+      const delivery = await service.enqueue(
+        mockNotification({ type: 'status_update' }),
+      );
+
+      // Then
+      expect(delivery).toBeNull();
+      expect(mockUserRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should send the rendered email and mark the delivery as sent', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(mockDelivery());
+
+      // When
+      await service.deliver(mockDelivery().id);
+
+      // Then
+      expect(mockEmailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'jane@example.com',
+          subject: 'URGENT: Tech Corp - Software Engineer deadline',
+        }),
+      );
+      expect(mockDeliveryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: EmailDeliveryStatus.SENT,
+          attempts: 1,
+          sentAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should record the error and rethrow so the activity is retried', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(
+        mockDelivery({ attempts: 2 }),
+      );
+      mockEmailService.send.mockRejectedValueOnce(
+        new Error('connect ECONNREFUSED'),
+      );
+
+      // When & Then
+      await expect(service.deliver(mockDelivery().id)).rejects.toThrow(
+        'connect ECONNREFUSED',
+      );
+      expect(mockDeliveryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: EmailDeliveryStatus.PENDING,
+          attempts: 3,
+          lastError: 'connect ECONNREFUSED',
+        }),
+      );
+    });
+
+    it('should not send a delivery twice', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(
+        mockDelivery({ status: EmailDeliveryStatus.SENT }),
+      );
+
+      // When
+      await service.deliver(mockDelivery().id);
+
+      // Then
+      expect(mockEmailService.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { EmailService } from './email.service';
+import { hasEmailTemplate, renderEmail } from './email-templates';
+import {
+  EmailDelivery,
+  EmailDeliveryStatus,
+} from './entities/email-delivery.entity';
+import { User } from '../auth/entities/user.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+import { WorkflowService } from '../workflow/workflow.service';
+
+@Injectable()
+export class EmailDeliveryService {
+  constructor(
+    @InjectRepository(EmailDelivery)
+    private readonly deliveryRepository: Repository<EmailDelivery>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly emailService: EmailService,
+    private readonly workflowService: WorkflowService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Record a pending email for a stored notification and hand it to Temporal
+   * for delivery. Skipped when SMTP is not configured, the notification type
+   * has no email template, or the owner has not set a notification email.
+   */
+  async enqueue(notification: Notification): Promise<EmailDelivery | null> {
+    if (
+      !this.emailService.isEnabled() ||
+      !notification.userId ||
+      !hasEmailTemplate(notification.type)
+    ) {
+      return null;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: notification.userId },
+    });
+    if (!user?.notificationEmail) {
+      return null;
+    }
+
+    const delivery = await this.deliveryRepository.save(
+      this.deliveryRepository.create({
+        notificationId: notification.id,
+        recipient: user.notificationEmail,
+        status: EmailDeliveryStatus.PENDING,
+      }),
+    );
+
+    await this.workflowService.startEmailDeliveryWorkflow(delivery.id);
+    return delivery;
+  }
+
+  /**
+   * Send a pending email. Errors are recorded on the delivery and rethrown so
+   * the calling activity is retried; already-sent deliveries are a no-op.
+   */
+  async deliver(deliveryId: string): Promise<void> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: ['notification'],
+    });
+    if (!delivery) {
+      throw new NotFoundException(
+        `Email delivery with ID ${deliveryId} not found`,
+      );
+    }
+
+    if (delivery.status === EmailDeliveryStatus.SENT) {
+      return;
+    }
+
+    const rendered = renderEmail(
+      delivery.notification,
+      this.configService.get('APP_URL', 'http://localhost:3000'),
+    );
+    if (!rendered) {
+      throw new Error(
+        `No email template for notification type ${delivery.notification.type}`,
+      );
+    }
+
+    delivery.attempts += 1;
+
+    try {
+      await this.emailService.send({ to: delivery.recipient, ...rendered });
+    } catch (error) {
+      delivery.lastError = error.message;
+      await this.deliveryRepository.save(delivery);
+      throw error;
+    }
+
+    delivery.status = EmailDeliveryStatus.SENT;
+    delivery.sentAt = new Date();
+    delivery.lastError = null;
+    await this.deliveryRepository.save(delivery);
+  }
+
+  // Give up on a delivery once its retries are exhausted
+  async markFailed(deliveryId: string, error: string): Promise<void> {
+    await this.deliveryRepository.update(
+      { id: deliveryId },
+      { status: EmailDeliveryStatus.FAILED, lastError: error },
+    );
+  }
+}
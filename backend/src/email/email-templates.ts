@@ -0,0 +1,208 @@
+import { EmailMessage } from './email.service';
+import { Application } from '../applications/entities/application.entity';
+import { DeadlineDigestDto } from '../applications/dto/deadline-digest.dto';
+
+export interface EmailTemplateData {
+  type: string;
+  company: string;
+  role: string;
+  message: string;
+}
+
+type RenderedEmail = Omit<EmailMessage, 'to'>;
+
+interface EmailTemplate {
+  subject: (data: EmailTemplateData) => string;
+  heading: string;
+  // Accent colour for the heading bar
+  color: string;
+}
+
+// Notification types that are also sent by email. Types not listed here,
+// such as status updates the user made themselves, stay in-app only.
+const EMAIL_TEMPLATES: Record<string, EmailTemplate> = {
+  reminder: {
+    subject: ({ company, role }) => `Reminder: ${company} - ${role}`,
+    heading: 'Application reminder',
+    color: '#2563eb',
+  },
+  deadline_reminder: {
+    subject: ({ company, role }) =>
+      `Deadline approaching: ${company} - ${role}`,
+    heading: 'Deadline approaching',
+    color: '#ca8a04',
+  },
+  manual_reminder: {
+    subject: ({ company, role }) => `Reminder: ${company} - ${role}`,
+    heading: 'Application reminder',
+    color: '#ea580c',
+  },
+  urgent_reminder: {
+    subject: ({ company, role }) => `URGENT: ${company} - ${role} deadline`,
+    heading: 'Urgent: deadline imminent',
+    color: '#dc2626',
+  },
+  deadline: {
+    subject: ({ company, role }) => `Deadline reached: ${company} - ${role}`,
+    heading: 'Deadline reached',
+    color: '#dc2626',
+  },
+  archive: {
+    subject: ({ company, role }) =>
+      `Application archived: ${company} - ${role}`,
+    heading: 'Application archived',
+    color: '#6b7280',
+  },
+  follow_up: {
+    subject: ({ company, role }) => `Time to follow up: ${company} - ${role}`,
+    heading: 'Follow-up email drafted',
+    color: '#7c3aed',
+  },
+  interview_prep: {
+    subject: ({ company, role }) => `Interview coming up: ${company} - ${role}`,
+    heading: 'Interview coming up',
+    color: '#0891b2',
+  },
+  interview_feedback: {
+    subject: ({ company, role }) => `How did it go? ${company} - ${role}`,
+    heading: 'Record your interview outcome',
+    color: '#0891b2',
+  },
+  offer_deadline: {
+    subject: ({ company, role }) => `Offer response due: ${company} - ${role}`,
+    heading: 'Offer response due soon',
+    color: '#16a34a',
+  },
+  cover_letter_generated: {
+    subject: ({ company, role }) => `Cover letter ready: ${company} - ${role}`,
+    heading: 'Cover letter ready',
+    color: '#2563eb',
+  },
+};
+
+export function hasEmailTemplate(type: string): boolean {
+  return type in EMAIL_TEMPLATES;
+}
+
+export function renderEmail(
+  data: EmailTemplateData,
+  appUrl: string,
+): RenderedEmail | null {
+  const template = EMAIL_TEMPLATES[data.type];
+  if (!template) {
+    return null;
+  }
+
+  const text = [
+    template.heading,
+    '',
+    `${data.company} - ${data.role}`,
+    '',
+    data.message,
+    '',
+    `Open the application: ${appUrl}`,
+  ].join('\n');
+
+  const html = renderLayout(
+    template.heading,
+    template.color,
+    `<p style="margin:0 0 8px;font-size:16px;font-weight:bold;">${escapeHtml(data.company)} - ${escapeHtml(data.role)}</p>
+          <p style="margin:0 0 24px;font-size:14px;line-height:1.5;">${escapeHtml(data.message)}</p>
+          ${renderButton(appUrl, 'Open application', template.color)}`,
+  );
+
+  return { subject: template.subject(data), html, text };
+}
+
+/**
+ * Daily digest for users who turned off individual reminders. Returns null
+ * when nothing needs attention so no empty email is sent.
+ */
+export function renderDigestEmail(
+  digest: DeadlineDigestDto,
+  appUrl: string,
+): RenderedEmail | null {
+  const sections: [string, Application[]][] = [
+    ['Due within 24 hours', digest.urgent],
+    ['Due within 3 days', digest.approaching],
+    ['Overdue', digest.overdue],
+    ['Offers awaiting your response', digest.offers],
+    ['No cover letter yet', digest.missingCoverLetter],
+  ];
+  const nonEmpty = sections.filter(([, applications]) => applications.length);
+  if (nonEmpty.length === 0) {
+    return null;
+  }
+
+  const describe = (app: Application) =>
+    `${app.company} - ${app.role} (due ${new Date(app.deadline).toDateString()})`;
+
+  const text = [
+    'Your daily application digest',
+    ...nonEmpty.flatMap(([title, applications]) => [
+      '',
+      `${title}:`,
+      ...applications.map((app) => `- ${describe(app)}`),
+    ]),
+    '',
+    `Open your dashboard: ${appUrl}`,
+  ].join('\n');
+
+  const html = renderLayout(
+    'Your daily application digest',
+    '#2563eb',
+    `${nonEmpty
+      .map(
+        ([
+          title,
+          applications,
+        ]) => `<p style="margin:0 0 4px;font-size:15px;font-weight:bold;">${escapeHtml(title)}</p>
+          <ul style="margin:0 0 16px;padding-left:20px;font-size:14px;line-height:1.5;">${applications
+            .map((app) => `<li>${escapeHtml(describe(app))}</li>`)
+            .join('')}</ul>`,
+      )
+      .join('\n          ')}
+          ${renderButton(appUrl, 'Open dashboard', '#2563eb')}`,
+  );
+
+  const count = digest.urgent.length + digest.overdue.length;
+  const subject =
+    count > 0
+      ? `Daily digest: ${count} application${count === 1 ? '' : 's'} need attention`
+      : 'Daily digest: your applications';
+
+  return { subject, html, text };
+}
+
+function renderLayout(heading: string, color: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+      <tr>
+        <td style="background:${color};color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold;">
+          ${escapeHtml(heading)}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          ${body}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+function renderButton(href: string, label: string, color: string): string {
+  return `<a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 16px;background:${color};color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;">${escapeHtml(label)}</a>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
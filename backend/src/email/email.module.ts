@@ -0,0 +1,20 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { EmailService } from './email.service';
+import { EmailDeliveryService } from './email-delivery.service';
+import { EmailDelivery } from './entities/email-delivery.entity';
+import { EmailActivities } from '../workflow/activities/email.activities';
+import { User } from '../auth/entities/user.entity';
+import { WorkflowModule } from '../workflow/workflow.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([EmailDelivery, User]),
+    // Notifications -> Email -> Workflow -> Notifications
+    forwardRef(() => WorkflowModule),
+  ],
+  providers: [EmailService, EmailDeliveryService, EmailActivities],
+  exports: [EmailService, EmailDeliveryService],
+})
+export class EmailModule {}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+@Injectable()
+export class EmailService {
+  private readonly transporter?: Transporter;
+  private readonly from: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.from = this.configService.get(
+      'EMAIL_FROM',
+      'Job Application Assistant <no-reply@localhost>',
+    );
+
+    const host = this.configService.get<string>('SMTP_HOST');
+    if (!host) {
+      console.warn(
+        '⚠️  SMTP_HOST not configured. Email notifications are disabled.',
+      );
+      return;
+    }
+
+    const user = this.configService.get<string>('SMTP_USER');
+    this.transporter = createTransport({
+      host,
+      port: parseInt(this.configService.get('SMTP_PORT', '1025'), 10),
+      secure: this.configService.get('SMTP_SECURE', 'false') === 'true',
+      auth: user
+        ? { user, pass: this.configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+  }
+
+  isEnabled(): boolean {
+    return !!this.transporter;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    if (!this.transporter) {
+      throw new Error('Email transport is not configured');
+    }
+
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
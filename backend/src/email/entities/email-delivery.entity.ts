@@ -0,0 +1,66 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Notification } from '../../notifications/entities/notification.entity';
+
+export enum EmailDeliveryStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+@Entity('email_deliveries')
+export class EmailDelivery {
+  @ApiProperty({ description: 'Unique identifier for the delivery' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Notification being delivered' })
+  @Index('IDX_email_deliveries_notification')
+  @Column('uuid')
+  notificationId: string;
+
+  @ManyToOne(() => Notification, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'notificationId' })
+  notification: Notification;
+
+  @ApiProperty({ description: 'Recipient address' })
+  @Column()
+  recipient: string;
+
+  @ApiProperty({ enum: EmailDeliveryStatus })
+  @Column({
+    type: 'enum',
+    enum: EmailDeliveryStatus,
+    default: EmailDeliveryStatus.PENDING,
+  })
+  status: EmailDeliveryStatus;
+
+  @ApiProperty({ description: 'Number of send attempts so far' })
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @ApiPropertyOptional({ description: 'Error from the most recent attempt' })
+  @Column({ type: 'text', nullable: true })
+  lastError?: string;
+
+  @ApiPropertyOptional({ description: 'When the email was accepted by SMTP' })
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt?: Date;
+
+  @ApiProperty({ description: 'Delivery creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Delivery last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
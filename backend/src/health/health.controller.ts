@@ -11,7 +11,7 @@ export interface HealthCheckResponse {
   services: {
     database: 'healthy' | 'unhealthy';
     temporal: 'healthy' | 'unhealthy';
-    gemini: 'configured' | 'not_configured';
+    llm: 'configured' | 'not_configured';
   };
   uptime: number;
 }
@@ -41,7 +41,7 @@ export class HealthController {
           properties: {
             database: { type: 'string', enum: ['healthy', 'unhealthy'] },
             temporal: { type: 'string', enum: ['healthy', 'unhealthy'] },
-            gemini: { type: 'string', enum: ['configured', 'not_configured'] },
+            llm: { type: 'string', enum: ['configured', 'not_configured'] },
           },
         },
         uptime: { type: 'number' },
@@ -57,7 +57,7 @@ export class HealthController {
       const services = {
         database: this.checkDatabaseConfig(),
         temporal: this.checkTemporalConfig(),
-        gemini: this.checkGeminiConfig(),
+        llm: this.checkLlmConfig(),
       };
 
       const allHealthy = Object.values(services).every(
@@ -81,7 +81,7 @@ export class HealthController {
         services: {
           database: 'unhealthy',
           temporal: 'unhealthy',
-          gemini: 'not_configured',
+          llm: 'not_configured',
         },
         uptime,
       };
@@ -101,9 +101,11 @@ export class HealthController {
     return temporalAddress ? 'healthy' : 'unhealthy';
   }
 
-  private checkGeminiConfig(): 'configured' | 'not_configured' {
+  // Mirrors createLlmProvider: an explicit provider, or Gemini by API key
+  private checkLlmConfig(): 'configured' | 'not_configured' {
+    const provider = this.configService.get('LLM_PROVIDER');
     const geminiApiKey = this.configService.get('GEMINI_API_KEY');
 
-    return geminiApiKey ? 'configured' : 'not_configured';
+    return provider || geminiApiKey ? 'configured' : 'not_configured';
   }
 }
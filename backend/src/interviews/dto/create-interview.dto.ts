@@ -0,0 +1,74 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { InterviewFormat } from '../../workflow/types/interview.types';
+
+export class CreateInterviewDto {
+  @ApiProperty({
+    description: 'When the interview starts (ISO string)',
+    example: '2024-03-20T14:00:00.000Z',
+  })
+  @IsDateString()
+  scheduledAt: string;
+
+  @ApiPropertyOptional({
+    description: 'Interview round; defaults to the next round',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  round?: number;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone used when showing the interview time',
+    example: 'Europe/Berlin',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    enum: InterviewFormat,
+    default: InterviewFormat.VIDEO,
+  })
+  @IsOptional()
+  @IsEnum(InterviewFormat)
+  format?: InterviewFormat;
+
+  @ApiPropertyOptional({
+    description: 'Names of the interviewers',
+    example: ['Alex Kim', 'Sam Patel'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  interviewers?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Address or meeting link',
+    example: 'https://meet.example.com/abc-defg-hij',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Preparation notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1,16 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { InterviewOutcome } from '../../workflow/types/interview.types';
+import { CreateInterviewDto } from './create-interview.dto';
+
+export class UpdateInterviewDto extends PartialType(CreateInterviewDto) {
+  @ApiPropertyOptional({
+    description:
+      'How the interview went; anything but pending stops the prep workflow from asking for feedback',
+    enum: InterviewOutcome,
+    example: InterviewOutcome.PASSED,
+  })
+  @IsOptional()
+  @IsEnum(InterviewOutcome)
+  outcome?: InterviewOutcome;
+}
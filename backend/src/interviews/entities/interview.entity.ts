@@ -0,0 +1,93 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Application } from '../../applications/entities/application.entity';
+import {
+  InterviewFormat,
+  InterviewOutcome,
+} from '../../workflow/types/interview.types';
+
+@Entity('interviews')
+@Index('IDX_interviews_application_scheduled_at', [
+  'applicationId',
+  'scheduledAt',
+])
+export class Interview {
+  @ApiProperty({ description: 'Unique identifier for the interview' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Application the interview is for' })
+  @Column('uuid')
+  applicationId: string;
+
+  @ManyToOne(() => Application, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'applicationId' })
+  application?: Application;
+
+  @ApiProperty({ description: 'Interview round, starting at 1', example: 1 })
+  @Column('int')
+  round: number;
+
+  @ApiProperty({ description: 'When the interview starts' })
+  @Index('IDX_interviews_scheduled_at')
+  @Column('timestamp')
+  scheduledAt: Date;
+
+  @ApiProperty({
+    description: 'IANA timezone the interview was scheduled in',
+    example: 'Europe/Berlin',
+  })
+  @Column({ length: 64, default: 'UTC' })
+  timezone: string;
+
+  @ApiProperty({ enum: InterviewFormat, default: InterviewFormat.VIDEO })
+  @Column({
+    type: 'enum',
+    enum: InterviewFormat,
+    default: InterviewFormat.VIDEO,
+  })
+  format: InterviewFormat;
+
+  @ApiProperty({
+    description: 'Names of the interviewers',
+    example: ['Alex Kim', 'Sam Patel'],
+  })
+  @Column('text', { array: true, default: () => "'{}'" })
+  interviewers: string[];
+
+  @ApiPropertyOptional({
+    description: 'Address or meeting link',
+    example: 'https://meet.example.com/abc-defg-hij',
+  })
+  @Column('text', { nullable: true })
+  location?: string | null;
+
+  @ApiProperty({ enum: InterviewOutcome, default: InterviewOutcome.PENDING })
+  @Column({
+    type: 'enum',
+    enum: InterviewOutcome,
+    default: InterviewOutcome.PENDING,
+  })
+  outcome: InterviewOutcome;
+
+  @ApiPropertyOptional({ description: 'Preparation or feedback notes' })
+  @Column('text', { nullable: true })
+  notes?: string | null;
+
+  @ApiProperty({ description: 'Interview creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Interview last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
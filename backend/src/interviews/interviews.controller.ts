@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { InterviewsService } from './interviews.service';
+import { CreateInterviewDto } from './dto/create-interview.dto';
+import { UpdateInterviewDto } from './dto/update-interview.dto';
+import { Interview } from './entities/interview.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
+
+@ApiTags('interviews')
+@ApiBearerAuth('bearer')
+@RequireScopes(ApiKeyScope.APPLICATIONS_READ)
+@Controller('applications/:applicationId/interviews')
+export class InterviewsController {
+  constructor(private readonly interviewsService: InterviewsService) {}
+
+  @Post()
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary: 'Schedule an interview and start its prep reminders',
+  })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Interview scheduled',
+    type: Interview,
+  })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  @ApiResponse({ status: 422, description: 'Validation failed' })
+  create(
+    @Param('applicationId') applicationId: string,
+    @Body() createInterviewDto: CreateInterviewDto,
+    @CurrentUser() user: User,
+  ): Promise<Interview> {
+    return this.interviewsService.create(
+      applicationId,
+      createInterviewDto,
+      user.id,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the interviews of an application' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Interviews, earliest first',
+    type: [Interview],
+  })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  findAll(
+    @Param('applicationId') applicationId: string,
+    @CurrentUser() user: User,
+  ): Promise<Interview[]> {
+    return this.interviewsService.findAll(applicationId, user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an interview' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiParam({ name: 'id', description: 'Interview ID' })
+  @ApiResponse({ status: 200, description: 'Interview', type: Interview })
+  @ApiResponse({
+    status: 404,
+    description: 'Application or interview not found',
+  })
+  findOne(
+    @Param('applicationId') applicationId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<Interview> {
+    return this.interviewsService.findOne(applicationId, id, user.id);
+  }
+
+  @Patch(':id')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary:
+      'Reschedule an interview, update its details or record the outcome',
+  })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiParam({ name: 'id', description: 'Interview ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Interview updated',
+    type: Interview,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Application or interview not found',
+  })
+  update(
+    @Param('applicationId') applicationId: string,
+    @Param('id') id: string,
+    @Body() updateInterviewDto: UpdateInterviewDto,
+    @CurrentUser() user: User,
+  ): Promise<Interview> {
+    return this.interviewsService.update(
+      applicationId,
+      id,
+      updateInterviewDto,
+      user.id,
+    );
+  }
+
+  @Delete(':id')
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an interview and stop its reminders' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiParam({ name: 'id', description: 'Interview ID' })
+  @ApiResponse({ status: 204, description: 'Interview deleted' })
+  @ApiResponse({
+    status: 404,
+    description: 'Application or interview not found',
+  })
+  remove(
+    @Param('applicationId') applicationId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<void> {
+    return this.interviewsService.remove(applicationId, id, user.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { InterviewsService } from './interviews.service';
+import { InterviewsController } from './interviews.controller';
+import { UpcomingInterviewsController } from './upcoming-interviews.controller';
+import { Interview } from './entities/interview.entity';
+import { Application } from '../applications/entities/application.entity';
+import { InterviewActivities } from '../workflow/activities/interview.activities';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Interview, Application]),
+    WorkflowModule,
+    NotificationsModule,
+  ],
+  controllers: [InterviewsController, UpcomingInterviewsController],
+  providers: [InterviewsService, InterviewActivities],
+})
+export class InterviewsModule {}
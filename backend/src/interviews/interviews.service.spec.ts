@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+
+import { InterviewsService } from './interviews.service';
+import { Interview } from './entities/interview.entity';
+import { Application } from '../applications/entities/application.entity';
+import { WorkflowService } from '../workflow/workflow.service';
+import {
+  InterviewFormat,
+  InterviewOutcome,
+} from '../workflow/types/interview.types';
+
+describe('InterviewsService', () => {
+  let service: InterviewsService;
+
+  const ownerId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+  const applicationId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockInterview = (overrides: Partial<Interview> = {}): Interview =>
+    Object.assign(new Interview(), {
+      id: '5d8c1f0a-3b7e-4c2d-9a6f-1e4b7c9d2a38',
+      applicationId,
+      round: 1,
+      scheduledAt: new Date('2030-03-20T14:00:00.000Z'),
+      timezone: 'Europe/Berlin',
+      format: InterviewFormat.VIDEO,
+      interviewers: ['Alex Kim'],
+      outcome: InterviewOutcome.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+  const mockInterviewRepository = {
+    create: jest.fn((interview) => interview),
+    save: jest.fn(async (interview) => ({
+      id: mockInterview().id,
+      ...interview,
+    })),
+    count: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockApplicationRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockWorkflowService = {
+    startInterviewWorkflow: jest.fn(),
+    signalInterviewReschedule: jest.fn(),
+    signalInterviewOutcome: jest.fn(),
+    cancelWorkflow: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InterviewsService,
+        {
+          provide: getRepositoryToken(Interview),
+          useValue: mockInterviewRepository,
+        },
+        {
+          provide: getRepositoryToken(Application),
+          useValue: mockApplicationRepository,
+        },
+        { provide: WorkflowService, useValue: mockWorkflowService },
+      ],
+    }).compile();
+
+    service = module.get<InterviewsService>(InterviewsService);
+    mockApplicationRepository.findOne.mockResolvedValue({
+      id: applicationId,
+      ownerId,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should default to the next round and start the prep workflow', async () => {
+      // Given
+      mockInterviewRepository.count.mockResolvedValue(1);
+
+      // When
+      const interview = await service.create(
+        applicationId,
+        {
+          scheduledAt: '2030-03-27T09:00:00.000Z',
+          format: InterviewFormat.ONSITE,
+        },
+        ownerId,
+      );
+
+      // Then
+      expect(interview.round).toBe(2);
+      expect(interview.scheduledAt).toEqual(
+        new Date('2030-03-27T09:00:00.000Z'),
+      );
+      expect(mockWorkflowService.startInterviewWorkflow).toHaveBeenCalledWith(
+        interview,
+      );
+    });
+
+    it("should reject another user's application", async () => {
+      // Given
+      mockApplicationRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.create(
+          applicationId,
+          { scheduledAt: '2030-03-27T09:00:00.000Z' },
+          'someone-else',
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockApplicationRepository.findOne).toHaveBeenCalledWith({
+        where: { id: applicationId, ownerId: 'someone-else' },
+      });
+      expect(mockInterviewRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should signal the workflow when the interview is rescheduled', async () => {
+      // Given
+      mockInterviewRepository.findOne.mockResolvedValue(mockInterview());
+
+      // When
+      const updated = await service.update(
+        applicationId,
+        mockInterview().id,
+        { scheduledAt: '2030-03-21T10:00:00.000Z' },
+        ownerId,
+      );
+
+      // Then
+      expect(
+        mockWorkflowService.signalInterviewReschedule,
+      ).toHaveBeenCalledWith(updated);
+      expect(mockWorkflowService.signalInterviewOutcome).not.toHaveBeenCalled();
+    });
+
+    it('should signal the outcome without rescheduling', async () => {
+      // Given
+      mockInterviewRepository.findOne.mockResolvedValue(mockInterview());
+
+      // When
+      const updated = await service.update(
+        applicationId,
+        mockInterview().id,
+        { outcome: InterviewOutcome.PASSED, notes: 'Went well' },
+        ownerId,
+      );
+
+      // Then
+      expect(updated.outcome).toBe(InterviewOutcome.PASSED);
+      expect(mockWorkflowService.signalInterviewOutcome).toHaveBeenCalledWith(
+        updated,
+      );
+      expect(
+        mockWorkflowService.signalInterviewReschedule,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an interview of another application', async () => {
+      // Given
+      mockInterviewRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.update(
+          applicationId,
+          'unknown-interview',
+          { notes: 'Nope' },
+          ownerId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should cancel the prep workflow and delete the interview', async () => {
+      // Given
+      const interview = mockInterview();
+      mockInterviewRepository.findOne.mockResolvedValue(interview);
+
+      // When
+      await service.remove(applicationId, interview.id, ownerId);
+
+      // Then
+      expect(mockWorkflowService.cancelWorkflow).toHaveBeenCalledWith(
+        `interview-${interview.id}`,
+      );
+      expect(mockInterviewRepository.remove).toHaveBeenCalledWith(interview);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThanOrEqual, Repository } from 'typeorm';
+
+import { Interview } from './entities/interview.entity';
+import { CreateInterviewDto } from './dto/create-interview.dto';
+import { UpdateInterviewDto } from './dto/update-interview.dto';
+import { Application } from '../applications/entities/application.entity';
+import {
+  WorkflowService,
+  getInterviewWorkflowId,
+} from '../workflow/workflow.service';
+import { InterviewOutcome } from '../workflow/types/interview.types';
+
+@Injectable()
+export class InterviewsService {
+  constructor(
+    @InjectRepository(Interview)
+    private readonly interviewRepository: Repository<Interview>,
+    @InjectRepository(Application)
+    private readonly applicationRepository: Repository<Application>,
+    private readonly workflowService: WorkflowService,
+  ) {}
+
+  async create(
+    applicationId: string,
+    createInterviewDto: CreateInterviewDto,
+    ownerId: string,
+  ): Promise<Interview> {
+    await this.findApplication(applicationId, ownerId);
+
+    const round =
+      createInterviewDto.round ??
+      (await this.interviewRepository.count({ where: { applicationId } })) + 1;
+
+    const saved = await this.interviewRepository.save(
+      this.interviewRepository.create({
+        ...createInterviewDto,
+        applicationId,
+        round,
+        scheduledAt: new Date(createInterviewDto.scheduledAt),
+      }),
+    );
+
+    // Like the application workflow, an interview without its prep
+    // workflow still exists; it just won't send reminders
+    try {
+      await this.workflowService.startInterviewWorkflow(saved);
+    } catch (error) {
+      console.error(
+        `Failed to start prep workflow for interview ${saved.id}:`,
+        error,
+      );
+    }
+
+    console.log(
+      `🎤 Scheduled round ${saved.round} interview ${saved.id} for application ${applicationId}`,
+    );
+    return saved;
+  }
+
+  async findAll(applicationId: string, ownerId: string): Promise<Interview[]> {
+    await this.findApplication(applicationId, ownerId);
+
+    return this.interviewRepository.find({
+      where: { applicationId },
+      order: { scheduledAt: 'ASC' },
+    });
+  }
+
+  async findOne(
+    applicationId: string,
+    id: string,
+    ownerId: string,
+  ): Promise<Interview> {
+    await this.findApplication(applicationId, ownerId);
+
+    const interview = await this.interviewRepository.findOne({
+      where: { id, applicationId },
+    });
+    if (!interview) {
+      throw new NotFoundException(`Interview with ID ${id} not found`);
+    }
+    return interview;
+  }
+
+  /**
+   * Pending interviews starting from now on across the user's applications,
+   * soonest first, with their application for display
+   */
+  findUpcoming(ownerId: string): Promise<Interview[]> {
+    return this.interviewRepository.find({
+      where: {
+        scheduledAt: MoreThanOrEqual(new Date()),
+        outcome: InterviewOutcome.PENDING,
+        application: { ownerId },
+      },
+      relations: { application: true },
+      order: { scheduledAt: 'ASC' },
+    });
+  }
+
+  async update(
+    applicationId: string,
+    id: string,
+    updateInterviewDto: UpdateInterviewDto,
+    ownerId: string,
+  ): Promise<Interview> {
+    const interview = await this.findOne(applicationId, id, ownerId);
+    const oldScheduledAt = interview.scheduledAt.getTime();
+    const oldOutcome = interview.outcome;
+    const { scheduledAt, ...changes } = updateInterviewDto;
+
+    Object.assign(interview, changes);
+    if (scheduledAt) {
+      interview.scheduledAt = new Date(scheduledAt);
+    }
+    const updated = await this.interviewRepository.save(interview);
+
+    // Signal failures are logged, never failing the update
+    try {
+      if (updated.outcome !== oldOutcome) {
+        await this.workflowService.signalInterviewOutcome(updated);
+      }
+      if (
+        updated.outcome === InterviewOutcome.PENDING &&
+        updated.scheduledAt.getTime() !== oldScheduledAt
+      ) {
+        await this.workflowService.signalInterviewReschedule(updated);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to signal prep workflow for interview ${updated.id}:`,
+        error,
+      );
+    }
+
+    return updated;
+  }
+
+  async remove(
+    applicationId: string,
+    id: string,
+    ownerId: string,
+  ): Promise<void> {
+    const interview = await this.findOne(applicationId, id, ownerId);
+
+    try {
+      await this.workflowService.cancelWorkflow(
+        getInterviewWorkflowId(interview.id),
+      );
+    } catch (error) {
+      console.error(
+        `Failed to cancel prep workflow for interview ${interview.id} during deletion:`,
+        error,
+      );
+    }
+
+    await this.interviewRepository.remove(interview);
+  }
+
+  // Interviews are only reachable through an application the user owns, so
+  // someone else's application IDs behave as unknown
+  private async findApplication(
+    applicationId: string,
+    ownerId: string,
+  ): Promise<Application> {
+    const application = await this.applicationRepository.findOne({
+      where: { id: applicationId, ownerId },
+    });
+    if (!application) {
+      throw new NotFoundException(
+        `Application with ID ${applicationId} not found`,
+      );
+    }
+    return application;
+  }
+}
@@ -0,0 +1,35 @@
+import { Controller, Get } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { InterviewsService } from './interviews.service';
+import { Interview } from './entities/interview.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
+
+@ApiTags('interviews')
+@ApiBearerAuth('bearer')
+@RequireScopes(ApiKeyScope.APPLICATIONS_READ)
+@Controller('interviews')
+export class UpcomingInterviewsController {
+  constructor(private readonly interviewsService: InterviewsService) {}
+
+  @Get('upcoming')
+  @ApiOperation({
+    summary: 'List upcoming interviews across all your applications',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Interviews without an outcome, soonest first',
+    type: [Interview],
+  })
+  findUpcoming(@CurrentUser() user: User): Promise<Interview[]> {
+    return this.interviewsService.findUpcoming(user.id);
+  }
+}
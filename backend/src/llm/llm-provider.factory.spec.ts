@@ -0,0 +1,181 @@
+import { ConfigService } from '@nestjs/config';
+
+import { createLlmProvider } from './llm-provider.factory';
+import { GeminiLlmProvider } from './providers/gemini.provider';
+import { OpenAiCompatibleLlmProvider } from './providers/openai-compatible.provider';
+import { FixtureLlmProvider } from './providers/fixture.provider';
+
+describe('createLlmProvider', () => {
+  const configWith = (values: Record<string, string>) =>
+    ({
+      get: jest.fn((key: string, defaultValue?: string) =>
+        key in values ? values[key] : defaultValue,
+      ),
+    }) as unknown as ConfigService;
+
+  it('should return null when no provider is configured', () => {
+    // When
+    const provider = createLlmProvider(configWith({}));
+
+    // Then
+    expect(provider).toBeNull();
+  });
+
+  it('should default to Gemini when only GEMINI_API_KEY is set', () => {
+    // When
+    const provider = createLlmProvider(
+      configWith({ GEMINI_API_KEY: 'gemini-key' }),
+    );
+
+    // Then
+    expect(provider).toBeInstanceOf(GeminiLlmProvider);
+    expect(provider?.settings).toEqual({
+      model: 'gemini-2.0-flash',
+      temperature: 0.7,
+      maxTokens: 1024,
+    });
+  });
+
+  it('should read the model settings from the environment', () => {
+    // When
+    const provider = createLlmProvider(
+      configWith({
+        LLM_PROVIDER: 'openai',
+        OPENAI_BASE_URL: 'http://localhost:11434/v1',
+        LLM_MODEL: 'llama3.1',
+        LLM_TEMPERATURE: '0.2',
+        LLM_MAX_TOKENS: '600',
+      }),
+    );
+
+    // Then
+    expect(provider).toBeInstanceOf(OpenAiCompatibleLlmProvider);
+    expect(provider?.settings).toEqual({
+      model: 'llama3.1',
+      temperature: 0.2,
+      maxTokens: 600,
+    });
+  });
+
+  it('should reject unknown providers and Gemini without a key', () => {
+    // When & Then
+    expect(() =>
+      createLlmProvider(configWith({ LLM_PROVIDER: 'claude-2' })),
+    ).toThrow('Unknown LLM_PROVIDER "claude-2"');
+    expect(() =>
+      createLlmProvider(configWith({ LLM_PROVIDER: 'gemini' })),
+    ).toThrow('GEMINI_API_KEY');
+  });
+
+  describe('OpenAiCompatibleLlmProvider', () => {
+    const fetchMock = jest.fn();
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      fetchMock.mockReset();
+    });
+
+    it('should send a chat completion request with the configured settings', async () => {
+      // Given: a local server that needs no API key
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: 'Dear Hiring Manager' } }],
+        }),
+      });
+      const provider = createLlmProvider(
+        configWith({
+          LLM_PROVIDER: 'openai',
+          OPENAI_BASE_URL: 'http://localhost:11434/v1/',
+          LLM_MODEL: 'llama3.1',
+        }),
+      );
+
+      // When
+      const text = await provider?.generate('Write a cover letter');
+
+      // Then
+      expect(text).toBe('Dear Hiring Manager');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers).not.toHaveProperty('authorization');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'llama3.1',
+        messages: [{ role: 'user', content: 'Write a cover letter' }],
+        temperature: 0.7,
+        max_tokens: 1024,
+      });
+    });
+
+    it('should read streamed completions until [DONE]', async () => {
+      // Given: events split across network reads
+      const encoder = new TextEncoder();
+      async function* body() {
+        yield encoder.encode(
+          'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\ndata: {"choices":[{"delta":{"content":"Dear "}}]}\n',
+        );
+        yield encoder.encode(
+          '\ndata: {"choices":[{"delta":{"content":"Hiring Manager"}}]}\n\ndata: [DONE]\n\n',
+        );
+      }
+      fetchMock.mockResolvedValue({ ok: true, body: body() });
+      const provider = createLlmProvider(
+        configWith({ LLM_PROVIDER: 'openai' }),
+      ) as OpenAiCompatibleLlmProvider;
+
+      // When
+      const chunks: string[] = [];
+      for await (const chunk of provider.stream('Write a cover letter')) {
+        chunks.push(chunk);
+      }
+
+      // Then
+      expect(chunks).toEqual(['Dear ', 'Hiring Manager']);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('should fail on error responses', async () => {
+      // Given
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: async () => 'invalid api key',
+      });
+      const provider = createLlmProvider(
+        configWith({ LLM_PROVIDER: 'openai', OPENAI_API_KEY: 'sk-wrong' }),
+      );
+
+      // When & Then
+      await expect(provider?.generate('Hello')).rejects.toThrow(
+        'Chat completion request failed with 401: invalid api key',
+      );
+      expect(fetchMock.mock.calls[0][1].headers.authorization).toBe(
+        'Bearer sk-wrong',
+      );
+    });
+  });
+
+  describe('FixtureLlmProvider', () => {
+    it('should answer the same prompt the same way', async () => {
+      // Given
+      const provider = createLlmProvider(
+        configWith({ LLM_PROVIDER: 'fixture' }),
+      ) as FixtureLlmProvider;
+
+      // When
+      const first = await provider.generate('Prompt A');
+      const second = await provider.generate('Prompt A');
+      const other = await provider.generate('Prompt B');
+
+      // Then
+      expect(first).toBe(second);
+      expect(other).not.toBe(first);
+      expect(provider.prompts).toEqual(['Prompt A', 'Prompt A', 'Prompt B']);
+    });
+  });
+});
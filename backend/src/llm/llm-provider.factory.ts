@@ -0,0 +1,47 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmProvider, LlmProviderName, getLlmSettings } from './llm-provider';
+import { GeminiLlmProvider } from './providers/gemini.provider';
+import { OpenAiCompatibleLlmProvider } from './providers/openai-compatible.provider';
+import { FixtureLlmProvider } from './providers/fixture.provider';
+
+const PROVIDER_NAMES: LlmProviderName[] = ['gemini', 'openai', 'fixture'];
+
+/**
+ * The provider selected by LLM_PROVIDER, or null when none is configured.
+ * Without LLM_PROVIDER, Gemini is used if GEMINI_API_KEY is set.
+ */
+export function createLlmProvider(
+  configService: ConfigService,
+): LlmProvider | null {
+  const geminiApiKey = configService.get<string>('GEMINI_API_KEY');
+  const name =
+    configService.get<string>('LLM_PROVIDER') ||
+    (geminiApiKey ? 'gemini' : undefined);
+  if (!name) {
+    return null;
+  }
+
+  if (!PROVIDER_NAMES.includes(name as LlmProviderName)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Use one of: ${PROVIDER_NAMES.join(', ')}`,
+    );
+  }
+  const settings = getLlmSettings(configService, name as LlmProviderName);
+
+  switch (name as LlmProviderName) {
+    case 'gemini':
+      if (!geminiApiKey) {
+        throw new Error('LLM_PROVIDER=gemini requires GEMINI_API_KEY');
+      }
+      return new GeminiLlmProvider(geminiApiKey, settings);
+    case 'openai':
+      return new OpenAiCompatibleLlmProvider(
+        configService.get<string>('OPENAI_BASE_URL') ||
+          'https://api.openai.com/v1',
+        configService.get<string>('OPENAI_API_KEY') || undefined,
+        settings,
+      );
+    case 'fixture':
+      return new FixtureLlmProvider(settings);
+  }
+}
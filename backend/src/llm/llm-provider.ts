@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config';
+
+export interface LlmSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * A text generation backend. LlmService builds the prompts; providers only
+ * turn a prompt into text using the configured model settings.
+ */
+export abstract class LlmProvider {
+  abstract readonly name: string;
+
+  constructor(readonly settings: LlmSettings) {}
+
+  abstract generate(prompt: string): Promise<string>;
+
+  /**
+   * Yields the text in pieces as the model writes it and stops early once
+   * the signal aborts. Providers without a streaming API yield it all at once.
+   */
+  async *stream(prompt: string, signal?: AbortSignal): AsyncIterable<string> {
+    const text = await this.generate(prompt);
+    if (!signal?.aborted) {
+      yield text;
+    }
+  }
+}
+
+export type LlmProviderName = 'gemini' | 'openai' | 'fixture';
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  fixture: 'fixture',
+};
+
+// Model settings shared by all providers; LLM_MODEL defaults per provider
+export function getLlmSettings(
+  configService: ConfigService,
+  provider: LlmProviderName,
+): LlmSettings {
+  return {
+    model: configService.get<string>('LLM_MODEL') || DEFAULT_MODELS[provider],
+    temperature: parseFloat(
+      configService.get<string>('LLM_TEMPERATURE') || '0.7',
+    ),
+    maxTokens: parseInt(
+      configService.get<string>('LLM_MAX_TOKENS') || '1024',
+      10,
+    ),
+  };
+}
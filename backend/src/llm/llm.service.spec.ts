@@ -1,6 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { LlmService, CoverLetterRequest } from './llm.service';
+import { FixtureLlmProvider } from './providers/fixture.provider';
+import {
+  CoverLetterFormat,
+  CoverLetterTone,
+} from '../workflow/types/application.types';
 
 describe('LlmService', () => {
   let service: LlmService;
@@ -37,15 +42,17 @@ describe('LlmService', () => {
 
     it('should generate cover letter when API is available', async () => {
       // Given - Spy on the service method to return mocked result
-      jest
-        .spyOn(service, 'generateCoverLetter')
-        .mockResolvedValue('Generated cover letter content');
+      jest.spyOn(service, 'generateCoverLetter').mockResolvedValue({
+        content: 'Generated cover letter content',
+        model: 'gemini-2.0-flash',
+        promptHash: 'abc123',
+      });
 
       // When
       const result = await service.generateCoverLetter(request);
 
       // Then
-      expect(result).toBe('Generated cover letter content');
+      expect(result.content).toBe('Generated cover letter content');
     });
 
     it('should generate mock cover letter when API fails or not configured', async () => {
@@ -53,10 +60,22 @@ describe('LlmService', () => {
       const result = await service.generateCoverLetter(request);
 
       // Then - Verify it contains mock cover letter content
-      expect(result).toContain('Dear Hiring Manager');
-      expect(result).toContain(request.company);
-      expect(result).toContain(request.role);
-      expect(result).toContain('mock cover letter');
+      expect(result.content).toContain('Dear Hiring Manager');
+      expect(result.content).toContain(request.company);
+      expect(result.content).toContain(request.role);
+      expect(result.content).toContain('mock cover letter');
+      expect(result.model).toBeNull();
+    });
+
+    it('should address the mock letter to the hiring manager by name', async () => {
+      // When
+      const result = await service.generateCoverLetter({
+        ...request,
+        options: { hiringManagerName: 'Jane Smith' },
+      });
+
+      // Then
+      expect(result.content).toMatch(/^Dear Jane Smith,/);
     });
 
     it('should handle different companies and roles in mock generation', async () => {
@@ -72,9 +91,9 @@ describe('LlmService', () => {
       const result = await service.generateCoverLetter(customRequest);
 
       // Then
-      expect(result).toContain('Dear Hiring Manager');
-      expect(result).toContain('Microsoft');
-      expect(result).toContain('Senior Developer');
+      expect(result.content).toContain('Dear Hiring Manager');
+      expect(result.content).toContain('Microsoft');
+      expect(result.content).toContain('Senior Developer');
     });
   });
 
@@ -85,15 +104,17 @@ describe('LlmService', () => {
 
     it('should improve cover letter when API is available', async () => {
       // Given - Spy on the service method to return mocked result
-      jest
-        .spyOn(service, 'improveCoverLetter')
-        .mockResolvedValue('Generated improved cover letter content');
+      jest.spyOn(service, 'improveCoverLetter').mockResolvedValue({
+        content: 'Generated improved cover letter content',
+        model: 'gemini-2.0-flash',
+        promptHash: 'abc123',
+      });
 
       // When
       const result = await service.improveCoverLetter(originalLetter, feedback);
 
       // Then
-      expect(result).toBe('Generated improved cover letter content');
+      expect(result.content).toBe('Generated improved cover letter content');
     });
 
     it('should return original letter with feedback when API not available', async () => {
@@ -101,8 +122,8 @@ describe('LlmService', () => {
       const result = await service.improveCoverLetter(originalLetter, feedback);
 
       // Then
-      expect(result).toContain(originalLetter);
-      expect(result).toContain(feedback);
+      expect(result.content).toContain(originalLetter);
+      expect(result.content).toContain(feedback);
     });
 
     it('should handle empty feedback gracefully', async () => {
@@ -110,7 +131,171 @@ describe('LlmService', () => {
       const result = await service.improveCoverLetter(originalLetter, '');
 
       // Then
-      expect(result).toContain(originalLetter);
+      expect(result.content).toContain(originalLetter);
+    });
+  });
+
+  describe('generateFollowUpEmail', () => {
+    it('should draft a mock follow-up email when the API is not configured', async () => {
+      // When
+      const result = await service.generateFollowUpEmail({
+        company: 'Google',
+        role: 'Software Engineer',
+        followUpNumber: 1,
+        daysSinceApplied: 7,
+      });
+
+      // Then
+      expect(result).toMatch(/^Subject: /);
+      expect(result).toContain('Software Engineer position at Google');
+      expect(result).toContain('7 days ago');
+      expect(result).toContain('mock follow-up email');
+    });
+  });
+
+  describe('with a configured provider', () => {
+    const request: CoverLetterRequest = {
+      company: 'Google',
+      role: 'Software Engineer',
+      jobDescription: 'Great opportunity to work with cutting-edge technology',
+      resume: 'Experienced software engineer with 5+ years',
+    };
+
+    const createService = async () => {
+      mockConfigService.get.mockImplementation(
+        (key: string, defaultValue?: string) =>
+          key === 'LLM_PROVIDER' ? 'fixture' : defaultValue,
+      );
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          LlmService,
+          { provide: ConfigService, useValue: mockConfigService },
+        ],
+      }).compile();
+      return module.get<LlmService>(LlmService);
+    };
+
+    afterEach(() => {
+      mockConfigService.get.mockReset();
+      jest.restoreAllMocks();
+    });
+
+    it('should generate the cover letter with the provider', async () => {
+      // Given
+      const fixtureService = await createService();
+
+      // When
+      const result = await fixtureService.generateCoverLetter(request);
+
+      // Then
+      expect(result.content).toMatch(
+        /^Fixture response [0-9a-f]{12} from fixture$/,
+      );
+      expect(result.model).toBe('fixture');
+      expect(result.promptHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(result).toEqual(await fixtureService.generateCoverLetter(request));
+    });
+
+    it('should write the prompt from the cover letter options', async () => {
+      // Given
+      const fixtureService = await createService();
+      const generate = jest.spyOn(FixtureLlmProvider.prototype, 'generate');
+
+      // When
+      const styled = await fixtureService.generateCoverLetter({
+        ...request,
+        options: {
+          tone: CoverLetterTone.FRIENDLY,
+          wordCount: 250,
+          language: 'German',
+          emphasis: ['TypeScript', 'Mentoring'],
+          hiringManagerName: 'Jane Smith',
+          format: CoverLetterFormat.MARKDOWN,
+        },
+      });
+      const plain = await fixtureService.generateCoverLetter(request);
+
+      // Then
+      const [styledPrompt, plainPrompt] = generate.mock.calls.map(
+        ([prompt]) => prompt,
+      );
+      expect(styledPrompt).toContain('Addresses Jane Smith at Google');
+      expect(styledPrompt).toContain('approximately 250 words long');
+      expect(styledPrompt).toContain('warm and conversational tone');
+      expect(styledPrompt).toContain(
+        'emphasis on these skills: TypeScript, Mentoring',
+      );
+      expect(styledPrompt).toContain('Is written in German');
+      expect(styledPrompt).toContain('using Markdown');
+      expect(plainPrompt).toContain('Addresses the hiring manager at Google');
+      expect(plainPrompt).toContain('approximately 3-4 paragraphs long');
+      expect(plainPrompt).toContain('professional but engaging tone');
+      expect(styled.promptHash).not.toBe(plain.promptHash);
+    });
+
+    it('should stream the same cover letter in pieces', async () => {
+      // Given
+      const fixtureService = await createService();
+      const chunks: string[] = [];
+
+      // When
+      const result = await fixtureService.streamCoverLetter(request, (text) =>
+        chunks.push(text),
+      );
+
+      // Then
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(result.content);
+      expect(result).toEqual(await fixtureService.generateCoverLetter(request));
+    });
+
+    it('should stop streaming when cancelled', async () => {
+      // Given
+      const fixtureService = await createService();
+      const cancel = new AbortController();
+      const chunks: string[] = [];
+
+      // When: the client goes away after the first piece
+      const streaming = fixtureService.streamCoverLetter(
+        request,
+        (text) => {
+          chunks.push(text);
+          cancel.abort();
+        },
+        cancel.signal,
+      );
+
+      // Then
+      await expect(streaming).rejects.toThrow(
+        'Cover letter generation was cancelled',
+      );
+      expect(chunks).toHaveLength(1);
+    });
+
+    it('should surface provider errors instead of mocking', async () => {
+      // Given
+      const fixtureService = await createService();
+      jest
+        .spyOn(FixtureLlmProvider.prototype, 'generate')
+        .mockRejectedValue(new Error('quota exceeded'));
+
+      // When & Then
+      await expect(fixtureService.generateCoverLetter(request)).rejects.toThrow(
+        'quota exceeded',
+      );
+    });
+
+    it('should reject empty responses', async () => {
+      // Given
+      const fixtureService = await createService();
+      jest
+        .spyOn(FixtureLlmProvider.prototype, 'generate')
+        .mockResolvedValue('   ');
+
+      // When & Then
+      await expect(
+        fixtureService.improveCoverLetter('Dear Hiring Manager', 'Shorter'),
+      ).rejects.toThrow('fixture returned an empty response');
     });
   });
 
@@ -1,59 +1,175 @@
 import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
 import { ConfigService } from '@nestjs/config';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LlmProvider } from './llm-provider';
+import { createLlmProvider } from './llm-provider.factory';
+import {
+  CoverLetterFormat,
+  CoverLetterOptions,
+  CoverLetterTone,
+} from '../workflow/types/application.types';
 
 export interface CoverLetterRequest {
   company: string;
   role: string;
   jobDescription: string;
   resume: string;
+  options?: CoverLetterOptions;
+}
+
+export interface FollowUpEmailRequest {
+  company: string;
+  role: string;
+  coverLetter?: string;
+  // 1 for the first follow-up
+  followUpNumber: number;
+  daysSinceApplied: number;
+}
+
+const TONE_DESCRIPTIONS: Record<CoverLetterTone, string> = {
+  [CoverLetterTone.PROFESSIONAL]: 'professional but engaging',
+  [CoverLetterTone.ENTHUSIASTIC]: 'enthusiastic and energetic',
+  [CoverLetterTone.FORMAL]: 'formal and reserved',
+  [CoverLetterTone.FRIENDLY]: 'warm and conversational',
+  [CoverLetterTone.CONFIDENT]: 'confident and direct',
+};
+
+// Generated text plus what produced it, for the cover letter history
+export interface GeneratedText {
+  content: string;
+  // null when no provider is configured and a template was used
+  model: string | null;
+  promptHash: string;
 }
 
 @Injectable()
 export class LlmService {
-  private genAI: GoogleGenerativeAI;
+  private readonly provider: LlmProvider | null;
 
   constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get('GEMINI_API_KEY');
-    if (!apiKey) {
+    this.provider = createLlmProvider(this.configService);
+    if (!this.provider) {
       console.warn(
-        '⚠️  GEMINI_API_KEY not configured. Cover letter generation will be mocked.',
+        '⚠️  No LLM provider configured (LLM_PROVIDER or GEMINI_API_KEY). Cover letter generation will be mocked.',
       );
     } else {
-      this.genAI = new GoogleGenerativeAI(apiKey);
+      console.log(
+        `🤖 Using ${this.provider.name} LLM provider with model ${this.provider.settings.model}`,
+      );
     }
   }
 
-  async generateCoverLetter(request: CoverLetterRequest): Promise<string> {
-    try {
-      if (!this.genAI) {
-        return this.generateMockCoverLetter(request);
-      }
-
-      const model = this.genAI.getGenerativeModel({
-        model: 'gemini-2.0-flash',
-      });
+  async generateCoverLetter(
+    request: CoverLetterRequest,
+  ): Promise<GeneratedText> {
+    const prompt = this.buildCoverLetterPrompt(request);
+    if (!this.provider) {
+      return this.describe(prompt, this.generateMockCoverLetter(request));
+    }
 
-      const prompt = this.buildCoverLetterPrompt(request);
+    try {
+      return this.describe(prompt, await this.complete(this.provider, prompt));
+    } catch (error) {
+      console.error(
+        `Failed to generate cover letter with ${this.provider.name}:`,
+        error,
+      );
+      throw error;
+    }
+  }
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+  /**
+   * Like generateCoverLetter, but passes each piece of text to onChunk as the
+   * provider writes it. Rejects if the signal aborts before the letter is done.
+   */
+  async streamCoverLetter(
+    request: CoverLetterRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal,
+  ): Promise<GeneratedText> {
+    const prompt = this.buildCoverLetterPrompt(request);
+    if (!this.provider) {
+      const content = this.generateMockCoverLetter(request);
+      onChunk(content);
+      return this.describe(prompt, content);
+    }
 
-      if (!text || text.trim().length === 0) {
-        throw new Error('Generated cover letter is empty');
+    let text = '';
+    try {
+      for await (const chunk of this.provider.stream(prompt, signal)) {
+        text += chunk;
+        onChunk(chunk);
       }
-
-      return text.trim();
     } catch (error) {
-      console.error('Failed to generate cover letter with Gemini:', error);
+      if (!signal?.aborted) {
+        console.error(
+          `Failed to stream cover letter with ${this.provider.name}:`,
+          error,
+        );
+      }
+      throw error;
+    }
 
-      // Fallback to mock generation
-      return this.generateMockCoverLetter(request);
+    if (signal?.aborted) {
+      throw new Error('Cover letter generation was cancelled');
+    }
+    if (text.trim().length === 0) {
+      throw new Error(`${this.provider.name} returned an empty response`);
+    }
+
+    return this.describe(prompt, text.trim());
+  }
+
+  // Run the prompt through the provider, rejecting empty output
+  private async complete(
+    provider: LlmProvider,
+    prompt: string,
+  ): Promise<string> {
+    const text = await provider.generate(prompt);
+    if (!text || text.trim().length === 0) {
+      throw new Error(`${provider.name} returned an empty response`);
     }
+
+    return text.trim();
+  }
+
+  private describe(prompt: string, content: string): GeneratedText {
+    return {
+      content,
+      model: this.provider?.settings.model ?? null,
+      promptHash: createHash('sha256').update(prompt).digest('hex'),
+    };
   }
 
   private buildCoverLetterPrompt(request: CoverLetterRequest): string {
+    const options = request.options ?? {};
+    const requirements = [
+      `Addresses ${options.hiringManagerName || 'the hiring manager'} at ${request.company}`,
+      `Shows enthusiasm for the ${request.role} position`,
+      "Highlights relevant experience from the candidate's background",
+      "Connects the candidate's skills to the job requirements",
+      'Demonstrates knowledge of the company',
+      options.wordCount
+        ? `Is approximately ${options.wordCount} words long`
+        : 'Is approximately 3-4 paragraphs long',
+      `Has a ${TONE_DESCRIPTIONS[options.tone ?? CoverLetterTone.PROFESSIONAL]} tone`,
+    ];
+    if (options.emphasis?.length) {
+      requirements.push(
+        `Puts particular emphasis on these skills: ${options.emphasis.join(', ')}`,
+      );
+    }
+    if (options.language) {
+      requirements.push(`Is written in ${options.language}`);
+    }
+
+    const format =
+      options.format === CoverLetterFormat.MARKDOWN
+        ? ', using Markdown for headings, emphasis and lists'
+        : options.format === CoverLetterFormat.PLAIN
+          ? ', in plain text without Markdown'
+          : '';
+
     return `
 You are a professional career counselor. Generate a compelling cover letter for a job application.
 
@@ -67,21 +183,15 @@ Candidate's Resume/Background:
 ${request.resume}
 
 Please write a professional, personalized cover letter that:
-1. Addresses the hiring manager at ${request.company}
-2. Shows enthusiasm for the ${request.role} position
-3. Highlights relevant experience from the candidate's background
-4. Connects the candidate's skills to the job requirements
-5. Demonstrates knowledge of the company
-6. Is approximately 3-4 paragraphs long
-7. Has a professional but engaging tone
-
-Format the response as a complete cover letter with proper structure.
+${requirements.map((requirement, index) => `${index + 1}. ${requirement}`).join('\n')}
+
+Format the response as a complete cover letter with proper structure${format}.
     `.trim();
   }
 
   private generateMockCoverLetter(request: CoverLetterRequest): string {
     return `
-Dear Hiring Manager,
+Dear ${request.options?.hiringManagerName || 'Hiring Manager'},
 
 I am writing to express my strong interest in the ${request.role} position at ${request.company}. Having reviewed the job description, I am excited about the opportunity to contribute to your team and help drive ${request.company}'s continued success.
 
@@ -93,40 +203,88 @@ Sincerely,
 [Your Name]
 
 ---
-Note: This is a mock cover letter. Please configure GEMINI_API_KEY for AI-generated content.
+Note: This is a mock cover letter. Please configure an LLM provider for AI-generated content.
     `.trim();
   }
 
   async improveCoverLetter(
     originalLetter: string,
     feedback: string,
-  ): Promise<string> {
-    try {
-      if (!this.genAI) {
-        return `${originalLetter}\n\n[Improvement suggestions: ${feedback}]`;
-      }
-
-      const model = this.genAI.getGenerativeModel({
-        model: 'gemini-2.0-flash',
-      });
-
-      const prompt = `
+  ): Promise<GeneratedText> {
+    const prompt = `
 Please improve the following cover letter based on this feedback: "${feedback}"
 
 Original Cover Letter:
 ${originalLetter}
 
 Provide an improved version that addresses the feedback while maintaining a professional tone.
-      `.trim();
+    `.trim();
+
+    if (!this.provider) {
+      return this.describe(
+        prompt,
+        `${originalLetter}\n\n[Improvement suggestions: ${feedback}]`,
+      );
+    }
+
+    try {
+      return this.describe(prompt, await this.complete(this.provider, prompt));
+    } catch (error) {
+      console.error(
+        `Failed to improve cover letter with ${this.provider.name}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async generateFollowUpEmail(request: FollowUpEmailRequest): Promise<string> {
+    if (!this.provider) {
+      return this.generateMockFollowUpEmail(request);
+    }
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+    const prompt = `
+Write a short, polite follow-up email to a recruiter about a job application.
 
-      return text.trim() || originalLetter;
+Company: ${request.company}
+Position: ${request.role}
+Days since applying: ${request.daysSinceApplied}
+This is follow-up number ${request.followUpNumber}${request.followUpNumber > 1 ? '; earlier follow-ups went unanswered, so keep it brief and do not repeat them' : ''}.
+${request.coverLetter ? `\nCover letter that was submitted:\n${request.coverLetter}\n` : ''}
+The email should:
+1. Have a subject line on the first line, formatted as "Subject: ..."
+2. Reaffirm interest in the ${request.role} position
+3. Mention one relevant strength in a single sentence
+4. Politely ask about the status of the application
+5. Be no longer than 150 words
+    `.trim();
+
+    try {
+      return await this.complete(this.provider, prompt);
     } catch (error) {
-      console.error('Failed to improve cover letter:', error);
-      return originalLetter;
+      console.error(
+        `Failed to generate follow-up email with ${this.provider.name}:`,
+        error,
+      );
+      throw error;
     }
   }
+
+  private generateMockFollowUpEmail(request: FollowUpEmailRequest): string {
+    return `
+Subject: Following up on my ${request.role} application
+
+Dear Hiring Manager,
+
+I applied for the ${request.role} position at ${request.company} ${request.daysSinceApplied} days ago and wanted to follow up. I remain very interested in the role and would be glad to provide any further information.
+
+Could you let me know whether there is an update on my application?
+
+Best regards,
+[Your Name]
+
+---
+Note: This is a mock follow-up email. Please configure an LLM provider for AI-generated content.
+    `.trim();
+  }
 }
@@ -0,0 +1,32 @@
+import { createHash } from 'crypto';
+import { LlmProvider, LlmSettings } from '../llm-provider';
+
+/**
+ * Deterministic provider for tests and offline development: the same prompt
+ * always yields the same text, and prompts are kept for assertions.
+ */
+export class FixtureLlmProvider extends LlmProvider {
+  readonly name = 'fixture';
+  readonly prompts: string[] = [];
+
+  constructor(settings: LlmSettings) {
+    super(settings);
+  }
+
+  async generate(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    const digest = createHash('sha256').update(prompt).digest('hex');
+    return `Fixture response ${digest.slice(0, 12)} from ${this.settings.model}`;
+  }
+
+  // Word by word, so streaming clients see several chunks
+  async *stream(prompt: string, signal?: AbortSignal): AsyncIterable<string> {
+    const text = await this.generate(prompt);
+    for (const word of text.split(/(?<= )/)) {
+      if (signal?.aborted) {
+        return;
+      }
+      yield word;
+    }
+  }
+}
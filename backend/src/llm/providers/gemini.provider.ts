@@ -0,0 +1,39 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LlmProvider, LlmSettings } from '../llm-provider';
+
+export class GeminiLlmProvider extends LlmProvider {
+  readonly name = 'gemini';
+  private readonly genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, settings: LlmSettings) {
+    super(settings);
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const result = await this.getModel().generateContent(prompt);
+    return result.response.text();
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal): AsyncIterable<string> {
+    const result = await this.getModel().generateContentStream(prompt);
+
+    // The SDK takes no abort signal, so cancelling stops reading instead
+    for await (const chunk of result.stream) {
+      if (signal?.aborted) {
+        return;
+      }
+      yield chunk.text();
+    }
+  }
+
+  private getModel() {
+    return this.genAI.getGenerativeModel({
+      model: this.settings.model,
+      generationConfig: {
+        temperature: this.settings.temperature,
+        maxOutputTokens: this.settings.maxTokens,
+      },
+    });
+  }
+}
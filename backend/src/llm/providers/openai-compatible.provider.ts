@@ -0,0 +1,101 @@
+import { LlmProvider, LlmSettings } from '../llm-provider';
+
+// Activities calling the LLM time out after a minute
+const REQUEST_TIMEOUT_MS = 55_000;
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Chat Completions API client for OpenAI and servers that mimic it, such as
+ * Ollama (http://localhost:11434/v1) or the llama.cpp server
+ * (http://localhost:8080/v1), which need no API key.
+ */
+export class OpenAiCompatibleLlmProvider extends LlmProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    settings: LlmSettings,
+  ) {
+    super(settings);
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await this.request(prompt, false);
+    const body = (await response.json()) as ChatCompletionResponse;
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+
+  // Streamed completions arrive as server-sent events ending with [DONE]
+  async *stream(prompt: string, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.request(prompt, true, signal);
+    if (!response.body) {
+      throw new Error('Chat completion response has no body to stream');
+    }
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const bytes of response.body) {
+      buffered += decoder.decode(bytes, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') {
+          return;
+        }
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  }
+
+  private async request(
+    prompt: string,
+    stream: boolean,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.apiKey && { authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.settings.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: this.settings.temperature,
+          max_tokens: this.settings.maxTokens,
+          ...(stream && { stream: true }),
+        }),
+        signal: signal ? AbortSignal.any([timeout, signal]) : timeout,
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Chat completion request failed with ${response.status}: ${await response.text()}`,
+      );
+    }
+
+    return response;
+  }
+}
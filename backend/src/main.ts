@@ -2,14 +2,16 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
-import { AppModule } from './app.module';
+import { ApiModule } from './api.module';
 import { apiReference } from '@scalar/nestjs-api-reference';
 import { RequestLoggerMiddleware } from './common/middleware/request-logger.middleware';
+import { RedisIoAdapter } from './notifications/redis-io.adapter';
+import { getRedisOptions } from './notifications/notification-bus';
 import helmet from 'helmet';
 import * as compression from 'compression';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(ApiModule);
   const configService = app.get(ConfigService);
 
   // Security headers with Helmet
@@ -114,7 +116,11 @@ async function bootstrap() {
     .setDescription(
       'API for managing job applications with Temporal.io workflows\n\n' +
         '## Authentication\n' +
-        'This API uses API key authentication. Include your API key in the `x-api-key` header.\n\n' +
+        'Register or log in via `/api/auth` and send the returned token as `Authorization: Bearer <token>`. ' +
+        'Applications and notifications are scoped to the signed-in user. ' +
+        'Integrations can instead send an API key in the `x-api-key` header. Keys are managed under `/api/api-keys` ' +
+        'and carry scopes (`applications:read`, `applications:write`, `notifications:read`, `notifications:write`, `notifications:admin`, `webhooks:manage`, ' +
+        '`api-keys:admin`); requests missing a required scope are rejected with 403.\n\n' +
         '## Rate Limiting\n' +
         'The API implements multi-tier rate limiting:\n' +
         '- 10 requests per second\n' +
@@ -124,7 +130,10 @@ async function bootstrap() {
         'All endpoints are protected by default. Use the `@Public()` decorator for public endpoints.',
     )
     .setVersion('1.0')
+    .addTag('auth', 'Registration and login')
+    .addTag('api-keys', 'API key management')
     .addTag('applications', 'Job application management')
+    .addTag('webhooks', 'Outbound webhooks for application events')
     .addTag('workflow', 'Workflow operations')
     .addTag('health', 'Health check endpoints')
     .addApiKey(
@@ -136,6 +145,15 @@ async function bootstrap() {
       },
       'apikey',
     )
+    .addBearerAuth(
+      {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Access token from /api/auth/login',
+      },
+      'bearer',
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -156,6 +174,14 @@ async function bootstrap() {
     }),
   );
 
+  // Share Socket.IO rooms between API replicas when Redis is available
+  const redisOptions = getRedisOptions(configService);
+  if (redisOptions) {
+    const redisIoAdapter = new RedisIoAdapter(app);
+    redisIoAdapter.connectToRedis(redisOptions);
+    app.useWebSocketAdapter(redisIoAdapter);
+  }
+
   await app.listen(port);
 
   console.log(`🚀 Application is running on: http://localhost:${port}`);
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApplicationSearchVector1704153600000 implements MigrationInterface {
+  name = 'AddApplicationSearchVector1704153600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Generated column keeps the search document in sync on every write
+    await queryRunner.query(`
+      ALTER TABLE "applications"
+      ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("company", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("role", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("jobDescription", '')), 'B') ||
+        setweight(to_tsvector('english', coalesce("notes", '')), 'C') ||
+        setweight(to_tsvector('english', coalesce("coverLetter", '')), 'D')
+      ) STORED
+    `);
+
+    // GIN index for @@ matching
+    await queryRunner.query(`
+      CREATE INDEX "IDX_applications_search_vector"
+      ON "applications" USING GIN ("searchVector")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_applications_search_vector"`);
+    await queryRunner.query(
+      `ALTER TABLE "applications" DROP COLUMN "searchVector"`,
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const APPLICATION_STATUSES = [
+  'pending',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+  'archived',
+];
+
+export class CreateApplicationStatusChangeTable1704240000000 implements MigrationInterface {
+  name = 'CreateApplicationStatusChangeTable1704240000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'application_status_changes',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'applicationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'fromStatus',
+            type: 'enum',
+            enum: APPLICATION_STATUSES,
+            isNullable: true,
+          },
+          {
+            name: 'toStatus',
+            type: 'enum',
+            enum: APPLICATION_STATUSES,
+            isNullable: false,
+          },
+          {
+            name: 'source',
+            type: 'enum',
+            enum: [
+              'rest',
+              'bulk_update',
+              'workflow_archive',
+              'archive_expired',
+            ],
+            isNullable: false,
+          },
+          {
+            name: 'comment',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'changedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Status history is meaningless without its application
+    await queryRunner.createForeignKey(
+      'application_status_changes',
+      new TableForeignKey({
+        name: 'FK_status_changes_application',
+        columnNames: ['applicationId'],
+        referencedTableName: 'applications',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'application_status_changes',
+      new TableIndex({
+        name: 'IDX_status_changes_application_changed_at',
+        columnNames: ['applicationId', 'changedAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'application_status_changes',
+      'IDX_status_changes_application_changed_at',
+    );
+    await queryRunner.dropForeignKey(
+      'application_status_changes',
+      'FK_status_changes_application',
+    );
+    await queryRunner.dropTable('application_status_changes');
+  }
+}
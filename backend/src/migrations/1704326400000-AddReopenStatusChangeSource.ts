@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReopenStatusChangeSource1704326400000 implements MigrationInterface {
+  name = 'AddReopenStatusChangeSource1704326400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "application_status_changes_source_enum"
+      ADD VALUE IF NOT EXISTS 'reopen'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop a single enum value, so rebuild the type and fold
+    // reopen entries back into manual updates
+    await queryRunner.query(
+      `UPDATE "application_status_changes" SET "source" = 'rest' WHERE "source" = 'reopen'`,
+    );
+    await queryRunner.query(`
+      ALTER TYPE "application_status_changes_source_enum"
+      RENAME TO "application_status_changes_source_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "application_status_changes_source_enum"
+      AS ENUM ('rest', 'bulk_update', 'workflow_archive', 'archive_expired')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "application_status_changes"
+      ALTER COLUMN "source" TYPE "application_status_changes_source_enum"
+      USING "source"::text::"application_status_changes_source_enum"
+    `);
+    await queryRunner.query(
+      `DROP TYPE "application_status_changes_source_enum_old"`,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddApplicationOwner1704499200000 implements MigrationInterface {
+  name = 'AddApplicationOwner1704499200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Nullable so existing rows survive the upgrade; they stay invisible to
+    // every user until assigned an owner
+    await queryRunner.addColumn(
+      'applications',
+      new TableColumn({
+        name: 'ownerId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'applications',
+      new TableForeignKey({
+        name: 'FK_applications_owner',
+        columnNames: ['ownerId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'applications',
+      new TableIndex({
+        name: 'IDX_applications_owner',
+        columnNames: ['ownerId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('applications', 'IDX_applications_owner');
+    await queryRunner.dropForeignKey('applications', 'FK_applications_owner');
+    await queryRunner.dropColumn('applications', 'ownerId');
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateApiKeyTable1704585600000 implements MigrationInterface {
+  name = 'CreateApiKeyTable1704585600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'api_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'keyPrefix',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'keyHash',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'scopes',
+            type: 'text',
+            isArray: true,
+            isNullable: false,
+          },
+          {
+            name: 'ownerId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'lastUsedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'revokedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'api_keys',
+      new TableIndex({
+        name: 'IDX_api_keys_key_hash',
+        columnNames: ['keyHash'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'api_keys',
+      new TableForeignKey({
+        name: 'FK_api_keys_owner',
+        columnNames: ['ownerId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropForeignKey('api_keys', 'FK_api_keys_owner');
+    await queryRunner.dropIndex('api_keys', 'IDX_api_keys_key_hash');
+    await queryRunner.dropTable('api_keys');
+  }
+}
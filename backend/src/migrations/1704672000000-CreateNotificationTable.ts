@@ -0,0 +1,125 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const APPLICATION_STATUSES = [
+  'pending',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+  'archived',
+];
+
+export class CreateNotificationTable1704672000000 implements MigrationInterface {
+  name = 'CreateNotificationTable1704672000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'notifications',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'type',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'applicationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'company',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'role',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: APPLICATION_STATUSES,
+            isNullable: true,
+          },
+          {
+            name: 'message',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'readAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'notifications',
+      new TableForeignKey({
+        name: 'FK_notifications_user',
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notifications',
+      new TableIndex({
+        name: 'IDX_notifications_user_created',
+        columnNames: ['userId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notifications',
+      new TableIndex({
+        name: 'IDX_notifications_application',
+        columnNames: ['applicationId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'notifications',
+      'IDX_notifications_application',
+    );
+    await queryRunner.dropIndex(
+      'notifications',
+      'IDX_notifications_user_created',
+    );
+    await queryRunner.dropForeignKey('notifications', 'FK_notifications_user');
+    await queryRunner.dropTable('notifications');
+  }
+}
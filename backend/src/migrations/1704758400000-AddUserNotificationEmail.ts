@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddUserNotificationEmail1704758400000 implements MigrationInterface {
+  name = 'AddUserNotificationEmail1704758400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Left empty for existing users, so nobody is emailed until they opt in
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'notificationEmail',
+        type: 'varchar',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'notificationEmail');
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const EMAIL_DELIVERY_STATUSES = ['pending', 'sent', 'failed'];
+
+export class CreateEmailDeliveryTable1704844800000 implements MigrationInterface {
+  name = 'CreateEmailDeliveryTable1704844800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'email_deliveries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'notificationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'recipient',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: EMAIL_DELIVERY_STATUSES,
+            default: "'pending'",
+            isNullable: false,
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'lastError',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'sentAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'email_deliveries',
+      new TableForeignKey({
+        name: 'FK_email_deliveries_notification',
+        columnNames: ['notificationId'],
+        referencedTableName: 'notifications',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'email_deliveries',
+      new TableIndex({
+        name: 'IDX_email_deliveries_notification',
+        columnNames: ['notificationId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'email_deliveries',
+      'IDX_email_deliveries_notification',
+    );
+    await queryRunner.dropForeignKey(
+      'email_deliveries',
+      'FK_email_deliveries_notification',
+    );
+    await queryRunner.dropTable('email_deliveries');
+  }
+}
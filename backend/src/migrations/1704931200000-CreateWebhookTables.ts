@@ -0,0 +1,205 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'];
+
+export class CreateWebhookTables1704931200000 implements MigrationInterface {
+  name = 'CreateWebhookTables1704931200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_subscriptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'ownerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'url',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'secret',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'events',
+            type: 'text',
+            isArray: true,
+            isNullable: false,
+          },
+          {
+            name: 'active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'webhook_subscriptions',
+      new TableForeignKey({
+        name: 'FK_webhook_subscriptions_owner',
+        columnNames: ['ownerId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_subscriptions',
+      new TableIndex({
+        name: 'IDX_webhook_subscriptions_owner',
+        columnNames: ['ownerId'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_deliveries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'subscriptionId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'event',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: WEBHOOK_DELIVERY_STATUSES,
+            default: "'pending'",
+            isNullable: false,
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'responseStatus',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'lastError',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'deliveredAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'webhook_deliveries',
+      new TableForeignKey({
+        name: 'FK_webhook_deliveries_subscription',
+        columnNames: ['subscriptionId'],
+        referencedTableName: 'webhook_subscriptions',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'IDX_webhook_deliveries_subscription_created',
+        columnNames: ['subscriptionId', 'createdAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'webhook_deliveries',
+      'IDX_webhook_deliveries_subscription_created',
+    );
+    await queryRunner.dropForeignKey(
+      'webhook_deliveries',
+      'FK_webhook_deliveries_subscription',
+    );
+    await queryRunner.dropTable('webhook_deliveries');
+    await queryRunner.dropIndex(
+      'webhook_subscriptions',
+      'IDX_webhook_subscriptions_owner',
+    );
+    await queryRunner.dropForeignKey(
+      'webhook_subscriptions',
+      'FK_webhook_subscriptions_owner',
+    );
+    await queryRunner.dropTable('webhook_subscriptions');
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+} from 'typeorm';
+
+export class CreateNotificationPreferencesTable1705017600000 implements MigrationInterface {
+  name = 'CreateNotificationPreferencesTable1705017600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Users without a row get the defaults: every channel, no limits
+    await queryRunner.createTable(
+      new Table({
+        name: 'notification_preferences',
+        columns: [
+          {
+            name: 'userId',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'channels',
+            type: 'jsonb',
+            default: "'[]'",
+            isNullable: false,
+          },
+          {
+            name: 'minIntervalMinutes',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'quietHoursStart',
+            type: 'varchar',
+            length: '5',
+            isNullable: true,
+          },
+          {
+            name: 'quietHoursEnd',
+            type: 'varchar',
+            length: '5',
+            isNullable: true,
+          },
+          {
+            name: 'timezone',
+            type: 'varchar',
+            default: "'UTC'",
+            isNullable: false,
+          },
+          {
+            name: 'digestOnly',
+            type: 'boolean',
+            default: false,
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'notification_preferences',
+      new TableForeignKey({
+        name: 'FK_notification_preferences_user',
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropForeignKey(
+      'notification_preferences',
+      'FK_notification_preferences_user',
+    );
+    await queryRunner.dropTable('notification_preferences');
+  }
+}
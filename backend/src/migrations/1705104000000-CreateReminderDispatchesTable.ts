@@ -0,0 +1,99 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const REMINDER_KINDS = ['approaching', 'urgent', 'critical', 'manual'];
+const REMINDER_SOURCES = ['workflow', 'monitor', 'scheduler', 'user'];
+
+export class CreateReminderDispatchesTable1705104000000 implements MigrationInterface {
+  name = 'CreateReminderDispatchesTable1705104000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'reminder_dispatches',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'applicationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'kind',
+            type: 'enum',
+            enum: REMINDER_KINDS,
+            isNullable: false,
+          },
+          {
+            name: 'deadline',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'window',
+            type: 'varchar',
+            length: '32',
+            isNullable: false,
+          },
+          {
+            name: 'source',
+            type: 'enum',
+            enum: REMINDER_SOURCES,
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'reminder_dispatches',
+      new TableForeignKey({
+        name: 'FK_reminder_dispatches_application',
+        columnNames: ['applicationId'],
+        referencedTableName: 'applications',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    // The dedup key: one reminder per application, kind, deadline and window
+    await queryRunner.createIndex(
+      'reminder_dispatches',
+      new TableIndex({
+        name: 'IDX_reminder_dispatches_dedup',
+        columnNames: ['applicationId', 'kind', 'deadline', 'window'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'reminder_dispatches',
+      'IDX_reminder_dispatches_dedup',
+    );
+    await queryRunner.dropForeignKey(
+      'reminder_dispatches',
+      'FK_reminder_dispatches_application',
+    );
+    await queryRunner.dropTable('reminder_dispatches');
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddApplicationReminderSchedule1705190400000 implements MigrationInterface {
+  name = 'AddApplicationReminderSchedule1705190400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Null keeps existing applications on the default schedule and
+    // GRACE_PERIOD_DAYS
+    await queryRunner.addColumns('applications', [
+      new TableColumn({
+        name: 'reminderOffsets',
+        type: 'text',
+        isArray: true,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'gracePeriodDays',
+        type: 'int',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('applications', 'gracePeriodDays');
+    await queryRunner.dropColumn('applications', 'reminderOffsets');
+  }
+}
@@ -0,0 +1,77 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+// Enum types TypeORM created for application status columns
+const STATUS_COLUMNS = [
+  { table: 'applications', column: 'status' },
+  { table: 'application_status_changes', column: 'fromStatus' },
+  { table: 'application_status_changes', column: 'toStatus' },
+];
+
+const PREVIOUS_STATUSES = [
+  'pending',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+  'archived',
+];
+
+const enumName = (table: string, column: string) =>
+  `${table}_${column.toLowerCase()}_enum`;
+
+export class AddAppliedStatusAndFollowUpDraft1705276800000 implements MigrationInterface {
+  name = 'AddAppliedStatusAndFollowUpDraft1705276800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const { table, column } of STATUS_COLUMNS) {
+      await queryRunner.query(`
+        ALTER TYPE "${enumName(table, column)}"
+        ADD VALUE IF NOT EXISTS 'applied' AFTER 'pending'
+      `);
+    }
+
+    await queryRunner.addColumn(
+      'applications',
+      new TableColumn({
+        name: 'followUpDraft',
+        type: 'text',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('applications', 'followUpDraft');
+
+    // Postgres cannot drop a single enum value, so fold applied back into
+    // pending and rebuild each type
+    for (const { table, column } of STATUS_COLUMNS) {
+      const name = enumName(table, column);
+
+      await queryRunner.query(
+        `UPDATE "${table}" SET "${column}" = 'pending' WHERE "${column}" = 'applied'`,
+      );
+      await queryRunner.query(`ALTER TYPE "${name}" RENAME TO "${name}_old"`);
+      await queryRunner.query(`
+        CREATE TYPE "${name}"
+        AS ENUM (${PREVIOUS_STATUSES.map((status) => `'${status}'`).join(', ')})
+      `);
+      if (column === 'status') {
+        await queryRunner.query(
+          `ALTER TABLE "${table}" ALTER COLUMN "${column}" DROP DEFAULT`,
+        );
+      }
+      await queryRunner.query(`
+        ALTER TABLE "${table}"
+        ALTER COLUMN "${column}" TYPE "${name}"
+        USING "${column}"::text::"${name}"
+      `);
+      if (column === 'status') {
+        await queryRunner.query(
+          `ALTER TABLE "${table}" ALTER COLUMN "${column}" SET DEFAULT 'pending'`,
+        );
+      }
+      await queryRunner.query(`DROP TYPE "${name}_old"`);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const INTERVIEW_FORMATS = ['phone', 'video', 'onsite', 'other'];
+const INTERVIEW_OUTCOMES = ['pending', 'passed', 'failed', 'cancelled'];
+
+export class CreateInterviewsTable1705363200000 implements MigrationInterface {
+  name = 'CreateInterviewsTable1705363200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'interviews',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'applicationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'round',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'scheduledAt',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'timezone',
+            type: 'varchar',
+            length: '64',
+            default: "'UTC'",
+            isNullable: false,
+          },
+          {
+            name: 'format',
+            type: 'enum',
+            enum: INTERVIEW_FORMATS,
+            default: "'video'",
+            isNullable: false,
+          },
+          {
+            name: 'interviewers',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+            isNullable: false,
+          },
+          {
+            name: 'location',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'outcome',
+            type: 'enum',
+            enum: INTERVIEW_OUTCOMES,
+            default: "'pending'",
+            isNullable: false,
+          },
+          {
+            name: 'notes',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'interviews',
+      new TableForeignKey({
+        name: 'FK_interviews_application',
+        columnNames: ['applicationId'],
+        referencedTableName: 'applications',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndices('interviews', [
+      new TableIndex({
+        name: 'IDX_interviews_application_scheduled_at',
+        columnNames: ['applicationId', 'scheduledAt'],
+      }),
+      // Upcoming interviews across applications
+      new TableIndex({
+        name: 'IDX_interviews_scheduled_at',
+        columnNames: ['scheduledAt'],
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('interviews', 'IDX_interviews_scheduled_at');
+    await queryRunner.dropIndex(
+      'interviews',
+      'IDX_interviews_application_scheduled_at',
+    );
+    await queryRunner.dropForeignKey('interviews', 'FK_interviews_application');
+    await queryRunner.dropTable('interviews');
+  }
+}
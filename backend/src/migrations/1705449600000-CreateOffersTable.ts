@@ -0,0 +1,128 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+const OFFER_DECISIONS = ['pending', 'accepted', 'declined'];
+
+export class CreateOffersTable1705449600000 implements MigrationInterface {
+  name = 'CreateOffersTable1705449600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'offers',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'applicationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'baseSalary',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'bonus',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'equity',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'currency',
+            type: 'varchar',
+            length: '3',
+            default: "'USD'",
+            isNullable: false,
+          },
+          {
+            name: 'startDate',
+            type: 'date',
+            isNullable: true,
+          },
+          {
+            name: 'location',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'benefits',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'responseDeadline',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'decision',
+            type: 'enum',
+            enum: OFFER_DECISIONS,
+            default: "'pending'",
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'offers',
+      new TableForeignKey({
+        name: 'FK_offers_application',
+        columnNames: ['applicationId'],
+        referencedTableName: 'applications',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndices('offers', [
+      // One offer per application
+      new TableIndex({
+        name: 'IDX_offers_application',
+        columnNames: ['applicationId'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'IDX_offers_response_deadline',
+        columnNames: ['responseDeadline'],
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('offers', 'IDX_offers_response_deadline');
+    await queryRunner.dropIndex('offers', 'IDX_offers_application');
+    await queryRunner.dropForeignKey('offers', 'FK_offers_application');
+    await queryRunner.dropTable('offers');
+  }
+}
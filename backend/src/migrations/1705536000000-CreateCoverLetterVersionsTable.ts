@@ -0,0 +1,103 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateCoverLetterVersionsTable1705536000000 implements MigrationInterface {
+  name = 'CreateCoverLetterVersionsTable1705536000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'cover_letter_versions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'applicationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'content',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'source',
+            type: 'enum',
+            enum: ['workflow', 'manual_generate', 'improve', 'user_edit'],
+            isNullable: false,
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          {
+            name: 'promptHash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'cover_letter_versions',
+      new TableForeignKey({
+        name: 'FK_cover_letter_versions_application',
+        columnNames: ['applicationId'],
+        referencedTableName: 'applications',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'cover_letter_versions',
+      new TableIndex({
+        name: 'IDX_cover_letter_versions_application_created_at',
+        columnNames: ['applicationId', 'createdAt'],
+      }),
+    );
+
+    // Keep existing letters restorable after the first regeneration. Where
+    // they came from is unknown, so they are recorded as user edits.
+    await queryRunner.query(`
+      INSERT INTO "cover_letter_versions" ("applicationId", "content", "source", "createdAt")
+      SELECT "id", "coverLetter", 'user_edit', "updatedAt"
+      FROM "applications"
+      WHERE "coverLetter" IS NOT NULL AND "coverLetter" <> ''
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'cover_letter_versions',
+      'IDX_cover_letter_versions_application_created_at',
+    );
+    await queryRunner.dropForeignKey(
+      'cover_letter_versions',
+      'FK_cover_letter_versions_application',
+    );
+    await queryRunner.dropTable('cover_letter_versions');
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+} from 'typeorm';
+
+export class CreateCoverLetterPreferencesTable1705622400000 implements MigrationInterface {
+  name = 'CreateCoverLetterPreferencesTable1705622400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Users without a row get the default cover letter style
+    await queryRunner.createTable(
+      new Table({
+        name: 'cover_letter_preferences',
+        columns: [
+          {
+            name: 'userId',
+            type: 'uuid',
+            isPrimary: true,
+          },
+          {
+            name: 'tone',
+            type: 'enum',
+            enum: [
+              'professional',
+              'enthusiastic',
+              'formal',
+              'friendly',
+              'confident',
+            ],
+            default: "'professional'",
+            isNullable: false,
+          },
+          {
+            name: 'wordCount',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'language',
+            type: 'varchar',
+            length: '50',
+            isNullable: true,
+          },
+          {
+            name: 'emphasis',
+            type: 'jsonb',
+            default: "'[]'",
+            isNullable: false,
+          },
+          {
+            name: 'format',
+            type: 'enum',
+            enum: ['plain', 'markdown'],
+            default: "'plain'",
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'cover_letter_preferences',
+      new TableForeignKey({
+        name: 'FK_cover_letter_preferences_user',
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropForeignKey(
+      'cover_letter_preferences',
+      'FK_cover_letter_preferences_user',
+    );
+    await queryRunner.dropTable('cover_letter_preferences');
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Notification } from '../entities/notification.entity';
+
+export const MAX_NOTIFICATION_PAGE_SIZE = 100;
+
+export class QueryNotificationsDto {
+  @ApiPropertyOptional({
+    description: 'Only notifications of this type',
+    example: 'status_update',
+  })
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only notifications for this application',
+  })
+  @IsOptional()
+  @IsUUID()
+  applicationId?: string;
+
+  @ApiPropertyOptional({ description: 'Only unread notifications' })
+  @IsOptional()
+  // Read the raw value; implicit conversion would turn 'false' into true
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  unread?: boolean;
+
+  @ApiPropertyOptional({
+    description: `Page size (max ${MAX_NOTIFICATION_PAGE_SIZE})`,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_NOTIFICATION_PAGE_SIZE)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Number of items to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class PaginatedNotificationsDto {
+  @ApiProperty({ type: [Notification] })
+  items: Notification[];
+
+  @ApiProperty({ description: 'Total number of matching notifications' })
+  total: number;
+
+  @ApiProperty({ description: 'Unread notifications for the user overall' })
+  unreadCount: number;
+
+  @ApiProperty({ description: 'Page size used for this response' })
+  limit: number;
+
+  @ApiProperty({ description: 'Offset used for this response' })
+  offset: number;
+
+  @ApiProperty({ description: 'Whether more items exist after this page' })
+  hasMore: boolean;
+}
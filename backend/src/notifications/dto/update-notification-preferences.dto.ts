@@ -0,0 +1,98 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsMilitaryTime,
+  IsOptional,
+  IsTimeZone,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  CONFIGURABLE_NOTIFICATION_TYPES,
+  NotificationChannel,
+} from '../notification-channels';
+
+export class NotificationTypeChannelsDto {
+  @ApiProperty({
+    description: 'Notification type',
+    enum: CONFIGURABLE_NOTIFICATION_TYPES,
+    example: 'urgent_reminder',
+  })
+  @IsIn(CONFIGURABLE_NOTIFICATION_TYPES)
+  type: string;
+
+  @ApiProperty({
+    description: 'Channels this type is delivered on; empty mutes it',
+    enum: NotificationChannel,
+    isArray: true,
+    example: [NotificationChannel.LIVE],
+  })
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  channels: NotificationChannel[];
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({
+    description:
+      'Channels per notification type; replaces the stored list. Types not listed use every channel.',
+    type: [NotificationTypeChannelsDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => NotificationTypeChannelsDto)
+  channels?: NotificationTypeChannelsDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum minutes between reminders for the same application (0 = no limit)',
+    example: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24 * 60)
+  minIntervalMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Start of quiet hours (HH:mm); null turns quiet hours off',
+    example: '22:00',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsMilitaryTime()
+  quietHoursStart?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'End of quiet hours (HH:mm); null turns quiet hours off',
+    example: '07:00',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsMilitaryTime()
+  quietHoursEnd?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone for quiet hours',
+    example: 'Europe/Berlin',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Skip individual reminders and send a daily email digest instead',
+  })
+  @IsOptional()
+  @IsBoolean()
+  digestOnly?: boolean;
+}
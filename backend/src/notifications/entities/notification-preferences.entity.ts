@@ -0,0 +1,81 @@
+import {
+  Entity,
+  Column,
+  OneToOne,
+  JoinColumn,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { User } from '../../auth/entities/user.entity';
+import { NotificationChannel } from '../notification-channels';
+
+export class NotificationTypeChannels {
+  @ApiProperty({ description: 'Notification type', example: 'urgent_reminder' })
+  type: string;
+
+  @ApiProperty({
+    description: 'Channels this type is delivered on; empty mutes it',
+    enum: NotificationChannel,
+    isArray: true,
+  })
+  channels: NotificationChannel[];
+}
+
+@Entity('notification_preferences')
+export class NotificationPreferences {
+  @ApiProperty({ description: 'User the preferences belong to' })
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ApiProperty({
+    description:
+      'Channels per notification type; types not listed use every channel',
+    type: [NotificationTypeChannels],
+  })
+  @Column('jsonb', { default: () => "'[]'" })
+  channels: NotificationTypeChannels[];
+
+  @ApiProperty({
+    description:
+      'Minimum minutes between reminders for the same application (0 = no limit)',
+  })
+  @Column({ type: 'int', default: 0 })
+  minIntervalMinutes: number;
+
+  @ApiPropertyOptional({
+    description: 'Start of quiet hours (HH:mm, in timezone)',
+    example: '22:00',
+  })
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  quietHoursStart?: string;
+
+  @ApiPropertyOptional({
+    description: 'End of quiet hours (HH:mm, in timezone)',
+    example: '07:00',
+  })
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  quietHoursEnd?: string;
+
+  @ApiProperty({
+    description: 'IANA timezone for quiet hours',
+    example: 'Europe/Berlin',
+  })
+  @Column({ default: 'UTC' })
+  timezone: string;
+
+  @ApiProperty({
+    description:
+      'Skip individual reminders and send a daily email digest instead',
+  })
+  @Column({ default: false })
+  digestOnly: boolean;
+
+  @ApiProperty({ description: 'Preferences last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApplicationStatus } from '../../workflow/types/application.types';
+import { User } from '../../auth/entities/user.entity';
+
+@Entity('notifications')
+@Index('IDX_notifications_user_created', ['userId', 'createdAt'])
+export class Notification {
+  @ApiProperty({ description: 'Unique identifier for the notification' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiPropertyOptional({ description: 'User the notification belongs to' })
+  @Column('uuid', { nullable: true })
+  userId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @ApiProperty({
+    description: 'Notification type',
+    example: 'status_update',
+  })
+  @Column()
+  type: string;
+
+  // No foreign key: notifications outlive deleted applications
+  @ApiProperty({ description: 'Application the notification is about' })
+  @Index('IDX_notifications_application')
+  @Column('uuid')
+  applicationId: string;
+
+  @ApiProperty({ description: 'Company name at the time of the notification' })
+  @Column()
+  company: string;
+
+  @ApiProperty({ description: 'Role at the time of the notification' })
+  @Column()
+  role: string;
+
+  @ApiPropertyOptional({
+    description: 'Application status carried by status notifications',
+    enum: ApplicationStatus,
+  })
+  @Column({ type: 'enum', enum: ApplicationStatus, nullable: true })
+  status?: ApplicationStatus;
+
+  @ApiProperty({ description: 'Human-readable message' })
+  @Column('text')
+  message: string;
+
+  @ApiPropertyOptional({ description: 'When the user marked it as read' })
+  @Column({ type: 'timestamp', nullable: true })
+  readAt?: Date;
+
+  @ApiProperty({ description: 'When the notification was sent' })
+  @CreateDateColumn()
+  createdAt: Date;
+}
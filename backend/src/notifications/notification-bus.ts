@@ -0,0 +1,120 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import Redis, { RedisOptions } from 'ioredis';
+import { NotificationData } from './notifications.gateway';
+
+const NOTIFICATIONS_CHANNEL = 'notifications';
+
+export type NotificationHandler = (notification: NotificationData) => void;
+
+/**
+ * Carries notifications from whichever process created them (API or Temporal
+ * worker) to the API processes that hold the Socket.IO connections.
+ */
+export abstract class NotificationBus {
+  abstract publish(notification: NotificationData): Promise<void>;
+  abstract subscribe(handler: NotificationHandler): Promise<void>;
+}
+
+// Single-process fallback used when Redis isn't configured, and in tests
+export class InMemoryNotificationBus extends NotificationBus {
+  private readonly emitter = new EventEmitter();
+
+  async publish(notification: NotificationData): Promise<void> {
+    this.emitter.emit(NOTIFICATIONS_CHANNEL, notification);
+  }
+
+  async subscribe(handler: NotificationHandler): Promise<void> {
+    this.emitter.on(NOTIFICATIONS_CHANNEL, handler);
+  }
+}
+
+export class RedisNotificationBus
+  extends NotificationBus
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(RedisNotificationBus.name);
+  private readonly publisher: Redis;
+  private subscriber?: Redis;
+
+  constructor(options: RedisOptions) {
+    super();
+    this.publisher = this.createClient(options);
+  }
+
+  async publish(notification: NotificationData): Promise<void> {
+    await this.publisher.publish(
+      NOTIFICATIONS_CHANNEL,
+      JSON.stringify(notification),
+    );
+  }
+
+  async subscribe(handler: NotificationHandler): Promise<void> {
+    // A connection in subscriber mode can't publish, so use a second one
+    if (!this.subscriber) {
+      this.subscriber = this.createClient(this.publisher.options);
+      await this.subscriber.subscribe(NOTIFICATIONS_CHANNEL);
+    }
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== NOTIFICATIONS_CHANNEL) {
+        return;
+      }
+      try {
+        handler(JSON.parse(message));
+      } catch (error) {
+        this.logger.error(
+          `❌ Failed to handle bus notification: ${error.message}`,
+          error.stack,
+        );
+      }
+    });
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(
+      [this.publisher, this.subscriber]
+        .filter(Boolean)
+        .map((client) => client.quit().catch(() => undefined)),
+    );
+  }
+
+  private createClient(options: RedisOptions): Redis {
+    const client = new Redis(options);
+    // Without a listener ioredis treats connection errors as unhandled
+    client.on('error', (error) =>
+      this.logger.error(`❌ Redis connection error: ${error.message}`),
+    );
+    return client;
+  }
+}
+
+// Redis connection settings, or null when REDIS_HOST isn't set
+export function getRedisOptions(
+  configService: ConfigService,
+): RedisOptions | null {
+  const host = configService.get<string>('REDIS_HOST');
+  if (!host) {
+    return null;
+  }
+
+  return {
+    host,
+    port: parseInt(configService.get('REDIS_PORT', '6379'), 10),
+    password: configService.get<string>('REDIS_PASSWORD') || undefined,
+  };
+}
+
+export function createNotificationBus(
+  configService: ConfigService,
+): NotificationBus {
+  const options = getRedisOptions(configService);
+  if (!options) {
+    new Logger(NotificationBus.name).warn(
+      '⚠️ REDIS_HOST not configured. Notifications from the Temporal worker will not reach connected clients.',
+    );
+    return new InMemoryNotificationBus();
+  }
+  return new RedisNotificationBus(options);
+}
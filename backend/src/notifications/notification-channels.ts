@@ -0,0 +1,33 @@
+// Ways a stored notification reaches the user. History always records it.
+export enum NotificationChannel {
+  LIVE = 'live',
+  EMAIL = 'email',
+  WEBHOOK = 'webhook',
+}
+
+export const ALL_CHANNELS: NotificationChannel[] =
+  Object.values(NotificationChannel);
+
+// Notification types users can route to channels
+export const CONFIGURABLE_NOTIFICATION_TYPES = [
+  'status_update',
+  'cover_letter_generated',
+  'reminder',
+  'manual_reminder',
+  'deadline_reminder',
+  'urgent_reminder',
+  'deadline',
+  'archive',
+  'follow_up',
+  'interview_prep',
+  'interview_feedback',
+  'offer_deadline',
+  'application_deleted',
+];
+
+// Repeating reminders, subject to the minimum interval and digest-only mode
+export const REMINDER_NOTIFICATION_TYPES = [
+  'manual_reminder',
+  'deadline_reminder',
+  'urgent_reminder',
+];
@@ -0,0 +1,255 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import {
+  NotificationPreferencesService,
+  isWithinQuietHours,
+} from './notification-preferences.service';
+import { NotificationPreferences } from './entities/notification-preferences.entity';
+import { Notification } from './entities/notification.entity';
+import { User } from '../auth/entities/user.entity';
+import { EmailService } from '../email/email.service';
+import { ALL_CHANNELS, NotificationChannel } from './notification-channels';
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+
+  const userId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+  const applicationId = '123e4567-e89b-12d3-a456-426614174000';
+  // 12:00 UTC
+  const noon = new Date('2024-01-15T12:00:00.000Z');
+
+  const mockPreferences = (overrides: Partial<NotificationPreferences> = {}) =>
+    Object.assign(new NotificationPreferences(), {
+      userId,
+      channels: [],
+      minIntervalMinutes: 0,
+      timezone: 'UTC',
+      digestOnly: false,
+      ...overrides,
+    });
+
+  const mockPreferencesRepository = {
+    create: jest.fn((preferences) => mockPreferences(preferences)),
+    save: jest.fn(async (preferences) => preferences),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockNotificationRepository = {
+    count: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockEmailService = {
+    isEnabled: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        {
+          provide: getRepositoryToken(NotificationPreferences),
+          useValue: mockPreferencesRepository,
+        },
+        {
+          provide: getRepositoryToken(Notification),
+          useValue: mockNotificationRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationPreferencesService>(
+      NotificationPreferencesService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('planDelivery', () => {
+    it('should use every channel for users without preferences', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(null);
+
+      // When
+      const plan = await service.planDelivery(
+        { type: 'urgent_reminder', applicationId, userId },
+        noon,
+      );
+
+      // Then
+      expect(plan).toEqual({ store: true, channels: ALL_CHANNELS });
+    });
+
+    it('should apply the channels chosen for the type', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({
+          channels: [
+            { type: 'status_update', channels: [NotificationChannel.LIVE] },
+          ],
+        }),
+      );
+
+      // When
+      const plan = await service.planDelivery(
+        { type: 'status_update', applicationId, userId },
+        noon,
+      );
+
+      // Then
+      expect(plan.channels).toEqual([NotificationChannel.LIVE]);
+    });
+
+    it('should drop a reminder sent within the minimum interval', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({ minIntervalMinutes: 60 }),
+      );
+      mockNotificationRepository.count.mockResolvedValue(1);
+
+      // When
+      const plan = await service.planDelivery(
+        { type: 'urgent_reminder', applicationId, userId },
+        noon,
+      );
+
+      // Then
+      expect(plan).toEqual({ store: false, channels: [] });
+      expect(mockNotificationRepository.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ userId, applicationId }),
+      });
+    });
+
+    it('should keep reminders to the history in digest-only mode', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({ digestOnly: true }),
+      );
+      mockEmailService.isEnabled.mockReturnValue(true);
+      mockUserRepository.findOne.mockResolvedValue({
+        id: userId,
+        notificationEmail: 'jane@example.com',
+      });
+
+      // When
+      const reminder = await service.planDelivery(
+        { type: 'deadline_reminder', applicationId, userId },
+        noon,
+      );
+      const statusUpdate = await service.planDelivery(
+        { type: 'status_update', applicationId, userId },
+        noon,
+      );
+
+      // Then
+      expect(reminder).toEqual({ store: true, channels: [] });
+      expect(statusUpdate.channels).toEqual(ALL_CHANNELS);
+    });
+
+    it('should deliver reminders as usual when the digest cannot be emailed', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({ digestOnly: true }),
+      );
+      mockEmailService.isEnabled.mockReturnValue(true);
+      mockUserRepository.findOne.mockResolvedValue({ id: userId });
+
+      // When
+      const withoutEmail = await service.planDelivery(
+        { type: 'deadline_reminder', applicationId, userId },
+        noon,
+      );
+      mockEmailService.isEnabled.mockReturnValue(false);
+      const withoutSmtp = await service.planDelivery(
+        { type: 'deadline_reminder', applicationId, userId },
+        noon,
+      );
+
+      // Then
+      expect(withoutEmail.channels).toEqual(ALL_CHANNELS);
+      expect(withoutSmtp.channels).toEqual(ALL_CHANNELS);
+    });
+
+    it('should only send webhooks during quiet hours', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(
+        mockPreferences({
+          quietHoursStart: '22:00',
+          quietHoursEnd: '07:00',
+          timezone: 'Asia/Tokyo',
+        }),
+      );
+
+      // When: 12:00 UTC is 21:00 and 23:00 UTC is 08:00 in Tokyo
+      const evening = await service.planDelivery(
+        { type: 'deadline', applicationId, userId },
+        new Date('2024-01-15T13:30:00.000Z'),
+      );
+      const morning = await service.planDelivery(
+        { type: 'deadline', applicationId, userId },
+        new Date('2024-01-15T23:00:00.000Z'),
+      );
+
+      // Then
+      expect(evening.channels).toEqual([NotificationChannel.WEBHOOK]);
+      expect(morning.channels).toEqual(ALL_CHANNELS);
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    it('should handle windows within a day and across midnight', () => {
+      const at = (time: string) => new Date(`2024-01-15T${time}:00.000Z`);
+      const lunch = {
+        quietHoursStart: '12:00',
+        quietHoursEnd: '13:00',
+        timezone: 'UTC',
+      };
+      const night = {
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        timezone: 'UTC',
+      };
+
+      expect(isWithinQuietHours(lunch, at('12:30'))).toBe(true);
+      expect(isWithinQuietHours(lunch, at('13:00'))).toBe(false);
+      expect(isWithinQuietHours(night, at('23:15'))).toBe(true);
+      expect(isWithinQuietHours(night, at('06:59'))).toBe(true);
+      expect(isWithinQuietHours(night, at('07:00'))).toBe(false);
+      expect(
+        isWithinQuietHours({ ...night, quietHoursEnd: null }, at('23:15')),
+      ).toBe(false);
+    });
+  });
+
+  describe('update', () => {
+    it('should create preferences on first save', async () => {
+      // Given
+      mockPreferencesRepository.findOne.mockResolvedValue(null);
+
+      // When
+      const result = await service.update(userId, {
+        minIntervalMinutes: 30,
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+      });
+
+      // Then
+      expect(result).toMatchObject({
+        userId,
+        minIntervalMinutes: 30,
+        quietHoursStart: '22:00',
+        timezone: 'UTC',
+      });
+      expect(mockPreferencesRepository.save).toHaveBeenCalled();
+    });
+  });
+});
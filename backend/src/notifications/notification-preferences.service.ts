@@ -0,0 +1,188 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, MoreThan, Repository } from 'typeorm';
+
+import { NotificationPreferences } from './entities/notification-preferences.entity';
+import { Notification } from './entities/notification.entity';
+import { User } from '../auth/entities/user.entity';
+import { EmailService } from '../email/email.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import {
+  ALL_CHANNELS,
+  NotificationChannel,
+  REMINDER_NOTIFICATION_TYPES,
+} from './notification-channels';
+
+export interface NotificationDeliveryPlan {
+  // False when the notification is dropped without being stored
+  store: boolean;
+  channels: NotificationChannel[];
+}
+
+// Channels that stay on during quiet hours; integrations aren't disturbed
+const QUIET_HOURS_CHANNELS = [NotificationChannel.WEBHOOK];
+
+/**
+ * Whether `now` falls in the quiet hours, evaluated in the user's timezone.
+ * Windows may wrap midnight (e.g. 22:00-07:00).
+ */
+export function isWithinQuietHours(
+  preferences: Pick<
+    NotificationPreferences,
+    'quietHoursStart' | 'quietHoursEnd' | 'timezone'
+  >,
+  now: Date,
+): boolean {
+  const { quietHoursStart, quietHoursEnd, timezone } = preferences;
+  if (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const current = part('hour') * 60 + part('minute');
+
+  const start = toMinutes(quietHoursStart);
+  const end = toMinutes(quietHoursEnd);
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectRepository(NotificationPreferences)
+    private readonly preferencesRepository: Repository<NotificationPreferences>,
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // Stored preferences, or the defaults for users who never saved any
+  async get(userId: string): Promise<NotificationPreferences> {
+    const preferences = await this.preferencesRepository.findOne({
+      where: { userId },
+    });
+
+    return (
+      preferences ??
+      this.preferencesRepository.create({
+        userId,
+        channels: [],
+        minIntervalMinutes: 0,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        timezone: 'UTC',
+        digestOnly: false,
+      })
+    );
+  }
+
+  async update(
+    userId: string,
+    updateDto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferences> {
+    const preferences = await this.get(userId);
+    Object.assign(preferences, updateDto);
+    return this.preferencesRepository.save(preferences);
+  }
+
+  async findDigestOnlyUsers(): Promise<User[]> {
+    const preferences = await this.preferencesRepository.find({
+      where: { digestOnly: true },
+      relations: ['user'],
+    });
+    return preferences.map(({ user }) => user);
+  }
+
+  /**
+   * Decide how a notification reaches its owner: dropped when a reminder for
+   * the same application went out within the minimum interval, kept to the
+   * history in digest-only mode (unless the digest can't be emailed), and
+   * limited to webhooks during quiet hours.
+   * Unowned notifications go everywhere.
+   */
+  async planDelivery(
+    notification: { type: string; applicationId: string; userId?: string },
+    now = new Date(),
+  ): Promise<NotificationDeliveryPlan> {
+    if (!notification.userId) {
+      return { store: true, channels: ALL_CHANNELS };
+    }
+
+    const preferences = await this.get(notification.userId);
+    let channels =
+      preferences.channels.find(({ type }) => type === notification.type)
+        ?.channels ?? ALL_CHANNELS;
+
+    if (REMINDER_NOTIFICATION_TYPES.includes(notification.type)) {
+      if (
+        preferences.digestOnly &&
+        (await this.canEmailDigest(notification.userId))
+      ) {
+        return { store: true, channels: [] };
+      }
+
+      if (
+        preferences.minIntervalMinutes > 0 &&
+        (await this.hasRecentReminder(
+          notification.userId,
+          notification.applicationId,
+          new Date(now.getTime() - preferences.minIntervalMinutes * 60000),
+        ))
+      ) {
+        return { store: false, channels: [] };
+      }
+    }
+
+    if (isWithinQuietHours(preferences, now)) {
+      channels = channels.filter((channel) =>
+        QUIET_HOURS_CHANNELS.includes(channel),
+      );
+    }
+
+    return { store: true, channels };
+  }
+
+  // Without SMTP or a notification email the digest never arrives, so
+  // reminders are delivered as usual
+  private async canEmailDigest(userId: string): Promise<boolean> {
+    if (!this.emailService.isEnabled()) {
+      return false;
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    return !!user?.notificationEmail;
+  }
+
+  private async hasRecentReminder(
+    userId: string,
+    applicationId: string,
+    since: Date,
+  ): Promise<boolean> {
+    const count = await this.notificationRepository.count({
+      where: {
+        userId,
+        applicationId,
+        type: In(REMINDER_NOTIFICATION_TYPES),
+        createdAt: MoreThan(since),
+      },
+    });
+    return count > 0;
+  }
+}
@@ -1,13 +1,48 @@
-import { Controller, Get, Delete, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationPreferences } from './entities/notification-preferences.entity';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { Notification } from './entities/notification.entity';
+import {
+  QueryNotificationsDto,
+  PaginatedNotificationsDto,
+} from './dto/query-notifications.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
 
 @ApiTags('notifications')
+@ApiBearerAuth('bearer')
 @Controller('notifications')
 export class NotificationsController {
-  constructor(private readonly notificationsService: NotificationsService) {}
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
 
   @Get('stats')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_ADMIN)
   @ApiOperation({ summary: 'Get WebSocket connection statistics' })
   @ApiResponse({
     status: 200,
@@ -27,27 +62,94 @@ export class NotificationsController {
     return this.notificationsService.getHealthStatus();
   }
 
+  @Get('preferences')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_READ)
+  @ApiOperation({
+    summary: "Get the signed-in user's notification preferences",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification preferences (defaults if never saved)',
+    type: NotificationPreferences,
+  })
+  getPreferences(@CurrentUser() user: User): Promise<NotificationPreferences> {
+    return this.preferencesService.get(user.id);
+  }
+
+  @Put('preferences')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_WRITE)
+  @ApiOperation({
+    summary: "Update the signed-in user's notification preferences",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification preferences updated',
+    type: NotificationPreferences,
+  })
+  @ApiResponse({ status: 422, description: 'Validation failed' })
+  updatePreferences(
+    @Body() updateDto: UpdateNotificationPreferencesDto,
+    @CurrentUser() user: User,
+  ): Promise<NotificationPreferences> {
+    return this.preferencesService.update(user.id, updateDto);
+  }
+
   @Get('history')
-  @ApiOperation({ summary: 'Get notification history' })
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_READ)
+  @ApiOperation({
+    summary: "Get a page of the signed-in user's notification history",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notifications, newest first',
+    type: PaginatedNotificationsDto,
+  })
+  getNotificationHistory(
+    @Query() query: QueryNotificationsDto,
+    @CurrentUser() user: User,
+  ): Promise<PaginatedNotificationsDto> {
+    return this.notificationsService.getNotificationHistory(query, user.id);
+  }
+
+  @Post('read-all')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_READ)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Mark all of the user's notifications as read" })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of notifications marked as read',
+    schema: { type: 'object', properties: { updated: { type: 'number' } } },
+  })
+  markAllAsRead(@CurrentUser() user: User): Promise<{ updated: number }> {
+    return this.notificationsService.markAllAsRead(user.id);
+  }
+
+  @Patch(':id/read')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_READ)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
   @ApiResponse({
     status: 200,
-    description: 'Recent notification history',
+    description: 'Notification marked as read',
+    type: Notification,
   })
-  getNotificationHistory() {
-    return {
-      notifications: this.notificationsService.getNotificationHistory(),
-      timestamp: new Date().toISOString(),
-    };
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  markAsRead(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<Notification> {
+    return this.notificationsService.markAsRead(id, user.id);
   }
 
   @Delete('history')
+  @RequireScopes(ApiKeyScope.NOTIFICATIONS_WRITE)
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Clear notification history' })
+  @ApiOperation({ summary: "Clear the signed-in user's notification history" })
   @ApiResponse({
     status: 204,
     description: 'Notification history cleared',
   })
-  clearNotificationHistory() {
-    this.notificationsService.clearNotificationHistory();
+  clearNotificationHistory(@CurrentUser() user: User): Promise<void> {
+    return this.notificationsService.clearNotificationHistory(user.id);
   }
 }
@@ -0,0 +1,272 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Socket } from 'socket.io';
+
+import {
+  NotificationsGateway,
+  userRoom,
+  ADMIN_ROOM,
+} from './notifications.gateway';
+import { AuthService } from '../auth/auth.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { ApiKey } from '../api-keys/entities/api-key.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { User } from '../auth/entities/user.entity';
+import { Notification } from './entities/notification.entity';
+import { NotificationBus, InMemoryNotificationBus } from './notification-bus';
+
+describe('NotificationsGateway', () => {
+  let gateway: NotificationsGateway;
+  let notificationBus: InMemoryNotificationBus;
+
+  const mockUser = { id: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45' } as User;
+
+  const mockAuthService = {
+    verifyToken: jest.fn(),
+  };
+
+  const mockApiKeysService = {
+    authenticate: jest.fn(),
+  };
+
+  const mockSocket = (
+    handshake: Partial<Socket['handshake']>,
+    data: Record<string, unknown> = {},
+  ) =>
+    ({
+      id: 'socket-1',
+      handshake: { auth: {}, headers: {}, ...handshake },
+      data,
+      join: jest.fn(),
+      emit: jest.fn(),
+    }) as unknown as Socket;
+
+  const mockApiKey = (scopes: ApiKeyScope[], owner?: User) =>
+    Object.assign(new ApiKey(), { scopes, owner });
+
+  beforeEach(async () => {
+    notificationBus = new InMemoryNotificationBus();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsGateway,
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: ApiKeysService, useValue: mockApiKeysService },
+        {
+          provide: getRepositoryToken(Notification),
+          useValue: { find: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: NotificationBus, useValue: notificationBus },
+      ],
+    }).compile();
+
+    gateway = module.get<NotificationsGateway>(NotificationsGateway);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('should derive the user from a token in the handshake auth payload', async () => {
+      // Given
+      mockAuthService.verifyToken.mockResolvedValue(mockUser);
+
+      // When
+      const identity = await gateway.authenticate(
+        mockSocket({ auth: { token: 'jwt', userId: 'someone-else' } }),
+      );
+
+      // Then
+      expect(mockAuthService.verifyToken).toHaveBeenCalledWith('jwt');
+      expect(identity).toEqual({ userId: mockUser.id, isAdmin: false });
+    });
+
+    it('should accept a bearer token header', async () => {
+      // Given
+      mockAuthService.verifyToken.mockResolvedValue(mockUser);
+
+      // When
+      const identity = await gateway.authenticate(
+        mockSocket({ headers: { authorization: 'Bearer jwt' } }),
+      );
+
+      // Then
+      expect(identity.userId).toBe(mockUser.id);
+    });
+
+    it('should reject a socket without credentials', async () => {
+      // When & Then
+      await expect(gateway.authenticate(mockSocket({}))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should map an owned API key to its owner', async () => {
+      // Given
+      mockApiKeysService.authenticate.mockResolvedValue(
+        mockApiKey([ApiKeyScope.NOTIFICATIONS_READ], mockUser),
+      );
+
+      // When
+      const identity = await gateway.authenticate(
+        mockSocket({ auth: { apiKey: 'jak_secret' } }),
+      );
+
+      // Then
+      expect(identity).toEqual({ userId: mockUser.id, isAdmin: false });
+    });
+
+    it('should treat a notifications:admin key as an admin socket', async () => {
+      // Given
+      mockApiKeysService.authenticate.mockResolvedValue(
+        mockApiKey([ApiKeyScope.NOTIFICATIONS_ADMIN]),
+      );
+
+      // When
+      const identity = await gateway.authenticate(
+        mockSocket({ headers: { 'x-api-key': 'jak_secret' } }),
+      );
+
+      // Then
+      expect(identity).toEqual({ userId: undefined, isAdmin: true });
+    });
+
+    it('should reject an API key without notification scopes', async () => {
+      // Given
+      mockApiKeysService.authenticate.mockResolvedValue(
+        mockApiKey([ApiKeyScope.APPLICATIONS_READ], mockUser),
+      );
+
+      // When & Then
+      await expect(
+        gateway.authenticate(mockSocket({ auth: { apiKey: 'jak_secret' } })),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('handleConnection', () => {
+    it('should join the rooms for the authenticated identity', () => {
+      // Given
+      const socket = mockSocket(
+        {},
+        { identity: { userId: mockUser.id, isAdmin: true } },
+      );
+
+      // When
+      gateway.handleConnection(socket);
+
+      // Then
+      expect(socket.join).toHaveBeenCalledWith(userRoom(mockUser.id));
+      expect(socket.join).toHaveBeenCalledWith(ADMIN_ROOM);
+      expect(gateway.getConnectionStats().connections[0].userId).toBe(
+        mockUser.id,
+      );
+    });
+  });
+
+  describe('handleGetConnectionStats', () => {
+    const otherUserId = '0c7e3d1a-8f2b-4a6c-9d5e-1b3f7a9c2e64';
+
+    const connect = (id: string, identity: Record<string, unknown>) => {
+      const socket = mockSocket({}, { identity });
+      Object.assign(socket, { id });
+      gateway.handleConnection(socket);
+      return socket;
+    };
+
+    it('should only show users their own connections', () => {
+      // Given
+      const socket = connect('socket-1', {
+        userId: mockUser.id,
+        isAdmin: false,
+      });
+      connect('socket-2', { userId: otherUserId, isAdmin: false });
+
+      // When
+      gateway.handleGetConnectionStats(socket);
+
+      // Then
+      expect(socket.emit).toHaveBeenCalledWith(
+        'connection-stats',
+        expect.objectContaining({
+          totalConnections: 1,
+          connections: [expect.objectContaining({ userId: mockUser.id })],
+        }),
+      );
+    });
+
+    it('should show admin sockets every connection', () => {
+      // Given
+      const socket = connect('socket-1', { isAdmin: true });
+      connect('socket-2', { userId: otherUserId, isAdmin: false });
+
+      // When
+      gateway.handleGetConnectionStats(socket);
+
+      // Then
+      expect(socket.emit).toHaveBeenCalledWith(
+        'connection-stats',
+        expect.objectContaining({ totalConnections: 2 }),
+      );
+    });
+  });
+
+  describe('notification bus', () => {
+    it('should deliver published notifications to the owner room on this replica', async () => {
+      // Given
+      const emit = jest.fn();
+      const to = jest.fn().mockReturnThis();
+      const server = { use: jest.fn(), local: { to, emit } };
+      gateway.server = server as any;
+      gateway.afterInit(server as any);
+
+      // When
+      await notificationBus.publish({
+        type: 'deadline_reminder',
+        applicationId: '123e4567-e89b-12d3-a456-426614174000',
+        company: 'Tech Corp',
+        role: 'Software Engineer',
+        message: 'Deadline approaching',
+        timestamp: new Date().toISOString(),
+        userId: mockUser.id,
+      });
+
+      // Then
+      expect(to).toHaveBeenCalledWith(userRoom(mockUser.id));
+      expect(to).toHaveBeenCalledWith(ADMIN_ROOM);
+      expect(emit).toHaveBeenCalledWith(
+        'notification',
+        expect.objectContaining({ type: 'deadline_reminder' }),
+      );
+    });
+
+    it('should deliver notifications without an owner to admin sockets only', async () => {
+      // Given
+      const emit = jest.fn();
+      const to = jest.fn().mockReturnThis();
+      const server = { use: jest.fn(), local: { to, emit } };
+      gateway.server = server as any;
+      gateway.afterInit(server as any);
+
+      // When
+      await notificationBus.publish({
+        type: 'deadline_reminder',
+        applicationId: '123e4567-e89b-12d3-a456-426614174000',
+        company: 'Tech Corp',
+        role: 'Software Engineer',
+        message: 'Deadline approaching',
+        timestamp: new Date().toISOString(),
+      });
+
+      // Then
+      expect(to).toHaveBeenCalledTimes(1);
+      expect(to).toHaveBeenCalledWith(ADMIN_ROOM);
+      expect(emit).toHaveBeenCalledWith(
+        'notification',
+        expect.objectContaining({ type: 'deadline_reminder' }),
+      );
+    });
+  });
+});
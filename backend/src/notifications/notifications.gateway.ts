@@ -5,14 +5,26 @@ import {
   OnGatewayDisconnect,
   OnGatewayInit,
   SubscribeMessage,
-  MessageBody,
   ConnectedSocket,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  Logger,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ApplicationStatus } from '../workflow/types/application.types';
+import { AuthService } from '../auth/auth.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { Notification } from './entities/notification.entity';
+import { NotificationBus } from './notification-bus';
 
 export interface NotificationData {
+  // Set once the notification has been stored
+  id?: string;
   type: string;
   applicationId: string;
   company: string;
@@ -20,6 +32,9 @@ export interface NotificationData {
   status?: ApplicationStatus;
   message: string;
   timestamp: string;
+  // Owner of the application; notifications are only delivered to them
+  userId?: string;
+  readAt?: string | null;
 }
 
 interface ClientConnection {
@@ -30,6 +45,33 @@ interface ClientConnection {
   userId?: string;
 }
 
+// Who a socket belongs to, resolved from its handshake credentials
+export interface SocketIdentity {
+  userId?: string;
+  // Set for API keys with notifications:admin; they receive every notification
+  isAdmin: boolean;
+}
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const ADMIN_ROOM = 'admin';
+
+export function toNotificationData(
+  notification: Notification,
+): NotificationData {
+  return {
+    id: notification.id,
+    type: notification.type,
+    applicationId: notification.applicationId,
+    company: notification.company,
+    role: notification.role,
+    status: notification.status ?? undefined,
+    message: notification.message,
+    userId: notification.userId ?? undefined,
+    readAt: notification.readAt ? notification.readAt.toISOString() : null,
+    timestamp: notification.createdAt.toISOString(),
+  };
+}
+
 @WebSocketGateway({
   cors: {
     origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
@@ -45,17 +87,86 @@ export class NotificationsGateway
 
   private readonly logger = new Logger(NotificationsGateway.name);
   private connections = new Map<string, ClientConnection>();
-  private notificationsHistory: NotificationData[] = [];
-  private readonly MAX_HISTORY_SIZE = 100;
   private isServerInitialized = false;
 
-  afterInit() {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly apiKeysService: ApiKeysService,
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    private readonly notificationBus: NotificationBus,
+  ) {}
+
+  afterInit(server: Server) {
+    // Reject sockets without valid credentials before they connect
+    server.use((socket, next) => {
+      this.authenticate(socket)
+        .then((identity) => {
+          socket.data.identity = identity;
+          next();
+        })
+        .catch((error) => {
+          this.logger.warn(`🚫 Rejected socket ${socket.id}: ${error.message}`);
+          next(new Error(error.message || 'Unauthorized'));
+        });
+    });
+
+    // Only processes serving sockets get here, so the worker never
+    // subscribes. Each replica delivers to its own sockets.
+    this.notificationBus
+      .subscribe((notification) => this.broadcastNotification(notification))
+      .catch((error) =>
+        this.logger.error(
+          `❌ Failed to subscribe to notification bus: ${error.message}`,
+          error.stack,
+        ),
+      );
+
     this.logger.log('🔌 Socket.IO Gateway initialized');
     this.isServerInitialized = true;
   }
 
+  /**
+   * Resolve the credentials in the handshake, accepting the same bearer
+   * tokens and API keys as the HTTP API. Browsers send them in the `auth`
+   * payload; other clients may use the usual headers.
+   */
+  async authenticate(client: Socket): Promise<SocketIdentity> {
+    const auth = client.handshake.auth ?? {};
+    const headers = client.handshake.headers ?? {};
+
+    const token = auth.token ?? this.getBearerToken(headers.authorization);
+    if (token) {
+      const user = await this.authService.verifyToken(token);
+      return { userId: user.id, isAdmin: false };
+    }
+
+    const rawApiKey = auth.apiKey ?? headers['x-api-key'];
+    if (!rawApiKey) {
+      throw new UnauthorizedException('Bearer token or API key is required');
+    }
+
+    const apiKey = await this.apiKeysService.authenticate(rawApiKey);
+
+    if (apiKey.scopes.includes(ApiKeyScope.NOTIFICATIONS_ADMIN)) {
+      return { userId: apiKey.owner?.id, isAdmin: true };
+    }
+
+    if (
+      apiKey.owner &&
+      apiKey.scopes.includes(ApiKeyScope.NOTIFICATIONS_READ)
+    ) {
+      return { userId: apiKey.owner.id, isAdmin: false };
+    }
+
+    throw new ForbiddenException(
+      `Missing required scope(s): ${ApiKeyScope.NOTIFICATIONS_READ}`,
+    );
+  }
+
   handleConnection(client: Socket) {
     const clientId = client.id;
+    const identity: SocketIdentity = client.data.identity;
     this.logger.log(`📱 Client connected: ${clientId}`);
 
     // Store connection info
@@ -64,25 +175,26 @@ export class NotificationsGateway
       socket: client,
       connectedAt: new Date(),
       isActive: true,
+      userId: identity?.userId,
     };
 
     this.connections.set(clientId, connection);
     this.logger.log(`📊 Total active connections: ${this.connections.size}`);
 
+    if (identity?.userId) {
+      client.join(userRoom(identity.userId));
+    }
+    if (identity?.isAdmin) {
+      client.join(ADMIN_ROOM);
+    }
+
     // Send connection acknowledgment
     client.emit('connected', {
       clientId,
+      userId: identity?.userId,
       timestamp: new Date().toISOString(),
       message: 'Connected to notifications service',
     });
-
-    // Send recent notifications history to new client
-    if (this.notificationsHistory.length > 0) {
-      client.emit('notifications-history', {
-        notifications: this.notificationsHistory.slice(-10), // Send last 10 notifications
-        timestamp: new Date().toISOString(),
-      });
-    }
   }
 
   handleDisconnect(client: Socket) {
@@ -94,15 +206,21 @@ export class NotificationsGateway
   }
 
   @SubscribeMessage('subscribe-notifications')
-  handleSubscribeNotifications(
-    @MessageBody() data: { userId?: string },
-    @ConnectedSocket() client: Socket,
-  ) {
+  async handleSubscribeNotifications(@ConnectedSocket() client: Socket) {
     const connection = this.connections.get(client.id);
     if (connection) {
-      connection.userId = data.userId;
       this.logger.log(`🔔 Client ${client.id} subscribed to notifications`);
 
+      // Identity comes from the handshake, never from the message body.
+      // Admin sockets without an owner get everyone's recent notifications.
+      const history = await this.getRecentNotifications(connection.userId);
+      if (history.length > 0) {
+        client.emit('notifications-history', {
+          notifications: history,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       client.emit('subscription-confirmed', {
         clientId: client.id,
         subscribed: true,
@@ -111,24 +229,21 @@ export class NotificationsGateway
     }
   }
 
+  // Admin sockets see every connection; users only their own
   @SubscribeMessage('get-connection-stats')
   handleGetConnectionStats(@ConnectedSocket() client: Socket) {
-    const stats = this.getConnectionStats();
+    const identity: SocketIdentity | undefined = client.data.identity;
+    const stats = identity?.isAdmin
+      ? this.getConnectionStats()
+      : this.getConnectionStats(identity?.userId ?? null);
     client.emit('connection-stats', stats);
   }
 
-  // Method to broadcast notification to all connected clients
+  // Method to deliver a notification to its owner's sockets. Notifications
+  // without an owner (e.g. for legacy applications) only reach admin sockets.
   broadcastNotification(notification: NotificationData): void {
     this.logger.log(`📤 Broadcasting notification: ${notification.type}`);
 
-    // Add to history
-    this.notificationsHistory.push(notification);
-
-    // Keep history size manageable
-    if (this.notificationsHistory.length > this.MAX_HISTORY_SIZE) {
-      this.notificationsHistory.shift();
-    }
-
     // Check if server is initialized and available
     if (!this.isServerInitialized || !this.server) {
       this.logger.warn(
@@ -141,16 +256,19 @@ export class NotificationsGateway
     }
 
     try {
-      // Broadcast to all connected clients
-      this.server.emit('notification', notification);
+      // `local` because every replica receives the notification from the bus;
+      // going through the Redis adapter as well would deliver it twice
+      if (notification.userId) {
+        this.server.local
+          .to(userRoom(notification.userId))
+          .to(ADMIN_ROOM)
+          .emit('notification', notification);
+        this.logger.log(`📡 Notification sent to user ${notification.userId}`);
+        return;
+      }
 
-      // Log broadcast stats
-      const activeConnections = Array.from(this.connections.values()).filter(
-        (conn) => conn.isActive,
-      );
-      this.logger.log(
-        `📡 Notification sent to ${activeConnections.length} clients`,
-      );
+      this.server.local.to(ADMIN_ROOM).emit('notification', notification);
+      this.logger.log('📡 Unowned notification sent to admin clients');
     } catch (error) {
       this.logger.error(
         `❌ Failed to broadcast notification: ${error.message}`,
@@ -177,8 +295,9 @@ export class NotificationsGateway
     }
   }
 
-  // Method to get connection statistics
-  getConnectionStats(): {
+  // Method to get connection statistics, optionally limited to one user's
+  // sockets (null matches none)
+  getConnectionStats(userId?: string | null): {
     totalConnections: number;
     activeConnections: number;
     connections: Array<{
@@ -188,31 +307,22 @@ export class NotificationsGateway
       userId?: string;
     }>;
   } {
-    const connections = Array.from(this.connections.values()).map((conn) => ({
-      id: conn.id,
-      connectedAt: conn.connectedAt.toISOString(),
-      isActive: conn.isActive,
-      userId: conn.userId,
-    }));
+    const connections = Array.from(this.connections.values())
+      .filter((conn) => userId === undefined || conn.userId === userId)
+      .map((conn) => ({
+        id: conn.id,
+        connectedAt: conn.connectedAt.toISOString(),
+        isActive: conn.isActive,
+        userId: conn.userId,
+      }));
 
     return {
-      totalConnections: this.connections.size,
+      totalConnections: connections.length,
       activeConnections: connections.filter((conn) => conn.isActive).length,
       connections,
     };
   }
 
-  // Method to get notification history
-  getNotificationHistory(): NotificationData[] {
-    return this.notificationsHistory;
-  }
-
-  // Method to clear notification history
-  clearNotificationHistory(): void {
-    this.notificationsHistory = [];
-    this.logger.log('🗑️ Notification history cleared');
-  }
-
   // Health check method
   getHealthStatus(): {
     status: string;
@@ -229,4 +339,29 @@ export class NotificationsGateway
       serverInitialized: this.isServerInitialized,
     };
   }
+
+  // Last 10 stored notifications, oldest first, optionally for a single user
+  private async getRecentNotifications(
+    userId?: string,
+  ): Promise<NotificationData[]> {
+    try {
+      const notifications = await this.notificationRepository.find({
+        where: userId ? { userId } : {},
+        order: { createdAt: 'DESC' },
+        take: 10,
+      });
+      return notifications.reverse().map(toNotificationData);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to load notification history: ${error.message}`,
+        error.stack,
+      );
+      return [];
+    }
+  }
+
+  private getBearerToken(authorization?: string): string | undefined {
+    const [scheme, token] = (authorization ?? '').split(' ');
+    return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+  }
 }
@@ -1,11 +1,38 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { NotificationsGateway } from './notifications.gateway';
 import { NotificationsService } from './notifications.service';
 import { NotificationsController } from './notifications.controller';
+import { Notification } from './entities/notification.entity';
+import { NotificationPreferences } from './entities/notification-preferences.entity';
+import { User } from '../auth/entities/user.entity';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationBus, createNotificationBus } from './notification-bus';
+import { AuthModule } from '../auth/auth.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { EmailModule } from '../email/email.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
-  providers: [NotificationsGateway, NotificationsService],
+  imports: [
+    TypeOrmModule.forFeature([Notification, NotificationPreferences, User]),
+    AuthModule,
+    ApiKeysModule,
+    forwardRef(() => EmailModule),
+    forwardRef(() => WebhooksModule),
+  ],
+  providers: [
+    NotificationsGateway,
+    NotificationsService,
+    NotificationPreferencesService,
+    {
+      provide: NotificationBus,
+      useFactory: createNotificationBus,
+      inject: [ConfigService],
+    },
+  ],
   controllers: [NotificationsController],
-  exports: [NotificationsService],
+  exports: [NotificationsService, NotificationPreferencesService],
 })
 export class NotificationsModule {}
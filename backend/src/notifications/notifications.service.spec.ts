@@ -0,0 +1,288 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+
+import { NotificationsService } from './notifications.service';
+import { NotificationsGateway } from './notifications.gateway';
+import { Notification } from './entities/notification.entity';
+import { NotificationBus } from './notification-bus';
+import { EmailDeliveryService } from '../email/email-delivery.service';
+import { WebhookDeliveryService } from '../webhooks/webhook-delivery.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { ALL_CHANNELS, NotificationChannel } from './notification-channels';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+
+  const userId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+
+  const mockNotification = (overrides: Partial<Notification> = {}) =>
+    Object.assign(new Notification(), {
+      id: '2f7c9d1e-3a4b-4c5d-8e6f-7a8b9c0d1e2f',
+      userId,
+      type: 'status_update',
+      applicationId: '123e4567-e89b-12d3-a456-426614174000',
+      company: 'Tech Corp',
+      role: 'Software Engineer',
+      message: 'Application status updated to interview',
+      createdAt: new Date('2024-01-15T10:00:00.000Z'),
+      ...overrides,
+    });
+
+  const mockRepository = {
+    create: jest.fn((notification) => notification),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockGateway = {
+    broadcastNotification: jest.fn(),
+  };
+
+  const mockNotificationBus = {
+    publish: jest.fn(),
+    subscribe: jest.fn(),
+  };
+
+  const mockEmailDeliveryService = {
+    enqueue: jest.fn(),
+  };
+
+  const mockWebhookDeliveryService = {
+    dispatch: jest.fn(),
+  };
+
+  const mockPreferencesService = {
+    planDelivery: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    mockPreferencesService.planDelivery.mockResolvedValue({
+      store: true,
+      channels: ALL_CHANNELS,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: NotificationsGateway, useValue: mockGateway },
+        { provide: NotificationBus, useValue: mockNotificationBus },
+        { provide: EmailDeliveryService, useValue: mockEmailDeliveryService },
+        {
+          provide: WebhookDeliveryService,
+          useValue: mockWebhookDeliveryService,
+        },
+        {
+          provide: NotificationPreferencesService,
+          useValue: mockPreferencesService,
+        },
+        {
+          provide: getRepositoryToken(Notification),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('sendNotification', () => {
+    it('should store the notification and publish it with its id', async () => {
+      // Given
+      const stored = mockNotification();
+      mockRepository.save.mockResolvedValue(stored);
+
+      // When
+      await service.sendNotification({
+        type: stored.type,
+        applicationId: stored.applicationId,
+        company: stored.company,
+        role: stored.role,
+        message: stored.message,
+        userId,
+      });
+
+      // Then
+      expect(mockRepository.save).toHaveBeenCalled();
+      expect(mockNotificationBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: stored.id,
+          userId,
+          readAt: null,
+          timestamp: stored.createdAt.toISOString(),
+        }),
+      );
+      expect(mockEmailDeliveryService.enqueue).toHaveBeenCalledWith(stored);
+      expect(mockWebhookDeliveryService.dispatch).toHaveBeenCalledWith(stored);
+    });
+
+    it('should still publish when queueing the email fails', async () => {
+      // Given
+      const stored = mockNotification({ type: 'urgent_reminder' });
+      mockRepository.save.mockResolvedValue(stored);
+      mockEmailDeliveryService.enqueue.mockRejectedValueOnce(
+        new Error('Temporal unavailable'),
+      );
+
+      // When
+      await service.sendNotification({
+        type: stored.type,
+        applicationId: stored.applicationId,
+        company: stored.company,
+        role: stored.role,
+        message: stored.message,
+        userId,
+      });
+
+      // Then
+      expect(mockNotificationBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ id: stored.id, type: 'urgent_reminder' }),
+      );
+    });
+
+    it('should only use the channels the preferences allow', async () => {
+      // Given
+      const stored = mockNotification({ type: 'urgent_reminder' });
+      mockRepository.save.mockResolvedValue(stored);
+      mockPreferencesService.planDelivery.mockResolvedValueOnce({
+        store: true,
+        channels: [NotificationChannel.WEBHOOK],
+      });
+
+      // When
+      await service.sendNotification({
+        type: stored.type,
+        applicationId: stored.applicationId,
+        company: stored.company,
+        role: stored.role,
+        message: stored.message,
+        userId,
+      });
+
+      // Then
+      expect(mockRepository.save).toHaveBeenCalled();
+      expect(mockWebhookDeliveryService.dispatch).toHaveBeenCalledWith(stored);
+      expect(mockEmailDeliveryService.enqueue).not.toHaveBeenCalled();
+      expect(mockNotificationBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should drop a throttled reminder entirely', async () => {
+      // Given
+      mockPreferencesService.planDelivery.mockResolvedValueOnce({
+        store: false,
+        channels: [],
+      });
+
+      // When
+      await service.sendNotification({
+        type: 'urgent_reminder',
+        applicationId: '123e4567-e89b-12d3-a456-426614174000',
+        company: 'Tech Corp',
+        role: 'Software Engineer',
+        message: 'Deadline approaching',
+        userId,
+      });
+
+      // Then
+      expect(mockRepository.save).not.toHaveBeenCalled();
+      expect(mockNotificationBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should still publish when storing fails', async () => {
+      // Given
+      mockRepository.save.mockRejectedValueOnce(new Error('connection lost'));
+
+      // When
+      await service.sendNotification({
+        type: 'status_update',
+        applicationId: '123e4567-e89b-12d3-a456-426614174000',
+        company: 'Tech Corp',
+        role: 'Software Engineer',
+        message: 'Application status updated to interview',
+        userId,
+      });
+
+      // Then
+      expect(mockNotificationBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'status_update', userId }),
+      );
+    });
+  });
+
+  describe('getNotificationHistory', () => {
+    it('should page through the user notifications with filters', async () => {
+      // Given
+      mockRepository.findAndCount.mockResolvedValue([[mockNotification()], 3]);
+      mockRepository.count.mockResolvedValue(2);
+
+      // When
+      const result = await service.getNotificationHistory(
+        { type: 'status_update', unread: true, limit: 1, offset: 0 },
+        userId,
+      );
+
+      // Then
+      expect(mockRepository.findAndCount).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId, type: 'status_update', readAt: IsNull() },
+          skip: 0,
+          take: 1,
+        }),
+      );
+      expect(result).toMatchObject({ total: 3, unreadCount: 2, hasMore: true });
+    });
+  });
+
+  describe('markAsRead', () => {
+    it('should set readAt on an unread notification', async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(mockNotification());
+
+      // When
+      const result = await service.markAsRead('some-id', userId);
+
+      // Then
+      expect(result.readAt).toBeInstanceOf(Date);
+      expect(mockRepository.save).toHaveBeenCalled();
+    });
+
+    it("should not find another user's notification", async () => {
+      // Given
+      mockRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(service.markAsRead('some-id', userId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'some-id', userId },
+      });
+    });
+  });
+
+  describe('markAllAsRead', () => {
+    it('should mark only unread notifications of the user', async () => {
+      // Given
+      mockRepository.update.mockResolvedValue({ affected: 4 });
+
+      // When
+      const result = await service.markAllAsRead(userId);
+
+      // Then
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { userId, readAt: IsNull() },
+        { readAt: expect.any(Date) },
+      );
+      expect(result).toEqual({ updated: 4 });
+    });
+  });
+});
@@ -1,34 +1,93 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
 import {
   NotificationsGateway,
   NotificationData,
+  toNotificationData,
 } from './notifications.gateway';
+import { Notification } from './entities/notification.entity';
+import { NotificationBus } from './notification-bus';
+import {
+  QueryNotificationsDto,
+  PaginatedNotificationsDto,
+} from './dto/query-notifications.dto';
 import { ApplicationStatus } from '../workflow/types/application.types';
+import { EmailDeliveryService } from '../email/email-delivery.service';
+import { WebhookDeliveryService } from '../webhooks/webhook-delivery.service';
+import {
+  NotificationPreferencesService,
+  NotificationDeliveryPlan,
+} from './notification-preferences.service';
+import { ALL_CHANNELS, NotificationChannel } from './notification-channels';
 
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
 
-  constructor(private readonly notificationsGateway: NotificationsGateway) {}
+  constructor(
+    private readonly notificationsGateway: NotificationsGateway,
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    private readonly notificationBus: NotificationBus,
+    private readonly emailDeliveryService: EmailDeliveryService,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
 
-  // Send notification to all connected clients
-  sendNotification(notification: {
+  // Store a notification and deliver it on the channels the owner's
+  // preferences allow: published so the API processes send it to the owner's
+  // clients (or admin clients if unowned), emailed, and sent to their webhooks.
+  // Works the same from the Temporal worker, which has no sockets of its own.
+  async sendNotification(notification: {
     type: string;
     applicationId: string;
     company: string;
     role: string;
     status?: ApplicationStatus;
     message: string;
-  }): void {
+    userId?: string;
+  }): Promise<void> {
     this.logger.log(`📤 Sending notification: ${notification.type}`);
 
-    const notificationData: NotificationData = {
+    const plan = await this.planDelivery(notification);
+    if (!plan.store) {
+      this.logger.log(
+        `🔕 Skipped ${notification.type} for application ${notification.applicationId}: reminder interval not reached`,
+      );
+      return;
+    }
+
+    let notificationData: NotificationData = {
       ...notification,
       timestamp: new Date().toISOString(),
     };
 
+    // Still deliver live if storing fails; only the history entry is lost
+    try {
+      const stored = await this.notificationRepository.save(
+        this.notificationRepository.create(notification),
+      );
+      notificationData = toNotificationData(stored);
+      if (plan.channels.includes(NotificationChannel.EMAIL)) {
+        await this.enqueueEmail(stored);
+      }
+      if (plan.channels.includes(NotificationChannel.WEBHOOK)) {
+        await this.dispatchWebhooks(stored);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to store notification: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    if (!plan.channels.includes(NotificationChannel.LIVE)) {
+      return;
+    }
+
     try {
-      this.notificationsGateway.broadcastNotification(notificationData);
+      await this.notificationBus.publish(notificationData);
     } catch (error) {
       this.logger.error(
         `❌ Failed to send notification: ${error.message}`,
@@ -87,29 +146,69 @@ export class NotificationsService {
     }
   }
 
-  // Get notification history
-  getNotificationHistory() {
-    try {
-      return this.notificationsGateway.getNotificationHistory();
-    } catch (error) {
-      this.logger.error(
-        `❌ Failed to get notification history: ${error.message}`,
-        error.stack,
-      );
-      return [];
-    }
+  // Get a page of the user's notification history, newest first
+  async getNotificationHistory(
+    query: QueryNotificationsDto,
+    userId: string,
+  ): Promise<PaginatedNotificationsDto> {
+    const { type, applicationId, unread, limit = 20, offset = 0 } = query;
+
+    const [items, total] = await this.notificationRepository.findAndCount({
+      where: {
+        userId,
+        ...(type && { type }),
+        ...(applicationId && { applicationId }),
+        ...(unread && { readAt: IsNull() }),
+      },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: offset,
+      take: limit,
+    });
+
+    const unreadCount = await this.notificationRepository.count({
+      where: { userId, readAt: IsNull() },
+    });
+
+    return {
+      items,
+      total,
+      unreadCount,
+      limit,
+      offset,
+      hasMore: offset + items.length < total,
+    };
   }
 
-  // Clear notification history
-  clearNotificationHistory() {
-    try {
-      this.notificationsGateway.clearNotificationHistory();
-    } catch (error) {
-      this.logger.error(
-        `❌ Failed to clear notification history: ${error.message}`,
-        error.stack,
-      );
+  // Mark one of the user's notifications as read
+  async markAsRead(id: string, userId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne({
+      where: { id, userId },
+    });
+    if (!notification) {
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationRepository.save(notification);
     }
+
+    return notification;
+  }
+
+  // Mark all of the user's unread notifications as read
+  async markAllAsRead(userId: string): Promise<{ updated: number }> {
+    const result = await this.notificationRepository.update(
+      { userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+    return { updated: result.affected ?? 0 };
+  }
+
+  // Delete the user's notification history
+  async clearNotificationHistory(userId: string): Promise<void> {
+    await this.notificationRepository.delete({ userId });
+    this.logger.log(`🗑️ Notification history cleared for user ${userId}`);
   }
 
   // Get health status
@@ -130,4 +229,46 @@ export class NotificationsService {
       };
     }
   }
+
+  // Email failures are retried by Temporal once queued; failing to queue
+  // must not stop the live notification
+  private async enqueueEmail(notification: Notification): Promise<void> {
+    try {
+      await this.emailDeliveryService.enqueue(notification);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to queue notification email: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async dispatchWebhooks(notification: Notification): Promise<void> {
+    try {
+      await this.webhookDeliveryService.dispatch(notification);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to queue webhook deliveries: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Fall back to every channel if the preferences can't be read, so a
+  // database hiccup doesn't swallow deadline alerts
+  private async planDelivery(notification: {
+    type: string;
+    applicationId: string;
+    userId?: string;
+  }): Promise<NotificationDeliveryPlan> {
+    try {
+      return await this.preferencesService.planDelivery(notification);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to read notification preferences: ${error.message}`,
+        error.stack,
+      );
+      return { store: true, channels: ALL_CHANNELS };
+    }
+  }
 }
@@ -0,0 +1,38 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis, { RedisOptions } from 'ioredis';
+import { ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter that shares rooms and broadcasts between API replicas
+ * through Redis.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+
+  constructor(app: INestApplicationContext) {
+    super(app);
+  }
+
+  connectToRedis(options: RedisOptions): void {
+    const pubClient = new Redis(options);
+    const subClient = pubClient.duplicate();
+
+    [pubClient, subClient].forEach((client) =>
+      client.on('error', (error) =>
+        this.logger.error(`❌ Redis adapter error: ${error.message}`),
+      ),
+    );
+
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    this.logger.log('🔗 Socket.IO Redis adapter configured');
+  }
+
+  createIOServer(port: number, options?: ServerOptions) {
+    const server = super.createIOServer(port, options);
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { OffersService } from './offers.service';
+import { CreateOfferDto } from './dto/create-offer.dto';
+import { UpdateOfferDto } from './dto/update-offer.dto';
+import { Offer } from './entities/offer.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
+
+@ApiTags('offers')
+@ApiBearerAuth('bearer')
+@RequireScopes(ApiKeyScope.APPLICATIONS_READ)
+@Controller('applications/:applicationId/offer')
+export class ApplicationOfferController {
+  constructor(private readonly offersService: OffersService) {}
+
+  @Post()
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary:
+      'Record the offer for an application and remind before its deadline',
+  })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({ status: 201, description: 'Offer recorded', type: Offer })
+  @ApiResponse({ status: 404, description: 'Application not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The application already has an offer',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Validation failed or the application is not in offer status',
+  })
+  create(
+    @Param('applicationId') applicationId: string,
+    @Body() createOfferDto: CreateOfferDto,
+    @CurrentUser() user: User,
+  ): Promise<Offer> {
+    return this.offersService.create(applicationId, createOfferDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the offer of an application' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({ status: 200, description: 'Offer', type: Offer })
+  @ApiResponse({ status: 404, description: 'Application or offer not found' })
+  findOne(
+    @Param('applicationId') applicationId: string,
+    @CurrentUser() user: User,
+  ): Promise<Offer> {
+    return this.offersService.findOne(applicationId, user.id);
+  }
+
+  @Patch()
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @ApiOperation({
+    summary: 'Update the offer, move its deadline or record your decision',
+  })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({ status: 200, description: 'Offer updated', type: Offer })
+  @ApiResponse({ status: 404, description: 'Application or offer not found' })
+  update(
+    @Param('applicationId') applicationId: string,
+    @Body() updateOfferDto: UpdateOfferDto,
+    @CurrentUser() user: User,
+  ): Promise<Offer> {
+    return this.offersService.update(applicationId, updateOfferDto, user.id);
+  }
+
+  @Delete()
+  @RequireScopes(ApiKeyScope.APPLICATIONS_WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete the offer and stop its reminders' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({ status: 204, description: 'Offer deleted' })
+  @ApiResponse({ status: 404, description: 'Application or offer not found' })
+  remove(
+    @Param('applicationId') applicationId: string,
+    @CurrentUser() user: User,
+  ): Promise<void> {
+    return this.offersService.remove(applicationId, user.id);
+  }
+}
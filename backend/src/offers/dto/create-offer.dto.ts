@@ -0,0 +1,72 @@
+import {
+  IsDateString,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateOfferDto {
+  @ApiProperty({ description: 'Yearly base salary', example: 120000 })
+  @IsInt()
+  @Min(0)
+  baseSalary: number;
+
+  @ApiPropertyOptional({ description: 'Yearly target bonus', example: 15000 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  bonus?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Estimated yearly value of the equity grant',
+    example: 25000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  equity?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'ISO 4217 currency of the amounts',
+    example: 'EUR',
+    default: 'USD',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'First working day (YYYY-MM-DD)',
+    example: '2024-05-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Office or remote policy',
+    example: 'Berlin, hybrid',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  location?: string | null;
+
+  @ApiPropertyOptional({ description: 'Benefits and other terms' })
+  @IsOptional()
+  @IsString()
+  benefits?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'When the company expects an answer (ISO string); reminders are sent before it',
+    example: '2024-04-05T17:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  responseDeadline?: string | null;
+}
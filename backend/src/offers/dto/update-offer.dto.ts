@@ -0,0 +1,16 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { OfferDecision } from '../../workflow/types/offer.types';
+import { CreateOfferDto } from './create-offer.dto';
+
+export class UpdateOfferDto extends PartialType(CreateOfferDto) {
+  @ApiPropertyOptional({
+    description:
+      'Your answer to the offer; anything but pending stops the deadline reminders',
+    enum: OfferDecision,
+    example: OfferDecision.ACCEPTED,
+  })
+  @IsOptional()
+  @IsEnum(OfferDecision)
+  decision?: OfferDecision;
+}
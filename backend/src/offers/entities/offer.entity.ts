@@ -0,0 +1,91 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Application } from '../../applications/entities/application.entity';
+import { OfferDecision } from '../../workflow/types/offer.types';
+
+@Entity('offers')
+export class Offer {
+  @ApiProperty({ description: 'Unique identifier for the offer' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Application the offer is for' })
+  @Index('IDX_offers_application', { unique: true })
+  @Column('uuid')
+  applicationId: string;
+
+  @ManyToOne(() => Application, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'applicationId' })
+  application?: Application;
+
+  @ApiProperty({ description: 'Yearly base salary', example: 120000 })
+  @Column('int')
+  baseSalary: number;
+
+  @ApiPropertyOptional({ description: 'Yearly target bonus', example: 15000 })
+  @Column('int', { nullable: true })
+  bonus?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Estimated yearly value of the equity grant',
+    example: 25000,
+  })
+  @Column('int', { nullable: true })
+  equity?: number | null;
+
+  @ApiProperty({
+    description: 'ISO 4217 currency of the amounts',
+    example: 'EUR',
+    default: 'USD',
+  })
+  @Column({ length: 3, default: 'USD' })
+  currency: string;
+
+  @ApiPropertyOptional({
+    description: 'First working day (YYYY-MM-DD)',
+    example: '2024-05-01',
+  })
+  @Column('date', { nullable: true })
+  startDate?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Office or remote policy',
+    example: 'Berlin, hybrid',
+  })
+  @Column('text', { nullable: true })
+  location?: string | null;
+
+  @ApiPropertyOptional({ description: 'Benefits and other terms' })
+  @Column('text', { nullable: true })
+  benefits?: string | null;
+
+  @ApiPropertyOptional({ description: 'When the company expects an answer' })
+  @Index('IDX_offers_response_deadline')
+  @Column('timestamp', { nullable: true })
+  responseDeadline?: Date | null;
+
+  @ApiProperty({ enum: OfferDecision, default: OfferDecision.PENDING })
+  @Column({
+    type: 'enum',
+    enum: OfferDecision,
+    default: OfferDecision.PENDING,
+  })
+  decision: OfferDecision;
+
+  @ApiProperty({ description: 'Offer creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Offer last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,33 @@
+import { Controller, Get } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { OffersService } from './offers.service';
+import { Offer } from './entities/offer.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
+
+@ApiTags('offers')
+@ApiBearerAuth('bearer')
+@RequireScopes(ApiKeyScope.APPLICATIONS_READ)
+@Controller('offers')
+export class OffersController {
+  constructor(private readonly offersService: OffersService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List all your offers for comparison' })
+  @ApiResponse({
+    status: 200,
+    description: 'Offers with their application, oldest first',
+    type: [Offer],
+  })
+  findAll(@CurrentUser() user: User): Promise<Offer[]> {
+    return this.offersService.findAll(user.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { OffersService } from './offers.service';
+import { ApplicationOfferController } from './application-offer.controller';
+import { OffersController } from './offers.controller';
+import { Offer } from './entities/offer.entity';
+import { Application } from '../applications/entities/application.entity';
+import { OfferActivities } from '../workflow/activities/offer.activities';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Offer, Application]),
+    WorkflowModule,
+    NotificationsModule,
+  ],
+  controllers: [ApplicationOfferController, OffersController],
+  providers: [OffersService, OfferActivities],
+})
+export class OffersModule {}
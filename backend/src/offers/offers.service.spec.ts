@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  ConflictException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+
+import { OffersService } from './offers.service';
+import { Offer } from './entities/offer.entity';
+import { Application } from '../applications/entities/application.entity';
+import { WorkflowService } from '../workflow/workflow.service';
+import { ApplicationStatus } from '../workflow/types/application.types';
+import { OfferDecision } from '../workflow/types/offer.types';
+
+describe('OffersService', () => {
+  let service: OffersService;
+
+  const ownerId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+  const applicationId = '123e4567-e89b-12d3-a456-426614174000';
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const mockOffer = (overrides: Partial<Offer> = {}): Offer =>
+    Object.assign(new Offer(), {
+      id: '7e1a9c3b-2f4d-4b6e-8a0c-5d3f1b7e9a24',
+      applicationId,
+      baseSalary: 120000,
+      bonus: 15000,
+      equity: null,
+      currency: 'EUR',
+      responseDeadline: new Date(Date.now() + 5 * DAY_MS),
+      decision: OfferDecision.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+  const mockOfferRepository = {
+    create: jest.fn((offer) => offer),
+    save: jest.fn(async (offer) => ({ id: mockOffer().id, ...offer })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockApplicationRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockWorkflowService = {
+    startOfferWorkflow: jest.fn(),
+    signalOfferDeadline: jest.fn(),
+    signalOfferDecision: jest.fn(),
+    cancelWorkflow: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OffersService,
+        { provide: getRepositoryToken(Offer), useValue: mockOfferRepository },
+        {
+          provide: getRepositoryToken(Application),
+          useValue: mockApplicationRepository,
+        },
+        { provide: WorkflowService, useValue: mockWorkflowService },
+      ],
+    }).compile();
+
+    service = module.get<OffersService>(OffersService);
+    mockApplicationRepository.findOne.mockResolvedValue({
+      id: applicationId,
+      ownerId,
+      status: ApplicationStatus.OFFER,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should record the offer and start the deadline workflow', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(null);
+      const responseDeadline = new Date(Date.now() + 7 * DAY_MS);
+
+      // When
+      const offer = await service.create(
+        applicationId,
+        {
+          baseSalary: 95000,
+          currency: 'EUR',
+          responseDeadline: responseDeadline.toISOString(),
+        },
+        ownerId,
+      );
+
+      // Then
+      expect(offer.responseDeadline).toEqual(responseDeadline);
+      expect(mockWorkflowService.startOfferWorkflow).toHaveBeenCalledWith(
+        offer,
+        responseDeadline,
+      );
+    });
+
+    it('should not start a workflow without a response deadline', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(null);
+
+      // When
+      const offer = await service.create(
+        applicationId,
+        { baseSalary: 95000 },
+        ownerId,
+      );
+
+      // Then
+      expect(offer.responseDeadline).toBeNull();
+      expect(mockWorkflowService.startOfferWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should reject applications that are not in offer status', async () => {
+      // Given
+      mockApplicationRepository.findOne.mockResolvedValue({
+        id: applicationId,
+        ownerId,
+        status: ApplicationStatus.INTERVIEW,
+      });
+
+      // When & Then
+      await expect(
+        service.create(applicationId, { baseSalary: 95000 }, ownerId),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(mockOfferRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second offer for the same application', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(mockOffer());
+
+      // When & Then
+      await expect(
+        service.create(applicationId, { baseSalary: 95000 }, ownerId),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should signal the running workflow when the deadline moves', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(mockOffer());
+      const responseDeadline = new Date(Date.now() + 10 * DAY_MS);
+
+      // When
+      const updated = await service.update(
+        applicationId,
+        { responseDeadline: responseDeadline.toISOString() },
+        ownerId,
+      );
+
+      // Then
+      expect(mockWorkflowService.signalOfferDeadline).toHaveBeenCalledWith(
+        updated,
+        responseDeadline,
+      );
+      expect(mockWorkflowService.startOfferWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should start a new workflow when an expired deadline is extended', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(
+        mockOffer({ responseDeadline: new Date(Date.now() - DAY_MS) }),
+      );
+      const responseDeadline = new Date(Date.now() + 2 * DAY_MS);
+
+      // When
+      const updated = await service.update(
+        applicationId,
+        { responseDeadline: responseDeadline.toISOString() },
+        ownerId,
+      );
+
+      // Then
+      expect(mockWorkflowService.startOfferWorkflow).toHaveBeenCalledWith(
+        updated,
+        responseDeadline,
+      );
+      expect(mockWorkflowService.signalOfferDeadline).not.toHaveBeenCalled();
+    });
+
+    it('should stop the reminders when the deadline is cleared', async () => {
+      // Given
+      const offer = mockOffer();
+      mockOfferRepository.findOne.mockResolvedValue(offer);
+
+      // When
+      await service.update(applicationId, { responseDeadline: null }, ownerId);
+
+      // Then
+      expect(mockWorkflowService.cancelWorkflow).toHaveBeenCalledWith(
+        `offer-${offer.id}`,
+      );
+    });
+
+    it('should signal the decision without touching the deadline', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(mockOffer());
+
+      // When
+      const updated = await service.update(
+        applicationId,
+        { decision: OfferDecision.ACCEPTED },
+        ownerId,
+      );
+
+      // Then
+      expect(updated.decision).toBe(OfferDecision.ACCEPTED);
+      expect(mockWorkflowService.signalOfferDecision).toHaveBeenCalledWith(
+        updated,
+      );
+      expect(mockWorkflowService.signalOfferDeadline).not.toHaveBeenCalled();
+      expect(mockWorkflowService.startOfferWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the application has no offer', async () => {
+      // Given
+      mockOfferRepository.findOne.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.update(applicationId, { bonus: 5000 }, ownerId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findAll', () => {
+    it("should only list the user's offers", async () => {
+      // Given
+      mockOfferRepository.find.mockResolvedValue([mockOffer()]);
+
+      // When
+      await service.findAll(ownerId);
+
+      // Then
+      expect(mockOfferRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { application: { ownerId } },
+          relations: { application: true },
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Offer } from './entities/offer.entity';
+import { CreateOfferDto } from './dto/create-offer.dto';
+import { UpdateOfferDto } from './dto/update-offer.dto';
+import { Application } from '../applications/entities/application.entity';
+import { ApplicationStatus } from '../workflow/types/application.types';
+import { OfferDecision } from '../workflow/types/offer.types';
+import {
+  WorkflowService,
+  getOfferWorkflowId,
+} from '../workflow/workflow.service';
+
+@Injectable()
+export class OffersService {
+  constructor(
+    @InjectRepository(Offer)
+    private readonly offerRepository: Repository<Offer>,
+    @InjectRepository(Application)
+    private readonly applicationRepository: Repository<Application>,
+    private readonly workflowService: WorkflowService,
+  ) {}
+
+  async create(
+    applicationId: string,
+    createOfferDto: CreateOfferDto,
+    ownerId: string,
+  ): Promise<Offer> {
+    const application = await this.findApplication(applicationId, ownerId);
+    if (application.status !== ApplicationStatus.OFFER) {
+      throw new UnprocessableEntityException(
+        `Offers can only be recorded for applications with status ${ApplicationStatus.OFFER}`,
+      );
+    }
+
+    const existing = await this.offerRepository.findOne({
+      where: { applicationId },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Application ${applicationId} already has an offer`,
+      );
+    }
+
+    const { responseDeadline, ...details } = createOfferDto;
+    const saved = await this.offerRepository.save(
+      this.offerRepository.create({
+        ...details,
+        applicationId,
+        responseDeadline: responseDeadline ? new Date(responseDeadline) : null,
+      }),
+    );
+
+    try {
+      await this.syncDeadlineWorkflow(saved, false);
+    } catch (error) {
+      console.error(
+        `Failed to start deadline workflow for offer ${saved.id}:`,
+        error,
+      );
+    }
+
+    console.log(
+      `💼 Recorded offer ${saved.id} for application ${applicationId}`,
+    );
+    return saved;
+  }
+
+  /**
+   * All of the user's offers with their application, oldest first, for
+   * comparing them side by side
+   */
+  findAll(ownerId: string): Promise<Offer[]> {
+    return this.offerRepository.find({
+      where: { application: { ownerId } },
+      relations: { application: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(applicationId: string, ownerId: string): Promise<Offer> {
+    await this.findApplication(applicationId, ownerId);
+
+    const offer = await this.offerRepository.findOne({
+      where: { applicationId },
+    });
+    if (!offer) {
+      throw new NotFoundException(
+        `Offer for application ${applicationId} not found`,
+      );
+    }
+    return offer;
+  }
+
+  async update(
+    applicationId: string,
+    updateOfferDto: UpdateOfferDto,
+    ownerId: string,
+  ): Promise<Offer> {
+    const offer = await this.findOne(applicationId, ownerId);
+    const oldDeadline = offer.responseDeadline?.getTime() ?? null;
+    const oldDecision = offer.decision;
+    // The workflow ends at the deadline or once the offer is decided
+    const wasRunning =
+      oldDecision === OfferDecision.PENDING &&
+      oldDeadline !== null &&
+      oldDeadline > Date.now();
+    const { responseDeadline, ...changes } = updateOfferDto;
+
+    Object.assign(offer, changes);
+    if (responseDeadline !== undefined) {
+      offer.responseDeadline = responseDeadline
+        ? new Date(responseDeadline)
+        : null;
+    }
+    const updated = await this.offerRepository.save(offer);
+
+    // Signal failures are logged, never failing the update
+    try {
+      if (updated.decision !== oldDecision) {
+        await this.workflowService.signalOfferDecision(updated);
+      }
+      const deadlineChanged =
+        (updated.responseDeadline?.getTime() ?? null) !== oldDeadline;
+      if (
+        updated.decision === OfferDecision.PENDING &&
+        (deadlineChanged || oldDecision !== OfferDecision.PENDING)
+      ) {
+        await this.syncDeadlineWorkflow(updated, wasRunning);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to update deadline workflow for offer ${updated.id}:`,
+        error,
+      );
+    }
+
+    return updated;
+  }
+
+  async remove(applicationId: string, ownerId: string): Promise<void> {
+    const offer = await this.findOne(applicationId, ownerId);
+
+    try {
+      await this.workflowService.cancelWorkflow(getOfferWorkflowId(offer.id));
+    } catch (error) {
+      console.error(
+        `Failed to cancel deadline workflow for offer ${offer.id} during deletion:`,
+        error,
+      );
+    }
+
+    await this.offerRepository.remove(offer);
+  }
+
+  // Point the reminders at the offer's current deadline: a running workflow
+  // is signalled, otherwise one is started for a deadline still ahead
+  private async syncDeadlineWorkflow(
+    offer: Offer,
+    isRunning: boolean,
+  ): Promise<void> {
+    const { responseDeadline } = offer;
+
+    if (!responseDeadline) {
+      if (isRunning) {
+        await this.workflowService.cancelWorkflow(getOfferWorkflowId(offer.id));
+      }
+      return;
+    }
+
+    if (isRunning) {
+      await this.workflowService.signalOfferDeadline(offer, responseDeadline);
+    } else if (responseDeadline.getTime() > Date.now()) {
+      await this.workflowService.startOfferWorkflow(offer, responseDeadline);
+    }
+  }
+
+  // Offers are only reachable through an application the user owns, so
+  // someone else's application IDs behave as unknown
+  private async findApplication(
+    applicationId: string,
+    ownerId: string,
+  ): Promise<Application> {
+    const application = await this.applicationRepository.findOne({
+      where: { id: applicationId, ownerId },
+    });
+    if (!application) {
+      throw new NotFoundException(
+        `Application with ID ${applicationId} not found`,
+      );
+    }
+    return application;
+  }
+}
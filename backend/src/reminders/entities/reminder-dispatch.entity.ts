@@ -0,0 +1,66 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Application } from '../../applications/entities/application.entity';
+import { ReminderKind } from '../reminder-windows';
+
+// Which of the reminder paths claimed the window
+export enum ReminderSource {
+  WORKFLOW = 'workflow',
+  MONITOR = 'monitor',
+  SCHEDULER = 'scheduler',
+  USER = 'user',
+}
+
+/**
+ * One row per reminder sent. The unique key makes the first path to claim a
+ * window the only one that notifies, across restarts and processes.
+ */
+@Entity('reminder_dispatches')
+@Index(
+  'IDX_reminder_dispatches_dedup',
+  ['applicationId', 'kind', 'deadline', 'window'],
+  { unique: true },
+)
+export class ReminderDispatch {
+  @ApiProperty({ description: 'Unique identifier for the dispatch' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Application the reminder was for' })
+  @Column('uuid')
+  applicationId: string;
+
+  @ManyToOne(() => Application, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'applicationId' })
+  application: Application;
+
+  @ApiProperty({ enum: ReminderKind })
+  @Column({ type: 'enum', enum: ReminderKind })
+  kind: ReminderKind;
+
+  @ApiProperty({
+    description: 'Deadline the reminder was computed against',
+  })
+  @Column({ type: 'timestamp' })
+  deadline: Date;
+
+  @ApiProperty({ description: 'Window within the kind', example: '4h' })
+  @Column({ length: 32 })
+  window: string;
+
+  @ApiProperty({ enum: ReminderSource })
+  @Column({ type: 'enum', enum: ReminderSource })
+  source: ReminderSource;
+
+  @ApiProperty({ description: 'When the reminder was sent' })
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,240 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { ReminderDispatcherService } from './reminder-dispatcher.service';
+import {
+  ReminderDispatch,
+  ReminderSource,
+} from './entities/reminder-dispatch.entity';
+import {
+  ReminderKind,
+  getNextReminderTime,
+  getReminderWindow,
+} from './reminder-windows';
+import { Application } from '../applications/entities/application.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ApplicationStatus } from '../workflow/types/application.types';
+
+describe('ReminderDispatcherService', () => {
+  let service: ReminderDispatcherService;
+
+  const now = new Date('2024-01-15T12:00:00.000Z');
+  const hoursFromNow = (hours: number) =>
+    new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const mockApplication = (overrides: Partial<Application> = {}) =>
+    Object.assign(new Application(), {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      ownerId: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45',
+      company: 'Tech Corp',
+      role: 'Software Engineer',
+      status: ApplicationStatus.PENDING,
+      deadline: hoursFromNow(5),
+      ...overrides,
+    });
+
+  // Stands in for the unique index: a second insert of a key conflicts
+  const claimedKeys = new Set<string>();
+  const mockInsertBuilder = {
+    values: jest.fn(),
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    returning: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+  mockInsertBuilder.values.mockImplementation((values) => {
+    const key = [
+      values.applicationId,
+      values.kind,
+      values.deadline.toISOString(),
+      values.window,
+    ].join('|');
+    mockInsertBuilder.execute.mockImplementationOnce(async () => {
+      if (claimedKeys.has(key)) {
+        return { raw: [] };
+      }
+      claimedKeys.add(key);
+      return { raw: [{ id: `dispatch-${claimedKeys.size}`, createdAt: now }] };
+    });
+    return mockInsertBuilder;
+  });
+
+  const mockRepository = {
+    create: jest.fn((dispatch) =>
+      Object.assign(new ReminderDispatch(), dispatch),
+    ),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockInsertBuilder),
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    claimedKeys.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReminderDispatcherService,
+        {
+          provide: getRepositoryToken(ReminderDispatch),
+          useValue: mockRepository,
+        },
+        {
+          provide: NotificationsService,
+          useValue: mockNotificationsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReminderDispatcherService>(ReminderDispatcherService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('dispatch', () => {
+    it('should send a window once across all reminder paths', async () => {
+      // Given
+      const application = mockApplication();
+
+      // When
+      const fromWorkflow = await service.dispatch(
+        application,
+        ReminderSource.WORKFLOW,
+        now,
+      );
+      const fromMonitor = await service.dispatch(
+        application,
+        ReminderSource.MONITOR,
+        new Date(now.getTime() + 10 * 60 * 1000),
+      );
+
+      // Then
+      expect(fromWorkflow).toMatchObject({
+        kind: ReminderKind.URGENT,
+        window: '6h',
+        source: ReminderSource.WORKFLOW,
+      });
+      expect(fromMonitor).toBeNull();
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'urgent_reminder',
+          applicationId: application.id,
+          userId: application.ownerId,
+        }),
+      );
+    });
+
+    it('should send again once the next window starts', async () => {
+      // Given
+      const application = mockApplication();
+
+      // When
+      await service.dispatch(application, ReminderSource.WORKFLOW, now);
+      const later = await service.dispatch(
+        application,
+        ReminderSource.MONITOR,
+        hoursFromNow(3.5),
+      );
+
+      // Then
+      expect(later).toMatchObject({
+        kind: ReminderKind.CRITICAL,
+        window: '2h',
+      });
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalledTimes(
+        2,
+      );
+    });
+
+    it('should treat a moved deadline as new windows', async () => {
+      // When
+      await service.dispatch(mockApplication(), ReminderSource.MONITOR, now);
+      const moved = await service.dispatch(
+        mockApplication({ deadline: hoursFromNow(5.5) }),
+        ReminderSource.WORKFLOW,
+        now,
+      );
+
+      // Then
+      expect(moved).not.toBeNull();
+    });
+
+    it('should skip applications that are no longer pending', async () => {
+      // When
+      const result = await service.dispatch(
+        mockApplication({ status: ApplicationStatus.INTERVIEW }),
+        ReminderSource.SCHEDULER,
+        now,
+      );
+
+      // Then
+      expect(result).toBeNull();
+      expect(mockRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should release the window when sending fails', async () => {
+      // Given
+      mockNotificationsService.sendNotification.mockRejectedValueOnce(
+        new Error('database unavailable'),
+      );
+
+      // When & Then
+      await expect(
+        service.dispatch(mockApplication(), ReminderSource.WORKFLOW, now),
+      ).rejects.toThrow('database unavailable');
+      expect(mockRepository.delete).toHaveBeenCalledWith('dispatch-1');
+    });
+  });
+
+  describe('getReminderWindow', () => {
+    it('should map the time left to a reminder window', () => {
+      expect(getReminderWindow(hoursFromNow(80), now)).toBeNull();
+      expect(getReminderWindow(hoursFromNow(50), now)).toEqual({
+        kind: ReminderKind.APPROACHING,
+        window: '3d',
+      });
+      expect(getReminderWindow(hoursFromNow(23), now)).toEqual({
+        kind: ReminderKind.URGENT,
+        window: '1d',
+      });
+      expect(getReminderWindow(hoursFromNow(1), now)).toEqual({
+        kind: ReminderKind.CRITICAL,
+        window: '2h',
+      });
+      expect(getReminderWindow(hoursFromNow(-1), now)).toBeNull();
+    });
+
+    it('should follow a custom schedule', () => {
+      const schedule = ['2h', '7d', '30m', '7d'];
+
+      expect(getReminderWindow(hoursFromNow(100), now, schedule)).toEqual({
+        kind: ReminderKind.APPROACHING,
+        window: '7d',
+      });
+      expect(getReminderWindow(hoursFromNow(0.4), now, schedule)).toEqual({
+        kind: ReminderKind.CRITICAL,
+        window: '30m',
+      });
+      expect(getReminderWindow(hoursFromNow(1), now, [])).toBeNull();
+    });
+  });
+
+  describe('getNextReminderTime', () => {
+    it('should return the next offset after now', () => {
+      const deadline = hoursFromNow(30).getTime();
+
+      expect(getNextReminderTime(deadline, now.getTime(), ['3d', '1d'])).toBe(
+        hoursFromNow(6).getTime(),
+      );
+      expect(getNextReminderTime(deadline, now.getTime(), ['3d'])).toBeNull();
+    });
+  });
+});
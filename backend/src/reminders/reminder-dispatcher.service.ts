@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import {
+  ReminderDispatch,
+  ReminderSource,
+} from './entities/reminder-dispatch.entity';
+import {
+  ReminderKind,
+  ReminderWindow,
+  getManualReminderWindow,
+  getReminderWindow,
+} from './reminder-windows';
+import { Application } from '../applications/entities/application.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ApplicationStatus } from '../workflow/types/application.types';
+
+/**
+ * Single entry point for deadline reminders. The workflow reminder loop, the
+ * deadline monitor and the intensive scheduler all call dispatch(); whichever
+ * claims a window first sends the reminder and the others skip it.
+ */
+@Injectable()
+export class ReminderDispatcherService {
+  constructor(
+    @InjectRepository(ReminderDispatch)
+    private readonly dispatchRepository: Repository<ReminderDispatch>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Send the reminder due for the application now, if no path has sent it
+   * yet. Returns the dispatch record, or null when nothing was sent.
+   */
+  async dispatch(
+    application: Application,
+    source: ReminderSource,
+    now: Date = new Date(),
+  ): Promise<ReminderDispatch | null> {
+    if (application.status !== ApplicationStatus.PENDING) {
+      return null;
+    }
+
+    const window =
+      source === ReminderSource.USER
+        ? getManualReminderWindow(now)
+        : getReminderWindow(
+            application.deadline,
+            now,
+            application.reminderOffsets,
+          );
+    if (!window) {
+      return null;
+    }
+
+    const dispatch = await this.claim(application, window, source);
+    if (!dispatch) {
+      console.log(
+        `🔁 ${window.kind} reminder (${window.window}) already sent for application ${application.id}, skipping ${source}`,
+      );
+      return null;
+    }
+
+    try {
+      await this.notificationsService.sendNotification({
+        type: getNotificationType(window.kind),
+        applicationId: application.id,
+        company: application.company,
+        role: application.role,
+        userId: application.ownerId,
+        status: application.status,
+        message: getReminderMessage(application, window.kind, now),
+      });
+    } catch (error) {
+      // Free the window so the next run can retry
+      await this.dispatchRepository.delete(dispatch.id);
+      throw error;
+    }
+
+    console.log(
+      `⏰ Sent ${window.kind} reminder (${window.window}) for application ${application.id} via ${source}`,
+    );
+    return dispatch;
+  }
+
+  // Insert the dedup row; a conflict means another path got there first
+  private async claim(
+    application: Application,
+    { kind, window }: ReminderWindow,
+    source: ReminderSource,
+  ): Promise<ReminderDispatch | null> {
+    const values = {
+      applicationId: application.id,
+      kind,
+      deadline: application.deadline,
+      window,
+      source,
+    };
+
+    const result = await this.dispatchRepository
+      .createQueryBuilder()
+      .insert()
+      .into(ReminderDispatch)
+      .values(values)
+      .orIgnore()
+      .returning(['id', 'createdAt'])
+      .execute();
+
+    const [claimed] = (result.raw ?? []) as Pick<
+      ReminderDispatch,
+      'id' | 'createdAt'
+    >[];
+    if (!claimed) {
+      return null;
+    }
+
+    return this.dispatchRepository.create({ ...values, ...claimed });
+  }
+}
+
+function getNotificationType(kind: ReminderKind): string {
+  switch (kind) {
+    case ReminderKind.APPROACHING:
+      return 'deadline_reminder';
+    case ReminderKind.MANUAL:
+      return 'manual_reminder';
+    default:
+      return 'urgent_reminder';
+  }
+}
+
+function getReminderMessage(
+  application: Application,
+  kind: ReminderKind,
+  now: Date,
+): string {
+  const name = `${application.company} - ${application.role}`;
+  const remaining = application.deadline.getTime() - now.getTime();
+  const minutes = Math.ceil(remaining / (60 * 1000));
+  const hours = Math.ceil(remaining / (60 * 60 * 1000));
+  const days = Math.ceil(remaining / (24 * 60 * 60 * 1000));
+
+  switch (kind) {
+    case ReminderKind.APPROACHING:
+      return `⏰ Reminder: ${name} deadline in ${days} day(s)`;
+    case ReminderKind.URGENT:
+      return `⚠️ URGENT: ${name} deadline in ${hours} hours. Please update your application status.`;
+    case ReminderKind.CRITICAL:
+      return `🚨 URGENT: ${name} deadline in ${minutes} minutes! Take action immediately.`;
+    case ReminderKind.MANUAL:
+      return `📢 Manual reminder: ${name} deadline in ${days > 1 ? `${days} days` : `${hours} hours`}`;
+  }
+}
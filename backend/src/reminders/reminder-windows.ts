@@ -0,0 +1,114 @@
+// Kinds of deadline reminder, from furthest to closest to the deadline
+export enum ReminderKind {
+  APPROACHING = 'approaching',
+  URGENT = 'urgent',
+  CRITICAL = 'critical',
+  MANUAL = 'manual',
+}
+
+export interface ReminderWindow {
+  kind: ReminderKind;
+  // Identifies the slot within the kind; one reminder is sent per slot
+  window: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNIT_MS: Record<string, number> = {
+  m: MINUTE_MS,
+  h: HOUR_MS,
+  d: DAY_MS,
+};
+
+// Offsets before the deadline, e.g. 7d, 36h or 30m
+export const REMINDER_OFFSET_PATTERN = /^([1-9]\d{0,2})([mhd])$/;
+
+export const MAX_REMINDER_OFFSET_MS = 90 * DAY_MS;
+
+// Used for applications without their own schedule
+export const DEFAULT_REMINDER_OFFSETS = ['3d', '2d', '1d', '12h', '6h', '2h'];
+
+// Milliseconds before the deadline, or NaN for a malformed offset
+export function parseReminderOffset(offset: string): number {
+  const match = REMINDER_OFFSET_PATTERN.exec(offset);
+  return match ? Number(match[1]) * UNIT_MS[match[2]] : NaN;
+}
+
+/**
+ * Valid offsets without duplicates, furthest from the deadline first.
+ * Without a schedule the default applies; an empty one sends no reminders.
+ */
+export function resolveReminderOffsets(offsets?: string[] | null): string[] {
+  if (!offsets) {
+    return DEFAULT_REMINDER_OFFSETS;
+  }
+
+  const byDuration = new Map<number, string>();
+  for (const offset of offsets) {
+    const ms = parseReminderOffset(offset);
+    if (ms > 0 && ms <= MAX_REMINDER_OFFSET_MS && !byDuration.has(ms)) {
+      byDuration.set(ms, offset);
+    }
+  }
+
+  return [...byDuration.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([, offset]) => offset);
+}
+
+/**
+ * Window a scheduled reminder falls into: the closest offset the deadline
+ * has already come within. Derived only from the deadline, the schedule and
+ * the current time so that the API and the worker agree on it. The kind
+ * follows the offset: up to 2 hours is critical, up to a day is urgent.
+ * Returns null when no reminder is due.
+ */
+export function getReminderWindow(
+  deadline: Date,
+  now: Date,
+  offsets?: string[] | null,
+): ReminderWindow | null {
+  const remaining = deadline.getTime() - now.getTime();
+  if (remaining <= 0) {
+    return null;
+  }
+
+  const crossed = resolveReminderOffsets(offsets).filter(
+    (offset) => parseReminderOffset(offset) >= remaining,
+  );
+  if (crossed.length === 0) {
+    return null;
+  }
+
+  const offset = crossed[crossed.length - 1];
+  const offsetMs = parseReminderOffset(offset);
+  const kind =
+    offsetMs <= 2 * HOUR_MS
+      ? ReminderKind.CRITICAL
+      : offsetMs <= DAY_MS
+        ? ReminderKind.URGENT
+        : ReminderKind.APPROACHING;
+
+  return { kind, window: offset };
+}
+
+// Time (ms since epoch) of the next scheduled reminder after now, if any
+export function getNextReminderTime(
+  deadline: number,
+  now: number,
+  offsets?: string[] | null,
+): number | null {
+  const upcoming = resolveReminderOffsets(offsets)
+    .map((offset) => deadline - parseReminderOffset(offset))
+    .filter((time) => time > now);
+
+  return upcoming.length ? Math.min(...upcoming) : null;
+}
+
+// Manual reminders share a 5-minute window so a double click sends one
+export function getManualReminderWindow(now: Date): ReminderWindow {
+  const slot = Math.floor(now.getTime() / (5 * MINUTE_MS));
+  return { kind: ReminderKind.MANUAL, window: `m${slot}` };
+}
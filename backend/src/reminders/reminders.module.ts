@@ -0,0 +1,17 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { ReminderDispatcherService } from './reminder-dispatcher.service';
+import { ReminderDispatch } from './entities/reminder-dispatch.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ReminderDispatch]),
+    // Reminders -> Notifications -> Email -> Workflow -> Reminders
+    forwardRef(() => NotificationsModule),
+  ],
+  providers: [ReminderDispatcherService],
+  exports: [ReminderDispatcherService],
+})
+export class RemindersModule {}
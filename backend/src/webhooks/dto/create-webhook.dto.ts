@@ -0,0 +1,51 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEvent } from '../webhook-events';
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'URL that events are POSTed to',
+    example: 'https://example.com/hooks/job-assistant',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url: string;
+
+  @ApiProperty({
+    description: 'Events to send',
+    enum: WebhookEvent,
+    isArray: true,
+    example: [WebhookEvent.STATUS_UPDATE, WebhookEvent.DEADLINE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description: 'What the webhook is for',
+    example: 'Sync to CRM',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Signing secret (at least 16 characters); generated when omitted',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(128)
+  secret?: string;
+}
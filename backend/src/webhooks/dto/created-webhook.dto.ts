@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+
+export class CreatedWebhookDto {
+  @ApiProperty({
+    description: 'Signing secret. Store it now; it cannot be retrieved again.',
+    example: 'whsec_Zm9vYmFyYmF6cXV4cXV1eHh5enp5',
+  })
+  secret: string;
+
+  @ApiProperty({ type: WebhookSubscription })
+  webhook: WebhookSubscription;
+}
@@ -0,0 +1,54 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+
+export const MAX_WEBHOOK_DELIVERY_PAGE_SIZE = 100;
+
+export class QueryWebhookDeliveriesDto {
+  @ApiPropertyOptional({
+    description: 'Only deliveries with this status',
+    enum: WebhookDeliveryStatus,
+  })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({
+    description: `Page size (max ${MAX_WEBHOOK_DELIVERY_PAGE_SIZE})`,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WEBHOOK_DELIVERY_PAGE_SIZE)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Number of items to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class PaginatedWebhookDeliveriesDto {
+  @ApiProperty({ type: [WebhookDelivery] })
+  items: WebhookDelivery[];
+
+  @ApiProperty({ description: 'Total number of matching deliveries' })
+  total: number;
+
+  @ApiProperty({ description: 'Page size used for this response' })
+  limit: number;
+
+  @ApiProperty({ description: 'Offset used for this response' })
+  offset: number;
+
+  @ApiProperty({ description: 'Whether more items exist after this page' })
+  hasMore: boolean;
+}
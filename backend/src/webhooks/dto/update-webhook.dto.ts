@@ -0,0 +1,41 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEvent } from '../webhook-events';
+
+export class UpdateWebhookDto {
+  @ApiPropertyOptional({ description: 'URL that events are POSTed to' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: 'Events to send',
+    enum: WebhookEvent,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiPropertyOptional({ description: 'What the webhook is for' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Pause or resume sending events' })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
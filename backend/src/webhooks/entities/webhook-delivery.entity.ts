@@ -0,0 +1,86 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookSubscription } from './webhook-subscription.entity';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+@Entity('webhook_deliveries')
+@Index('IDX_webhook_deliveries_subscription_created', [
+  'subscriptionId',
+  'createdAt',
+])
+export class WebhookDelivery {
+  @ApiProperty({ description: 'Unique identifier for the delivery' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Webhook the event is sent to' })
+  @Column('uuid')
+  subscriptionId: string;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription: WebhookSubscription;
+
+  @ApiProperty({ description: 'Event type', example: 'status_update' })
+  @Column()
+  event: string;
+
+  @ApiProperty({ description: 'JSON body sent to the webhook' })
+  @Column('jsonb')
+  payload: WebhookPayload;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus })
+  @Column({
+    type: 'enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ description: 'Number of attempts so far' })
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @ApiPropertyOptional({
+    description: 'HTTP status of the most recent response',
+  })
+  @Column({ type: 'int', nullable: true })
+  responseStatus?: number;
+
+  @ApiPropertyOptional({ description: 'Error from the most recent attempt' })
+  @Column({ type: 'text', nullable: true })
+  lastError?: string;
+
+  @ApiPropertyOptional({ description: 'When the webhook accepted the event' })
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt?: Date;
+
+  @ApiProperty({ description: 'Delivery creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Delivery last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { User } from '../../auth/entities/user.entity';
+import { WebhookEvent } from '../webhook-events';
+
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @ApiProperty({ description: 'Unique identifier for the webhook' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'User the webhook belongs to' })
+  @Index('IDX_webhook_subscriptions_owner')
+  @Column('uuid')
+  ownerId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'ownerId' })
+  owner: User;
+
+  @ApiProperty({
+    description: 'URL that events are POSTed to',
+    example: 'https://example.com/hooks/job-assistant',
+  })
+  @Column()
+  url: string;
+
+  @ApiPropertyOptional({ description: 'What the webhook is for' })
+  @Column({ nullable: true })
+  description?: string;
+
+  // Needed to sign payloads, so kept in plain text; only returned on creation
+  @Column({ select: false })
+  secret: string;
+
+  @ApiProperty({
+    description: 'Events sent to this webhook',
+    enum: WebhookEvent,
+    isArray: true,
+  })
+  @Column('text', { array: true })
+  events: WebhookEvent[];
+
+  @ApiProperty({ description: 'Whether events are currently sent' })
+  @Column({ default: true })
+  active: boolean;
+
+  @ApiProperty({ description: 'Webhook creation date' })
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Webhook last update date' })
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ArrayContains } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import * as dns from 'dns/promises';
+
+import {
+  WebhookDeliveryService,
+  signWebhookPayload,
+} from './webhook-delivery.service';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { WebhookEvent } from './webhook-events';
+import { Notification } from '../notifications/entities/notification.entity';
+import { WorkflowService } from '../workflow/workflow.service';
+
+describe('WebhookDeliveryService', () => {
+  let service: WebhookDeliveryService;
+  let fetchSpy: jest.SpyInstance;
+  let lookupSpy: jest.SpyInstance;
+
+  const userId = '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45';
+
+  const mockSubscription = (overrides: Partial<WebhookSubscription> = {}) =>
+    Object.assign(new WebhookSubscription(), {
+      id: '6e4f2a1b-8c9d-4e0f-a1b2-c3d4e5f6a7b8',
+      ownerId: userId,
+      url: 'https://example.com/hooks',
+      secret: 'whsec_test-secret-value',
+      events: [WebhookEvent.STATUS_UPDATE],
+      active: true,
+      ...overrides,
+    });
+
+  const mockDelivery = (overrides: Partial<WebhookDelivery> = {}) =>
+    Object.assign(new WebhookDelivery(), {
+      id: '7a5b3c2d-9e0f-4a1b-b2c3-d4e5f6a7b8c9',
+      subscriptionId: mockSubscription().id,
+      event: 'status_update',
+      payload: {
+        id: '7a5b3c2d-9e0f-4a1b-b2c3-d4e5f6a7b8c9',
+        event: 'status_update',
+        createdAt: '2024-01-15T10:00:00.000Z',
+        data: { company: 'Tech Corp' },
+      },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      ...overrides,
+    });
+
+  const mockQueryBuilder = {
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  const mockSubscriptionRepository = {
+    find: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockDeliveryRepository = {
+    create: jest.fn((delivery) => delivery),
+    save: jest.fn(async (delivery) => ({ id: mockDelivery().id, ...delivery })),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockWorkflowService = {
+    startWebhookDeliveryWorkflow: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDeliveryService,
+        {
+          provide: getRepositoryToken(WebhookSubscription),
+          useValue: mockSubscriptionRepository,
+        },
+        {
+          provide: getRepositoryToken(WebhookDelivery),
+          useValue: mockDeliveryRepository,
+        },
+        { provide: WorkflowService, useValue: mockWorkflowService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<WebhookDeliveryService>(WebhookDeliveryService);
+    fetchSpy = jest.spyOn(global, 'fetch');
+    // example.com, without touching the network
+    lookupSpy = jest
+      .spyOn(dns, 'lookup')
+      .mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    fetchSpy.mockRestore();
+    lookupSpy.mockRestore();
+  });
+
+  describe('dispatch', () => {
+    it('should queue a delivery for each matching webhook of the owner', async () => {
+      // Given
+      mockSubscriptionRepository.find.mockResolvedValue([mockSubscription()]);
+      const notification = Object.assign(new Notification(), {
+        id: '2f7c9d1e-3a4b-4c5d-8e6f-7a8b9c0d1e2f',
+        userId,
+        type: 'status_update',
+        applicationId: '123e4567-e89b-12d3-a456-426614174000',
+        company: 'Tech Corp',
+        role: 'Software Engineer',
+        message: 'Application status updated to interview',
+      });
+
+      // When
+      const deliveries = await service.dispatch(notification);
+
+      // Then
+      expect(mockSubscriptionRepository.find).toHaveBeenCalledWith({
+        where: {
+          ownerId: userId,
+          active: true,
+          events: ArrayContains(['status_update']),
+        },
+      });
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0].payload).toMatchObject({
+        id: mockDelivery().id,
+        event: 'status_update',
+        data: { notificationId: notification.id, company: 'Tech Corp' },
+      });
+      expect(
+        mockWorkflowService.startWebhookDeliveryWorkflow,
+      ).toHaveBeenCalledWith(mockDelivery().id);
+    });
+
+    it('should ignore notifications without an owner', async () => {
+      // When
+      const deliveries = await service.dispatch(new Notification());
+
+      // Then
+      expect(deliveries).toEqual([]);
+      expect(mockSubscriptionRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should POST the payload with a verifiable signature', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(mockDelivery());
+      mockQueryBuilder.getOne.mockResolvedValue(mockSubscription());
+      fetchSpy.mockResolvedValue(new Response(null, { status: 204 }));
+
+      // When
+      await service.deliver(mockDelivery().id);
+
+      // Then
+      const [url, init] = fetchSpy.mock.calls[0];
+      const timestamp = Number(init.headers['x-webhook-timestamp']);
+      expect(url).toBe('https://example.com/hooks');
+      expect(init.redirect).toBe('manual');
+      expect(init.body).toBe(JSON.stringify(mockDelivery().payload));
+      expect(init.headers['x-webhook-signature']).toBe(
+        signWebhookPayload('whsec_test-secret-value', timestamp, init.body),
+      );
+      expect(mockDeliveryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          responseStatus: 204,
+          attempts: 1,
+        }),
+      );
+    });
+
+    it('should record a failed response and rethrow so it is retried', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(mockDelivery());
+      mockQueryBuilder.getOne.mockResolvedValue(mockSubscription());
+      fetchSpy.mockResolvedValue(new Response(null, { status: 503 }));
+
+      // When & Then
+      await expect(service.deliver(mockDelivery().id)).rejects.toThrow(
+        'Webhook responded with 503',
+      );
+      expect(mockDeliveryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.PENDING,
+          responseStatus: 503,
+          lastError: 'Webhook responded with 503',
+        }),
+      );
+    });
+
+    it('should give up without sending when the webhook is disabled', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(mockDelivery());
+      mockQueryBuilder.getOne.mockResolvedValue(
+        mockSubscription({ active: false }),
+      );
+
+      // When
+      await service.deliver(mockDelivery().id);
+
+      // Then
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(mockDeliveryRepository.update).toHaveBeenCalledWith(
+        { id: mockDelivery().id },
+        {
+          status: WebhookDeliveryStatus.FAILED,
+          lastError: 'Webhook is disabled',
+        },
+      );
+    });
+
+    it('should refuse to send once the host resolves to a private address', async () => {
+      // Given
+      mockDeliveryRepository.findOne.mockResolvedValue(mockDelivery());
+      mockQueryBuilder.getOne.mockResolvedValue(mockSubscription());
+      lookupSpy.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+      // When
+      await service.deliver(mockDelivery().id);
+
+      // Then
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(mockDeliveryRepository.update).toHaveBeenCalledWith(
+        { id: mockDelivery().id },
+        {
+          status: WebhookDeliveryStatus.FAILED,
+          lastError: 'Webhook URL resolves to private address 169.254.169.254',
+        },
+      );
+    });
+  });
+});
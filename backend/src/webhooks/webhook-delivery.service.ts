@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ArrayContains, Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import {
+  WebhookEvent,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhook-events';
+import { findPrivateAddress, privateTargetsAllowed } from './webhook-targets';
+import { Notification } from '../notifications/entities/notification.entity';
+import { WorkflowService } from '../workflow/workflow.service';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Signature sent in the x-webhook-signature header: an HMAC-SHA256 of
+ * `<timestamp>.<body>` keyed with the webhook secret. Including the timestamp
+ * lets receivers reject replayed requests.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+@Injectable()
+export class WebhookDeliveryService {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly workflowService: WorkflowService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Queue the notification for every active webhook of its owner that
+  // subscribes to its type
+  async dispatch(notification: Notification): Promise<WebhookDelivery[]> {
+    if (!notification.userId) {
+      return [];
+    }
+
+    const subscriptions = await this.subscriptionRepository.find({
+      where: {
+        ownerId: notification.userId,
+        active: true,
+        events: ArrayContains([notification.type as WebhookEvent]),
+      },
+    });
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const subscription of subscriptions) {
+      deliveries.push(
+        await this.enqueue(subscription, notification.type, {
+          notificationId: notification.id,
+          applicationId: notification.applicationId,
+          company: notification.company,
+          role: notification.role,
+          status: notification.status ?? null,
+          message: notification.message,
+        }),
+      );
+    }
+
+    return deliveries;
+  }
+
+  // Record a pending delivery and hand it to Temporal
+  async enqueue(
+    subscription: WebhookSubscription,
+    event: string,
+    data: Record<string, unknown>,
+  ): Promise<WebhookDelivery> {
+    const delivery = this.deliveryRepository.create({
+      subscriptionId: subscription.id,
+      event,
+      status: WebhookDeliveryStatus.PENDING,
+    });
+    // Save first so the payload can carry the delivery ID
+    const saved = await this.deliveryRepository.save(delivery);
+    saved.payload = {
+      id: saved.id,
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    await this.deliveryRepository.save(saved);
+
+    await this.workflowService.startWebhookDeliveryWorkflow(saved.id);
+    return saved;
+  }
+
+  /**
+   * POST a pending delivery to its webhook. Non-2xx responses and network
+   * errors are recorded and rethrown so the calling activity is retried.
+   */
+  async deliver(deliveryId: string): Promise<void> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+    });
+    // The webhook was deleted along with its deliveries; nothing to send
+    if (!delivery || delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+      return;
+    }
+
+    const subscription = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .addSelect('subscription.secret')
+      .where('subscription.id = :id', { id: delivery.subscriptionId })
+      .getOne();
+    if (!subscription?.active) {
+      await this.markFailed(deliveryId, 'Webhook is disabled');
+      return;
+    }
+
+    // Checked again on every send: the host may resolve differently than
+    // when the webhook was registered. Lookup errors are retried.
+    if (!privateTargetsAllowed(this.configService)) {
+      const address = await findPrivateAddress(subscription.url);
+      if (address) {
+        await this.markFailed(
+          deliveryId,
+          `Webhook URL resolves to private address ${address}`,
+        );
+        return;
+      }
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    delivery.attempts += 1;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': 'job-application-assistant-webhooks',
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        // A redirect could lead to an internal host; 3xx counts as a failure
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      delivery.responseStatus = response.status;
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    } catch (error) {
+      delivery.lastError = error.message;
+      await this.deliveryRepository.save(delivery);
+      throw error;
+    }
+
+    delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+    delivery.deliveredAt = new Date();
+    delivery.lastError = null;
+    await this.deliveryRepository.save(delivery);
+  }
+
+  // Give up on a delivery once its retries are exhausted
+  async markFailed(deliveryId: string, error: string): Promise<void> {
+    await this.deliveryRepository.update(
+      { id: deliveryId },
+      { status: WebhookDeliveryStatus.FAILED, lastError: error },
+    );
+  }
+}
@@ -0,0 +1,24 @@
+// Notification types that webhook subscriptions can filter on
+export enum WebhookEvent {
+  STATUS_UPDATE = 'status_update',
+  COVER_LETTER_GENERATED = 'cover_letter_generated',
+  REMINDER = 'reminder',
+  MANUAL_REMINDER = 'manual_reminder',
+  DEADLINE_REMINDER = 'deadline_reminder',
+  URGENT_REMINDER = 'urgent_reminder',
+  DEADLINE = 'deadline',
+  ARCHIVE = 'archive',
+  FOLLOW_UP = 'follow_up',
+  INTERVIEW_PREP = 'interview_prep',
+  INTERVIEW_FEEDBACK = 'interview_feedback',
+  OFFER_DEADLINE = 'offer_deadline',
+  APPLICATION_DELETED = 'application_deleted',
+}
+
+// Sent by the "send test event" route regardless of the subscription's filter
+export const WEBHOOK_TEST_EVENT = 'test';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_EVENT_HEADER = 'x-webhook-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-webhook-delivery';
@@ -0,0 +1,42 @@
+import { findPrivateAddress, isPrivateAddress } from './webhook-targets';
+
+describe('webhook targets', () => {
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.1.10',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ])('should treat %s as private', (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.215.14', '8.8.8.8', '2606:4700:4700::1111'])(
+      'should treat %s as public',
+      (address) => {
+        expect(isPrivateAddress(address)).toBe(false);
+      },
+    );
+  });
+
+  describe('findPrivateAddress', () => {
+    it('should check IP literals without a lookup', async () => {
+      // When & Then
+      await expect(
+        findPrivateAddress('http://169.254.169.254/latest/meta-data'),
+      ).resolves.toBe('169.254.169.254');
+      await expect(findPrivateAddress('http://[::1]:8080/hook')).resolves.toBe(
+        '::1',
+      );
+      await expect(
+        findPrivateAddress('https://93.184.215.14/hook'),
+      ).resolves.toBeNull();
+    });
+  });
+});
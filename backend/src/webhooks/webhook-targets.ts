@@ -0,0 +1,59 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { ConfigService } from '@nestjs/config';
+
+// Loopback, link-local (incl. cloud metadata), private and other non-public
+// ranges that user-registered webhooks must not reach
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges too
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Set WEBHOOKS_ALLOW_PRIVATE_TARGETS=true for webhooks to internal services
+export function privateTargetsAllowed(configService: ConfigService): boolean {
+  return (
+    configService.get('WEBHOOKS_ALLOW_PRIVATE_TARGETS', 'false') === 'true'
+  );
+}
+
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * The first loopback, link-local or private address the URL's host resolves
+ * to, or null when every address is public. DNS errors are rethrown.
+ */
+export async function findPrivateAddress(url: string): Promise<string | null> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true, verbatim: true })).map(
+        ({ address }) => address,
+      );
+
+  return addresses.find(isPrivateAddress) ?? null;
+}
@@ -0,0 +1,145 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { CreatedWebhookDto } from './dto/created-webhook.dto';
+import {
+  QueryWebhookDeliveriesDto,
+  PaginatedWebhookDeliveriesDto,
+} from './dto/query-webhook-deliveries.dto';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
+import { ApiKeyScope } from '../api-keys/api-key-scopes';
+import { RequireScopes } from '../api-keys/decorators/require-scopes.decorator';
+
+@ApiTags('webhooks')
+@ApiBearerAuth('bearer')
+@RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Subscribe a URL to application events' })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook created; the signing secret is only returned here',
+    type: CreatedWebhookDto,
+  })
+  @ApiResponse({ status: 422, description: 'Validation failed' })
+  create(
+    @Body() createWebhookDto: CreateWebhookDto,
+    @CurrentUser() user: User,
+  ): Promise<CreatedWebhookDto> {
+    return this.webhooksService.create(createWebhookDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your webhooks' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhooks',
+    type: [WebhookSubscription],
+  })
+  findAll(@CurrentUser() user: User): Promise<WebhookSubscription[]> {
+    return this.webhooksService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook',
+    type: WebhookSubscription,
+  })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<WebhookSubscription> {
+    return this.webhooksService.findOne(id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update, pause or resume a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook updated',
+    type: WebhookSubscription,
+  })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  update(
+    @Param('id') id: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+    @CurrentUser() user: User,
+  ): Promise<WebhookSubscription> {
+    return this.webhooksService.update(id, updateWebhookDto, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a webhook and its delivery log' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 204, description: 'Webhook deleted' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: User): Promise<void> {
+    return this.webhooksService.remove(id, user.id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Get the delivery log of a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries, newest first',
+    type: PaginatedWebhookDeliveriesDto,
+  })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  getDeliveries(
+    @Param('id') id: string,
+    @Query() query: QueryWebhookDeliveriesDto,
+    @CurrentUser() user: User,
+  ): Promise<PaginatedWebhookDeliveriesDto> {
+    return this.webhooksService.getDeliveries(id, query, user.id);
+  }
+
+  @Post(':id/test')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send a signed test event to a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 202,
+    description: 'Test event queued; check the delivery log for the result',
+    type: WebhookDelivery,
+  })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  sendTestEvent(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<WebhookDelivery> {
+    return this.webhooksService.sendTestEvent(id, user.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookActivities } from '../workflow/activities/webhook.activities';
+import { WorkflowModule } from '../workflow/workflow.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery]),
+    // Notifications -> Webhooks -> Workflow -> Notifications
+    forwardRef(() => WorkflowModule),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryService, WebhookActivities],
+  exports: [WebhookDeliveryService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,152 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { CreatedWebhookDto } from './dto/created-webhook.dto';
+import {
+  QueryWebhookDeliveriesDto,
+  PaginatedWebhookDeliveriesDto,
+} from './dto/query-webhook-deliveries.dto';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WEBHOOK_TEST_EVENT } from './webhook-events';
+import { findPrivateAddress, privateTargetsAllowed } from './webhook-targets';
+
+const SECRET_PREFIX = 'whsec_';
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(
+    createWebhookDto: CreateWebhookDto,
+    userId: string,
+  ): Promise<CreatedWebhookDto> {
+    await this.assertPublicTarget(createWebhookDto.url);
+
+    const secret =
+      createWebhookDto.secret ??
+      `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const saved = await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        ...createWebhookDto,
+        secret,
+        ownerId: userId,
+      }),
+    );
+    delete saved.secret;
+
+    return { secret, webhook: saved };
+  }
+
+  findAll(userId: string): Promise<WebhookSubscription[]> {
+    return this.subscriptionRepository.find({
+      where: { ownerId: userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id, ownerId: userId },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+    return subscription;
+  }
+
+  async update(
+    id: string,
+    updateWebhookDto: UpdateWebhookDto,
+    userId: string,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.findOne(id, userId);
+    if (updateWebhookDto.url) {
+      await this.assertPublicTarget(updateWebhookDto.url);
+    }
+    Object.assign(subscription, updateWebhookDto);
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    const subscription = await this.findOne(id, userId);
+    await this.subscriptionRepository.remove(subscription);
+  }
+
+  // Page through a webhook's deliveries, newest first
+  async getDeliveries(
+    id: string,
+    query: QueryWebhookDeliveriesDto,
+    userId: string,
+  ): Promise<PaginatedWebhookDeliveriesDto> {
+    await this.findOne(id, userId);
+    const { status, limit = 20, offset = 0 } = query;
+
+    const [items, total] = await this.deliveryRepository.findAndCount({
+      where: { subscriptionId: id, ...(status && { status }) },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: offset,
+      take: limit,
+    });
+
+    return {
+      items,
+      total,
+      limit,
+      offset,
+      hasMore: offset + items.length < total,
+    };
+  }
+
+  // Send a test event so receivers can check their signature verification
+  async sendTestEvent(id: string, userId: string): Promise<WebhookDelivery> {
+    const subscription = await this.findOne(id, userId);
+    return this.webhookDeliveryService.enqueue(
+      subscription,
+      WEBHOOK_TEST_EVENT,
+      {
+        message: 'Test event from Job Application Assistant',
+      },
+    );
+  }
+
+  // Keep self-serve webhooks from probing the internal network unless the
+  // deployment allows it
+  private async assertPublicTarget(url: string): Promise<void> {
+    if (privateTargetsAllowed(this.configService)) {
+      return;
+    }
+
+    let address: string | null;
+    try {
+      address = await findPrivateAddress(url);
+    } catch {
+      throw new UnprocessableEntityException(
+        `Webhook URL host ${new URL(url).hostname} could not be resolved`,
+      );
+    }
+    if (address) {
+      throw new UnprocessableEntityException(
+        `Webhook URL must not point to a private or loopback address (${address})`,
+      );
+    }
+  }
+}
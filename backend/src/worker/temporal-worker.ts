@@ -3,6 +3,10 @@ import { Worker, NativeConnection } from '@temporalio/worker';
 import { ConfigService } from '@nestjs/config';
 import { AppModule } from '../app.module';
 import * as activities from '../workflow/activities/application.activities';
+import * as emailActivities from '../workflow/activities/email.activities';
+import * as webhookActivities from '../workflow/activities/webhook.activities';
+import * as interviewActivities from '../workflow/activities/interview.activities';
+import * as offerActivities from '../workflow/activities/offer.activities';
 
 async function runWorker() {
   const app = await NestFactory.createApplicationContext(AppModule);
@@ -12,6 +16,10 @@ async function runWorker() {
 
   // Initialize the activities class to set up dependency injection
   app.get(activities.ApplicationActivities);
+  app.get(emailActivities.EmailActivities);
+  app.get(webhookActivities.WebhookActivities);
+  app.get(interviewActivities.InterviewActivities);
+  app.get(offerActivities.OfferActivities);
 
   // Create connection to Temporal server
   const connection = await NativeConnection.connect({
@@ -23,7 +31,13 @@ async function runWorker() {
     const worker = await Worker.create({
       connection,
       workflowsPath: require.resolve('../workflow/workflows'),
-      activities,
+      activities: {
+        ...activities,
+        ...emailActivities,
+        ...webhookActivities,
+        ...interviewActivities,
+        ...offerActivities,
+      },
       taskQueue: 'job-application-queue',
       namespace: configService.get('TEMPORAL_NAMESPACE', 'default'),
     });
@@ -4,22 +4,47 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 
 import { Application } from '../../applications/entities/application.entity';
-import { ApplicationStatus } from '../types/application.types';
+import { ApplicationStatusChange } from '../../applications/entities/application-status-change.entity';
+import { CoverLetterVersion } from '../../applications/entities/cover-letter-version.entity';
+import {
+  ApplicationStatus,
+  CoverLetterOptions,
+  CoverLetterSource,
+  StatusChangeSource,
+} from '../types/application.types';
 import { LlmService } from '../../llm/llm.service';
 import { NotificationsService } from '../../notifications/notifications.service';
+import { ReminderDispatcherService } from '../../reminders/reminder-dispatcher.service';
+import { ReminderSource } from '../../reminders/entities/reminder-dispatch.entity';
 
 export interface CoverLetterInput {
   applicationId: string;
+  ownerId?: string;
   company: string;
   role: string;
   jobDescription: string;
   resume: string;
+  options?: CoverLetterOptions;
 }
 
 export interface NotificationInput {
   applicationId: string;
   message: string;
-  type: 'reminder' | 'deadline' | 'archive' | 'error' | 'urgent_reminder';
+  // Deadline reminders go through dispatchReminder instead; urgent_reminder
+  // is only sent by workflows started before the condition-based reminders
+  type:
+    | 'reminder'
+    | 'urgent_reminder'
+    | 'deadline'
+    | 'archive'
+    | 'follow_up'
+    | 'error';
+}
+
+export interface FollowUpInput {
+  applicationId: string;
+  followUpNumber: number;
+  daysSinceApplied: number;
 }
 
 // Activity functions for Temporal workflows
@@ -28,30 +53,42 @@ export async function generateCoverLetter(
 ): Promise<string> {
   // These will be injected by the worker setup
   const applicationRepository = (global as any).applicationRepository;
+  const coverLetterVersionRepository = (global as any)
+    .coverLetterVersionRepository;
   const llmService = (global as any).llmService;
   const notificationsService = (global as any).notificationsService;
 
   try {
-    const coverLetter = await llmService.generateCoverLetter({
+    const generated = await llmService.generateCoverLetter({
       company: input.company,
       role: input.role,
       jobDescription: input.jobDescription,
       resume: input.resume,
+      options: input.options,
     });
+    const coverLetter = generated.content;
 
     // Update application with generated cover letter
     await applicationRepository.update(
       { id: input.applicationId },
       { coverLetter },
     );
+    await coverLetterVersionRepository.save({
+      applicationId: input.applicationId,
+      content: coverLetter,
+      source: CoverLetterSource.WORKFLOW,
+      model: generated.model,
+      promptHash: generated.promptHash,
+    });
 
     // Send Socket.IO notification for cover letter generation
     if (notificationsService) {
-      notificationsService.sendNotification({
+      await notificationsService.sendNotification({
         type: 'cover_letter_generated',
         applicationId: input.applicationId,
         company: input.company,
         role: input.role,
+        userId: input.ownerId,
         message: `Cover letter generated for ${input.company} - ${input.role}`,
       });
 
@@ -83,6 +120,7 @@ export async function sendNotification(
       // Try to get application details for better notification context
       let company = 'Workflow';
       let role = 'System';
+      let userId: string | undefined;
 
       if (applicationRepository) {
         try {
@@ -92,6 +130,7 @@ export async function sendNotification(
           if (application) {
             company = application.company;
             role = application.role;
+            userId = application.ownerId;
           }
         } catch (error) {
           console.warn(
@@ -101,11 +140,12 @@ export async function sendNotification(
         }
       }
 
-      notificationsService.sendNotification({
+      await notificationsService.sendNotification({
         type: input.type,
         applicationId: input.applicationId,
         company,
         role,
+        userId,
         message: input.message,
       });
     } else {
@@ -120,6 +160,37 @@ export async function sendNotification(
   }
 }
 
+/**
+ * Send the deadline reminder due now through the shared dispatcher, which
+ * skips it if the deadline monitor already sent this window.
+ * Returns whether a reminder was sent.
+ */
+export async function dispatchReminder(
+  applicationId: string,
+): Promise<boolean> {
+  const applicationRepository = (global as any).applicationRepository;
+  const reminderDispatcher = (global as any).reminderDispatcher;
+
+  try {
+    const application = await applicationRepository.findOne({
+      where: { id: applicationId },
+    });
+
+    if (!application) {
+      throw new Error(`Application ${applicationId} not found`);
+    }
+
+    const dispatch = await reminderDispatcher.dispatch(
+      application,
+      ReminderSource.WORKFLOW,
+    );
+    return dispatch !== null;
+  } catch (error) {
+    console.error('Failed to dispatch reminder:', error);
+    throw error;
+  }
+}
+
 export async function checkApplicationStatus(
   applicationId: string,
 ): Promise<ApplicationStatus> {
@@ -143,13 +214,28 @@ export async function checkApplicationStatus(
 
 export async function archiveApplication(applicationId: string): Promise<void> {
   const applicationRepository = (global as any).applicationRepository;
+  const statusChangeRepository = (global as any).statusChangeRepository;
 
   try {
+    const application = await applicationRepository.findOne({
+      where: { id: applicationId },
+    });
+
     await applicationRepository.update(
       { id: applicationId },
       { status: ApplicationStatus.ARCHIVED },
     );
 
+    if (application && application.status !== ApplicationStatus.ARCHIVED) {
+      await statusChangeRepository.save({
+        applicationId,
+        fromStatus: application.status,
+        toStatus: ApplicationStatus.ARCHIVED,
+        source: StatusChangeSource.WORKFLOW_ARCHIVE,
+        comment: 'Automatically archived after the grace period',
+      });
+    }
+
     console.log(`Application ${applicationId} has been archived`);
   } catch (error) {
     console.error('Failed to archive application:', error);
@@ -157,6 +243,45 @@ export async function archiveApplication(applicationId: string): Promise<void> {
   }
 }
 
+/**
+ * Draft a follow-up email for an application that is waiting to hear back
+ * and keep it on the application for the user to review and send.
+ */
+export async function draftFollowUpEmail(
+  input: FollowUpInput,
+): Promise<string> {
+  const applicationRepository = (global as any).applicationRepository;
+  const llmService = (global as any).llmService;
+
+  try {
+    const application = await applicationRepository.findOne({
+      where: { id: input.applicationId },
+    });
+
+    if (!application) {
+      throw new Error(`Application ${input.applicationId} not found`);
+    }
+
+    const followUpDraft = await llmService.generateFollowUpEmail({
+      company: application.company,
+      role: application.role,
+      coverLetter: application.coverLetter,
+      followUpNumber: input.followUpNumber,
+      daysSinceApplied: input.daysSinceApplied,
+    });
+
+    await applicationRepository.update(
+      { id: input.applicationId },
+      { followUpDraft },
+    );
+
+    return followUpDraft;
+  } catch (error) {
+    console.error('Failed to draft follow-up email:', error);
+    throw error;
+  }
+}
+
 export async function updateApplicationNotes(
   applicationId: string,
   notes: string,
@@ -176,14 +301,23 @@ export class ApplicationActivities {
   constructor(
     @InjectRepository(Application)
     private readonly applicationRepository: Repository<Application>,
+    @InjectRepository(ApplicationStatusChange)
+    private readonly statusChangeRepository: Repository<ApplicationStatusChange>,
+    @InjectRepository(CoverLetterVersion)
+    private readonly coverLetterVersionRepository: Repository<CoverLetterVersion>,
     private readonly llmService: LlmService,
     private readonly configService: ConfigService,
     private readonly notificationsService: NotificationsService,
+    private readonly reminderDispatcher: ReminderDispatcherService,
   ) {
     // Inject dependencies into global scope for activities
     (global as any).applicationRepository = this.applicationRepository;
+    (global as any).statusChangeRepository = this.statusChangeRepository;
+    (global as any).coverLetterVersionRepository =
+      this.coverLetterVersionRepository;
     (global as any).llmService = this.llmService;
     (global as any).configService = this.configService;
     (global as any).notificationsService = this.notificationsService;
+    (global as any).reminderDispatcher = this.reminderDispatcher;
   }
 }
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+
+import { EmailDeliveryService } from '../../email/email-delivery.service';
+
+// Activity functions for the email delivery workflow
+export async function deliverEmail(deliveryId: string): Promise<void> {
+  const emailDeliveryService = (global as any).emailDeliveryService;
+
+  // Failures are recorded on the delivery and retried by the workflow
+  await emailDeliveryService.deliver(deliveryId);
+}
+
+export async function markEmailDeliveryFailed(
+  deliveryId: string,
+  error: string,
+): Promise<void> {
+  const emailDeliveryService = (global as any).emailDeliveryService;
+
+  await emailDeliveryService.markFailed(deliveryId, error);
+}
+
+@Injectable()
+export class EmailActivities {
+  constructor(private readonly emailDeliveryService: EmailDeliveryService) {
+    // Inject dependencies into global scope for activities
+    (global as any).emailDeliveryService = this.emailDeliveryService;
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Interview } from '../../interviews/entities/interview.entity';
+import {
+  InterviewNotificationKind,
+  InterviewOutcome,
+} from '../types/interview.types';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+export interface InterviewNotificationInput {
+  interviewId: string;
+  kind: InterviewNotificationKind;
+}
+
+// Interview time as the user scheduled it, e.g. "Mar 20, 2024, 3:00 PM (Europe/Berlin)"
+export function formatInterviewTime(interview: Interview): string {
+  const time = new Date(interview.scheduledAt).toLocaleString('en-US', {
+    timeZone: interview.timezone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  return `${time} (${interview.timezone})`;
+}
+
+// Activity functions for the interview prep workflow
+export async function sendInterviewNotification(
+  input: InterviewNotificationInput,
+): Promise<boolean> {
+  const interviewRepository = (global as any).interviewRepository;
+  const notificationsService = (global as any).notificationsService;
+
+  try {
+    const interview: Interview | null = await interviewRepository.findOne({
+      where: { id: input.interviewId },
+      relations: { application: true },
+    });
+
+    // Deleted or already settled while the activity was queued
+    if (!interview || interview.outcome !== InterviewOutcome.PENDING) {
+      return false;
+    }
+
+    const { application } = interview;
+    const time = formatInterviewTime(interview);
+    const isPrep = input.kind === 'prep';
+
+    await notificationsService.sendNotification({
+      type: isPrep ? 'interview_prep' : 'interview_feedback',
+      applicationId: application.id,
+      company: application.company,
+      role: application.role,
+      userId: application.ownerId,
+      message: isPrep
+        ? `Round ${interview.round} interview for ${application.company} - ${application.role} on ${time}${interview.location ? ` at ${interview.location}` : ''}. Time to prepare!`
+        : `How did round ${interview.round} with ${application.company} go? Record the outcome of your ${application.role} interview.`,
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Failed to send interview notification:', error);
+    throw error;
+  }
+}
+
+@Injectable()
+export class InterviewActivities {
+  constructor(
+    @InjectRepository(Interview)
+    private readonly interviewRepository: Repository<Interview>,
+    private readonly notificationsService: NotificationsService,
+  ) {
+    // Inject dependencies into global scope for activities
+    (global as any).interviewRepository = this.interviewRepository;
+    (global as any).notificationsService = this.notificationsService;
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Offer } from '../../offers/entities/offer.entity';
+import { OfferDecision } from '../types/offer.types';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+export interface OfferReminderInput {
+  offerId: string;
+}
+
+// Time left until the deadline, rounded down to days or hours
+export function formatTimeLeft(deadline: Date, now: Date = new Date()): string {
+  const hours = Math.max(
+    0,
+    Math.floor((deadline.getTime() - now.getTime()) / (60 * 60 * 1000)),
+  );
+  if (hours >= 48) {
+    return `${Math.floor(hours / 24)} days`;
+  }
+  if (hours < 1) {
+    return 'Less than an hour';
+  }
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+// Activity functions for the offer deadline workflow
+export async function sendOfferDeadlineReminder(
+  input: OfferReminderInput,
+): Promise<boolean> {
+  const offerRepository = (global as any).offerRepository;
+  const notificationsService = (global as any).notificationsService;
+
+  try {
+    const offer: Offer | null = await offerRepository.findOne({
+      where: { id: input.offerId },
+      relations: { application: true },
+    });
+
+    // Deleted, decided or without deadline while the activity was queued
+    if (
+      !offer ||
+      offer.decision !== OfferDecision.PENDING ||
+      !offer.responseDeadline
+    ) {
+      return false;
+    }
+
+    const { application } = offer;
+    await notificationsService.sendNotification({
+      type: 'offer_deadline',
+      applicationId: application.id,
+      company: application.company,
+      role: application.role,
+      userId: application.ownerId,
+      message: `${formatTimeLeft(new Date(offer.responseDeadline))} left to respond to the ${application.company} - ${application.role} offer.`,
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Failed to send offer deadline reminder:', error);
+    throw error;
+  }
+}
+
+@Injectable()
+export class OfferActivities {
+  constructor(
+    @InjectRepository(Offer)
+    private readonly offerRepository: Repository<Offer>,
+    private readonly notificationsService: NotificationsService,
+  ) {
+    // Inject dependencies into global scope for activities
+    (global as any).offerRepository = this.offerRepository;
+    (global as any).notificationsService = this.notificationsService;
+  }
+}
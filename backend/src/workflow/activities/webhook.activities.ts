@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+
+import { WebhookDeliveryService } from '../../webhooks/webhook-delivery.service';
+
+// Activity functions for the webhook delivery workflow
+export async function deliverWebhook(deliveryId: string): Promise<void> {
+  const webhookDeliveryService = (global as any).webhookDeliveryService;
+
+  // Failures are recorded on the delivery and retried by the workflow
+  await webhookDeliveryService.deliver(deliveryId);
+}
+
+export async function markWebhookDeliveryFailed(
+  deliveryId: string,
+  error: string,
+): Promise<void> {
+  const webhookDeliveryService = (global as any).webhookDeliveryService;
+
+  await webhookDeliveryService.markFailed(deliveryId, error);
+}
+
+@Injectable()
+export class WebhookActivities {
+  constructor(private readonly webhookDeliveryService: WebhookDeliveryService) {
+    // Inject dependencies into global scope for activities
+    (global as any).webhookDeliveryService = this.webhookDeliveryService;
+  }
+}
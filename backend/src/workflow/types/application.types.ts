@@ -1,5 +1,7 @@
 export enum ApplicationStatus {
   PENDING = 'pending',
+  // Submitted, waiting to hear back
+  APPLIED = 'applied',
   INTERVIEW = 'interview',
   OFFER = 'offer',
   REJECTED = 'rejected',
@@ -9,10 +11,69 @@ export enum ApplicationStatus {
 
 export interface JobApplicationWorkflowInput {
   applicationId: string;
+  ownerId: string;
   company: string;
   role: string;
   jobDescription: string;
   resume: string;
   deadline: Date;
   gracePeriodDays: number;
+  // Offsets before the deadline; missing in runs started before schedules
+  reminderOffsets?: string[];
+  // Owner's cover letter defaults when the run started
+  coverLetterOptions?: CoverLetterOptions;
+}
+
+export interface FollowUpWorkflowInput {
+  applicationId: string;
+  ownerId: string;
+  company: string;
+  role: string;
+  // Days to wait before each follow-up
+  intervalDays: number;
+  maxFollowUps: number;
+}
+
+export interface ReminderScheduleUpdate {
+  reminderOffsets: string[];
+  gracePeriodDays: number;
+}
+
+export enum StatusChangeSource {
+  REST = 'rest',
+  BULK_UPDATE = 'bulk_update',
+  WORKFLOW_ARCHIVE = 'workflow_archive',
+  ARCHIVE_EXPIRED = 'archive_expired',
+  REOPEN = 'reopen',
+}
+
+export enum CoverLetterSource {
+  WORKFLOW = 'workflow',
+  MANUAL_GENERATE = 'manual_generate',
+  IMPROVE = 'improve',
+  USER_EDIT = 'user_edit',
+}
+
+export enum CoverLetterTone {
+  PROFESSIONAL = 'professional',
+  ENTHUSIASTIC = 'enthusiastic',
+  FORMAL = 'formal',
+  FRIENDLY = 'friendly',
+  CONFIDENT = 'confident',
+}
+
+export enum CoverLetterFormat {
+  PLAIN = 'plain',
+  MARKDOWN = 'markdown',
+}
+
+// How a cover letter is written; anything missing keeps the default style
+export interface CoverLetterOptions {
+  tone?: CoverLetterTone;
+  wordCount?: number;
+  language?: string;
+  // Skills to put forward
+  emphasis?: string[];
+  hiringManagerName?: string;
+  format?: CoverLetterFormat;
 }
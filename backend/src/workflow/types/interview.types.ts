@@ -0,0 +1,23 @@
+export enum InterviewFormat {
+  PHONE = 'phone',
+  VIDEO = 'video',
+  ONSITE = 'onsite',
+  OTHER = 'other',
+}
+
+export enum InterviewOutcome {
+  PENDING = 'pending',
+  PASSED = 'passed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface InterviewWorkflowInput {
+  interviewId: string;
+  applicationId: string;
+  // ISO string so the workflow can compare it with Date.now()
+  scheduledAt: string;
+}
+
+// Notifications sent by the interview prep workflow
+export type InterviewNotificationKind = 'prep' | 'feedback';
@@ -0,0 +1,12 @@
+export enum OfferDecision {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+}
+
+export interface OfferWorkflowInput {
+  offerId: string;
+  applicationId: string;
+  // ISO string so the workflow can compare it with Date.now()
+  responseDeadline: string;
+}
@@ -1,17 +1,25 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { WorkflowService } from './workflow.service';
 import { ApplicationActivities } from './activities/application.activities';
 import { Application } from '../applications/entities/application.entity';
+import { ApplicationStatusChange } from '../applications/entities/application-status-change.entity';
+import { CoverLetterVersion } from '../applications/entities/cover-letter-version.entity';
 import { LlmModule } from '../llm/llm.module';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { RemindersModule } from '../reminders/reminders.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Application]),
+    TypeOrmModule.forFeature([
+      Application,
+      ApplicationStatusChange,
+      CoverLetterVersion,
+    ]),
     LlmModule,
-    NotificationsModule,
+    forwardRef(() => NotificationsModule),
+    forwardRef(() => RemindersModule),
   ],
   providers: [WorkflowService, ApplicationActivities],
   exports: [WorkflowService],
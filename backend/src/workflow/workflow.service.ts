@@ -7,12 +7,48 @@ import {
   WorkflowNotFoundError,
 } from '@temporalio/client';
 import { Application } from '../applications/entities/application.entity';
-import { ApplicationStatus } from './types/application.types';
+import {
+  ApplicationStatus,
+  CoverLetterOptions,
+  ReminderScheduleUpdate,
+} from './types/application.types';
 import {
   jobApplicationWorkflow,
   statusUpdateSignal,
   notesUpdateSignal,
+  deadlineUpdateSignal,
+  reminderScheduleUpdateSignal,
 } from './workflows/job-application.workflow';
+import { resolveReminderOffsets } from '../reminders/reminder-windows';
+import { emailDeliveryWorkflow } from './workflows/email-delivery.workflow';
+import { webhookDeliveryWorkflow } from './workflows/webhook-delivery.workflow';
+import { followUpWorkflow } from './workflows/follow-up.workflow';
+import {
+  interviewPrepWorkflow,
+  interviewRescheduleSignal,
+  interviewOutcomeSignal,
+} from './workflows/interview-prep.workflow';
+import { Interview } from '../interviews/entities/interview.entity';
+import {
+  offerDeadlineWorkflow,
+  offerDeadlineSignal,
+  offerDecisionSignal,
+} from './workflows/offer-deadline.workflow';
+import { Offer } from '../offers/entities/offer.entity';
+
+// Follow-ups run alongside the application's main workflow; a reopened
+// application gets a new workflowId and so a fresh follow-up sequence
+export function getFollowUpWorkflowId(workflowId: string): string {
+  return `${workflowId}-follow-up`;
+}
+
+export function getInterviewWorkflowId(interviewId: string): string {
+  return `interview-${interviewId}`;
+}
+
+export function getOfferWorkflowId(offerId: string): string {
+  return `offer-${offerId}`;
+}
 
 @Injectable()
 export class WorkflowService implements OnModuleInit, OnModuleDestroy {
@@ -50,6 +86,7 @@ export class WorkflowService implements OnModuleInit, OnModuleDestroy {
 
   async startJobApplicationWorkflow(
     application: Application,
+    coverLetterOptions?: CoverLetterOptions,
   ): Promise<WorkflowHandle> {
     try {
       const handle = await this.client.workflow.start(jobApplicationWorkflow, {
@@ -58,14 +95,14 @@ export class WorkflowService implements OnModuleInit, OnModuleDestroy {
         args: [
           {
             applicationId: application.id,
+            ownerId: application.ownerId,
             company: application.company,
             role: application.role,
             jobDescription: application.jobDescription,
             resume: application.resume,
             deadline: application.deadline,
-            gracePeriodDays: parseInt(
-              this.configService.get('GRACE_PERIOD_DAYS', '7'),
-            ),
+            ...this.getReminderSchedule(application),
+            coverLetterOptions,
           },
         ],
       });
@@ -81,6 +118,134 @@ export class WorkflowService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  async startFollowUpWorkflow(
+    application: Application,
+  ): Promise<WorkflowHandle> {
+    const workflowId = getFollowUpWorkflowId(application.workflowId);
+    try {
+      const handle = await this.client.workflow.start(followUpWorkflow, {
+        taskQueue: 'job-application-queue',
+        workflowId,
+        args: [
+          {
+            applicationId: application.id,
+            ownerId: application.ownerId,
+            company: application.company,
+            role: application.role,
+            intervalDays: parseInt(
+              this.configService.get('FOLLOW_UP_INTERVAL_DAYS', '7'),
+            ),
+            maxFollowUps: parseInt(
+              this.configService.get('FOLLOW_UP_MAX_COUNT', '3'),
+            ),
+          },
+        ],
+      });
+
+      console.log(
+        `📨 Started follow-up workflow for application ${application.id} with workflow ID: ${workflowId}`,
+      );
+
+      return handle;
+    } catch (error) {
+      console.error('Failed to start follow-up workflow:', error);
+      throw error;
+    }
+  }
+
+  async startInterviewWorkflow(interview: Interview): Promise<WorkflowHandle> {
+    const workflowId = getInterviewWorkflowId(interview.id);
+    try {
+      const handle = await this.client.workflow.start(interviewPrepWorkflow, {
+        taskQueue: 'job-application-queue',
+        workflowId,
+        args: [
+          {
+            interviewId: interview.id,
+            applicationId: interview.applicationId,
+            scheduledAt: new Date(interview.scheduledAt).toISOString(),
+          },
+        ],
+      });
+
+      console.log(
+        `🎤 Started interview prep workflow for interview ${interview.id} with workflow ID: ${workflowId}`,
+      );
+
+      return handle;
+    } catch (error) {
+      console.error('Failed to start interview prep workflow:', error);
+      throw error;
+    }
+  }
+
+  async startOfferWorkflow(
+    offer: Offer,
+    responseDeadline: Date,
+  ): Promise<WorkflowHandle> {
+    const workflowId = getOfferWorkflowId(offer.id);
+    try {
+      const handle = await this.client.workflow.start(offerDeadlineWorkflow, {
+        taskQueue: 'job-application-queue',
+        workflowId,
+        args: [
+          {
+            offerId: offer.id,
+            applicationId: offer.applicationId,
+            responseDeadline: new Date(responseDeadline).toISOString(),
+          },
+        ],
+      });
+
+      console.log(
+        `💼 Started offer deadline workflow for offer ${offer.id} with workflow ID: ${workflowId}`,
+      );
+
+      return handle;
+    } catch (error) {
+      console.error('Failed to start offer deadline workflow:', error);
+      throw error;
+    }
+  }
+
+  async startEmailDeliveryWorkflow(
+    deliveryId: string,
+  ): Promise<WorkflowHandle> {
+    try {
+      const handle = await this.client.workflow.start(emailDeliveryWorkflow, {
+        taskQueue: 'job-application-queue',
+        workflowId: `email-delivery-${deliveryId}`,
+        args: [deliveryId],
+      });
+
+      console.log(`📧 Started email delivery workflow for ${deliveryId}`);
+
+      return handle;
+    } catch (error) {
+      console.error('Failed to start email delivery workflow:', error);
+      throw error;
+    }
+  }
+
+  async startWebhookDeliveryWorkflow(
+    deliveryId: string,
+  ): Promise<WorkflowHandle> {
+    try {
+      const handle = await this.client.workflow.start(webhookDeliveryWorkflow, {
+        taskQueue: 'job-application-queue',
+        workflowId: `webhook-delivery-${deliveryId}`,
+        args: [deliveryId],
+      });
+
+      console.log(`🪝 Started webhook delivery workflow for ${deliveryId}`);
+
+      return handle;
+    } catch (error) {
+      console.error('Failed to start webhook delivery workflow:', error);
+      throw error;
+    }
+  }
+
   async signalStatusUpdate(
     workflowId: string,
     status: ApplicationStatus,
@@ -124,6 +289,146 @@ export class WorkflowService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  async signalDeadlineUpdate(
+    workflowId: string,
+    deadline: Date,
+  ): Promise<void> {
+    try {
+      const handle = this.client.workflow.getHandle(workflowId);
+      await handle.signal(deadlineUpdateSignal, deadline.toISOString());
+
+      console.log(
+        `📡 Sent deadline update signal to workflow ${workflowId}: ${deadline.toISOString()}`,
+      );
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        console.warn(
+          `⚠️  Workflow ${workflowId} not found - cannot send deadline update signal`,
+        );
+        return;
+      }
+
+      console.error('Failed to send deadline update signal:', error);
+      throw error;
+    }
+  }
+
+  async signalReminderScheduleUpdate(application: Application): Promise<void> {
+    const { workflowId } = application;
+    try {
+      const handle = this.client.workflow.getHandle(workflowId);
+      const schedule = this.getReminderSchedule(application);
+      await handle.signal(reminderScheduleUpdateSignal, schedule);
+
+      console.log(
+        `📡 Sent reminder schedule update signal to workflow ${workflowId}: ${schedule.reminderOffsets.join(', ')}; ${schedule.gracePeriodDays} day grace period`,
+      );
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        console.warn(
+          `⚠️  Workflow ${workflowId} not found - cannot send reminder schedule update signal`,
+        );
+        return;
+      }
+
+      console.error('Failed to send reminder schedule update signal:', error);
+      throw error;
+    }
+  }
+
+  async signalInterviewReschedule(interview: Interview): Promise<void> {
+    const workflowId = getInterviewWorkflowId(interview.id);
+    const scheduledAt = new Date(interview.scheduledAt).toISOString();
+    try {
+      const handle = this.client.workflow.getHandle(workflowId);
+      await handle.signal(interviewRescheduleSignal, scheduledAt);
+
+      console.log(
+        `📡 Sent interview reschedule signal to workflow ${workflowId}: ${scheduledAt}`,
+      );
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        console.warn(
+          `⚠️  Workflow ${workflowId} not found - cannot send interview reschedule signal`,
+        );
+        return;
+      }
+
+      console.error('Failed to send interview reschedule signal:', error);
+      throw error;
+    }
+  }
+
+  async signalInterviewOutcome(interview: Interview): Promise<void> {
+    const workflowId = getInterviewWorkflowId(interview.id);
+    try {
+      const handle = this.client.workflow.getHandle(workflowId);
+      await handle.signal(interviewOutcomeSignal, interview.outcome);
+
+      console.log(
+        `📡 Sent interview outcome signal to workflow ${workflowId}: ${interview.outcome}`,
+      );
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        console.warn(
+          `⚠️  Workflow ${workflowId} not found - cannot send interview outcome signal`,
+        );
+        return;
+      }
+
+      console.error('Failed to send interview outcome signal:', error);
+      throw error;
+    }
+  }
+
+  async signalOfferDeadline(
+    offer: Offer,
+    responseDeadline: Date,
+  ): Promise<void> {
+    const workflowId = getOfferWorkflowId(offer.id);
+    const deadline = new Date(responseDeadline).toISOString();
+    try {
+      const handle = this.client.workflow.getHandle(workflowId);
+      await handle.signal(offerDeadlineSignal, deadline);
+
+      console.log(
+        `📡 Sent offer deadline signal to workflow ${workflowId}: ${deadline}`,
+      );
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        console.warn(
+          `⚠️  Workflow ${workflowId} not found - cannot send offer deadline signal`,
+        );
+        return;
+      }
+
+      console.error('Failed to send offer deadline signal:', error);
+      throw error;
+    }
+  }
+
+  async signalOfferDecision(offer: Offer): Promise<void> {
+    const workflowId = getOfferWorkflowId(offer.id);
+    try {
+      const handle = this.client.workflow.getHandle(workflowId);
+      await handle.signal(offerDecisionSignal, offer.decision);
+
+      console.log(
+        `📡 Sent offer decision signal to workflow ${workflowId}: ${offer.decision}`,
+      );
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        console.warn(
+          `⚠️  Workflow ${workflowId} not found - cannot send offer decision signal`,
+        );
+        return;
+      }
+
+      console.error('Failed to send offer decision signal:', error);
+      throw error;
+    }
+  }
+
   async cancelWorkflow(workflowId: string): Promise<void> {
     try {
       const handle = this.client.workflow.getHandle(workflowId);
@@ -177,4 +482,16 @@ export class WorkflowService implements OnModuleInit, OnModuleDestroy {
       throw error;
     }
   }
+
+  // Application schedule with the defaults filled in
+  private getReminderSchedule(
+    application: Application,
+  ): ReminderScheduleUpdate {
+    return {
+      reminderOffsets: resolveReminderOffsets(application.reminderOffsets),
+      gracePeriodDays:
+        application.gracePeriodDays ??
+        parseInt(this.configService.get('GRACE_PERIOD_DAYS', '7')),
+    };
+  }
 }
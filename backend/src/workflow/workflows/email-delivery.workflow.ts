@@ -0,0 +1,37 @@
+import { proxyActivities, ActivityFailure } from '@temporalio/workflow';
+
+import type * as activities from '../activities/email.activities';
+
+// SMTP outages can last a while, so back off for about a quarter of an hour
+// before giving up on a message
+const { deliverEmail } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1 minute',
+    backoffCoefficient: 2,
+    maximumInterval: '10 minutes',
+    maximumAttempts: 5,
+  },
+});
+
+const { markEmailDeliveryFailed } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1s',
+    maximumInterval: '100s',
+    maximumAttempts: 3,
+  },
+});
+
+export async function emailDeliveryWorkflow(deliveryId: string): Promise<void> {
+  try {
+    await deliverEmail(deliveryId);
+  } catch (error) {
+    const cause =
+      error instanceof ActivityFailure && error.cause
+        ? error.cause.message
+        : String(error);
+    await markEmailDeliveryFailed(deliveryId, cause);
+    throw error;
+  }
+}
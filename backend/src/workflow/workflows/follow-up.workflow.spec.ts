@@ -0,0 +1,109 @@
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker, bundleWorkflowCode, WorkflowBundle } from '@temporalio/worker';
+import { WorkflowHandle } from '@temporalio/client';
+
+import { followUpWorkflow } from './follow-up.workflow';
+import { statusUpdateSignal } from './job-application.workflow';
+import {
+  ApplicationStatus,
+  FollowUpWorkflowInput,
+} from '../types/application.types';
+
+describe('followUpWorkflow', () => {
+  let testEnv: TestWorkflowEnvironment;
+  let workflowBundle: WorkflowBundle;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const mockActivities = {
+    draftFollowUpEmail: jest.fn().mockResolvedValue('Subject: Following up'),
+    sendNotification: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const input: FollowUpWorkflowInput = {
+    applicationId: '123e4567-e89b-12d3-a456-426614174000',
+    ownerId: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45',
+    company: 'Tech Corp',
+    role: 'Software Engineer',
+    intervalDays: 7,
+    maxFollowUps: 3,
+  };
+
+  const runWorkflow = async (
+    interact: (
+      handle: WorkflowHandle<typeof followUpWorkflow>,
+    ) => Promise<void> = async () => undefined,
+  ) => {
+    const worker = await Worker.create({
+      connection: testEnv.nativeConnection,
+      taskQueue: 'test-follow-up',
+      workflowBundle,
+      activities: mockActivities,
+    });
+
+    return worker.runUntil(async () => {
+      const handle = await testEnv.client.workflow.start(followUpWorkflow, {
+        taskQueue: 'test-follow-up',
+        workflowId: `follow-up-test-${Date.now()}`,
+        args: [input],
+      });
+      await interact(handle);
+      return handle.result();
+    });
+  };
+
+  beforeAll(async () => {
+    testEnv = await TestWorkflowEnvironment.createTimeSkipping();
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: require.resolve('./follow-up.workflow'),
+    });
+  }, 120_000);
+
+  afterAll(async () => {
+    await testEnv?.teardown();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should draft a follow-up every interval up to the maximum', async () => {
+    // Given
+    const startedAt = await testEnv.currentTimeMs();
+
+    // When
+    const followUpsSent = await runWorkflow();
+
+    // Then
+    expect(followUpsSent).toBe(3);
+    expect(
+      mockActivities.draftFollowUpEmail.mock.calls.map(([call]) => [
+        call.followUpNumber,
+        call.daysSinceApplied,
+      ]),
+    ).toEqual([
+      [1, 7],
+      [2, 14],
+      [3, 21],
+    ]);
+    expect(mockActivities.sendNotification).toHaveBeenCalledTimes(3);
+    expect(mockActivities.sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'follow_up' }),
+    );
+    expect((await testEnv.currentTimeMs()) - startedAt).toBeGreaterThanOrEqual(
+      21 * DAY_MS,
+    );
+  }, 60_000);
+
+  it('should stop following up once the status changes', async () => {
+    // When: the recruiter replies between the first and second follow-up
+    const followUpsSent = await runWorkflow(async (handle) => {
+      await testEnv.sleep(10 * DAY_MS);
+      await handle.signal(statusUpdateSignal, ApplicationStatus.INTERVIEW);
+    });
+
+    // Then
+    expect(followUpsSent).toBe(1);
+    expect(mockActivities.draftFollowUpEmail).toHaveBeenCalledTimes(1);
+  }, 60_000);
+});
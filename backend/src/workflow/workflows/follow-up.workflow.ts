@@ -0,0 +1,94 @@
+import {
+  setHandler,
+  condition,
+  proxyActivities,
+  workflowInfo,
+} from '@temporalio/workflow';
+import {
+  ApplicationStatus,
+  FollowUpWorkflowInput,
+} from '../types/application.types';
+import {
+  statusUpdateSignal,
+  getCurrentStatusQuery,
+  getWorkflowInfoQuery,
+} from './job-application.workflow';
+
+import type * as activities from '../activities/application.activities';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const { draftFollowUpEmail, sendNotification } = proxyActivities<
+  typeof activities
+>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1s',
+    maximumInterval: '100s',
+    maximumAttempts: 3,
+  },
+});
+
+/**
+ * Runs while an application is in the applied status: every intervalDays it
+ * drafts a follow-up email for the recruiter and notifies the user, up to
+ * maxFollowUps times. Any status signal ends it.
+ * Returns the number of follow-ups drafted.
+ */
+export async function followUpWorkflow(
+  input: FollowUpWorkflowInput,
+): Promise<number> {
+  let currentStatus = ApplicationStatus.APPLIED;
+  let followUpsSent = 0;
+
+  setHandler(statusUpdateSignal, (newStatus: ApplicationStatus) => {
+    currentStatus = newStatus;
+
+    console.log(
+      `Status updated to ${newStatus} for application ${input.applicationId}, stopping follow-ups`,
+    );
+  });
+
+  setHandler(getCurrentStatusQuery, () => currentStatus);
+  setHandler(getWorkflowInfoQuery, () => ({
+    workflowId: workflowInfo().workflowId,
+    runId: workflowInfo().runId,
+    status: currentStatus,
+    applicationId: input.applicationId,
+    followUpsSent,
+    maxFollowUps: input.maxFollowUps,
+    intervalDays: input.intervalDays,
+  }));
+
+  const isApplied = () => currentStatus === ApplicationStatus.APPLIED;
+
+  while (followUpsSent < input.maxFollowUps) {
+    // Resolves early with true when a status signal arrives
+    const statusChanged = await condition(
+      () => !isApplied(),
+      input.intervalDays * ONE_DAY_MS,
+    );
+    if (statusChanged) {
+      break;
+    }
+
+    const followUpNumber = followUpsSent + 1;
+    await draftFollowUpEmail({
+      applicationId: input.applicationId,
+      followUpNumber,
+      daysSinceApplied: followUpNumber * input.intervalDays,
+    });
+    followUpsSent = followUpNumber;
+
+    await sendNotification({
+      applicationId: input.applicationId,
+      message: `Follow-up email ${followUpNumber} of ${input.maxFollowUps} drafted for ${input.company} - ${input.role}. Review it before sending it to the recruiter.`,
+      type: 'follow_up',
+    });
+  }
+
+  console.log(
+    `Follow-up workflow completed for application ${input.applicationId} after ${followUpsSent} follow-up(s)`,
+  );
+  return followUpsSent;
+}
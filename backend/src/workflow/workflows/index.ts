@@ -1 +1,6 @@
 export * from './job-application.workflow';
+export * from './email-delivery.workflow';
+export * from './webhook-delivery.workflow';
+export * from './follow-up.workflow';
+export * from './interview-prep.workflow';
+export * from './offer-deadline.workflow';
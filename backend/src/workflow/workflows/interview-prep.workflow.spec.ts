@@ -0,0 +1,116 @@
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker, bundleWorkflowCode, WorkflowBundle } from '@temporalio/worker';
+import { WorkflowHandle } from '@temporalio/client';
+
+import {
+  interviewPrepWorkflow,
+  interviewOutcomeSignal,
+  interviewRescheduleSignal,
+} from './interview-prep.workflow';
+import { InterviewOutcome } from '../types/interview.types';
+
+describe('interviewPrepWorkflow', () => {
+  let testEnv: TestWorkflowEnvironment;
+  let workflowBundle: WorkflowBundle;
+
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const mockActivities = {
+    sendInterviewNotification: jest.fn().mockResolvedValue(true),
+  };
+
+  const sentKinds = () =>
+    mockActivities.sendInterviewNotification.mock.calls.map(
+      ([input]) => input.kind,
+    );
+
+  const runWorkflow = async (
+    startsInMs: number,
+    interact: (
+      handle: WorkflowHandle<typeof interviewPrepWorkflow>,
+    ) => Promise<void> = async () => undefined,
+  ) => {
+    const worker = await Worker.create({
+      connection: testEnv.nativeConnection,
+      taskQueue: 'test-interview-prep',
+      workflowBundle,
+      activities: mockActivities,
+    });
+
+    await worker.runUntil(async () => {
+      const scheduledAt = new Date(
+        (await testEnv.currentTimeMs()) + startsInMs,
+      );
+      const handle = await testEnv.client.workflow.start(
+        interviewPrepWorkflow,
+        {
+          taskQueue: 'test-interview-prep',
+          workflowId: `interview-test-${Date.now()}`,
+          args: [
+            {
+              interviewId: '5d8c1f0a-3b7e-4c2d-9a6f-1e4b7c9d2a38',
+              applicationId: '123e4567-e89b-12d3-a456-426614174000',
+              scheduledAt: scheduledAt.toISOString(),
+            },
+          ],
+        },
+      );
+      await interact(handle);
+      await handle.result();
+    });
+  };
+
+  beforeAll(async () => {
+    testEnv = await TestWorkflowEnvironment.createTimeSkipping();
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: require.resolve('./interview-prep.workflow'),
+    });
+  }, 120_000);
+
+  afterAll(async () => {
+    await testEnv?.teardown();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send both prep reminders, ask for feedback and stop at the outcome', async () => {
+    // When
+    await runWorkflow(3 * 24 * HOUR_MS, async (handle) => {
+      await testEnv.sleep(3 * 24 * HOUR_MS + 3 * HOUR_MS);
+      await handle.signal(interviewOutcomeSignal, InterviewOutcome.PASSED);
+    });
+
+    // Then
+    expect(sentKinds()).toEqual(['prep', 'prep', 'feedback']);
+  }, 60_000);
+
+  it('should send a single prep reminder for an interview booked hours ahead', async () => {
+    // When
+    await runWorkflow(3 * HOUR_MS, async (handle) => {
+      await testEnv.sleep(HOUR_MS);
+      await handle.signal(interviewOutcomeSignal, InterviewOutcome.CANCELLED);
+    });
+
+    // Then: the 24h reminder is sent on start; the 1h one is never reached
+    expect(sentKinds()).toEqual(['prep']);
+  }, 60_000);
+
+  it('should restart reminders for the new time when rescheduled', async () => {
+    // When: moved a week later after the 24h reminder
+    await runWorkflow(2 * 24 * HOUR_MS, async (handle) => {
+      await testEnv.sleep(30 * HOUR_MS);
+      const newTime = (await testEnv.currentTimeMs()) + 7 * 24 * HOUR_MS;
+      await handle.signal(
+        interviewRescheduleSignal,
+        new Date(newTime).toISOString(),
+      );
+      await testEnv.sleep(7 * 24 * HOUR_MS + 3 * HOUR_MS);
+      await handle.signal(interviewOutcomeSignal, InterviewOutcome.FAILED);
+    });
+
+    // Then
+    expect(sentKinds()).toEqual(['prep', 'prep', 'prep', 'feedback']);
+  }, 60_000);
+});
@@ -0,0 +1,149 @@
+import {
+  defineSignal,
+  setHandler,
+  condition,
+  proxyActivities,
+  workflowInfo,
+} from '@temporalio/workflow';
+import {
+  InterviewOutcome,
+  InterviewWorkflowInput,
+} from '../types/interview.types';
+import { getWorkflowInfoQuery } from './job-application.workflow';
+
+import type * as activities from '../activities/interview.activities';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Prep reminders before the interview, furthest first
+export const INTERVIEW_PREP_OFFSETS_MS = [24 * ONE_HOUR_MS, ONE_HOUR_MS];
+// Ask for the outcome this long after the interview starts
+export const INTERVIEW_FEEDBACK_DELAY_MS = 2 * ONE_HOUR_MS;
+// Stop waiting for an outcome after a week
+const OUTCOME_WAIT_MS = 7 * 24 * ONE_HOUR_MS;
+
+// New start time as an ISO string
+export const interviewRescheduleSignal = defineSignal<[string]>(
+  'interviewReschedule',
+);
+export const interviewOutcomeSignal =
+  defineSignal<[InterviewOutcome]>('interviewOutcome');
+
+const { sendInterviewNotification } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1s',
+    maximumInterval: '100s',
+    maximumAttempts: 3,
+  },
+});
+
+/**
+ * One run per interview: prep reminders 24 hours and 1 hour before it
+ * starts, then a request to record the outcome. Rescheduling restarts the
+ * reminders for the new time; recording an outcome ends the workflow.
+ */
+export async function interviewPrepWorkflow(
+  input: InterviewWorkflowInput,
+): Promise<void> {
+  let scheduledTime = new Date(input.scheduledAt).getTime();
+  let outcome = InterviewOutcome.PENDING;
+  // Bumped by reschedules so pending waits start over
+  let scheduleVersion = 0;
+
+  setHandler(interviewRescheduleSignal, (scheduledAt: string) => {
+    scheduledTime = new Date(scheduledAt).getTime();
+    scheduleVersion++;
+
+    console.log(`Interview ${input.interviewId} rescheduled to ${scheduledAt}`);
+  });
+
+  setHandler(interviewOutcomeSignal, (newOutcome: InterviewOutcome) => {
+    outcome = newOutcome;
+  });
+
+  setHandler(getWorkflowInfoQuery, () => ({
+    workflowId: workflowInfo().workflowId,
+    runId: workflowInfo().runId,
+    interviewId: input.interviewId,
+    applicationId: input.applicationId,
+    scheduledAt: new Date(scheduledTime).toISOString(),
+    outcome,
+  }));
+
+  const hasOutcome = () => outcome !== InterviewOutcome.PENDING;
+
+  // Wait until the given time unless an outcome is recorded or the
+  // interview is rescheduled first. Resolves true if the time was reached.
+  const waitUntil = async (time: number, version: number) => {
+    const remaining = time - Date.now();
+    if (remaining <= 0) {
+      return true;
+    }
+
+    const interrupted = await condition(
+      () => hasOutcome() || scheduleVersion !== version,
+      remaining,
+    );
+    return !interrupted;
+  };
+
+  // Reminders already sent, keyed by start time and offset so a reschedule
+  // gets a fresh set
+  const sent = new Set<string>();
+  const reminderKey = (offset: number) => `${scheduledTime}:${offset}`;
+
+  while (!hasOutcome()) {
+    const version = scheduleVersion;
+    const now = Date.now();
+    const unsent = INTERVIEW_PREP_OFFSETS_MS.filter(
+      (offset) => !sent.has(reminderKey(offset)),
+    );
+
+    if (now < scheduledTime) {
+      // Reminder times we've crossed collapse into one reminder, e.g. for an
+      // interview booked three hours ahead
+      const due = unsent.filter((offset) => now >= scheduledTime - offset);
+      if (due.length > 0) {
+        due.forEach((offset) => sent.add(reminderKey(offset)));
+        await sendInterviewNotification({
+          interviewId: input.interviewId,
+          kind: 'prep',
+        });
+        continue;
+      }
+
+      // Offsets are sorted furthest first
+      if (unsent.length > 0) {
+        await waitUntil(scheduledTime - unsent[0], version);
+        continue;
+      }
+    }
+
+    // Past the last reminder: wait for the interview to finish, then ask
+    // how it went
+    const feedbackTime = scheduledTime + INTERVIEW_FEEDBACK_DELAY_MS;
+    if (!(await waitUntil(feedbackTime, version))) {
+      continue;
+    }
+
+    await sendInterviewNotification({
+      interviewId: input.interviewId,
+      kind: 'feedback',
+    });
+
+    // Keep handling reschedules until the outcome is in, e.g. when the
+    // interview was moved after it should have happened
+    const rescheduled = await condition(
+      () => hasOutcome() || scheduleVersion !== version,
+      OUTCOME_WAIT_MS,
+    );
+    if (!rescheduled || hasOutcome()) {
+      break;
+    }
+  }
+
+  console.log(
+    `Interview prep workflow completed for interview ${input.interviewId} with outcome ${outcome}`,
+  );
+}
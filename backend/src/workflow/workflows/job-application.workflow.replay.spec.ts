@@ -0,0 +1,156 @@
+import { Worker, bundleWorkflowCode, WorkflowBundle } from '@temporalio/worker';
+
+// Replays a history recorded by the workflow as it was before the
+// condition-based reminders, as left by runs still in flight when the new
+// worker is deployed. Replay needs no Temporal server.
+describe('jobApplicationWorkflow replay', () => {
+  let workflowBundle: WorkflowBundle;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const startedAt = Date.parse('2024-01-15T12:00:00.000Z');
+  const taskQueue = { name: 'job-application-queue' };
+
+  const json = (value: unknown) => ({
+    metadata: { encoding: Buffer.from('json/plain').toString('base64') },
+    data: Buffer.from(JSON.stringify(value)).toString('base64'),
+  });
+
+  // Builds events in the JSON format of `temporal workflow show --output json`
+  const buildHistory = () => {
+    const events: Record<string, unknown>[] = [];
+    const add = (
+      eventType: string,
+      attributes: Record<string, unknown>,
+      atMs = 0,
+    ) => {
+      const eventId = String(events.length + 1);
+      const key = `${eventType
+        .replace('EVENT_TYPE_', '')
+        .toLowerCase()
+        .replace(/_(\w)/g, (_, letter) =>
+          letter.toUpperCase(),
+        )}EventAttributes`;
+      events.push({
+        eventId,
+        eventTime: new Date(startedAt + atMs).toISOString(),
+        eventType,
+        [key]: attributes,
+      });
+      return eventId;
+    };
+    const workflowTask = (atMs: number) => {
+      const scheduledEventId = add(
+        'EVENT_TYPE_WORKFLOW_TASK_SCHEDULED',
+        { taskQueue, startToCloseTimeout: '10s', attempt: 1 },
+        atMs,
+      );
+      const startedEventId = add(
+        'EVENT_TYPE_WORKFLOW_TASK_STARTED',
+        { scheduledEventId, identity: 'worker', requestId: scheduledEventId },
+        atMs,
+      );
+      return add(
+        'EVENT_TYPE_WORKFLOW_TASK_COMPLETED',
+        { scheduledEventId, startedEventId, identity: 'worker' },
+        atMs,
+      );
+    };
+    const activity = (
+      activityId: string,
+      name: string,
+      workflowTaskCompletedEventId: string,
+      atMs: number,
+    ) => {
+      const scheduledEventId = add(
+        'EVENT_TYPE_ACTIVITY_TASK_SCHEDULED',
+        {
+          activityId,
+          activityType: { name },
+          taskQueue,
+          startToCloseTimeout: '60s',
+          workflowTaskCompletedEventId,
+        },
+        atMs,
+      );
+      const startedEventId = add(
+        'EVENT_TYPE_ACTIVITY_TASK_STARTED',
+        { scheduledEventId, identity: 'worker', attempt: 1 },
+        atMs,
+      );
+      add(
+        'EVENT_TYPE_ACTIVITY_TASK_COMPLETED',
+        {
+          scheduledEventId,
+          startedEventId,
+          result: { payloads: [json(null)] },
+        },
+        atMs,
+      );
+    };
+    const timer = (
+      timerId: string,
+      startToFireTimeout: string,
+      workflowTaskCompletedEventId: string,
+      atMs: number,
+    ) =>
+      add(
+        'EVENT_TYPE_TIMER_STARTED',
+        { timerId, startToFireTimeout, workflowTaskCompletedEventId },
+        atMs,
+      );
+
+    add('EVENT_TYPE_WORKFLOW_EXECUTION_STARTED', {
+      workflowType: { name: 'jobApplicationWorkflow' },
+      taskQueue,
+      input: {
+        payloads: [
+          json({
+            applicationId: '123e4567-e89b-12d3-a456-426614174000',
+            company: 'Tech Corp',
+            role: 'Software Engineer',
+            jobDescription: 'Build things',
+            resume: 'Built things',
+            deadline: new Date(startedAt + 10 * DAY_MS).toISOString(),
+            gracePeriodDays: 7,
+          }),
+        ],
+      },
+      workflowTaskTimeout: '10s',
+      originalExecutionRunId: 'run-1',
+      firstExecutionRunId: 'run-1',
+      attempt: 1,
+      identity: 'client',
+    });
+
+    // Cover letter, then the confirmation notification
+    activity('1', 'generateCoverLetter', workflowTask(0), 0);
+    activity('2', 'sendNotification', workflowTask(1000), 1000);
+
+    // The old code slept until a day before the deadline while polling for
+    // status changes with a one-second setTimeout
+    const sleeping = workflowTask(2000);
+    timer('1', `${(9 * DAY_MS - 2000) / 1000}s`, sleeping, 2000);
+    const pollId = timer('2', '1s', sleeping, 2000);
+    add(
+      'EVENT_TYPE_TIMER_FIRED',
+      { timerId: '2', startedEventId: pollId },
+      3000,
+    );
+    timer('3', '1s', workflowTask(3000), 3000);
+
+    return { events };
+  };
+
+  beforeAll(async () => {
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: require.resolve('./job-application.workflow'),
+    });
+  }, 120_000);
+
+  it('should replay runs started before the condition-based reminders', async () => {
+    // When / Then: a nondeterminism error would reject
+    await expect(
+      Worker.runReplayHistory({ workflowBundle }, buildHistory()),
+    ).resolves.toBeUndefined();
+  }, 60_000);
+});
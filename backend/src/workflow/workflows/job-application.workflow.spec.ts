@@ -0,0 +1,177 @@
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker, bundleWorkflowCode, WorkflowBundle } from '@temporalio/worker';
+import { WorkflowHandle } from '@temporalio/client';
+
+import {
+  jobApplicationWorkflow,
+  statusUpdateSignal,
+} from './job-application.workflow';
+import {
+  ApplicationStatus,
+  JobApplicationWorkflowInput,
+} from '../types/application.types';
+
+// Runs the workflow against Temporal's time-skipping test server, so days of
+// reminders and grace periods pass in milliseconds
+describe('jobApplicationWorkflow', () => {
+  let testEnv: TestWorkflowEnvironment;
+  let workflowBundle: WorkflowBundle;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const DAY_MS = 24 * HOUR_MS;
+
+  const mockActivities = {
+    generateCoverLetter: jest.fn().mockResolvedValue('Dear Hiring Manager'),
+    sendNotification: jest.fn().mockResolvedValue(undefined),
+    dispatchReminder: jest.fn().mockResolvedValue(true),
+    checkApplicationStatus: jest
+      .fn()
+      .mockResolvedValue(ApplicationStatus.PENDING),
+    archiveApplication: jest.fn().mockResolvedValue(undefined),
+    updateApplicationNotes: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const notificationTypes = () =>
+    mockActivities.sendNotification.mock.calls.map(([input]) => input.type);
+
+  // Deadline relative to the test server clock, which moves ahead as time
+  // is skipped
+  const workflowInput = async (
+    deadlineInMs: number,
+    overrides: Partial<JobApplicationWorkflowInput> = {},
+  ): Promise<JobApplicationWorkflowInput> => ({
+    applicationId: '123e4567-e89b-12d3-a456-426614174000',
+    ownerId: '9b2f6a4e-5c1d-4e8a-b7f3-2d6c8e0a1f45',
+    company: 'Tech Corp',
+    role: 'Software Engineer',
+    jobDescription: 'Build things',
+    resume: 'Built things',
+    deadline: new Date((await testEnv.currentTimeMs()) + deadlineInMs),
+    gracePeriodDays: 7,
+    ...overrides,
+  });
+
+  const runWorkflow = async (
+    input: JobApplicationWorkflowInput,
+    interact: (
+      handle: WorkflowHandle<typeof jobApplicationWorkflow>,
+    ) => Promise<void> = async () => undefined,
+  ) => {
+    const worker = await Worker.create({
+      connection: testEnv.nativeConnection,
+      taskQueue: 'test-job-application',
+      workflowBundle,
+      activities: mockActivities,
+    });
+
+    await worker.runUntil(async () => {
+      const handle = await testEnv.client.workflow.start(
+        jobApplicationWorkflow,
+        {
+          taskQueue: 'test-job-application',
+          workflowId: `job-app-test-${Date.now()}`,
+          args: [input],
+        },
+      );
+      await interact(handle);
+      await handle.result();
+    });
+  };
+
+  beforeAll(async () => {
+    testEnv = await TestWorkflowEnvironment.createTimeSkipping();
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: require.resolve('./job-application.workflow'),
+    });
+  }, 120_000);
+
+  afterAll(async () => {
+    await testEnv?.teardown();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    // clearAllMocks keeps implementations; undo the failing cover letter
+    // even when an assertion in that test throws
+    mockActivities.generateCoverLetter.mockResolvedValue('Dear Hiring Manager');
+  });
+
+  it('should stop reminders as soon as the status moves to interview', async () => {
+    // Given: reminders at 2d (immediately) and 1d before a deadline 2 days out
+    const input = await workflowInput(2 * DAY_MS);
+    let signalledAt = 0;
+
+    // When
+    await runWorkflow(input, async (handle) => {
+      await testEnv.sleep(30 * HOUR_MS);
+      signalledAt = await testEnv.currentTimeMs();
+      await handle.signal(statusUpdateSignal, ApplicationStatus.INTERVIEW);
+    });
+
+    // Then: no reminder after the signal and no timer left to wait for
+    expect(mockActivities.dispatchReminder).toHaveBeenCalledTimes(2);
+    expect((await testEnv.currentTimeMs()) - signalledAt).toBeLessThan(HOUR_MS);
+    expect(notificationTypes()).not.toContain('deadline');
+    expect(mockActivities.archiveApplication).not.toHaveBeenCalled();
+  }, 60_000);
+
+  it('should never remind when an offer arrives before the reminder window', async () => {
+    // Given: the first default reminder is 3 days before a deadline 10 days out
+    const input = await workflowInput(10 * DAY_MS);
+
+    // When
+    await runWorkflow(input, async (handle) => {
+      await testEnv.sleep(2 * DAY_MS);
+      await handle.signal(statusUpdateSignal, ApplicationStatus.OFFER);
+    });
+
+    // Then
+    expect(mockActivities.generateCoverLetter).toHaveBeenCalledTimes(1);
+    expect(mockActivities.dispatchReminder).not.toHaveBeenCalled();
+    expect(notificationTypes()).toEqual(['reminder']);
+  }, 60_000);
+
+  it('should keep monitoring the deadline when cover letter generation fails', async () => {
+    // Given: the LLM is down for every retry
+    mockActivities.generateCoverLetter.mockRejectedValue(
+      new Error('LLM unavailable'),
+    );
+    const input = await workflowInput(2 * DAY_MS);
+
+    // When
+    await runWorkflow(input, async (handle) => {
+      await testEnv.sleep(30 * HOUR_MS);
+      await handle.signal(statusUpdateSignal, ApplicationStatus.INTERVIEW);
+    });
+
+    // Then: no "cover letter generated" notification, reminders still sent
+    expect(mockActivities.generateCoverLetter).toHaveBeenCalledTimes(3);
+    expect(notificationTypes()).not.toContain('reminder');
+    expect(mockActivities.dispatchReminder).toHaveBeenCalledTimes(2);
+  }, 60_000);
+
+  it('should archive an application still pending after the grace period', async () => {
+    // Given
+    const input = await workflowInput(HOUR_MS, {
+      reminderOffsets: ['2h'],
+      gracePeriodDays: 3,
+    });
+    const startedAt = await testEnv.currentTimeMs();
+
+    // When
+    await runWorkflow(input);
+
+    // Then
+    expect(mockActivities.dispatchReminder).toHaveBeenCalledTimes(1);
+    expect(mockActivities.checkApplicationStatus).toHaveBeenCalledWith(
+      input.applicationId,
+    );
+    expect(mockActivities.archiveApplication).toHaveBeenCalledWith(
+      input.applicationId,
+    );
+    expect(notificationTypes()).toEqual(['reminder', 'deadline', 'archive']);
+    expect((await testEnv.currentTimeMs()) - startedAt).toBeGreaterThanOrEqual(
+      HOUR_MS + 3 * DAY_MS,
+    );
+  }, 60_000);
+});
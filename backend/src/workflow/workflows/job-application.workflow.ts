@@ -2,6 +2,8 @@ import {
   defineSignal,
   defineQuery,
   setHandler,
+  condition,
+  patched,
   sleep,
   proxyActivities,
   workflowInfo,
@@ -11,14 +13,32 @@ import {
 import {
   ApplicationStatus,
   JobApplicationWorkflowInput,
+  ReminderScheduleUpdate,
 } from '../types/application.types';
+import {
+  getNextReminderTime,
+  parseReminderOffset,
+  resolveReminderOffsets,
+} from '../../reminders/reminder-windows';
 
 import type * as activities from '../activities/application.activities';
 
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Marks runs started by the condition-based workflow below. Runs started
+// before it was deployed replay through legacyJobApplicationWorkflow; see
+// MIGRATION_GUIDE.md for when the old path can be removed.
+export const CONDITION_BASED_REMINDERS_PATCH = 'condition-based-reminders';
+
 // Signals for workflow communication
 export const statusUpdateSignal =
   defineSignal<[ApplicationStatus]>('statusUpdate');
 export const notesUpdateSignal = defineSignal<[string]>('notesUpdate');
+// New deadline as an ISO string
+export const deadlineUpdateSignal = defineSignal<[string]>('deadlineUpdate');
+export const reminderScheduleUpdateSignal = defineSignal<
+  [ReminderScheduleUpdate]
+>('reminderScheduleUpdate');
 
 // Queries for workflow state inspection
 export const getCurrentStatusQuery =
@@ -29,6 +49,7 @@ export const getWorkflowInfoQuery = defineQuery<any>('getWorkflowInfo');
 const {
   generateCoverLetter,
   sendNotification,
+  dispatchReminder,
   checkApplicationStatus,
   archiveApplication,
   updateApplicationNotes,
@@ -43,6 +64,219 @@ const {
 
 export async function jobApplicationWorkflow(
   input: JobApplicationWorkflowInput,
+): Promise<void> {
+  if (!patched(CONDITION_BASED_REMINDERS_PATCH)) {
+    return legacyJobApplicationWorkflow(input);
+  }
+
+  // State shared with the signal handlers. Every wait below is a condition()
+  // on it, so a signal takes effect as soon as it arrives instead of after
+  // the current timer fires.
+  let currentStatus = ApplicationStatus.PENDING;
+  let deadlineTime = new Date(input.deadline).getTime();
+  let reminderOffsets = resolveReminderOffsets(input.reminderOffsets);
+  let gracePeriodDays = input.gracePeriodDays;
+  // Bumped by deadline and reminder schedule updates
+  let scheduleVersion = 0;
+
+  // Set up signal and query handlers
+  setHandler(statusUpdateSignal, (newStatus: ApplicationStatus) => {
+    const previousStatus = currentStatus;
+    currentStatus = newStatus;
+
+    console.log(
+      `Status updated from ${previousStatus} to ${newStatus} for application ${input.applicationId}`,
+    );
+  });
+
+  setHandler(notesUpdateSignal, async (notes: string) => {
+    await updateApplicationNotes(input.applicationId, notes);
+  });
+
+  setHandler(deadlineUpdateSignal, (deadline: string) => {
+    deadlineTime = new Date(deadline).getTime();
+    scheduleVersion++;
+
+    console.log(
+      `Deadline updated to ${deadline} for application ${input.applicationId}`,
+    );
+  });
+
+  setHandler(
+    reminderScheduleUpdateSignal,
+    (schedule: ReminderScheduleUpdate) => {
+      reminderOffsets = resolveReminderOffsets(schedule.reminderOffsets);
+      gracePeriodDays = schedule.gracePeriodDays;
+      scheduleVersion++;
+
+      console.log(
+        `Reminder schedule updated to ${reminderOffsets.join(', ') || 'none'} with a ${gracePeriodDays} day grace period for application ${input.applicationId}`,
+      );
+    },
+  );
+
+  setHandler(getCurrentStatusQuery, () => currentStatus);
+  setHandler(getWorkflowInfoQuery, () => ({
+    workflowId: workflowInfo().workflowId,
+    runId: workflowInfo().runId,
+    status: currentStatus,
+    applicationId: input.applicationId,
+    deadline: new Date(deadlineTime).toISOString(),
+    reminderOffsets,
+    gracePeriodDays,
+  }));
+
+  // Only pending applications get reminders, the deadline notice and the
+  // auto-archive; any other status ends the workflow
+  const isPending = () => currentStatus === ApplicationStatus.PENDING;
+
+  // Wait until the given time unless the application leaves pending or is
+  // rescheduled first. Resolves true if the time was reached.
+  const waitUntil = async (time: number, version: number) => {
+    const remaining = time - Date.now();
+    if (remaining <= 0) {
+      return true;
+    }
+
+    const interrupted = await condition(
+      () => !isPending() || scheduleVersion !== version,
+      remaining,
+    );
+    return !interrupted;
+  };
+
+  try {
+    // Step 1: Generate cover letter
+    console.log(
+      `Generating cover letter for application ${input.applicationId}`,
+    );
+    // The LLM being unavailable shouldn't cost the application its
+    // reminders; the cover letter can be generated again from the API
+    let coverLetterGenerated = true;
+    try {
+      await generateCoverLetter({
+        applicationId: input.applicationId,
+        ownerId: input.ownerId,
+        company: input.company,
+        role: input.role,
+        jobDescription: input.jobDescription,
+        resume: input.resume,
+        options: input.coverLetterOptions,
+      });
+    } catch (error) {
+      coverLetterGenerated = false;
+      console.error(
+        `Cover letter generation failed for application ${input.applicationId}:`,
+        error,
+      );
+    }
+
+    // Step 2: Send initial confirmation notification
+    if (coverLetterGenerated) {
+      await sendNotification({
+        applicationId: input.applicationId,
+        message: `Cover letter generated for ${input.company} - ${input.role} position`,
+        type: 'reminder',
+      });
+    }
+
+    // Steps 3-4: Deadline monitoring. Each pass works against the current
+    // deadline and reminder schedule; a deadlineUpdate or
+    // reminderScheduleUpdate signal interrupts whatever we're waiting on and
+    // the reminders and grace period are recomputed from the top.
+    let notifiedDeadline: number | null = null;
+
+    while (isPending()) {
+      const version = scheduleVersion;
+      const now = Date.now();
+
+      if (now < deadlineTime) {
+        // Offsets are sorted furthest first
+        const reminderStart = reminderOffsets.length
+          ? deadlineTime - parseReminderOffset(reminderOffsets[0])
+          : deadlineTime;
+
+        if (now >= reminderStart) {
+          // The dispatcher sends each reminder window once, shared with the
+          // API's deadline monitor
+          const sent = await dispatchReminder(input.applicationId);
+          if (sent) {
+            console.log(`Sent reminder for application ${input.applicationId}`);
+          }
+        } else {
+          console.log(
+            `Sleeping ${reminderStart - now}ms until reminder period starts for application ${input.applicationId}`,
+          );
+        }
+
+        // Sleep until the next reminder, or the deadline after the last one
+        const nextWake =
+          getNextReminderTime(deadlineTime, Date.now(), reminderOffsets) ??
+          deadlineTime;
+        await waitUntil(nextWake, version);
+        continue;
+      }
+
+      // Send final deadline notification, once per deadline
+      if (notifiedDeadline !== deadlineTime) {
+        notifiedDeadline = deadlineTime;
+        await sendNotification({
+          applicationId: input.applicationId,
+          message: `DEADLINE REACHED for ${input.company} - ${input.role}. Immediate action required!`,
+          type: 'deadline',
+        });
+
+        console.log(
+          `Starting grace period of ${gracePeriodDays} days for application ${input.applicationId}`,
+        );
+      }
+
+      // Wait for the grace period, measured from the current deadline
+      const graceEnd = deadlineTime + gracePeriodDays * ONE_DAY_MS;
+      if (!(await waitUntil(graceEnd, version))) {
+        continue;
+      }
+
+      // Check status after grace period
+      const finalStatus = await checkApplicationStatus(input.applicationId);
+
+      if (finalStatus === ApplicationStatus.PENDING && isPending()) {
+        // Auto-archive if still pending
+        await archiveApplication(input.applicationId);
+        await sendNotification({
+          applicationId: input.applicationId,
+          message: `Application for ${input.company} - ${input.role} has been automatically archived after grace period.`,
+          type: 'archive',
+        });
+      }
+      break;
+    }
+
+    console.log(`Workflow completed for application ${input.applicationId}`);
+  } catch (error) {
+    console.error(
+      `Workflow failed for application ${input.applicationId}:`,
+      error,
+    );
+
+    // Send error notification
+    await sendNotification({
+      applicationId: input.applicationId,
+      message: `Workflow error for ${input.company} - ${input.role}: ${error.message}`,
+      type: 'error',
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * The workflow as it was before the condition-based rewrite, kept unchanged
+ * so runs started by it still replay. Do not edit: any change to the
+ * commands it issues breaks those runs.
+ */
+async function legacyJobApplicationWorkflow(
+  input: JobApplicationWorkflowInput,
 ): Promise<void> {
   let currentStatus = ApplicationStatus.PENDING;
   let workflowCompleted = false;
@@ -120,7 +354,7 @@ export async function jobApplicationWorkflow(
         // Start immediate reminder loop since deadline is within 1 day
         reminderCancelScope = new CancellationScope();
         await reminderCancelScope.run(async () => {
-          await startReminderLoop(
+          await startLegacyReminderLoop(
             input,
             oneMinuteInMs,
             currentStatus,
@@ -157,7 +391,7 @@ export async function jobApplicationWorkflow(
           reminderCancelScope = new CancellationScope();
           try {
             await reminderCancelScope.run(async () => {
-              await startReminderLoop(
+              await startLegacyReminderLoop(
                 input,
                 oneMinuteInMs,
                 currentStatus,
@@ -247,7 +481,7 @@ export async function jobApplicationWorkflow(
 /**
  * Sends reminder notifications every minute until deadline is reached or workflow is completed
  */
-async function startReminderLoop(
+async function startLegacyReminderLoop(
   input: JobApplicationWorkflowInput,
   intervalMs: number,
   currentStatus: ApplicationStatus,
@@ -0,0 +1,110 @@
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker, bundleWorkflowCode, WorkflowBundle } from '@temporalio/worker';
+import { WorkflowHandle } from '@temporalio/client';
+
+import {
+  offerDeadlineWorkflow,
+  offerDeadlineSignal,
+  offerDecisionSignal,
+} from './offer-deadline.workflow';
+import { OfferDecision } from '../types/offer.types';
+
+describe('offerDeadlineWorkflow', () => {
+  let testEnv: TestWorkflowEnvironment;
+  let workflowBundle: WorkflowBundle;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const DAY_MS = 24 * HOUR_MS;
+
+  const mockActivities = {
+    sendOfferDeadlineReminder: jest.fn().mockResolvedValue(true),
+  };
+
+  const reminderCount = () =>
+    mockActivities.sendOfferDeadlineReminder.mock.calls.length;
+
+  const runWorkflow = async (
+    deadlineInMs: number,
+    interact: (
+      handle: WorkflowHandle<typeof offerDeadlineWorkflow>,
+    ) => Promise<void> = async () => undefined,
+  ) => {
+    const worker = await Worker.create({
+      connection: testEnv.nativeConnection,
+      taskQueue: 'test-offer-deadline',
+      workflowBundle,
+      activities: mockActivities,
+    });
+
+    await worker.runUntil(async () => {
+      const responseDeadline = new Date(
+        (await testEnv.currentTimeMs()) + deadlineInMs,
+      );
+      const handle = await testEnv.client.workflow.start(
+        offerDeadlineWorkflow,
+        {
+          taskQueue: 'test-offer-deadline',
+          workflowId: `offer-test-${Date.now()}`,
+          args: [
+            {
+              offerId: '7e1a9c3b-2f4d-4b6e-8a0c-5d3f1b7e9a24',
+              applicationId: '123e4567-e89b-12d3-a456-426614174000',
+              responseDeadline: responseDeadline.toISOString(),
+            },
+          ],
+        },
+      );
+      await interact(handle);
+      await handle.result();
+    });
+  };
+
+  beforeAll(async () => {
+    testEnv = await TestWorkflowEnvironment.createTimeSkipping();
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: require.resolve('./offer-deadline.workflow'),
+    });
+  }, 120_000);
+
+  afterAll(async () => {
+    await testEnv?.teardown();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should remind 3 days, 1 day and 2 hours before the deadline', async () => {
+    // When
+    await runWorkflow(7 * DAY_MS);
+
+    // Then
+    expect(reminderCount()).toBe(3);
+  }, 60_000);
+
+  it('should send one reminder for crossed offsets and stop at the decision', async () => {
+    // When: recorded 30 hours before the deadline, accepted a few hours later
+    await runWorkflow(30 * HOUR_MS, async (handle) => {
+      await testEnv.sleep(4 * HOUR_MS);
+      await handle.signal(offerDecisionSignal, OfferDecision.ACCEPTED);
+    });
+
+    // Then: the 3-day reminder fires on start; the 1-day one is never reached
+    expect(reminderCount()).toBe(1);
+  }, 60_000);
+
+  it('should restart reminders when the deadline is extended', async () => {
+    // When: moved a week later after the 1-day reminder
+    await runWorkflow(2 * DAY_MS, async (handle) => {
+      await testEnv.sleep(30 * HOUR_MS);
+      const newDeadline = (await testEnv.currentTimeMs()) + 7 * DAY_MS;
+      await handle.signal(
+        offerDeadlineSignal,
+        new Date(newDeadline).toISOString(),
+      );
+    });
+
+    // Then: 3-day and 1-day before the first deadline, then all three again
+    expect(reminderCount()).toBe(5);
+  }, 60_000);
+});
@@ -0,0 +1,110 @@
+import {
+  defineSignal,
+  setHandler,
+  condition,
+  proxyActivities,
+  workflowInfo,
+} from '@temporalio/workflow';
+import { OfferDecision, OfferWorkflowInput } from '../types/offer.types';
+import { getWorkflowInfoQuery } from './job-application.workflow';
+
+import type * as activities from '../activities/offer.activities';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Reminders before the response deadline, furthest first
+export const OFFER_REMINDER_OFFSETS_MS = [
+  3 * 24 * ONE_HOUR_MS,
+  24 * ONE_HOUR_MS,
+  2 * ONE_HOUR_MS,
+];
+
+// New response deadline as an ISO string
+export const offerDeadlineSignal = defineSignal<[string]>('offerDeadline');
+export const offerDecisionSignal =
+  defineSignal<[OfferDecision]>('offerDecision');
+
+const { sendOfferDeadlineReminder } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1s',
+    maximumInterval: '100s',
+    maximumAttempts: 3,
+  },
+});
+
+/**
+ * One run per offer with a response deadline: reminders 3 days, 1 day and
+ * 2 hours before it. Moving the deadline restarts the reminders; deciding
+ * on the offer or reaching the deadline ends the workflow.
+ */
+export async function offerDeadlineWorkflow(
+  input: OfferWorkflowInput,
+): Promise<void> {
+  let deadline = new Date(input.responseDeadline).getTime();
+  let decision = OfferDecision.PENDING;
+  // Bumped by deadline changes so pending waits start over
+  let scheduleVersion = 0;
+
+  setHandler(offerDeadlineSignal, (responseDeadline: string) => {
+    deadline = new Date(responseDeadline).getTime();
+    scheduleVersion++;
+
+    console.log(
+      `Offer ${input.offerId} response deadline moved to ${responseDeadline}`,
+    );
+  });
+
+  setHandler(offerDecisionSignal, (newDecision: OfferDecision) => {
+    decision = newDecision;
+  });
+
+  setHandler(getWorkflowInfoQuery, () => ({
+    workflowId: workflowInfo().workflowId,
+    runId: workflowInfo().runId,
+    offerId: input.offerId,
+    applicationId: input.applicationId,
+    responseDeadline: new Date(deadline).toISOString(),
+    decision,
+  }));
+
+  const hasDecision = () => decision !== OfferDecision.PENDING;
+
+  // Reminders already sent, keyed by deadline and offset so a new deadline
+  // gets a fresh set
+  const sent = new Set<string>();
+  const reminderKey = (offset: number) => `${deadline}:${offset}`;
+
+  while (!hasDecision()) {
+    const version = scheduleVersion;
+    const now = Date.now();
+    if (now >= deadline) {
+      break;
+    }
+
+    const unsent = OFFER_REMINDER_OFFSETS_MS.filter(
+      (offset) => !sent.has(reminderKey(offset)),
+    );
+
+    // Reminder times we've crossed collapse into one reminder, e.g. for an
+    // offer recorded the day before it expires
+    const due = unsent.filter((offset) => now >= deadline - offset);
+    if (due.length > 0) {
+      due.forEach((offset) => sent.add(reminderKey(offset)));
+      await sendOfferDeadlineReminder({ offerId: input.offerId });
+      continue;
+    }
+
+    // Offsets are sorted furthest first; with none left, wait out the
+    // deadline in case it is extended
+    const nextTime = unsent.length > 0 ? deadline - unsent[0] : deadline;
+    await condition(
+      () => hasDecision() || scheduleVersion !== version,
+      nextTime - now,
+    );
+  }
+
+  console.log(
+    `Offer deadline workflow completed for offer ${input.offerId} with decision ${decision}`,
+  );
+}
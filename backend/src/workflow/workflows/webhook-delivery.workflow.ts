@@ -0,0 +1,39 @@
+import { proxyActivities, ActivityFailure } from '@temporalio/workflow';
+
+import type * as activities from '../activities/webhook.activities';
+
+// Exponential backoff from 10 seconds, capped at an hour between attempts;
+// ten attempts ride out a receiver being down for about an hour and a half
+const { deliverWebhook } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '10s',
+    backoffCoefficient: 2,
+    maximumInterval: '1 hour',
+    maximumAttempts: 10,
+  },
+});
+
+const { markWebhookDeliveryFailed } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1s',
+    maximumInterval: '100s',
+    maximumAttempts: 3,
+  },
+});
+
+export async function webhookDeliveryWorkflow(
+  deliveryId: string,
+): Promise<void> {
+  try {
+    await deliverWebhook(deliveryId);
+  } catch (error) {
+    const cause =
+      error instanceof ActivityFailure && error.cause
+        ? error.cause.message
+        : String(error);
+    await markWebhookDeliveryFailed(deliveryId, cause);
+    throw error;
+  }
+}
@@ -1,5 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
@@ -12,6 +12,18 @@ import { LlmService } from '../src/llm/llm.service';
 
 describe('ApplicationsController (e2e)', () => {
   let app: INestApplication;
+  let accessToken: string;
+
+  const registerUser = async (): Promise<string> => {
+    const res = await request(app.getHttpServer())
+      .post('/api/auth/register')
+      .send({
+        email: `e2e-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`,
+        password: 'e2e-password-123',
+      })
+      .expect(201);
+    return res.body.accessToken;
+  };
 
   // Mock services
   const mockWorkflowService = {
@@ -41,15 +53,58 @@ describe('ApplicationsController (e2e)', () => {
     // Set global prefix (same as in main.ts)
     app.setGlobalPrefix('api');
 
+    // Query DTOs rely on transformation (arrays, numbers, defaults)
+    app.useGlobalPipes(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+
     moduleFixture.get<Repository<Application>>(getRepositoryToken(Application));
 
     await app.init();
+
+    accessToken = await registerUser();
   });
 
   afterEach(async () => {
     await app.close();
   });
 
+  describe('authentication', () => {
+    it('should reject requests without credentials', () => {
+      return request(app.getHttpServer()).get('/api/applications').expect(401);
+    });
+
+    it("should not expose another user's applications", async () => {
+      const created = await request(app.getHttpServer())
+        .post('/api/applications')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          company: 'Acme',
+          role: 'Engineer',
+          jobDescription: 'Build things',
+          resume: 'Built things',
+        })
+        .expect(201);
+
+      const otherToken = await registerUser();
+
+      await request(app.getHttpServer())
+        .get(`/api/applications/${created.body.id}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+
+      const list = await request(app.getHttpServer())
+        .get('/api/applications')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+      expect(list.body.total).toBe(0);
+    });
+  });
+
   describe('/api/applications (POST)', () => {
     const createApplicationDto = {
       company: 'Google',
@@ -61,6 +116,7 @@ describe('ApplicationsController (e2e)', () => {
     it('should create a new application', () => {
       return request(app.getHttpServer())
         .post('/api/applications')
+        .set('Authorization', `Bearer ${accessToken}`)
         .send(createApplicationDto)
         .expect(201)
         .expect((res) => {
@@ -75,6 +131,7 @@ describe('ApplicationsController (e2e)', () => {
     it('should return 400 for invalid data', () => {
       return request(app.getHttpServer())
         .post('/api/applications')
+        .set('Authorization', `Bearer ${accessToken}`)
         .send({
           company: '', // Invalid empty company
           role: 'Software Engineer',
@@ -84,30 +141,50 @@ describe('ApplicationsController (e2e)', () => {
   });
 
   describe('/api/applications (GET)', () => {
-    it('should return all applications', () => {
+    it('should return a paginated envelope', () => {
       return request(app.getHttpServer())
         .get('/api/applications')
+        .set('Authorization', `Bearer ${accessToken}`)
         .expect(200)
         .expect((res) => {
-          expect(Array.isArray(res.body)).toBe(true);
+          expect(Array.isArray(res.body.items)).toBe(true);
+          expect(typeof res.body.total).toBe('number');
+          expect(res.body.limit).toBe(20);
+          expect(res.body.offset).toBe(0);
         });
     });
 
-    it('should filter applications by status', () => {
+    it('should filter applications by multiple statuses', () => {
       return request(app.getHttpServer())
         .get('/api/applications')
-        .query({ status: ApplicationStatus.PENDING })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .query({
+          status: `${ApplicationStatus.PENDING},${ApplicationStatus.INTERVIEW}`,
+          sortBy: 'deadline',
+          sortOrder: 'asc',
+          limit: 5,
+        })
         .expect(200)
         .expect((res) => {
-          expect(Array.isArray(res.body)).toBe(true);
+          expect(Array.isArray(res.body.items)).toBe(true);
+          expect(res.body.limit).toBe(5);
         });
     });
+
+    it('should reject an unknown sort field', () => {
+      return request(app.getHttpServer())
+        .get('/api/applications')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .query({ sortBy: 'resume' })
+        .expect(400);
+    });
   });
 
   describe('/api/applications/:id (GET)', () => {
     it('should return 404 for non-existent application', () => {
       return request(app.getHttpServer())
         .get('/api/applications/non-existent-id')
+        .set('Authorization', `Bearer ${accessToken}`)
         .expect(404);
     });
   });
@@ -121,6 +198,7 @@ describe('ApplicationsController (e2e)', () => {
     it('should return 404 when updating non-existent application', () => {
       return request(app.getHttpServer())
         .patch('/api/applications/non-existent-id')
+        .set('Authorization', `Bearer ${accessToken}`)
         .send(updateDto)
         .expect(404);
     });
@@ -130,6 +208,7 @@ describe('ApplicationsController (e2e)', () => {
     it('should return 404 when deleting non-existent application', () => {
       return request(app.getHttpServer())
         .delete('/api/applications/non-existent-id')
+        .set('Authorization', `Bearer ${accessToken}`)
         .expect(404);
     });
   });
@@ -138,6 +217,7 @@ describe('ApplicationsController (e2e)', () => {
     it('should archive expired applications', () => {
       return request(app.getHttpServer())
         .post('/api/applications/archive-expired')
+        .set('Authorization', `Bearer ${accessToken}`)
         .expect(200)
         .expect((res) => {
           expect(res.body).toHaveProperty('archived');
@@ -1,52 +1,165 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Plus, RefreshCw, Bell } from 'lucide-react';
-import { Application, ApplicationStatus } from '@/lib/types';
-import { applicationApi, NotificationEvent } from '@/lib/api';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Plus,
+  RefreshCw,
+  Bell,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+  LogOut,
+  Settings,
+  Briefcase,
+} from 'lucide-react';
+import {
+  Application,
+  ApplicationSortField,
+  ApplicationStatus,
+  StatusCounts,
+  User,
+} from '@/lib/types';
+import { applicationApi, authApi, authToken, NotificationEvent } from '@/lib/api';
 import { ApplicationCard } from '@/components/application-card';
 import { ApplicationForm } from '@/components/application-form';
 import { BulkStatusUpdate } from '@/components/bulk-status-update';
 import { RemindersDashboard } from '@/components/reminders-dashboard';
+import { UpcomingInterviews } from '@/components/upcoming-interviews';
+import { OfferComparison } from '@/components/offer-comparison';
 import { NotificationSystem } from '@/components/notification-system';
+import { ProfileSettings } from '@/components/profile-settings';
+import { NotificationPreferencesForm } from '@/components/notification-preferences-form';
+import { CoverLetterPreferencesForm } from '@/components/cover-letter-preferences-form';
+import { FullTextSearchResults } from '@/components/full-text-search-results';
+import { AuthForm } from '@/components/auth-form';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 
-type ViewMode = 'dashboard' | 'form' | 'bulk-update' | 'reminders';
+type ViewMode = 'dashboard' | 'form' | 'bulk-update' | 'reminders' | 'offers' | 'settings';
+
+const PAGE_SIZE = 12;
+
+const sortOptions: Array<{ value: ApplicationSortField; label: string }> = [
+  { value: 'createdAt', label: 'Date added' },
+  { value: 'updatedAt', label: 'Last updated' },
+  { value: 'deadline', label: 'Deadline' },
+  { value: 'company', label: 'Company' },
+  { value: 'role', label: 'Role' },
+];
+
+const emptyStatusCounts = (): StatusCounts => ({
+  all: 0,
+  [ApplicationStatus.PENDING]: 0,
+  [ApplicationStatus.APPLIED]: 0,
+  [ApplicationStatus.INTERVIEW]: 0,
+  [ApplicationStatus.OFFER]: 0,
+  [ApplicationStatus.REJECTED]: 0,
+  [ApplicationStatus.WITHDRAWN]: 0,
+  [ApplicationStatus.ARCHIVED]: 0,
+});
 
 export default function HomePage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [applications, setApplications] = useState<Application[]>([]);
-  const [filteredApplications, setFilteredApplications] = useState<Application[]>([]);
+  const [activeApplications, setActiveApplications] = useState<Application[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<StatusCounts>(emptyStatusCounts);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<ViewMode>('dashboard');
   const [editingApplication, setEditingApplication] = useState<Application | null>(null);
   const [statusFilter, setStatusFilter] = useState<ApplicationStatus | 'all'>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [fullTextSearch, setFullTextSearch] = useState(false);
+  const [sortBy, setSortBy] = useState<ApplicationSortField>('createdAt');
+  const [sortOrder, setSortOrder] = useState<'ASC' | 'DESC'>('DESC');
   const [lastNotification, setLastNotification] = useState<NotificationEvent | null>(null);
+  const [interviewsRefreshKey, setInterviewsRefreshKey] = useState(0);
+
+  // Restore the session from a stored token, dropping it if it has expired
+  useEffect(() => {
+    if (!authToken.get()) {
+      setAuthChecked(true);
+      return;
+    }
+
+    authApi
+      .me()
+      .then(setUser)
+      .catch(() => authApi.logout())
+      .finally(() => setAuthChecked(true));
+  }, []);
 
-  const fetchApplications = async () => {
+  const fetchApplications = useCallback(async () => {
+    if (!user) return;
     setLoading(true);
     try {
-      const data = await applicationApi.getAll();
-      setApplications(data);
-      setFilteredApplications(data);
+      const [page, counts] = await Promise.all([
+        applicationApi.getAll({
+          status: statusFilter === 'all' ? undefined : [statusFilter],
+          search: search || undefined,
+          sortBy,
+          sortOrder,
+          limit: PAGE_SIZE,
+          offset,
+        }),
+        applicationApi.getStatusCounts(),
+      ]);
+      setApplications(page.items);
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+      setStatusCounts(counts);
+      setInterviewsRefreshKey((prev) => prev + 1);
     } catch (error) {
       console.error('Error fetching applications:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [user, statusFilter, search, sortBy, sortOrder, offset]);
+
+  // Bulk update and reminders work on every open application, not just the current page
+  const fetchActiveApplications = useCallback(async () => {
+    if (!user) return;
+    try {
+      const page = await applicationApi.getAll({
+        status: [ApplicationStatus.PENDING, ApplicationStatus.INTERVIEW],
+        sortBy: 'deadline',
+        sortOrder: 'ASC',
+        limit: 100,
+      });
+      setActiveApplications(page.items);
+    } catch (error) {
+      console.error('Error fetching active applications:', error);
+    }
+  }, [user]);
 
   useEffect(() => {
     fetchApplications();
-  }, []);
+  }, [fetchApplications]);
 
   useEffect(() => {
-    if (statusFilter === 'all') {
-      setFilteredApplications(applications);
-    } else {
-      setFilteredApplications(applications.filter((app) => app.status === statusFilter));
+    if (viewMode === 'bulk-update' || viewMode === 'reminders') {
+      fetchActiveApplications();
     }
-  }, [applications, statusFilter]);
+  }, [viewMode, fetchActiveApplications]);
+
+  // Debounce the search box so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setOffset(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const handleStatusFilterChange = (status: ApplicationStatus | 'all') => {
+    setStatusFilter(status);
+    setOffset(0);
+  };
 
   const handleFormSuccess = () => {
     setViewMode('dashboard');
@@ -65,7 +178,7 @@ export default function HomePage() {
   };
 
   const handleApplicationUpdate = (id: string, status: ApplicationStatus) => {
-    setApplications((prev) => prev.map((app) => (app.id === id ? { ...app, status } : app)));
+    setActiveApplications((prev) => prev.map((app) => (app.id === id ? { ...app, status } : app)));
   };
 
   const handleNotificationReceived = (notification: NotificationEvent) => {
@@ -77,25 +190,26 @@ export default function HomePage() {
     }
   };
 
-  const getStatusCounts = () => {
-    const counts = {
-      all: applications.length,
-      [ApplicationStatus.PENDING]: 0,
-      [ApplicationStatus.INTERVIEW]: 0,
-      [ApplicationStatus.OFFER]: 0,
-      [ApplicationStatus.REJECTED]: 0,
-      [ApplicationStatus.WITHDRAWN]: 0,
-      [ApplicationStatus.ARCHIVED]: 0,
-    };
-
-    applications.forEach((app) => {
-      counts[app.status]++;
-    });
-
-    return counts;
+  const handleLogout = () => {
+    authApi.logout();
+    setUser(null);
+    setApplications([]);
+    setActiveApplications([]);
+    setStatusCounts(emptyStatusCounts());
+    setViewMode('dashboard');
   };
 
-  const statusCounts = getStatusCounts();
+  if (!authChecked) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthForm onAuthenticated={setUser} />;
+  }
 
   // Dashboard view
   if (viewMode === 'dashboard') {
@@ -105,7 +219,7 @@ export default function HomePage() {
         <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
           <div>
             <h2 className="text-xl font-semibold text-gray-900">
-              Your Applications ({applications.length})
+              Your Applications ({statusCounts.all})
             </h2>
             <p className="text-gray-600">Track and manage your job applications</p>
           </div>
@@ -120,11 +234,18 @@ export default function HomePage() {
               <Plus className="h-4 w-4" />
               Add Application
             </Button>
+            <Button variant="ghost" onClick={() => setViewMode('settings')} title="Settings">
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" onClick={handleLogout} title={`Signed in as ${user.email}`}>
+              <LogOut className="h-4 w-4" />
+              Log out
+            </Button>
           </div>
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Button
             variant="outline"
             onClick={() => setViewMode('form')}
@@ -143,6 +264,15 @@ export default function HomePage() {
             <span>Bulk Update Status</span>
           </Button>
 
+          <Button
+            variant="outline"
+            onClick={() => setViewMode('offers')}
+            className="h-auto p-4 flex flex-col items-center gap-2"
+          >
+            <Briefcase className="h-6 w-6" />
+            <span>Compare Offers</span>
+          </Button>
+
           <Button
             variant="outline"
             onClick={fetchApplications}
@@ -154,12 +284,14 @@ export default function HomePage() {
           </Button>
         </div>
 
+        <UpcomingInterviews refreshKey={interviewsRefreshKey} />
+
         {/* Status Filter Tabs */}
         <div className="flex flex-wrap gap-2">
           <Button
             variant={statusFilter === 'all' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setStatusFilter('all')}
+            onClick={() => handleStatusFilterChange('all')}
             className="flex items-center gap-2"
           >
             All
@@ -171,7 +303,7 @@ export default function HomePage() {
               key={status}
               variant={statusFilter === status ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setStatusFilter(status)}
+              onClick={() => handleStatusFilterChange(status)}
               className="flex items-center gap-2"
             >
               {status.charAt(0).toUpperCase() + status.slice(1)}
@@ -180,19 +312,70 @@ export default function HomePage() {
           ))}
         </div>
 
+        {/* Search and Sort */}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder={
+                fullTextSearch
+                  ? 'Search descriptions, notes and cover letters...'
+                  : 'Search by company or role...'
+              }
+              className="pl-9"
+            />
+          </div>
+          <Button
+            variant={fullTextSearch ? 'default' : 'outline'}
+            onClick={() => setFullTextSearch((prev) => !prev)}
+            title="Search inside job descriptions, notes and cover letters"
+          >
+            Full text
+          </Button>
+          <select
+            value={sortBy}
+            onChange={(e) => {
+              setSortBy(e.target.value as ApplicationSortField);
+              setOffset(0);
+            }}
+            className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+          >
+            {sortOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSortOrder((prev) => (prev === 'ASC' ? 'DESC' : 'ASC'));
+              setOffset(0);
+            }}
+          >
+            {sortOrder === 'ASC' ? 'Ascending' : 'Descending'}
+          </Button>
+        </div>
+
         {/* Applications Grid */}
-        {loading ? (
+        {fullTextSearch && search ? (
+          <FullTextSearchResults query={search} onEdit={handleEdit} />
+        ) : loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
           </div>
-        ) : filteredApplications.length === 0 ? (
+        ) : applications.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-500 mb-4">
-              {statusFilter === 'all'
-                ? "No applications yet. Click 'Add Application' to get started!"
-                : `No applications with status: ${statusFilter}`}
+              {search
+                ? `No applications matching "${search}"`
+                : statusFilter === 'all'
+                  ? "No applications yet. Click 'Add Application' to get started!"
+                  : `No applications with status: ${statusFilter}`}
             </div>
-            {statusFilter === 'all' && (
+            {statusFilter === 'all' && !search && (
               <Button onClick={() => setViewMode('form')}>
                 <Plus className="h-4 w-4" />
                 Add Your First Application
@@ -200,15 +383,44 @@ export default function HomePage() {
             )}
           </div>
         ) : (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {filteredApplications.map((application) => (
-              <ApplicationCard
-                key={application.id}
-                application={application}
-                onUpdate={fetchApplications}
-                onEdit={handleEdit}
-              />
-            ))}
+          <div className="space-y-4">
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {applications.map((application) => (
+                <ApplicationCard
+                  key={application.id}
+                  application={application}
+                  onUpdate={fetchApplications}
+                  onEdit={handleEdit}
+                />
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                Showing {offset + 1}-{offset + applications.length} of {total}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset((prev) => Math.max(0, prev - PAGE_SIZE))}
+                  disabled={offset === 0 || loading}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+                  disabled={!hasMore || loading}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
           </div>
         )}
 
@@ -253,7 +465,7 @@ export default function HomePage() {
     return (
       <div className="space-y-6">
         <BulkStatusUpdate
-          applications={applications}
+          applications={activeApplications}
           onSuccess={() => {
             setViewMode('dashboard');
             fetchApplications();
@@ -276,10 +488,47 @@ export default function HomePage() {
         </div>
 
         <RemindersDashboard
-          applications={applications}
+          applications={activeApplications}
           onUpdateApplication={handleApplicationUpdate}
-          onRefresh={fetchApplications}
+          onRefresh={() => {
+            fetchApplications();
+            fetchActiveApplications();
+          }}
+        />
+      </div>
+    );
+  }
+
+  // Offer comparison view
+  if (viewMode === 'offers') {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => setViewMode('dashboard')}>
+            ← Back to Dashboard
+          </Button>
+          <h2 className="text-xl font-semibold">Compare Offers</h2>
+        </div>
+
+        <OfferComparison />
+      </div>
+    );
+  }
+
+  // Settings view
+  if (viewMode === 'settings') {
+    return (
+      <div className="space-y-6">
+        <ProfileSettings
+          user={user}
+          onSaved={(updated) => {
+            setUser(updated);
+            setViewMode('dashboard');
+          }}
+          onCancel={() => setViewMode('dashboard')}
         />
+        <NotificationPreferencesForm />
+        <CoverLetterPreferencesForm />
       </div>
     );
   }
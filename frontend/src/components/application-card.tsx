@@ -1,7 +1,16 @@
 'use client';
 
 import { useState } from 'react';
-import { Pencil, Trash2, Calendar, Building2, FileText } from 'lucide-react';
+import {
+  Pencil,
+  Trash2,
+  Calendar,
+  Building2,
+  FileText,
+  History,
+  RotateCcw,
+  CalendarClock,
+} from 'lucide-react';
 import { Application, ApplicationStatus } from '@/lib/types';
 import { formatDate, isOverdue, daysUntilDeadline } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -9,6 +18,9 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { applicationApi } from '@/lib/api';
 import { CoverLetterModal } from './cover-letter-modal';
+import { ApplicationTimeline } from './application-timeline';
+import { ApplicationInterviews } from './application-interviews';
+import { ApplicationOffer } from './application-offer';
 
 interface ApplicationCardProps {
   application: Application;
@@ -20,19 +32,30 @@ export function ApplicationCard({ application, onUpdate, onEdit }: ApplicationCa
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isCoverLetterModalOpen, setIsCoverLetterModalOpen] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [isInterviewsOpen, setIsInterviewsOpen] = useState(false);
 
   const overdue = isOverdue(application.deadline);
   const daysLeft = daysUntilDeadline(application.deadline);
 
-  const statusActions = [
-    { status: ApplicationStatus.INTERVIEW, label: 'Interview' },
-    { status: ApplicationStatus.OFFER, label: 'Offer' },
-    { status: ApplicationStatus.REJECTED, label: 'Rejected' },
-    { status: ApplicationStatus.WITHDRAWN, label: 'Withdrawn' },
-  ];
+  const statusLabels: Partial<Record<ApplicationStatus, string>> = {
+    [ApplicationStatus.APPLIED]: 'Applied',
+    [ApplicationStatus.INTERVIEW]: 'Interview',
+    [ApplicationStatus.OFFER]: 'Offer',
+    [ApplicationStatus.REJECTED]: 'Rejected',
+    [ApplicationStatus.WITHDRAWN]: 'Withdrawn',
+    [ApplicationStatus.ARCHIVED]: 'Archive',
+  };
+
+  // The API only lists transitions the backend will accept
+  const statusActions = (application.allowedTransitions ?? []).map((status) => ({
+    status,
+    label: statusLabels[status] ?? status,
+  }));
 
   const statusVariants = {
     [ApplicationStatus.PENDING]: 'secondary' as const,
+    [ApplicationStatus.APPLIED]: 'secondary' as const,
     [ApplicationStatus.INTERVIEW]: 'default' as const,
     [ApplicationStatus.OFFER]: 'default' as const,
     [ApplicationStatus.REJECTED]: 'destructive' as const,
@@ -52,6 +75,21 @@ export function ApplicationCard({ application, onUpdate, onEdit }: ApplicationCa
     }
   };
 
+  const handleReopen = async () => {
+    const comment = prompt('Reopen this application? Optionally add a comment:');
+    if (comment === null) return;
+
+    setIsUpdating(true);
+    try {
+      await applicationApi.reopen(application.id, comment ? { comment } : {});
+      onUpdate();
+    } catch (error) {
+      console.error('Error reopening application:', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (confirm('Are you sure you want to delete this application?')) {
       setIsDeleting(true);
@@ -94,6 +132,22 @@ export function ApplicationCard({ application, onUpdate, onEdit }: ApplicationCa
 
           <p className="text-sm text-gray-600 line-clamp-2">{application.jobDescription}</p>
 
+          {application.status === ApplicationStatus.APPLIED && application.followUpDraft && (
+            <details className="p-2 bg-purple-50 rounded text-sm">
+              <summary className="cursor-pointer font-medium">Follow-up email draft</summary>
+              <p className="mt-2 whitespace-pre-wrap">{application.followUpDraft}</p>
+            </details>
+          )}
+
+          {application.status === ApplicationStatus.OFFER && (
+            <details className="p-2 bg-green-50 rounded text-sm">
+              <summary className="cursor-pointer font-medium">Offer details</summary>
+              <div className="mt-2">
+                <ApplicationOffer applicationId={application.id} />
+              </div>
+            </details>
+          )}
+
           {application.notes && (
             <div className="p-2 bg-gray-50 rounded text-sm">
               <strong>Notes:</strong> {application.notes}
@@ -115,24 +169,66 @@ export function ApplicationCard({ application, onUpdate, onEdit }: ApplicationCa
               )}
             </Button>
             {application.coverLetter && <div className="text-xs text-green-600">✓ Generated</div>}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsInterviewsOpen(!isInterviewsOpen)}
+              className="flex items-center gap-2 ml-auto"
+            >
+              <CalendarClock className="h-4 w-4" />
+              Interviews
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsTimelineOpen(!isTimelineOpen)}
+              className="flex items-center gap-2"
+            >
+              <History className="h-4 w-4" />
+              History
+            </Button>
           </div>
+
+          {isInterviewsOpen && (
+            <div className="p-2 bg-cyan-50 rounded">
+              <ApplicationInterviews applicationId={application.id} />
+            </div>
+          )}
+
+          {isTimelineOpen && (
+            <div className="p-2 bg-gray-50 rounded">
+              <ApplicationTimeline
+                key={`${application.id}-${application.updatedAt}`}
+                applicationId={application.id}
+              />
+            </div>
+          )}
         </CardContent>
 
         <CardFooter className="flex flex-wrap gap-2">
-          {application.status === ApplicationStatus.PENDING && (
-            <>
-              {statusActions.map((action) => (
-                <Button
-                  key={action.status}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleStatusUpdate(action.status)}
-                  disabled={isUpdating}
-                >
-                  {action.label}
-                </Button>
-              ))}
-            </>
+          {statusActions.map((action) => (
+            <Button
+              key={action.status}
+              variant="outline"
+              size="sm"
+              onClick={() => handleStatusUpdate(action.status)}
+              disabled={isUpdating}
+            >
+              {action.label}
+            </Button>
+          ))}
+
+          {application.canReopen && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleReopen}
+              disabled={isUpdating}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Reopen
+            </Button>
           )}
 
           <div className="flex gap-2 ml-auto">
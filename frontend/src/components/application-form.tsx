@@ -9,6 +9,13 @@ import { Application, CreateApplicationDto } from '@/lib/types';
 import { applicationApi } from '@/lib/api';
 import { addWeeks, format } from 'date-fns';
 
+// Blank fields fall back to the server defaults
+const parseReminderOffsets = (value: string): string[] | null =>
+  value.trim() ? value.split(/[\s,]+/).filter(Boolean) : null;
+
+const parseGracePeriodDays = (value: string): number | null =>
+  value.trim() ? Number(value) : null;
+
 interface ApplicationFormProps {
   application?: Application;
   onSuccess: () => void;
@@ -17,15 +24,20 @@ interface ApplicationFormProps {
 
 export function ApplicationForm({ application, onSuccess, onCancel }: ApplicationFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const initialDeadline = application?.deadline
+    ? format(new Date(application.deadline), 'yyyy-MM-dd')
+    : format(addWeeks(new Date(), 4), 'yyyy-MM-dd');
+  const initialReminderOffsets = application?.reminderOffsets?.join(', ') ?? '';
+  const initialGracePeriodDays = application?.gracePeriodDays?.toString() ?? '';
   const [formData, setFormData] = useState({
     company: application?.company || '',
     role: application?.role || '',
     jobDescription: application?.jobDescription || '',
     resume: application?.resume || '',
-    deadline: application?.deadline
-      ? format(new Date(application.deadline), 'yyyy-MM-dd')
-      : format(addWeeks(new Date(), 4), 'yyyy-MM-dd'),
+    deadline: initialDeadline,
     notes: application?.notes || '',
+    reminderOffsets: initialReminderOffsets,
+    gracePeriodDays: initialGracePeriodDays,
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -36,12 +48,23 @@ export function ApplicationForm({ application, onSuccess, onCancel }: Applicatio
       const submitData: CreateApplicationDto = {
         ...formData,
         deadline: new Date(formData.deadline).toISOString(),
+        reminderOffsets: parseReminderOffsets(formData.reminderOffsets),
+        gracePeriodDays: parseGracePeriodDays(formData.gracePeriodDays),
       };
 
       if (application) {
-        // Update existing application
+        // Update existing application; only send the deadline and schedule when
+        // they changed so the workflow isn't rescheduled needlessly
+        const scheduleChanged =
+          formData.reminderOffsets !== initialReminderOffsets ||
+          formData.gracePeriodDays !== initialGracePeriodDays;
         await applicationApi.update(application.id, {
           notes: formData.notes,
+          ...(formData.deadline !== initialDeadline && { deadline: submitData.deadline }),
+          ...(scheduleChanged && {
+            reminderOffsets: submitData.reminderOffsets,
+            gracePeriodDays: submitData.gracePeriodDays,
+          }),
         });
       } else {
         // Create new application
@@ -137,8 +160,48 @@ export function ApplicationForm({ application, onSuccess, onCancel }: Applicatio
               type="date"
               value={formData.deadline}
               onChange={(e) => handleChange('deadline', e.target.value)}
-              disabled={!!application}
+              required={!!application}
             />
+            {application && (
+              <p className="text-xs text-gray-500">
+                Changing the deadline reschedules reminders and the grace period.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="reminderOffsets" className="text-sm font-medium">
+                Reminders before deadline
+              </label>
+              <Input
+                id="reminderOffsets"
+                value={formData.reminderOffsets}
+                onChange={(e) => handleChange('reminderOffsets', e.target.value)}
+                placeholder="3d, 2d, 1d, 12h, 6h, 2h"
+              />
+              <p className="text-xs text-gray-500">
+                Minutes (m), hours (h) or days (d). Leave empty for the default schedule.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="gracePeriodDays" className="text-sm font-medium">
+                Grace period (days)
+              </label>
+              <Input
+                id="gracePeriodDays"
+                type="number"
+                min={0}
+                max={365}
+                value={formData.gracePeriodDays}
+                onChange={(e) => handleChange('gracePeriodDays', e.target.value)}
+                placeholder="7"
+              />
+              <p className="text-xs text-gray-500">
+                Pending applications are archived this long after the deadline.
+              </p>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -156,7 +219,7 @@ export function ApplicationForm({ application, onSuccess, onCancel }: Applicatio
 
           <div className="flex gap-2 pt-4">
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Saving...' : application ? 'Update Notes' : 'Create Application'}
+              {isSubmitting ? 'Saving...' : application ? 'Save Changes' : 'Create Application'}
             </Button>
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Interview, InterviewFormat, InterviewOutcome } from '@/lib/types';
+import { interviewApi } from '@/lib/api';
+import { formatInterviewTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+interface ApplicationInterviewsProps {
+  applicationId: string;
+}
+
+const outcomeVariants = {
+  [InterviewOutcome.PENDING]: 'secondary' as const,
+  [InterviewOutcome.PASSED]: 'default' as const,
+  [InterviewOutcome.FAILED]: 'destructive' as const,
+  [InterviewOutcome.CANCELLED]: 'outline' as const,
+};
+
+const outcomeActions = [
+  { outcome: InterviewOutcome.PASSED, label: 'Passed' },
+  { outcome: InterviewOutcome.FAILED, label: 'Failed' },
+  { outcome: InterviewOutcome.CANCELLED, label: 'Cancelled' },
+];
+
+const emptyForm = () => ({
+  scheduledAt: '',
+  format: InterviewFormat.VIDEO,
+  interviewers: '',
+  location: '',
+});
+
+export function ApplicationInterviews({ applicationId }: ApplicationInterviewsProps) {
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchInterviews = useCallback(async () => {
+    try {
+      setInterviews(await interviewApi.getAll(applicationId));
+    } catch (error) {
+      console.error('Error fetching interviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    fetchInterviews();
+  }, [fetchInterviews]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.scheduledAt) return;
+
+    setIsSubmitting(true);
+    try {
+      await interviewApi.create(applicationId, {
+        // datetime-local values are in the browser's zone, so schedule in it too
+        scheduledAt: new Date(formData.scheduledAt).toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        format: formData.format,
+        interviewers: formData.interviewers
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean),
+        location: formData.location || undefined,
+      });
+      setFormData(emptyForm());
+      await fetchInterviews();
+    } catch (error) {
+      console.error('Error scheduling interview:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOutcome = async (interview: Interview, outcome: InterviewOutcome) => {
+    try {
+      await interviewApi.update(applicationId, interview.id, { outcome });
+      await fetchInterviews();
+    } catch (error) {
+      console.error('Error recording interview outcome:', error);
+    }
+  };
+
+  const handleDelete = async (interview: Interview) => {
+    if (!confirm('Delete this interview?')) return;
+
+    try {
+      await interviewApi.delete(applicationId, interview.id);
+      await fetchInterviews();
+    } catch (error) {
+      console.error('Error deleting interview:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading interviews...</div>
+      ) : interviews.length === 0 ? (
+        <div className="text-sm text-gray-500">No interviews scheduled</div>
+      ) : (
+        <ul className="space-y-2">
+          {interviews.map((interview) => (
+            <li key={interview.id} className="text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  Round {interview.round} · {interview.format}
+                </span>
+                <Badge variant={outcomeVariants[interview.outcome]}>{interview.outcome}</Badge>
+              </div>
+              <div className="text-xs text-gray-600">
+                {formatInterviewTime(interview.scheduledAt, interview.timezone)}
+                {interview.interviewers.length > 0 && ` · ${interview.interviewers.join(', ')}`}
+              </div>
+              {interview.location && (
+                <div className="text-xs text-gray-600">{interview.location}</div>
+              )}
+              <div className="flex flex-wrap gap-1 mt-1">
+                {interview.outcome === InterviewOutcome.PENDING &&
+                  outcomeActions.map((action) => (
+                    <Button
+                      key={action.outcome}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleOutcome(interview, action.outcome)}
+                    >
+                      {action.label}
+                    </Button>
+                  ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(interview)}
+                  className="ml-auto"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2 border-t pt-2">
+        <div className="flex gap-2">
+          <Input
+            type="datetime-local"
+            value={formData.scheduledAt}
+            onChange={(e) => setFormData((prev) => ({ ...prev, scheduledAt: e.target.value }))}
+            required
+          />
+          <select
+            value={formData.format}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, format: e.target.value as InterviewFormat }))
+            }
+            className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+          >
+            {Object.values(InterviewFormat).map((format) => (
+              <option key={format} value={format}>
+                {format}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          value={formData.interviewers}
+          onChange={(e) => setFormData((prev) => ({ ...prev, interviewers: e.target.value }))}
+          placeholder="Interviewers, comma separated"
+        />
+        <Input
+          value={formData.location}
+          onChange={(e) => setFormData((prev) => ({ ...prev, location: e.target.value }))}
+          placeholder="Location or meeting link"
+        />
+        <Button type="submit" size="sm" disabled={isSubmitting}>
+          {isSubmitting ? 'Scheduling...' : 'Schedule Interview'}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Offer, OfferDecision } from '@/lib/types';
+import { ApiError, offerApi } from '@/lib/api';
+import { formatDate, formatMoney, totalCompensation } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ApplicationOfferProps {
+  applicationId: string;
+}
+
+const decisionVariants = {
+  [OfferDecision.PENDING]: 'secondary' as const,
+  [OfferDecision.ACCEPTED]: 'default' as const,
+  [OfferDecision.DECLINED]: 'outline' as const,
+};
+
+// datetime-local wants local time without a zone
+function toLocalInput(date?: string | null) {
+  if (!date) return '';
+  const value = new Date(date);
+  value.setMinutes(value.getMinutes() - value.getTimezoneOffset());
+  return value.toISOString().slice(0, 16);
+}
+
+const toFormData = (offer: Offer | null) => ({
+  baseSalary: offer ? String(offer.baseSalary) : '',
+  bonus: offer?.bonus != null ? String(offer.bonus) : '',
+  equity: offer?.equity != null ? String(offer.equity) : '',
+  currency: offer?.currency ?? 'USD',
+  startDate: offer?.startDate ?? '',
+  location: offer?.location ?? '',
+  benefits: offer?.benefits ?? '',
+  responseDeadline: toLocalInput(offer?.responseDeadline),
+});
+
+export function ApplicationOffer({ applicationId }: ApplicationOfferProps) {
+  const [offer, setOffer] = useState<Offer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(() => toFormData(null));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchOffer = async () => {
+      try {
+        const loaded = await offerApi.get(applicationId);
+        if (!cancelled) setOffer(loaded);
+      } catch (error) {
+        // No offer recorded yet
+        if (!(error instanceof ApiError && error.status === 404)) {
+          console.error('Error fetching offer:', error);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchOffer();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId]);
+
+  const handleChange = (field: keyof ReturnType<typeof toFormData>, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      const data = {
+        baseSalary: Number(formData.baseSalary),
+        bonus: formData.bonus ? Number(formData.bonus) : null,
+        equity: formData.equity ? Number(formData.equity) : null,
+        currency: formData.currency.toUpperCase(),
+        startDate: formData.startDate || null,
+        location: formData.location || null,
+        benefits: formData.benefits || null,
+        responseDeadline: formData.responseDeadline
+          ? new Date(formData.responseDeadline).toISOString()
+          : null,
+      };
+      setOffer(
+        offer
+          ? await offerApi.update(applicationId, data)
+          : await offerApi.create(applicationId, data),
+      );
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error saving offer:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDecision = async (decision: OfferDecision) => {
+    try {
+      setOffer(await offerApi.update(applicationId, { decision }));
+    } catch (error) {
+      console.error('Error recording offer decision:', error);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading offer...</div>;
+  }
+
+  if (offer && !isEditing) {
+    return (
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium">
+            {formatMoney(totalCompensation(offer), offer.currency)} / year
+          </span>
+          <Badge variant={decisionVariants[offer.decision]}>{offer.decision}</Badge>
+        </div>
+        <div className="text-xs text-gray-600">
+          Base {formatMoney(offer.baseSalary, offer.currency)}
+          {offer.bonus != null && ` · Bonus ${formatMoney(offer.bonus, offer.currency)}`}
+          {offer.equity != null && ` · Equity ${formatMoney(offer.equity, offer.currency)}`}
+        </div>
+        {offer.startDate && (
+          <div className="text-xs text-gray-600">
+            Starts {formatDate(`${offer.startDate}T00:00:00`)}
+          </div>
+        )}
+        {offer.location && <div className="text-xs text-gray-600">{offer.location}</div>}
+        {offer.responseDeadline && (
+          <div className="text-xs text-gray-600">
+            Respond by {new Date(offer.responseDeadline).toLocaleString()}
+          </div>
+        )}
+        {offer.benefits && <p className="text-xs whitespace-pre-wrap">{offer.benefits}</p>}
+        <div className="flex flex-wrap gap-1">
+          {offer.decision === OfferDecision.PENDING && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDecision(OfferDecision.ACCEPTED)}
+              >
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDecision(OfferDecision.DECLINED)}
+              >
+                Decline
+              </Button>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setFormData(toFormData(offer));
+              setIsEditing(true);
+            }}
+            className="ml-auto"
+          >
+            Edit
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={0}
+          value={formData.baseSalary}
+          onChange={(e) => handleChange('baseSalary', e.target.value)}
+          placeholder="Base salary"
+          required
+        />
+        <Input
+          value={formData.currency}
+          onChange={(e) => handleChange('currency', e.target.value)}
+          placeholder="USD"
+          maxLength={3}
+          className="w-20"
+          required
+        />
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={0}
+          value={formData.bonus}
+          onChange={(e) => handleChange('bonus', e.target.value)}
+          placeholder="Yearly bonus"
+        />
+        <Input
+          type="number"
+          min={0}
+          value={formData.equity}
+          onChange={(e) => handleChange('equity', e.target.value)}
+          placeholder="Yearly equity"
+        />
+      </div>
+      <div className="flex gap-2">
+        <label className="flex-1 text-xs text-gray-600">
+          Start date
+          <Input
+            type="date"
+            value={formData.startDate}
+            onChange={(e) => handleChange('startDate', e.target.value)}
+          />
+        </label>
+        <label className="flex-1 text-xs text-gray-600">
+          Respond by
+          <Input
+            type="datetime-local"
+            value={formData.responseDeadline}
+            onChange={(e) => handleChange('responseDeadline', e.target.value)}
+          />
+        </label>
+      </div>
+      <Input
+        value={formData.location}
+        onChange={(e) => handleChange('location', e.target.value)}
+        placeholder="Location or remote policy"
+      />
+      <Textarea
+        value={formData.benefits}
+        onChange={(e) => handleChange('benefits', e.target.value)}
+        placeholder="Benefits and other terms"
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : offer ? 'Save Offer' : 'Record Offer'}
+        </Button>
+        {offer && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApplicationStatusChange, StatusChangeSource } from '@/lib/types';
+import { applicationApi } from '@/lib/api';
+
+interface ApplicationTimelineProps {
+  applicationId: string;
+}
+
+const sourceLabels: Record<StatusChangeSource, string> = {
+  [StatusChangeSource.REST]: 'Manual update',
+  [StatusChangeSource.BULK_UPDATE]: 'Bulk update',
+  [StatusChangeSource.WORKFLOW_ARCHIVE]: 'Workflow',
+  [StatusChangeSource.ARCHIVE_EXPIRED]: 'Auto-archive',
+  [StatusChangeSource.REOPEN]: 'Reopened',
+};
+
+function formatTimestamp(date: string) {
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function ApplicationTimeline({ applicationId }: ApplicationTimelineProps) {
+  const [changes, setChanges] = useState<ApplicationStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTimeline = async () => {
+      setLoading(true);
+      try {
+        const timeline = await applicationApi.getTimeline(applicationId);
+        if (!cancelled) setChanges(timeline);
+      } catch (error) {
+        console.error('Error fetching application timeline:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchTimeline();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId]);
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (changes.length === 0) {
+    return <div className="text-sm text-gray-500">No status changes yet</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+      {changes.map((change) => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-400" />
+          <div className="text-sm">
+            <span className="font-medium">{change.fromStatus ?? 'created'}</span>
+            {' → '}
+            <span className="font-medium">{change.toStatus}</span>
+          </div>
+          <div className="text-xs text-gray-500">
+            {formatTimestamp(change.changedAt)} · {sourceLabels[change.source]}
+          </div>
+          {change.comment && <div className="text-xs text-gray-600 mt-1">{change.comment}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+}
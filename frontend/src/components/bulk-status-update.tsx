@@ -15,6 +15,7 @@ interface BulkStatusUpdateProps {
 }
 
 const statusOptions = [
+  { status: ApplicationStatus.APPLIED, label: 'Applied', variant: 'secondary' as const },
   { status: ApplicationStatus.INTERVIEW, label: 'Interview', variant: 'warning' as const },
   { status: ApplicationStatus.OFFER, label: 'Offer', variant: 'success' as const },
   { status: ApplicationStatus.REJECTED, label: 'Rejected', variant: 'destructive' as const },
@@ -22,6 +23,13 @@ const statusOptions = [
   { status: ApplicationStatus.ARCHIVED, label: 'Archived', variant: 'secondary' as const },
 ];
 
+// Applications still waiting on a decision
+const eligibleStatuses = [
+  ApplicationStatus.PENDING,
+  ApplicationStatus.APPLIED,
+  ApplicationStatus.INTERVIEW,
+];
+
 export function BulkStatusUpdate({ applications, onSuccess, onCancel }: BulkStatusUpdateProps) {
   const [selectedApplications, setSelectedApplications] = useState<Set<string>>(new Set());
   const [selectedStatus, setSelectedStatus] = useState<ApplicationStatus | null>(null);
@@ -40,9 +48,8 @@ export function BulkStatusUpdate({ applications, onSuccess, onCancel }: BulkStat
   };
 
   const handleSelectAll = () => {
-    const eligibleApplications = applications.filter(
-      (app) =>
-        app.status === ApplicationStatus.PENDING || app.status === ApplicationStatus.INTERVIEW,
+    const eligibleApplications = applications.filter((app) =>
+      eligibleStatuses.includes(app.status),
     );
     setSelectedApplications(new Set(eligibleApplications.map((app) => app.id)));
   };
@@ -73,9 +80,7 @@ export function BulkStatusUpdate({ applications, onSuccess, onCancel }: BulkStat
     }
   };
 
-  const eligibleApplications = applications.filter(
-    (app) => app.status === ApplicationStatus.PENDING || app.status === ApplicationStatus.INTERVIEW,
-  );
+  const eligibleApplications = applications.filter((app) => eligibleStatuses.includes(app.status));
 
   const selectedCount = selectedApplications.size;
 
@@ -150,7 +155,7 @@ export function BulkStatusUpdate({ applications, onSuccess, onCancel }: BulkStat
             <div className="text-center py-8 text-gray-500">
               No eligible applications for bulk update.
               <br />
-              Only pending and interview applications can be bulk updated.
+              Only pending, applied and interview applications can be bulk updated.
             </div>
           )}
         </div>
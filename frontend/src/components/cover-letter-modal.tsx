@@ -1,12 +1,30 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Application } from '@/lib/types';
+import { Textarea } from '@/components/ui/textarea';
+import { Application, CoverLetterDraft } from '@/lib/types';
 import { applicationApi } from '@/lib/api';
-import { X, FileText, RefreshCw, Copy, CheckCheck } from 'lucide-react';
+import { CoverLetterVersions } from './cover-letter-versions';
+import {
+  CoverLetterOptionsFields,
+  CoverLetterOptionsForm,
+  toCoverLetterOptions,
+  toOptionsForm,
+} from './cover-letter-options-fields';
+import {
+  X,
+  FileText,
+  RefreshCw,
+  Copy,
+  CheckCheck,
+  Sparkles,
+  Check,
+  Square,
+  SlidersHorizontal,
+} from 'lucide-react';
 
 interface CoverLetterModalProps {
   application: Application;
@@ -24,27 +42,119 @@ export function CoverLetterModal({
   const [isGenerating, setIsGenerating] = useState(false);
   const [currentApplication, setCurrentApplication] = useState(application);
   const [isCopied, setIsCopied] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  // Improved version waiting to be accepted or rejected
+  const [draft, setDraft] = useState<CoverLetterDraft | null>(null);
+  const [isImproving, setIsImproving] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
+  // Text received so far while a letter is being generated
+  const [streamedText, setStreamedText] = useState<string | null>(null);
+  const cancelGenerationRef = useRef<AbortController | null>(null);
+  // Options for the next generation, starting from the saved preferences
+  const [options, setOptions] = useState<CoverLetterOptionsForm | null>(null);
+
+  // Cancel on the server too if the card goes away mid-generation
+  useEffect(() => () => cancelGenerationRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    applicationApi
+      .getCoverLetterPreferences()
+      .then((preferences) => setOptions((current) => current ?? toOptionsForm(preferences)))
+      .catch((error) => console.error('Error loading cover letter preferences:', error));
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  const displayedLetter = draft?.coverLetter ?? currentApplication.coverLetter;
+
+  const applyCoverLetter = (updatedApplication: Application) => {
+    setCurrentApplication(updatedApplication);
+    setDraft(null);
+    setVersionsRefreshKey((key) => key + 1);
+    onUpdate(); // Refresh the parent component
+  };
+
   const handleGenerateCoverLetter = async () => {
+    const cancel = new AbortController();
+    cancelGenerationRef.current = cancel;
     setIsGenerating(true);
+    setStreamedText('');
     try {
-      const updatedApplication = await applicationApi.generateCoverLetter(application.id);
-      setCurrentApplication(updatedApplication);
-      onUpdate(); // Refresh the parent component
+      applyCoverLetter(
+        await applicationApi.streamCoverLetter(
+          application.id,
+          // Without loaded options the server uses the preferences itself
+          options ? toCoverLetterOptions(options) : {},
+          (text) => setStreamedText((prev) => (prev ?? '') + text),
+          cancel.signal,
+        ),
+      );
     } catch (error) {
-      console.error('Error generating cover letter:', error);
-      alert('Error generating cover letter. Please try again.');
+      // Stopped by the user; the previous letter is kept
+      if (!cancel.signal.aborted) {
+        console.error('Error generating cover letter:', error);
+        alert('Error generating cover letter. Please try again.');
+      }
     } finally {
+      cancelGenerationRef.current = null;
+      setStreamedText(null);
       setIsGenerating(false);
     }
   };
 
+  const handleStopGenerating = () => cancelGenerationRef.current?.abort();
+
+  const handleClose = () => {
+    handleStopGenerating();
+    onClose();
+  };
+
+  const handleImprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback.trim()) return;
+
+    setIsImproving(true);
+    try {
+      // Further feedback refines the pending draft rather than the saved letter
+      const improved = await applicationApi.improveCoverLetter(application.id, {
+        feedback: feedback.trim(),
+        coverLetter: draft?.coverLetter,
+      });
+      setDraft(improved);
+      setFeedback('');
+      setVersionsRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error improving cover letter:', error);
+      alert('Error improving cover letter. Please try again.');
+    } finally {
+      setIsImproving(false);
+    }
+  };
+
+  const handleAcceptDraft = async () => {
+    if (draft === null) return;
+
+    setIsAccepting(true);
+    try {
+      // The draft is already a version; accepting makes it current
+      applyCoverLetter(
+        await applicationApi.restoreCoverLetterVersion(application.id, draft.versionId),
+      );
+    } catch (error) {
+      console.error('Error saving cover letter:', error);
+      alert('Error saving cover letter. Please try again.');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
   const handleCopyToClipboard = async () => {
-    if (currentApplication.coverLetter) {
+    if (displayedLetter) {
       try {
-        await navigator.clipboard.writeText(currentApplication.coverLetter);
+        await navigator.clipboard.writeText(displayedLetter);
         setIsCopied(true);
         setTimeout(() => setIsCopied(false), 2000);
       } catch (error) {
@@ -66,7 +176,7 @@ export function CoverLetterModal({
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {currentApplication.coverLetter && (
+            {displayedLetter && (
               <Button
                 variant="outline"
                 size="sm"
@@ -86,38 +196,134 @@ export function CoverLetterModal({
                 )}
               </Button>
             )}
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleGenerateCoverLetter}
-              disabled={isGenerating}
-            >
-              {isGenerating ? (
-                <>
-                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <RefreshCw className="h-4 w-4 mr-2" />
-                  {currentApplication.coverLetter ? 'Regenerate' : 'Generate'}
-                </>
-              )}
-            </Button>
-            <Button variant="ghost" size="sm" onClick={onClose}>
+            {isGenerating ? (
+              <Button variant="outline" size="sm" onClick={handleStopGenerating}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleGenerateCoverLetter}
+                disabled={isImproving}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {currentApplication.coverLetter ? 'Regenerate' : 'Generate'}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={handleClose}>
               <X className="h-4 w-4" />
             </Button>
           </div>
         </CardHeader>
 
         <CardContent className="overflow-y-auto max-h-[calc(90vh-120px)]">
-          {currentApplication.coverLetter ? (
-            <div className="space-y-4">
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <pre className="whitespace-pre-wrap text-sm font-sans leading-relaxed">
-                  {currentApplication.coverLetter}
-                </pre>
+          {options && !isGenerating && (
+            <details className="mb-4 text-sm">
+              <summary className="cursor-pointer text-gray-600">
+                <SlidersHorizontal className="inline h-4 w-4 mr-1" />
+                Generation options
+              </summary>
+              <div className="mt-2">
+                <CoverLetterOptionsFields
+                  form={options}
+                  onChange={(changes) =>
+                    setOptions((prev) => (prev ? { ...prev, ...changes } : prev))
+                  }
+                  showHiringManager
+                />
               </div>
+            </details>
+          )}
+
+          {streamedText !== null ? (
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <pre className="whitespace-pre-wrap text-sm font-sans leading-relaxed">
+                {streamedText || 'Generating...'}
+                <span className="animate-pulse">▍</span>
+              </pre>
+            </div>
+          ) : currentApplication.coverLetter ? (
+            <div className="space-y-4">
+              {draft !== null ? (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-blue-700">Improved draft</span>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={handleAcceptDraft} disabled={isAccepting}>
+                        <Check className="h-4 w-4 mr-2" />
+                        {isAccepting ? 'Saving...' : 'Accept'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDraft(null)}
+                        disabled={isAccepting}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="bg-blue-50 p-4 rounded-lg">
+                    <pre className="whitespace-pre-wrap text-sm font-sans leading-relaxed">
+                      {draft.coverLetter}
+                    </pre>
+                  </div>
+                  <details className="text-sm">
+                    <summary className="cursor-pointer text-gray-600">Current cover letter</summary>
+                    <pre className="mt-2 bg-gray-50 p-4 rounded-lg whitespace-pre-wrap text-sm font-sans leading-relaxed">
+                      {currentApplication.coverLetter}
+                    </pre>
+                  </details>
+                </>
+              ) : (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <pre className="whitespace-pre-wrap text-sm font-sans leading-relaxed">
+                    {currentApplication.coverLetter}
+                  </pre>
+                </div>
+              )}
+
+              <form onSubmit={handleImprove} className="space-y-2">
+                <Textarea
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  placeholder={
+                    draft !== null
+                      ? 'More feedback on the draft...'
+                      : 'What should change? e.g. shorter, more enthusiastic, mention my open source work'
+                  }
+                  rows={2}
+                  maxLength={2000}
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  size="sm"
+                  disabled={isImproving || isGenerating || !feedback.trim()}
+                >
+                  {isImproving ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                      Improving...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="h-4 w-4 mr-2" />
+                      Improve
+                    </>
+                  )}
+                </Button>
+              </form>
+
+              <CoverLetterVersions
+                applicationId={application.id}
+                currentLetter={currentApplication.coverLetter}
+                refreshKey={versionsRefreshKey}
+                onRestore={applyCoverLetter}
+              />
 
               <div className="text-xs text-gray-500 text-center">
                 Cover letter generated using AI. Please review and customize as needed.
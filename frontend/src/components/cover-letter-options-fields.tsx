@@ -0,0 +1,125 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import {
+  CoverLetterFormat,
+  CoverLetterOptions,
+  CoverLetterPreferences,
+  CoverLetterTone,
+} from '@/lib/types';
+
+// Form state; blank fields mean "use the default"
+export interface CoverLetterOptionsForm {
+  tone: CoverLetterTone;
+  wordCount: string;
+  language: string;
+  // Comma separated
+  emphasis: string;
+  hiringManagerName: string;
+  format: CoverLetterFormat;
+}
+
+const toneLabels: Record<CoverLetterTone, string> = {
+  [CoverLetterTone.PROFESSIONAL]: 'Professional',
+  [CoverLetterTone.ENTHUSIASTIC]: 'Enthusiastic',
+  [CoverLetterTone.FORMAL]: 'Formal',
+  [CoverLetterTone.FRIENDLY]: 'Friendly',
+  [CoverLetterTone.CONFIDENT]: 'Confident',
+};
+
+export function toOptionsForm(preferences: CoverLetterPreferences): CoverLetterOptionsForm {
+  return {
+    tone: preferences.tone,
+    wordCount: preferences.wordCount ? String(preferences.wordCount) : '',
+    language: preferences.language ?? '',
+    emphasis: preferences.emphasis.join(', '),
+    hiringManagerName: '',
+    format: preferences.format,
+  };
+}
+
+export function toCoverLetterOptions(form: CoverLetterOptionsForm): CoverLetterOptions {
+  return {
+    tone: form.tone,
+    wordCount: form.wordCount ? Number(form.wordCount) : undefined,
+    language: form.language.trim() || undefined,
+    emphasis: form.emphasis
+      .split(',')
+      .map((skill) => skill.trim())
+      .filter(Boolean),
+    hiringManagerName: form.hiringManagerName.trim() || undefined,
+    format: form.format,
+  };
+}
+
+interface CoverLetterOptionsFieldsProps {
+  form: CoverLetterOptionsForm;
+  onChange: (changes: Partial<CoverLetterOptionsForm>) => void;
+  // The hiring manager differs per application, so it is never a default
+  showHiringManager?: boolean;
+}
+
+export function CoverLetterOptionsFields({
+  form,
+  onChange,
+  showHiringManager = false,
+}: CoverLetterOptionsFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        aria-label="Tone"
+        value={form.tone}
+        onChange={(e) => onChange({ tone: e.target.value as CoverLetterTone })}
+        className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+      >
+        {Object.values(CoverLetterTone).map((tone) => (
+          <option key={tone} value={tone}>
+            {toneLabels[tone]} tone
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Format"
+        value={form.format}
+        onChange={(e) => onChange({ format: e.target.value as CoverLetterFormat })}
+        className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+      >
+        <option value={CoverLetterFormat.PLAIN}>Plain text</option>
+        <option value={CoverLetterFormat.MARKDOWN}>Markdown</option>
+      </select>
+      <Input
+        type="number"
+        aria-label="Target word count"
+        min={100}
+        max={1000}
+        step={50}
+        value={form.wordCount}
+        onChange={(e) => onChange({ wordCount: e.target.value })}
+        placeholder="Words (default 3-4 paragraphs)"
+      />
+      <Input
+        aria-label="Language"
+        value={form.language}
+        onChange={(e) => onChange({ language: e.target.value })}
+        maxLength={50}
+        placeholder="Language, e.g. German"
+      />
+      <Input
+        aria-label="Skills to emphasize"
+        value={form.emphasis}
+        onChange={(e) => onChange({ emphasis: e.target.value })}
+        placeholder="Skills to emphasize, comma separated"
+        className={showHiringManager ? undefined : 'col-span-2'}
+      />
+      {showHiringManager && (
+        <Input
+          aria-label="Hiring manager"
+          value={form.hiringManagerName}
+          onChange={(e) => onChange({ hiringManagerName: e.target.value })}
+          maxLength={100}
+          placeholder="Hiring manager's name"
+        />
+      )}
+    </div>
+  );
+}
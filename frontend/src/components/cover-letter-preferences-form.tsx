@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { applicationApi } from '@/lib/api';
+import {
+  CoverLetterOptionsFields,
+  CoverLetterOptionsForm,
+  toCoverLetterOptions,
+  toOptionsForm,
+} from './cover-letter-options-fields';
+
+export function CoverLetterPreferencesForm() {
+  const [form, setForm] = useState<CoverLetterOptionsForm | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    applicationApi
+      .getCoverLetterPreferences()
+      .then((loaded) => setForm(toOptionsForm(loaded)))
+      .catch((error) => {
+        console.error('Error loading cover letter preferences:', error);
+        setError('Could not load cover letter preferences.');
+      });
+  }, []);
+
+  if (!form) {
+    return error ? <p className="text-sm text-red-600 text-center">{error}</p> : null;
+  }
+
+  const update = (changes: Partial<CoverLetterOptionsForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const options = toCoverLetterOptions(form);
+      const updated = await applicationApi.updateCoverLetterPreferences({
+        tone: options.tone,
+        // Cleared fields go back to the default style
+        wordCount: options.wordCount ?? null,
+        language: options.language ?? null,
+        emphasis: options.emphasis,
+        format: options.format,
+      });
+      setForm(toOptionsForm(updated));
+      setSaved(true);
+    } catch (error) {
+      console.error('Error updating cover letter preferences:', error);
+      setError('Could not save cover letter preferences. Word count must be 100-1000.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Cover Letters</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <CoverLetterOptionsFields form={form} onChange={update} />
+            <p className="text-xs text-gray-500">
+              Used for the cover letter written when an application is added, and as the starting
+              point when generating one yourself.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {saved && <p className="text-sm text-green-600">Preferences saved.</p>}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save preferences'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Application,
+  CoverLetterDiffLine,
+  CoverLetterSource,
+  CoverLetterVersion,
+} from '@/lib/types';
+import { applicationApi } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { History } from 'lucide-react';
+
+interface CoverLetterVersionsProps {
+  applicationId: string;
+  currentLetter?: string;
+  // Bump to reload after the cover letter changes
+  refreshKey: number;
+  onRestore: (application: Application) => void;
+}
+
+const sourceLabels: Record<CoverLetterSource, string> = {
+  [CoverLetterSource.WORKFLOW]: 'Workflow',
+  [CoverLetterSource.MANUAL_GENERATE]: 'Generated',
+  [CoverLetterSource.IMPROVE]: 'Improved',
+  [CoverLetterSource.USER_EDIT]: 'Edited',
+};
+
+interface DiffRow {
+  left: CoverLetterDiffLine | null;
+  right: CoverLetterDiffLine | null;
+}
+
+// Pair each run of removed lines with the added lines that follow it
+function toRows(lines: CoverLetterDiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: CoverLetterDiffLine[] = [];
+  let added: CoverLetterDiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.change === 'removed') {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.change === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+const cellClasses = {
+  unchanged: '',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-green-50 text-green-900',
+};
+
+function DiffCell({ line }: { line: CoverLetterDiffLine | null }) {
+  return (
+    <td
+      className={`w-1/2 align-top px-2 py-0.5 whitespace-pre-wrap ${line ? cellClasses[line.change] : 'bg-gray-50'}`}
+    >
+      {line?.text}
+    </td>
+  );
+}
+
+function formatVersion(version: CoverLetterVersion) {
+  const createdAt = new Date(version.createdAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const model = version.model ? ` · ${version.model}` : '';
+  return `${createdAt} · ${sourceLabels[version.source]}${model}`;
+}
+
+export function CoverLetterVersions({
+  applicationId,
+  currentLetter,
+  refreshKey,
+  onRestore,
+}: CoverLetterVersionsProps) {
+  const [versions, setVersions] = useState<CoverLetterVersion[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [rows, setRows] = useState<DiffRow[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Newest version matching the letter in use; restoring does not add one
+  const current = versions.find((version) => version.content === currentLetter);
+  const currentId = current?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    applicationApi
+      .getCoverLetterVersions(applicationId)
+      .then((loaded) => {
+        if (!cancelled) setVersions(loaded);
+      })
+      .catch((error) => console.error('Error fetching cover letter versions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, refreshKey]);
+
+  useEffect(() => {
+    if (!selectedId || !currentId || selectedId === currentId) {
+      setRows([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    applicationApi
+      .diffCoverLetterVersions(applicationId, selectedId, currentId)
+      .then((diff) => {
+        if (!cancelled) setRows(toRows(diff.lines));
+      })
+      .catch((error) => console.error('Error comparing cover letter versions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, selectedId, currentId]);
+
+  const selected = versions.find((version) => version.id === selectedId);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      onRestore(await applicationApi.restoreCoverLetterVersion(applicationId, selected.id));
+      setSelectedId('');
+    } catch (error) {
+      console.error('Error restoring cover letter version:', error);
+      alert('Error restoring cover letter. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (versions.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-gray-500" />
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="h-9 flex-1 rounded-md border border-slate-200 bg-white px-3 text-sm"
+        >
+          <option value="">Version history ({versions.length})</option>
+          {versions.map((version) => (
+            <option key={version.id} value={version.id}>
+              {formatVersion(version)}
+              {version.id === currentId ? ' (current)' : ''}
+            </option>
+          ))}
+        </select>
+        {selected && selected.id !== currentId && (
+          <Button variant="outline" size="sm" onClick={handleRestore} disabled={isRestoring}>
+            {isRestoring ? 'Restoring...' : 'Restore'}
+          </Button>
+        )}
+      </div>
+
+      {selected && selected.id !== currentId && (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full table-fixed text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50 text-left text-xs text-gray-600">
+                <th className="px-2 py-1 font-medium">{formatVersion(selected)}</th>
+                <th className="px-2 py-1 font-medium">Current</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current ? (
+                rows.map((row, index) => (
+                  <tr key={index}>
+                    <DiffCell line={row.left} />
+                    <DiffCell line={row.right} />
+                  </tr>
+                ))
+              ) : (
+                // The letter in use was never recorded, so show both as is
+                <tr>
+                  <td className="w-1/2 align-top px-2 py-1 whitespace-pre-wrap">
+                    {selected.content}
+                  </td>
+                  <td className="w-1/2 align-top px-2 py-1 whitespace-pre-wrap">{currentLetter}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect, Fragment } from 'react';
+import { Building2, Calendar, Pencil } from 'lucide-react';
+import { Application, ApplicationSearchResult, SearchHighlightField } from '@/lib/types';
+import { applicationApi } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface FullTextSearchResultsProps {
+  query: string;
+  onEdit: (application: Application) => void;
+}
+
+const highlightLabels: Record<SearchHighlightField, string> = {
+  jobDescription: 'Job description',
+  notes: 'Notes',
+  coverLetter: 'Cover letter',
+};
+
+// Snippets come back with matches wrapped in <mark></mark>. Split on the markers
+// and let React escape the text so application content is never injected as HTML.
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
+
+export function FullTextSearchResults({ query, onEdit }: FullTextSearchResultsProps) {
+  const [results, setResults] = useState<ApplicationSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const runSearch = async () => {
+      setLoading(true);
+      try {
+        const response = await applicationApi.search(query);
+        if (!cancelled) {
+          setResults(response.items);
+          setTotal(response.total);
+        }
+      } catch (error) {
+        console.error('Error searching applications:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    runSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        No applications mention &quot;{query}&quot;
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {total} match{total !== 1 ? 'es' : ''} for &quot;{query}&quot;, most relevant first
+      </p>
+
+      {results.map(({ application, highlights }) => (
+        <Card key={application.id}>
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div className="space-y-1">
+                <CardTitle className="text-lg font-semibold">{application.role}</CardTitle>
+                <div className="flex items-center gap-4 text-sm text-gray-600">
+                  <span className="flex items-center gap-2">
+                    <Building2 className="h-4 w-4" />
+                    {application.company}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    {formatDate(application.deadline)}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{application.status}</Badge>
+                <Button variant="outline" size="sm" onClick={() => onEdit(application)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+
+          {Object.keys(highlights).length > 0 && (
+            <CardContent className="space-y-2">
+              {(Object.keys(highlights) as SearchHighlightField[]).map((field) => (
+                <div key={field} className="text-sm">
+                  <span className="font-medium text-gray-700">{highlightLabels[field]}: </span>
+                  <span className="text-gray-600">
+                    <HighlightedSnippet snippet={highlights[field] || ''} />
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { NotificationChannel, NotificationPreferences } from '@/lib/types';
+import { notificationApi } from '@/lib/api';
+
+const CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: 'live', label: 'In app' },
+  { value: 'email', label: 'Email' },
+  { value: 'webhook', label: 'Webhooks' },
+];
+
+const NOTIFICATION_TYPES: { value: string; label: string }[] = [
+  { value: 'status_update', label: 'Status changes' },
+  { value: 'cover_letter_generated', label: 'Cover letter ready' },
+  { value: 'reminder', label: 'Reminders' },
+  { value: 'manual_reminder', label: 'Manual reminders' },
+  { value: 'deadline_reminder', label: 'Deadline reminders' },
+  { value: 'urgent_reminder', label: 'Urgent reminders' },
+  { value: 'deadline', label: 'Deadline passed' },
+  { value: 'archive', label: 'Archived' },
+  { value: 'follow_up', label: 'Follow-up drafts' },
+  { value: 'interview_prep', label: 'Interview prep' },
+  { value: 'interview_feedback', label: 'Interview feedback' },
+  { value: 'offer_deadline', label: 'Offer deadlines' },
+  { value: 'application_deleted', label: 'Deleted' },
+];
+
+const ALL_CHANNELS = CHANNELS.map((channel) => channel.value);
+
+export function NotificationPreferencesForm() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    notificationApi
+      .getPreferences()
+      .then((loaded) =>
+        setPreferences({
+          ...loaded,
+          // Suggest the browser timezone until the user picks one
+          timezone:
+            loaded.timezone === 'UTC'
+              ? Intl.DateTimeFormat().resolvedOptions().timeZone
+              : loaded.timezone,
+        }),
+      )
+      .catch((error) => {
+        console.error('Error loading notification preferences:', error);
+        setError('Could not load notification preferences.');
+      });
+  }, []);
+
+  if (!preferences) {
+    return error ? <p className="text-sm text-red-600 text-center">{error}</p> : null;
+  }
+
+  const channelsFor = (type: string) =>
+    preferences.channels.find((entry) => entry.type === type)?.channels ?? ALL_CHANNELS;
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    setPreferences((prev) => (prev ? { ...prev, ...changes } : prev));
+    setSaved(false);
+  };
+
+  const toggleChannel = (type: string, channel: NotificationChannel) => {
+    const current = channelsFor(type);
+    const next = current.includes(channel)
+      ? current.filter((value) => value !== channel)
+      : [...current, channel];
+    update({
+      channels: [
+        ...preferences.channels.filter((entry) => entry.type !== type),
+        { type, channels: next },
+      ],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const updated = await notificationApi.updatePreferences({
+        // Drop types that are no longer sent, or validation rejects the list
+        channels: preferences.channels.filter((entry) =>
+          NOTIFICATION_TYPES.some((type) => type.value === entry.type),
+        ),
+        minIntervalMinutes: preferences.minIntervalMinutes,
+        // Quiet hours only apply when both ends are set
+        quietHoursStart: preferences.quietHoursStart || null,
+        quietHoursEnd: preferences.quietHoursEnd || null,
+        timezone: preferences.timezone,
+        digestOnly: preferences.digestOnly,
+      });
+      setPreferences(updated);
+      setSaved(true);
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      setError('Could not save notification preferences. Please check the timezone.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <span className="text-sm font-medium">Channels</span>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="text-left font-normal">Type</th>
+                  {CHANNELS.map((channel) => (
+                    <th key={channel.value} className="font-normal">
+                      {channel.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_TYPES.map((type) => (
+                  <tr key={type.value}>
+                    <td>{type.label}</td>
+                    {CHANNELS.map((channel) => (
+                      <td key={channel.value} className="text-center">
+                        <input
+                          type="checkbox"
+                          aria-label={`${type.label} via ${channel.label}`}
+                          checked={channelsFor(type.value).includes(channel.value)}
+                          onChange={() => toggleChannel(type.value, channel.value)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="minIntervalMinutes" className="text-sm font-medium">
+              Minimum minutes between reminders
+            </label>
+            <Input
+              id="minIntervalMinutes"
+              type="number"
+              min={0}
+              max={1440}
+              value={preferences.minIntervalMinutes}
+              onChange={(e) => update({ minIntervalMinutes: Number(e.target.value) || 0 })}
+            />
+            <p className="text-xs text-gray-500">
+              Repeated reminders for the same application are dropped. 0 means no limit.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm font-medium">Quiet hours</span>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                aria-label="Quiet hours start"
+                value={preferences.quietHoursStart || ''}
+                onChange={(e) => update({ quietHoursStart: e.target.value })}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <Input
+                type="time"
+                aria-label="Quiet hours end"
+                value={preferences.quietHoursEnd || ''}
+                onChange={(e) => update({ quietHoursEnd: e.target.value })}
+              />
+            </div>
+            <Input
+              aria-label="Timezone"
+              value={preferences.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              placeholder="e.g. Europe/Berlin"
+            />
+            <p className="text-xs text-gray-500">
+              Only webhooks are sent during quiet hours. Everything is still kept in the history.
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={preferences.digestOnly}
+                onChange={(e) => update({ digestOnly: e.target.checked })}
+              />
+              Send reminders as a daily email digest only
+            </label>
+            <p className="text-xs text-gray-500">
+              Needs a notification email. Without one, reminders are sent as usual.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {saved && <p className="text-sm text-green-600">Preferences saved.</p>}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save preferences'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,22 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { X, Bell, Clock, AlertTriangle, CheckCircle, FileText, Zap, Calendar } from 'lucide-react';
-import { applicationApi, NotificationEvent } from '@/lib/api';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  X,
+  Bell,
+  Clock,
+  AlertTriangle,
+  CheckCircle,
+  FileText,
+  Zap,
+  Calendar,
+  Mail,
+  CalendarClock,
+  MessageSquare,
+  Briefcase,
+} from 'lucide-react';
+import { applicationApi, notificationApi, NotificationEvent } from '@/lib/api';
+import { StoredNotification } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -10,17 +24,33 @@ import { Badge } from '@/components/ui/badge';
 interface Notification extends NotificationEvent {
   id: string;
   read: boolean;
+  // False for live notifications the server couldn't store
+  persisted: boolean;
 }
 
+const fromStoredNotification = (notification: StoredNotification): Notification => ({
+  ...notification,
+  timestamp: notification.createdAt,
+  read: !!notification.readAt,
+  persisted: true,
+});
+
 interface NotificationSystemProps {
   onNotificationReceived?: (notification: NotificationEvent) => void;
 }
 
 export function NotificationSystem({ onNotificationReceived }: NotificationSystemProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [isConnected, setIsConnected] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
 
+  // Latest list for handlers created in earlier renders, e.g. browser notification clicks
+  const notificationsRef = useRef<Notification[]>([]);
+  useEffect(() => {
+    notificationsRef.current = notifications;
+  }, [notifications]);
+
   const getNotificationPriority = (type: string): 'urgent' | 'high' | 'normal' => {
     switch (type) {
       case 'deadline_monitor':
@@ -40,11 +70,11 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
       const priorityOrder = { urgent: 0, high: 1, normal: 2 };
       const aPriority = getNotificationPriority(a.type);
       const bPriority = getNotificationPriority(b.type);
-      
+
       if (aPriority !== bPriority) {
         return priorityOrder[aPriority] - priorityOrder[bPriority];
       }
-      
+
       // If same priority, sort by timestamp (newest first)
       return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
     });
@@ -53,7 +83,7 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
   const showBrowserNotification = (notification: Notification) => {
     if ('Notification' in window && Notification.permission === 'granted') {
       const priority = getNotificationPriority(notification.type);
-      
+
       let title = '';
       let options: NotificationOptions = {
         icon: '/favicon.ico',
@@ -78,7 +108,7 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
 
       if (title) {
         const browserNotification = new Notification(title, options);
-        
+
         // Auto-close non-urgent notifications after 5 seconds
         if (priority !== 'urgent') {
           setTimeout(() => {
@@ -101,11 +131,13 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
     (event: NotificationEvent) => {
       const notification: Notification = {
         ...event,
-        id: `${event.applicationId}-${Date.now()}`,
+        id: event.id ?? `${event.applicationId}-${Date.now()}`,
         read: false,
+        persisted: !!event.id,
       };
 
       setNotifications((prev) => [notification, ...prev.slice(0, 49)]); // Keep max 50 notifications
+      setUnreadCount((prev) => prev + 1);
       onNotificationReceived?.(event);
 
       // Show browser notification for urgent alerts and cover letter generation
@@ -117,6 +149,24 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
     [onNotificationReceived],
   );
 
+  // Load stored notifications and the unread count from the server
+  useEffect(() => {
+    let cancelled = false;
+
+    notificationApi
+      .getHistory({ limit: 50 })
+      .then((history) => {
+        if (cancelled) return;
+        setNotifications(history.items.map(fromStoredNotification));
+        setUnreadCount(history.unreadCount);
+      })
+      .catch((error) => console.error('Failed to load notification history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Request notification permission on component mount
   useEffect(() => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -172,27 +222,45 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
   }, [addNotification]);
 
   const markAsRead = (id: string) => {
-    setNotifications((prev) =>
-      prev.map((notification) =>
-        notification.id === id ? { ...notification, read: true } : notification,
-      ),
-    );
+    const notification = notificationsRef.current.find((n) => n.id === id);
+    if (!notification || notification.read) return;
+
+    setNotifications((prev) => prev.map((n) => (n.id === id ? { ...n, read: true } : n)));
+    setUnreadCount((prev) => Math.max(0, prev - 1));
+
+    if (notification.persisted) {
+      notificationApi
+        .markAsRead(id)
+        .catch((error) => console.error('Failed to mark notification as read:', error));
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications((prev) => prev.map((notification) => ({ ...notification, read: true })));
+  const markAllAsRead = async () => {
+    try {
+      await notificationApi.markAllAsRead();
+      setNotifications((prev) => prev.map((notification) => ({ ...notification, read: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
   };
 
+  // Hides a notification from the panel; it stays in the stored history
   const removeNotification = (id: string) => {
-    setNotifications((prev) => prev.filter((notification) => notification.id !== id));
+    markAsRead(id);
+    setNotifications((prev) => prev.filter((n) => n.id !== id));
   };
 
-  const clearAllNotifications = () => {
-    setNotifications([]);
+  const clearAllNotifications = async () => {
+    try {
+      await notificationApi.clearHistory();
+      setNotifications([]);
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to clear notifications:', error);
+    }
   };
 
-  const unreadCount = notifications.filter((n) => !n.read).length;
-
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'deadline_reminder':
@@ -207,6 +275,14 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
         return <X className="h-4 w-4 text-red-600" />;
       case 'cover_letter_generated':
         return <FileText className="h-4 w-4 text-blue-600" />;
+      case 'follow_up':
+        return <Mail className="h-4 w-4 text-purple-600" />;
+      case 'interview_prep':
+        return <CalendarClock className="h-4 w-4 text-cyan-600" />;
+      case 'interview_feedback':
+        return <MessageSquare className="h-4 w-4 text-cyan-600" />;
+      case 'offer_deadline':
+        return <Briefcase className="h-4 w-4 text-green-600" />;
       case 'manual_reminder':
         return <Calendar className="h-4 w-4 text-orange-600" />;
       case 'urgent_reminder':
@@ -329,11 +405,13 @@ export function NotificationSystem({ onNotificationReceived }: NotificationSyste
                             <div className="w-2 h-2 bg-blue-500 rounded-full" />
                           )}
                         </div>
-                        <p className={`text-sm mb-1 ${
-                          getNotificationPriority(notification.type) === 'urgent' 
-                            ? 'text-red-900 font-medium' 
-                            : 'text-gray-900'
-                        }`}>
+                        <p
+                          className={`text-sm mb-1 ${
+                            getNotificationPriority(notification.type) === 'urgent'
+                              ? 'text-red-900 font-medium'
+                              : 'text-gray-900'
+                          }`}
+                        >
                           {notification.message}
                         </p>
                         <p className="text-xs text-gray-500">
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Offer, OfferDecision } from '@/lib/types';
+import { offerApi } from '@/lib/api';
+import { formatDate, formatMoney, totalCompensation } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+const decisionVariants = {
+  [OfferDecision.PENDING]: 'secondary' as const,
+  [OfferDecision.ACCEPTED]: 'default' as const,
+  [OfferDecision.DECLINED]: 'outline' as const,
+};
+
+const money = (amount: number | null | undefined, currency: string) =>
+  amount != null ? formatMoney(amount, currency) : '—';
+
+// One row per field, one column per offer
+const rows: { label: string; render: (offer: Offer) => React.ReactNode }[] = [
+  { label: 'Base salary', render: (offer) => money(offer.baseSalary, offer.currency) },
+  { label: 'Bonus', render: (offer) => money(offer.bonus, offer.currency) },
+  { label: 'Equity', render: (offer) => money(offer.equity, offer.currency) },
+  {
+    label: 'Total / year',
+    render: (offer) => <strong>{formatMoney(totalCompensation(offer), offer.currency)}</strong>,
+  },
+  {
+    label: 'Start date',
+    render: (offer) => (offer.startDate ? formatDate(`${offer.startDate}T00:00:00`) : '—'),
+  },
+  { label: 'Location', render: (offer) => offer.location || '—' },
+  {
+    label: 'Respond by',
+    render: (offer) =>
+      offer.responseDeadline ? new Date(offer.responseDeadline).toLocaleString() : '—',
+  },
+  {
+    label: 'Decision',
+    render: (offer) => <Badge variant={decisionVariants[offer.decision]}>{offer.decision}</Badge>,
+  },
+  {
+    label: 'Benefits',
+    render: (offer) => <span className="whitespace-pre-wrap">{offer.benefits || '—'}</span>,
+  },
+];
+
+export function OfferComparison() {
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    offerApi
+      .getAll()
+      .then(setOffers)
+      .catch((error) => console.error('Error fetching offers:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (offers.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-gray-600">
+          No offers recorded yet. Record one from an application with status offer.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Offers ({offers.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="p-2" />
+              {offers.map((offer) => (
+                <th key={offer.id} className="p-2 text-left align-top">
+                  <div className="font-semibold">{offer.application?.company}</div>
+                  <div className="font-normal text-gray-600">{offer.application?.role}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-b last:border-0">
+                <th className="p-2 text-left font-medium text-gray-600 whitespace-nowrap">
+                  {row.label}
+                </th>
+                {offers.map((offer) => (
+                  <td key={offer.id} className="p-2 align-top">
+                    {row.render(offer)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
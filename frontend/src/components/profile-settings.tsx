@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { User } from '@/lib/types';
+import { authApi } from '@/lib/api';
+
+interface ProfileSettingsProps {
+  user: User;
+  onSaved: (user: User) => void;
+  onCancel: () => void;
+}
+
+export function ProfileSettings({ user, onSaved, onCancel }: ProfileSettingsProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: user.name || '',
+    notificationEmail: user.notificationEmail || '',
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const updated = await authApi.updateProfile({
+        name: formData.name,
+        // An empty field turns email notifications off
+        notificationEmail: formData.notificationEmail.trim() || null,
+      });
+      onSaved(updated);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      setError('Could not save settings. Please check the email address.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChange = (field: string, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Settings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="name"
+              value={formData.name}
+              onChange={(e) => handleChange('name', e.target.value)}
+              placeholder="e.g. Jane Doe"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="notificationEmail" className="text-sm font-medium">
+              Notification email
+            </label>
+            <Input
+              id="notificationEmail"
+              type="email"
+              value={formData.notificationEmail}
+              onChange={(e) => handleChange('notificationEmail', e.target.value)}
+              placeholder={user.email}
+            />
+            <p className="text-xs text-gray-500">
+              Reminders and deadline alerts are also emailed here. Leave empty to turn email
+              notifications off.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -189,6 +189,15 @@ export function RemindersDashboard({
                   </div>
 
                   <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        handleQuickStatusUpdate(application.id, ApplicationStatus.APPLIED)
+                      }
+                    >
+                      Applied
+                    </Button>
                     <Button
                       size="sm"
                       variant="outline"
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, MapPin, Users } from 'lucide-react';
+import { Interview } from '@/lib/types';
+import { interviewApi } from '@/lib/api';
+import { formatInterviewTime } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface UpcomingInterviewsProps {
+  // Bumped by the dashboard to refetch after applications change
+  refreshKey?: number;
+}
+
+export function UpcomingInterviews({ refreshKey }: UpcomingInterviewsProps) {
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchUpcoming = async () => {
+      try {
+        const upcoming = await interviewApi.getUpcoming();
+        if (!cancelled) setInterviews(upcoming);
+      } catch (error) {
+        console.error('Error fetching upcoming interviews:', error);
+      }
+    };
+
+    fetchUpcoming();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (interviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-cyan-200">
+      <CardHeader className="bg-cyan-50">
+        <CardTitle className="flex items-center gap-2 text-cyan-800">
+          <CalendarClock className="h-5 w-5" />
+          Upcoming Interviews ({interviews.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-4">
+        {interviews.map((interview) => (
+          <div key={interview.id} className="p-3 border border-cyan-100 rounded-lg">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <h4 className="font-semibold">
+                  {interview.application?.role}
+                  <span className="font-normal text-gray-600">
+                    {' '}
+                    at {interview.application?.company}
+                  </span>
+                </h4>
+                <p className="text-sm text-cyan-700">
+                  {formatInterviewTime(interview.scheduledAt, interview.timezone)}
+                </p>
+              </div>
+              <Badge variant="secondary">
+                Round {interview.round} · {interview.format}
+              </Badge>
+            </div>
+            {interview.interviewers.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-gray-600 mt-2">
+                <Users className="h-3 w-3" />
+                {interview.interviewers.join(', ')}
+              </p>
+            )}
+            {interview.location && (
+              <p className="flex items-center gap-1 text-xs text-gray-600 mt-1">
+                <MapPin className="h-3 w-3" />
+                {interview.location}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,54 @@
 import {
   Application,
+  ApplicationQuery,
+  ApplicationSearchResponse,
+  ApplicationStatusChange,
   CreateApplicationDto,
   UpdateApplicationDto,
+  ReopenApplicationDto,
+  ImproveCoverLetterDto,
+  CoverLetterDraft,
+  CoverLetterVersion,
+  CoverLetterDiff,
+  CoverLetterOptions,
+  CoverLetterPreferences,
+  UpdateCoverLetterPreferencesDto,
   ApplicationStatus,
+  PaginatedResponse,
+  StatusCounts,
+  AuthResponse,
+  LoginDto,
+  RegisterDto,
+  User,
+  UpdateProfileDto,
+  NotificationHistory,
+  NotificationQuery,
+  StoredNotification,
+  NotificationPreferences,
+  UpdateNotificationPreferencesDto,
+  Interview,
+  CreateInterviewDto,
+  UpdateInterviewDto,
+  Offer,
+  CreateOfferDto,
+  UpdateOfferDto,
 } from './types';
 import { io, Socket } from 'socket.io-client';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000/api';
 const WS_BASE_URL = process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:4000';
 
-class ApiError extends Error {
+const AUTH_TOKEN_KEY = 'job-assistant-token';
+
+// Access token from login/register, kept in localStorage so it survives reloads
+export const authToken = {
+  get: (): string | null =>
+    typeof window === 'undefined' ? null : window.localStorage.getItem(AUTH_TOKEN_KEY),
+  set: (token: string) => window.localStorage.setItem(AUTH_TOKEN_KEY, token),
+  clear: () => window.localStorage.removeItem(AUTH_TOKEN_KEY),
+};
+
+export class ApiError extends Error {
   constructor(
     message: string,
     public status: number,
@@ -19,13 +58,22 @@ class ApiError extends Error {
   }
 }
 
+function apiHeaders(): Record<string, string> {
+  const token = authToken.get();
+
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': process.env.NEXT_PUBLIC_API_KEY || '',
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+}
+
 async function fetchApi<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
 
   const response = await fetch(url, {
     headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': process.env.NEXT_PUBLIC_API_KEY || '',
+      ...apiHeaders(),
       ...options.headers,
     },
     ...options,
@@ -35,12 +83,17 @@ async function fetchApi<T>(endpoint: string, options: RequestInit = {}): Promise
     throw new ApiError(`API Error: ${response.statusText}`, response.status);
   }
 
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
   return response.json();
 }
 
 export interface BulkUpdateItem {
   id: string;
   status: ApplicationStatus;
+  comment?: string;
 }
 
 export interface BulkUpdateDto {
@@ -48,6 +101,8 @@ export interface BulkUpdateDto {
 }
 
 export interface NotificationEvent {
+  // Missing only if the server failed to store the notification
+  id?: string;
   type: string;
   applicationId: string;
   company: string;
@@ -55,13 +110,191 @@ export interface NotificationEvent {
   status?: ApplicationStatus;
   message: string;
   timestamp: string;
+  readAt?: string | null;
+}
+
+function toQueryString(query: ApplicationQuery | NotificationQuery): string {
+  const params = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, String(value));
+    }
+  });
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
 }
 
+export const authApi = {
+  // Create an account; stores the returned token
+  register: async (data: RegisterDto): Promise<AuthResponse> => {
+    const response = await fetchApi<AuthResponse>('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    authToken.set(response.accessToken);
+    return response;
+  },
+
+  // Log in; stores the returned token
+  login: async (data: LoginDto): Promise<AuthResponse> => {
+    const response = await fetchApi<AuthResponse>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    authToken.set(response.accessToken);
+    return response;
+  },
+
+  // Get the signed-in user
+  me: async (): Promise<User> => {
+    return fetchApi<User>('/auth/me');
+  },
+
+  // Update the signed-in user's profile
+  updateProfile: async (data: UpdateProfileDto): Promise<User> => {
+    return fetchApi<User>('/auth/me', {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  logout: () => {
+    authToken.clear();
+  },
+};
+
+export const notificationApi = {
+  // Get a page of the signed-in user's notifications, newest first
+  getHistory: async (query: NotificationQuery = {}): Promise<NotificationHistory> => {
+    return fetchApi<NotificationHistory>(`/notifications/history${toQueryString(query)}`);
+  },
+
+  markAsRead: async (id: string): Promise<StoredNotification> => {
+    return fetchApi<StoredNotification>(`/notifications/${id}/read`, {
+      method: 'PATCH',
+    });
+  },
+
+  markAllAsRead: async (): Promise<{ updated: number }> => {
+    return fetchApi<{ updated: number }>('/notifications/read-all', {
+      method: 'POST',
+    });
+  },
+
+  clearHistory: async (): Promise<void> => {
+    return fetchApi<void>('/notifications/history', {
+      method: 'DELETE',
+    });
+  },
+
+  getPreferences: async (): Promise<NotificationPreferences> => {
+    return fetchApi<NotificationPreferences>('/notifications/preferences');
+  },
+
+  updatePreferences: async (
+    data: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferences> => {
+    return fetchApi<NotificationPreferences>('/notifications/preferences', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+};
+
+export const interviewApi = {
+  // Pending interviews across all applications, soonest first
+  getUpcoming: async (): Promise<Interview[]> => {
+    return fetchApi<Interview[]>('/interviews/upcoming');
+  },
+
+  // Get an application's interviews
+  getAll: async (applicationId: string): Promise<Interview[]> => {
+    return fetchApi<Interview[]>(`/applications/${applicationId}/interviews`);
+  },
+
+  // Schedule an interview and its prep reminders
+  create: async (applicationId: string, data: CreateInterviewDto): Promise<Interview> => {
+    return fetchApi<Interview>(`/applications/${applicationId}/interviews`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Reschedule an interview or record its outcome
+  update: async (
+    applicationId: string,
+    id: string,
+    data: UpdateInterviewDto,
+  ): Promise<Interview> => {
+    return fetchApi<Interview>(`/applications/${applicationId}/interviews/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete an interview
+  delete: async (applicationId: string, id: string): Promise<void> => {
+    return fetchApi<void>(`/applications/${applicationId}/interviews/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const offerApi = {
+  // All offers with their application, for comparison
+  getAll: async (): Promise<Offer[]> => {
+    return fetchApi<Offer[]>('/offers');
+  },
+
+  // Get an application's offer
+  get: async (applicationId: string): Promise<Offer> => {
+    return fetchApi<Offer>(`/applications/${applicationId}/offer`);
+  },
+
+  // Record the offer for an application in offer status
+  create: async (applicationId: string, data: CreateOfferDto): Promise<Offer> => {
+    return fetchApi<Offer>(`/applications/${applicationId}/offer`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update the offer or record the decision
+  update: async (applicationId: string, data: UpdateOfferDto): Promise<Offer> => {
+    return fetchApi<Offer>(`/applications/${applicationId}/offer`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete the offer
+  delete: async (applicationId: string): Promise<void> => {
+    return fetchApi<void>(`/applications/${applicationId}/offer`, {
+      method: 'DELETE',
+    });
+  },
+};
+
 export const applicationApi = {
-  // Get all applications
-  getAll: async (status?: ApplicationStatus): Promise<Application[]> => {
-    const params = status ? `?status=${status}` : '';
-    return fetchApi<Application[]>(`/applications${params}`);
+  // Search, filter, sort and paginate applications
+  getAll: async (query: ApplicationQuery = {}): Promise<PaginatedResponse<Application>> => {
+    return fetchApi<PaginatedResponse<Application>>(`/applications${toQueryString(query)}`);
+  },
+
+  // Full-text search across job descriptions, notes and cover letters
+  search: async (q: string, limit = 20, offset = 0): Promise<ApplicationSearchResponse> => {
+    const params = new URLSearchParams({ q, limit: String(limit), offset: String(offset) });
+    return fetchApi<ApplicationSearchResponse>(`/applications/search?${params.toString()}`);
+  },
+
+  // Get application counts per status
+  getStatusCounts: async (): Promise<StatusCounts> => {
+    return fetchApi<StatusCounts>('/applications/stats/status');
   },
 
   // Get single application
@@ -69,6 +302,11 @@ export const applicationApi = {
     return fetchApi<Application>(`/applications/${id}`);
   },
 
+  // Get status transition history
+  getTimeline: async (id: string): Promise<ApplicationStatusChange[]> => {
+    return fetchApi<ApplicationStatusChange[]>(`/applications/${id}/timeline`);
+  },
+
   // Create new application
   create: async (data: CreateApplicationDto): Promise<Application> => {
     return fetchApi<Application>('/applications', {
@@ -85,10 +323,117 @@ export const applicationApi = {
     });
   },
 
+  // Reopen a finished application and restart its workflow
+  reopen: async (id: string, data: ReopenApplicationDto = {}): Promise<Application> => {
+    return fetchApi<Application>(`/applications/${id}/reopen`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   // Generate cover letter
-  generateCoverLetter: async (id: string): Promise<Application> => {
+  generateCoverLetter: async (
+    id: string,
+    options: CoverLetterOptions = {},
+  ): Promise<Application> => {
     return fetchApi<Application>(`/applications/${id}/generate-cover-letter`, {
       method: 'POST',
+      body: JSON.stringify(options),
+    });
+  },
+
+  // Generate a cover letter, passing text to onChunk as it is written.
+  // Aborting the signal cancels generation and nothing is saved.
+  streamCoverLetter: async (
+    id: string,
+    options: CoverLetterOptions,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal,
+  ): Promise<Application> => {
+    const response = await fetch(
+      `${API_BASE_URL}/applications/${id}/generate-cover-letter/stream`,
+      {
+        method: 'POST',
+        headers: apiHeaders(),
+        body: JSON.stringify(options),
+        signal,
+      },
+    );
+
+    if (!response.ok || !response.body) {
+      throw new ApiError(`API Error: ${response.statusText}`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+
+      // Server-sent events are separated by a blank line
+      const events = buffered.split('\n\n');
+      buffered = events.pop() ?? '';
+
+      for (const event of events) {
+        const name = event.match(/^event: (.*)$/m)?.[1];
+        const data = event.match(/^data: (.*)$/m)?.[1];
+        if (!name || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (name === 'chunk') onChunk(payload.text);
+        if (name === 'done') return payload as Application;
+        if (name === 'error') throw new Error(payload.message);
+      }
+    }
+
+    throw new Error('Cover letter stream ended before the letter was finished');
+  },
+
+  // Default cover letter options, also used by the workflow
+  getCoverLetterPreferences: async (): Promise<CoverLetterPreferences> => {
+    return fetchApi<CoverLetterPreferences>('/applications/cover-letter/preferences');
+  },
+
+  updateCoverLetterPreferences: async (
+    data: UpdateCoverLetterPreferencesDto,
+  ): Promise<CoverLetterPreferences> => {
+    return fetchApi<CoverLetterPreferences>('/applications/cover-letter/preferences', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Draft an improved cover letter; accepting it restores the draft's version
+  improveCoverLetter: async (
+    id: string,
+    data: ImproveCoverLetterDto,
+  ): Promise<CoverLetterDraft> => {
+    return fetchApi<CoverLetterDraft>(`/applications/${id}/cover-letter/improve`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Cover letter versions, newest first
+  getCoverLetterVersions: async (id: string): Promise<CoverLetterVersion[]> => {
+    return fetchApi<CoverLetterVersion[]>(`/applications/${id}/cover-letter/versions`);
+  },
+
+  diffCoverLetterVersions: async (
+    id: string,
+    fromVersionId: string,
+    toVersionId: string,
+  ): Promise<CoverLetterDiff> => {
+    const params = new URLSearchParams({ from: fromVersionId, to: toVersionId });
+    return fetchApi<CoverLetterDiff>(`/applications/${id}/cover-letter/versions/diff?${params}`);
+  },
+
+  restoreCoverLetterVersion: async (id: string, versionId: string): Promise<Application> => {
+    return fetchApi<Application>(`/applications/${id}/cover-letter/versions/${versionId}/restore`, {
+      method: 'POST',
     });
   },
 
@@ -125,16 +470,22 @@ export const applicationApi = {
     onError?: (error: unknown) => void,
     onOpen?: () => void,
   ) => {
+    // The server derives the user from these credentials and rejects the
+    // connection without them
     const socket: Socket = io(`${WS_BASE_URL}/notifications`, {
       transports: ['websocket'],
       upgrade: true,
+      auth: {
+        token: authToken.get() || undefined,
+        apiKey: process.env.NEXT_PUBLIC_API_KEY || undefined,
+      },
     });
 
     // Connection established
     socket.on('connect', () => {
       console.log('📡 Connected to notification stream via Socket.IO');
       onOpen?.();
-      
+
       // Subscribe to notifications
       socket.emit('subscribe-notifications', {});
     });
@@ -1,5 +1,6 @@
 export enum ApplicationStatus {
   PENDING = 'pending',
+  APPLIED = 'applied',
   INTERVIEW = 'interview',
   OFFER = 'offer',
   REJECTED = 'rejected',
@@ -7,6 +8,34 @@ export enum ApplicationStatus {
   ARCHIVED = 'archived',
 }
 
+export enum StatusChangeSource {
+  REST = 'rest',
+  BULK_UPDATE = 'bulk_update',
+  WORKFLOW_ARCHIVE = 'workflow_archive',
+  ARCHIVE_EXPIRED = 'archive_expired',
+  REOPEN = 'reopen',
+}
+
+export enum CoverLetterSource {
+  WORKFLOW = 'workflow',
+  MANUAL_GENERATE = 'manual_generate',
+  IMPROVE = 'improve',
+  USER_EDIT = 'user_edit',
+}
+
+export enum CoverLetterTone {
+  PROFESSIONAL = 'professional',
+  ENTHUSIASTIC = 'enthusiastic',
+  FORMAL = 'formal',
+  FRIENDLY = 'friendly',
+  CONFIDENT = 'confident',
+}
+
+export enum CoverLetterFormat {
+  PLAIN = 'plain',
+  MARKDOWN = 'markdown',
+}
+
 export interface Application {
   id: string;
   company: string;
@@ -17,9 +46,44 @@ export interface Application {
   deadline: string;
   status: ApplicationStatus;
   notes?: string;
+  // Offsets before the deadline such as 7d or 2h; null uses the default schedule
+  reminderOffsets?: string[] | null;
+  gracePeriodDays?: number | null;
+  // Latest follow-up email drafted while the application is applied
+  followUpDraft?: string | null;
   workflowId: string;
   createdAt: string;
   updatedAt: string;
+  allowedTransitions?: ApplicationStatus[];
+  canReopen?: boolean;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  notificationEmail?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateProfileDto {
+  name?: string;
+  notificationEmail?: string | null;
+}
+
+export interface AuthResponse {
+  accessToken: string;
+  user: User;
+}
+
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+export interface RegisterDto extends LoginDto {
+  name?: string;
 }
 
 export interface CreateApplicationDto {
@@ -29,10 +93,257 @@ export interface CreateApplicationDto {
   resume: string;
   deadline?: string;
   notes?: string;
+  reminderOffsets?: string[] | null;
+  gracePeriodDays?: number | null;
+}
+
+export interface ReopenApplicationDto {
+  deadline?: string;
+  comment?: string;
+}
+
+export interface ImproveCoverLetterDto {
+  feedback: string;
+  // Draft to refine instead of the saved cover letter
+  coverLetter?: string;
+}
+
+export interface CoverLetterDraft {
+  coverLetter: string;
+  // Restore this version to accept the draft
+  versionId: string;
+}
+
+export interface CoverLetterVersion {
+  id: string;
+  applicationId: string;
+  content: string;
+  source: CoverLetterSource;
+  model?: string | null;
+  promptHash?: string | null;
+  createdAt: string;
+}
+
+// Left out options fall back to the saved preferences
+export interface CoverLetterOptions {
+  tone?: CoverLetterTone;
+  wordCount?: number;
+  language?: string;
+  emphasis?: string[];
+  hiringManagerName?: string;
+  format?: CoverLetterFormat;
+}
+
+export interface CoverLetterPreferences {
+  tone: CoverLetterTone;
+  // Empty for 3-4 paragraphs
+  wordCount?: number | null;
+  language?: string | null;
+  emphasis: string[];
+  format: CoverLetterFormat;
+}
+
+export type UpdateCoverLetterPreferencesDto = Partial<CoverLetterPreferences>;
+
+export interface CoverLetterDiffLine {
+  change: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export interface CoverLetterDiff {
+  from: CoverLetterVersion;
+  to: CoverLetterVersion;
+  lines: CoverLetterDiffLine[];
 }
 
 export interface UpdateApplicationDto {
   status?: ApplicationStatus;
+  statusComment?: string;
+  deadline?: string;
   notes?: string;
   coverLetter?: string;
+  reminderOffsets?: string[] | null;
+  gracePeriodDays?: number | null;
+}
+
+export type ApplicationSortField =
+  'createdAt' | 'updatedAt' | 'deadline' | 'company' | 'role' | 'status';
+
+export interface ApplicationQuery {
+  status?: ApplicationStatus[];
+  search?: string;
+  deadlineFrom?: string;
+  deadlineTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  sortBy?: ApplicationSortField;
+  sortOrder?: 'ASC' | 'DESC';
+  limit?: number;
+  offset?: number;
+}
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export type StatusCounts = Record<ApplicationStatus | 'all', number>;
+
+export interface StoredNotification {
+  id: string;
+  userId?: string;
+  type: string;
+  applicationId: string;
+  company: string;
+  role: string;
+  status?: ApplicationStatus;
+  message: string;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface NotificationQuery {
+  type?: string;
+  applicationId?: string;
+  unread?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NotificationHistory extends PaginatedResponse<StoredNotification> {
+  unreadCount: number;
+}
+
+export type NotificationChannel = 'live' | 'email' | 'webhook';
+
+export interface NotificationTypeChannels {
+  type: string;
+  channels: NotificationChannel[];
+}
+
+export interface NotificationPreferences {
+  // Types not listed here are delivered on every channel
+  channels: NotificationTypeChannels[];
+  minIntervalMinutes: number;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone: string;
+  digestOnly: boolean;
+}
+
+export type UpdateNotificationPreferencesDto = Partial<NotificationPreferences>;
+
+export type SearchHighlightField = 'jobDescription' | 'notes' | 'coverLetter';
+
+export interface ApplicationSearchResult {
+  application: Application;
+  rank: number;
+  highlights: Partial<Record<SearchHighlightField, string>>;
+}
+
+export interface ApplicationSearchResponse {
+  items: ApplicationSearchResult[];
+  total: number;
+  query: string;
+}
+
+export interface ApplicationStatusChange {
+  id: string;
+  applicationId: string;
+  fromStatus?: ApplicationStatus;
+  toStatus: ApplicationStatus;
+  source: StatusChangeSource;
+  comment?: string;
+  changedAt: string;
+}
+
+export enum InterviewFormat {
+  PHONE = 'phone',
+  VIDEO = 'video',
+  ONSITE = 'onsite',
+  OTHER = 'other',
+}
+
+export enum InterviewOutcome {
+  PENDING = 'pending',
+  PASSED = 'passed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface Interview {
+  id: string;
+  applicationId: string;
+  round: number;
+  scheduledAt: string;
+  // IANA time zone the interview was scheduled in, e.g. Europe/Berlin
+  timezone: string;
+  format: InterviewFormat;
+  interviewers: string[];
+  location?: string | null;
+  outcome: InterviewOutcome;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Only included by the upcoming interviews endpoint
+  application?: Application;
+}
+
+export interface CreateInterviewDto {
+  scheduledAt: string;
+  round?: number;
+  timezone?: string;
+  format?: InterviewFormat;
+  interviewers?: string[];
+  location?: string;
+  notes?: string;
+}
+
+export interface UpdateInterviewDto extends Partial<CreateInterviewDto> {
+  outcome?: InterviewOutcome;
+}
+
+export enum OfferDecision {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+}
+
+export interface Offer {
+  id: string;
+  applicationId: string;
+  // Yearly amounts in whole units of currency
+  baseSalary: number;
+  bonus?: number | null;
+  equity?: number | null;
+  currency: string;
+  startDate?: string | null;
+  location?: string | null;
+  benefits?: string | null;
+  responseDeadline?: string | null;
+  decision: OfferDecision;
+  createdAt: string;
+  updatedAt: string;
+  // Only included when listing all offers
+  application?: Application;
+}
+
+export interface CreateOfferDto {
+  baseSalary: number;
+  bonus?: number | null;
+  equity?: number | null;
+  currency?: string;
+  startDate?: string | null;
+  location?: string | null;
+  benefits?: string | null;
+  responseDeadline?: string | null;
+}
+
+export interface UpdateOfferDto extends Partial<CreateOfferDto> {
+  decision?: OfferDecision;
 }
@@ -24,3 +24,30 @@ export function daysUntilDeadline(deadline: string | Date) {
   const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   return diffDays;
 }
+
+// Interview time in the zone it was scheduled in, e.g. "Mar 20, 2024, 3:00 PM (Europe/Berlin)"
+export function formatInterviewTime(scheduledAt: string | Date, timezone: string) {
+  const time = new Date(scheduledAt).toLocaleString('en-US', {
+    timeZone: timezone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  return `${time} (${timezone})`;
+}
+
+export function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+// Yearly base, bonus and equity together
+export function totalCompensation(offer: {
+  baseSalary: number;
+  bonus?: number | null;
+  equity?: number | null;
+}) {
+  return offer.baseSalary + (offer.bonus ?? 0) + (offer.equity ?? 0);
+}
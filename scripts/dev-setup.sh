@@ -122,6 +122,10 @@ DATABASE_NAME=job_assistant
 TEMPORAL_ADDRESS=localhost:7233
 TEMPORAL_NAMESPACE=default
 
+# Redis (delivers worker notifications to the API's WebSocket clients)
+REDIS_HOST=localhost
+REDIS_PORT=6379
+
 # AI Integration
 GEMINI_API_KEY=your_gemini_api_key_here
 